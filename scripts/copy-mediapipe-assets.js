@@ -0,0 +1,22 @@
+/**
+ * Copies the MediaPipe Face Mesh WASM, model and loader files into public/,
+ * so liveness checks load them from the app itself and work without a CDN.
+ * Runs on install; public/mediapipe is generated and not committed.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const source = path.join(__dirname, '..', 'node_modules', '@mediapipe', 'face_mesh');
+const target = path.join(__dirname, '..', 'public', 'mediapipe', 'face_mesh');
+
+if (!fs.existsSync(source)) {
+    console.warn('[mediapipe] @mediapipe/face_mesh not installed - skipping asset copy');
+    process.exit(0);
+}
+
+fs.mkdirSync(target, { recursive: true });
+for (const file of fs.readdirSync(source)) {
+    if (!/\.(js|wasm|data|binarypb)$/.test(file)) continue;
+    fs.copyFileSync(path.join(source, file), path.join(target, file));
+}
+console.log(`[mediapipe] Face mesh assets copied to ${path.relative(process.cwd(), target)}`);
@@ -4,6 +4,13 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
 import { COMPANY_NAME } from '@/lib/config';
+import { businessDate, addDays, monthStart } from '@/lib/business-date';
+import { loadWageContext, computeWages } from '@/lib/wage-engine';
+import { PaymentBatch } from '@/lib/payment-batches';
+import {
+    PaymentLine, LineStatus, TRANSFER_MODE_LABELS, preparePaymentLines, loadPaymentLines, retryFailedLines,
+    neftRtgsCsv, upiPayoutCsv, markLinesExported, parseBankResponse, applyBankResponse,
+} from '@/lib/bank-payments';
 
 interface DailyReport {
     date: string;
@@ -14,6 +21,12 @@ interface DailyReport {
     status: 'OK' | 'MISMATCH' | 'PENDING';
 }
 
+const LINE_STATUS_STYLES: Record<LineStatus, string> = {
+    pending: 'bg-amber-500/20 text-amber-400',
+    sent: 'bg-green-500/20 text-green-400',
+    failed: 'bg-red-500/20 text-red-400',
+};
+
 interface RecentExpense {
     id: string;
     date: string;
@@ -26,6 +39,7 @@ interface RecentExpense {
 export default function AccountantDashboard() {
     const router = useRouter();
     const [loading, setLoading] = useState(true);
+    const [userId, setUserId] = useState<string | null>(null);
     const [userEmail, setUserEmail] = useState('');
     const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'expenses' | 'attendance' | 'settlements'>('overview');
     const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -36,7 +50,14 @@ export default function AccountantDashboard() {
     const [recentExpenses, setRecentExpenses] = useState<RecentExpense[]>([]);
     const [monthTotal, setMonthTotal] = useState({ expenses: 0, attendance: 0, wages: 0 });
 
-    const currentDate = new Date().toISOString().split('T')[0];
+    // Settlements: bank/UPI payment files per batch
+    const [batches, setBatches] = useState<PaymentBatch[]>([]);
+    const [selectedBatch, setSelectedBatch] = useState<PaymentBatch | null>(null);
+    const [paymentLines, setPaymentLines] = useState<PaymentLine[]>([]);
+    const [settling, setSettling] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const currentDate = businessDate();
 
     useEffect(() => { checkAuth(); }, []);
 
@@ -49,28 +70,25 @@ export default function AccountantDashboard() {
             router.push('/dashboard');
             return;
         }
+        setUserId(user.id);
         setUserEmail(profile.email || '');
         await loadData();
         setLoading(false);
     };
 
     const loadData = async () => {
-        const monthStart = new Date();
-        monthStart.setDate(1);
-        const monthStartStr = monthStart.toISOString().split('T')[0];
+        const monthStartStr = monthStart(currentDate);
 
-        const weekDates = Array.from({ length: 7 }, (_, i) => {
-            const d = new Date();
-            d.setDate(d.getDate() - i);
-            return d.toISOString().split('T')[0];
-        }).reverse();
+        const weekDates = Array.from({ length: 7 }, (_, i) => addDays(currentDate, -i)).reverse();
 
-        const [todayLogsRes, expensesRes, allLogsRes, closingsRes, workersRes] = await Promise.all([
+        const [todayLogsRes, expensesRes, allLogsRes, closingsRes, workersRes, batchesRes, wageContext] = await Promise.all([
             supabase.from('attendance_logs').select('*').eq('date', currentDate),
             supabase.from('expenses').select('*').gte('date', monthStartStr).order('created_at', { ascending: false }),
-            supabase.from('attendance_logs').select('*').gte('date', monthStartStr),
+            supabase.from('attendance_logs').select('*, leave_requests(leave_types(is_paid))').gte('date', monthStartStr).lte('date', currentDate),
             supabase.from('daily_closings').select('*').in('date', weekDates),
-            supabase.from('workers').select('id, base_rate').eq('is_active', true),
+            supabase.from('workers').select('id, base_rate, category, site_id, shift_id').eq('is_active', true),
+            supabase.from('payment_batches').select('*').order('created_at', { ascending: false }).limit(20),
+            loadWageContext(monthStartStr, currentDate),
         ]);
 
         const todayLogs = todayLogsRes.data || [];
@@ -78,6 +96,7 @@ export default function AccountantDashboard() {
         const allLogs = allLogsRes.data || [];
         const closings = closingsRes.data || [];
         const workers = workersRes.data || [];
+        setBatches(batchesRes.data || []);
 
         const todayExpenses = expenses.filter(e => e.date === currentDate);
         let totalHours = 0;
@@ -95,7 +114,7 @@ export default function AccountantDashboard() {
         });
 
         const reports: DailyReport[] = weekDates.map(date => {
-            const dayLogs = allLogs.filter(l => l.date === date);
+            const dayLogs = allLogs.filter(l => l.date === date && l.check_in_time);
             const dayExpenses = expenses.filter(e => e.date === date);
             const closing = closings.find(c => c.date === date);
 
@@ -119,9 +138,95 @@ export default function AccountantDashboard() {
         setRecentExpenses(expenses.slice(0, 20));
 
         const monthExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
-        const monthAttendance = allLogs.length;
-        const avgRate = workers.length > 0 ? workers.reduce((sum, w) => sum + w.base_rate, 0) / workers.length : 500;
-        setMonthTotal({ expenses: monthExpenses, attendance: monthAttendance, wages: monthAttendance * avgRate });
+        const monthAttendance = allLogs.filter(l => l.check_in_time).length;
+        // Month-to-date wages from the shared engine, the same figures payouts and payslips use
+        const monthWages = workers.reduce((sum, worker) => sum + computeWages({
+            worker,
+            attendance: allLogs.filter(l => l.worker_id === worker.id),
+            startDate: monthStartStr,
+            endDate: currentDate,
+            context: wageContext,
+        }).gross, 0);
+        setMonthTotal({ expenses: monthExpenses, attendance: monthAttendance, wages: Math.round(monthWages) });
+    };
+
+    const notify = (type: 'success' | 'error', message: string) => {
+        setNotification({ type, message });
+        setTimeout(() => setNotification(null), 3000);
+    };
+
+    const openBatch = async (batch: PaymentBatch) => {
+        setSelectedBatch(batch);
+        setPaymentLines([]);
+        setSettling(true);
+        try {
+            setPaymentLines(await preparePaymentLines(batch, userId));
+        } catch (error: any) {
+            console.error('Error preparing payment lines:', error);
+            notify('error', error.message || 'Could not prepare payment lines');
+        } finally {
+            setSettling(false);
+        }
+    };
+
+    const downloadPaymentFile = async (kind: 'bank' | 'upi') => {
+        if (!selectedBatch) return;
+        const included = paymentLines.filter(l => l.status !== 'sent' && (kind === 'upi' ? l.mode === 'upi' : l.mode === 'neft' || l.mode === 'rtgs'));
+        if (included.length === 0) {
+            notify('error', kind === 'upi' ? 'No UPI payments left to send' : 'No bank transfers left to send');
+            return;
+        }
+
+        const narration = `Wages ${selectedBatch.start_date} to ${selectedBatch.end_date}`;
+        const csvContent = kind === 'upi' ? upiPayoutCsv(included, narration) : neftRtgsCsv(included, currentDate, narration);
+        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${kind === 'upi' ? 'upi_payout' : 'neft_rtgs'}_${selectedBatch.start_date}_to_${selectedBatch.end_date}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+
+        try {
+            await markLinesExported(included, userId);
+            setPaymentLines(await loadPaymentLines(selectedBatch.id));
+            notify('success', `${included.length} payments exported`);
+        } catch (error: any) {
+            console.error('Error marking lines exported:', error);
+            notify('error', error.message || 'Could not record the export');
+        }
+    };
+
+    const importBankResponse = async (file: File | undefined) => {
+        if (!file || !selectedBatch) return;
+        setSettling(true);
+        try {
+            const response = parseBankResponse(await file.text());
+            const { updated, unmatched } = await applyBankResponse(selectedBatch.id, response, userId);
+            setPaymentLines(await loadPaymentLines(selectedBatch.id));
+            notify(unmatched.length > 0 ? 'error' : 'success',
+                `${updated} payments updated${unmatched.length > 0 ? `, ${unmatched.length} references not in this batch` : ''}`);
+        } catch (error: any) {
+            console.error('Error importing bank response:', error);
+            notify('error', error.message || 'Could not read the response file');
+        } finally {
+            setSettling(false);
+        }
+    };
+
+    const retryFailed = async () => {
+        if (!selectedBatch) return;
+        setSettling(true);
+        try {
+            const count = await retryFailedLines(selectedBatch.id, userId);
+            setPaymentLines(await loadPaymentLines(selectedBatch.id));
+            notify('success', `${count} failed payments ready to send again`);
+        } catch (error: any) {
+            console.error('Error retrying failed payments:', error);
+            notify('error', error.message || 'Could not retry failed payments');
+        } finally {
+            setSettling(false);
+        }
     };
 
     const handleLogout = async () => {
@@ -137,6 +242,12 @@ export default function AccountantDashboard() {
         );
     }
 
+    const lineTotals = (['pending', 'sent', 'failed'] as LineStatus[]).map(status => {
+        const lines = paymentLines.filter(l => l.status === status && l.mode !== 'cash');
+        return { status, count: lines.length, amount: lines.reduce((sum, l) => sum + l.amount, 0) };
+    });
+    const cashLines = paymentLines.filter(l => l.mode === 'cash');
+
     const tabs = [
         { id: 'overview', label: 'Overview', icon: '📊' },
         { id: 'tasks', label: 'My Tasks', icon: '📝' },
@@ -150,6 +261,12 @@ export default function AccountantDashboard() {
             {/* Background Gradient */}
             <div className="fixed inset-0 bg-gradient-to-br from-slate-900 via-purple-900/20 to-slate-900 pointer-events-none" />
 
+            {notification && (
+                <div className={`fixed top-4 right-4 z-[60] px-4 py-3 rounded-xl text-sm font-medium shadow-lg ${notification.type === 'success' ? 'bg-green-500/90 text-white' : 'bg-red-500/90 text-white'}`}>
+                    {notification.message}
+                </div>
+            )}
+
             {/* Mobile Header */}
             <header className="sticky top-0 z-50 bg-black/40 backdrop-blur-xl border-b border-white/10 px-4 py-3 lg:px-8 lg:py-4">
                 <div className="flex items-center justify-between">
@@ -215,7 +332,7 @@ export default function AccountantDashboard() {
                                 </div>
                                 <div>
                                     <p className="text-xl lg:text-3xl font-bold text-purple-400">₹{monthTotal.wages.toLocaleString()}</p>
-                                    <p className="text-xs text-slate-400 mt-1">Est. Wages</p>
+                                    <p className="text-xs text-slate-400 mt-1">Wages</p>
                                 </div>
                             </div>
                         </div>
@@ -362,10 +479,125 @@ export default function AccountantDashboard() {
                 )}
 
                 {activeTab === 'settlements' && (
-                    <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-8 text-center">
-                        <span className="text-4xl block mb-4">💵</span>
-                        <p className="text-white font-medium">Settlements</p>
-                        <p className="text-sm text-slate-400 mt-2">10-Day settlement batches coming soon...</p>
+                    <div className="space-y-6">
+                        <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                            <div className="px-4 py-3 border-b border-white/10">
+                                <h3 className="font-semibold text-white">💵 Payment Batches</h3>
+                            </div>
+                            <div className="divide-y divide-white/5">
+                                {batches.length === 0 ? (
+                                    <p className="px-4 py-6 text-center text-slate-400 text-sm">No payment batches yet</p>
+                                ) : batches.map(batch => (
+                                    <button key={batch.id} onClick={() => openBatch(batch)}
+                                        className={`w-full flex items-center justify-between px-4 py-3 text-left hover:bg-white/5 ${selectedBatch?.id === batch.id ? 'bg-cyan-500/10' : ''}`}>
+                                        <div>
+                                            <p className="text-white text-sm font-medium">
+                                                {new Date(batch.start_date).toLocaleDateString('en-IN')} – {new Date(batch.end_date).toLocaleDateString('en-IN')}
+                                            </p>
+                                            <p className="text-xs text-slate-500 capitalize">{batch.payment_method} • {batch.status}</p>
+                                        </div>
+                                        <p className="text-white font-bold">₹{Math.round(batch.total_wages).toLocaleString()}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {selectedBatch && (
+                            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                                <div className="px-4 py-3 border-b border-white/10 flex flex-wrap items-center justify-between gap-2">
+                                    <h3 className="font-semibold text-white">
+                                        🏦 Transfers {new Date(selectedBatch.start_date).toLocaleDateString('en-IN')} – {new Date(selectedBatch.end_date).toLocaleDateString('en-IN')}
+                                    </h3>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button onClick={() => downloadPaymentFile('bank')} disabled={settling}
+                                            className="px-3 py-1.5 bg-cyan-500/20 text-cyan-400 border border-cyan-500/30 rounded-lg text-xs hover:bg-cyan-500/30 disabled:opacity-50">
+                                            ⬇ NEFT/RTGS CSV
+                                        </button>
+                                        <button onClick={() => downloadPaymentFile('upi')} disabled={settling}
+                                            className="px-3 py-1.5 bg-purple-500/20 text-purple-400 border border-purple-500/30 rounded-lg text-xs hover:bg-purple-500/30 disabled:opacity-50">
+                                            ⬇ UPI Sheet
+                                        </button>
+                                        <label className={`px-3 py-1.5 bg-white/5 text-slate-300 border border-white/10 rounded-lg text-xs hover:bg-white/10 cursor-pointer ${settling ? 'opacity-50 pointer-events-none' : ''}`}>
+                                            ⬆ Import Bank Response
+                                            <input type="file" accept=".csv,text/csv" className="hidden"
+                                                onChange={e => { importBankResponse(e.target.files?.[0]); e.target.value = ''; }} />
+                                        </label>
+                                        {lineTotals[2].count > 0 && (
+                                            <button onClick={retryFailed} disabled={settling}
+                                                className="px-3 py-1.5 bg-red-500/10 text-red-400 border border-red-500/20 rounded-lg text-xs hover:bg-red-500/20 disabled:opacity-50">
+                                                ↻ Retry Failed
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 p-4">
+                                    {lineTotals.map(t => (
+                                        <div key={t.status} className="bg-black/20 rounded-xl p-3">
+                                            <span className={`px-2 py-0.5 rounded text-xs capitalize ${LINE_STATUS_STYLES[t.status]}`}>{t.status}</span>
+                                            <p className="text-white font-bold mt-2">₹{t.amount.toLocaleString()}</p>
+                                            <p className="text-xs text-slate-500">{t.count} payments</p>
+                                        </div>
+                                    ))}
+                                    <div className="bg-black/20 rounded-xl p-3">
+                                        <span className="px-2 py-0.5 rounded text-xs bg-slate-500/20 text-slate-300">Cash</span>
+                                        <p className="text-white font-bold mt-2">₹{cashLines.reduce((sum, l) => sum + l.amount, 0).toLocaleString()}</p>
+                                        <p className="text-xs text-slate-500">{cashLines.length} without bank/UPI details</p>
+                                    </div>
+                                </div>
+
+                                {settling && paymentLines.length === 0 ? (
+                                    <div className="flex justify-center py-8">
+                                        <div className="w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
+                                    </div>
+                                ) : paymentLines.length === 0 ? (
+                                    <p className="px-4 pb-6 text-center text-slate-400 text-sm">No wages to transfer in this batch</p>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-sm">
+                                            <thead className="bg-black/20 text-slate-400">
+                                                <tr>
+                                                    <th className="px-4 py-3 text-left">Worker</th>
+                                                    <th className="px-4 py-3 text-left">Mode</th>
+                                                    <th className="px-4 py-3 text-left">Account / UPI</th>
+                                                    <th className="px-4 py-3 text-right">Amount</th>
+                                                    <th className="px-4 py-3 text-left">Reference</th>
+                                                    <th className="px-4 py-3 text-left">Status</th>
+                                                    <th className="px-4 py-3 text-left">UTR / Reason</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-white/5">
+                                                {paymentLines.map(line => (
+                                                    <tr key={line.id} className="hover:bg-white/5 text-white">
+                                                        <td className="px-4 py-3">{line.worker_name}</td>
+                                                        <td className="px-4 py-3">{TRANSFER_MODE_LABELS[line.mode]}</td>
+                                                        <td className="px-4 py-3 text-slate-300 text-xs">
+                                                            {line.mode === 'upi' ? line.upi_id : line.account_number ? `${line.account_number} • ${line.ifsc}` : '-'}
+                                                        </td>
+                                                        <td className="px-4 py-3 text-right font-medium">₹{line.amount.toLocaleString()}</td>
+                                                        <td className="px-4 py-3 text-slate-400 font-mono text-xs">{line.reference}</td>
+                                                        <td className="px-4 py-3">
+                                                            {line.mode === 'cash' ? (
+                                                                <span className="text-xs text-slate-500">Pay in cash</span>
+                                                            ) : (
+                                                                <span className={`px-2 py-0.5 rounded text-xs capitalize ${LINE_STATUS_STYLES[line.status]}`}>
+                                                                    {line.status}{line.status === 'pending' && line.exported_at ? ' (exported)' : ''}
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                        <td className="px-4 py-3 text-xs">
+                                                            {line.status === 'failed'
+                                                                ? <span className="text-red-400">{line.failure_reason || 'Failed'}</span>
+                                                                : <span className="text-slate-400 font-mono">{line.utr || '-'}</span>}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
             </main>
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
 
 interface DailyTask {
     id: string;
@@ -34,7 +35,7 @@ export default function AccountantTasksPage() {
     const [tasks, setTasks] = useState<DailyTask[]>([]);
     const [loading, setLoading] = useState(true);
     const [newTask, setNewTask] = useState('');
-    const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+    const [selectedDate, setSelectedDate] = useState(() => businessDate());
     const [userId, setUserId] = useState<string | null>(null);
     const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
 
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
+import {
+    loadOpenDebits, loadWorkerLedger, addLedgerEntry, recordRepayment, outstandingFor, LEDGER_LABELS,
+    OpenDebit, LedgerEntry, DebitType,
+} from '@/lib/worker-ledger';
+
+interface WorkerOption {
+    id: string;
+    name: string;
+    worker_number: string | null;
+}
+
+const DEBIT_TYPES: DebitType[] = ['advance', 'loan', 'fine'];
+
+const emptyEntry = () => ({ workerId: '', entryType: 'advance' as DebitType, amount: '', instalment: '', recoverFrom: businessDate(), note: '' });
+
+export default function AdminAdvancesPage() {
+    const [workers, setWorkers] = useState<WorkerOption[]>([]);
+    const [debits, setDebits] = useState<OpenDebit[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedWorker, setSelectedWorker] = useState<string | null>(null);
+    const [ledger, setLedger] = useState<(LedgerEntry & { balance: number })[]>([]);
+    const [repayment, setRepayment] = useState('');
+    const [showModal, setShowModal] = useState(false);
+    const [newEntry, setNewEntry] = useState(emptyEntry);
+    const [saving, setSaving] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+    useEffect(() => { loadData(); }, []);
+    useEffect(() => {
+        if (selectedWorker) loadWorkerLedger(selectedWorker).then(setLedger);
+        else setLedger([]);
+    }, [selectedWorker]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    const loadData = async () => {
+        const [workersRes, openDebits] = await Promise.all([
+            supabase.from('workers').select('id, name, worker_number').eq('is_active', true).order('name'),
+            loadOpenDebits(),
+        ]);
+        setWorkers(workersRes.data || []);
+        setDebits(openDebits);
+        setLoading(false);
+    };
+
+    const refresh = async () => {
+        await loadData();
+        if (selectedWorker) setLedger(await loadWorkerLedger(selectedWorker));
+    };
+
+    const handleAddEntry = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseInt(newEntry.amount);
+        if (!newEntry.workerId || isNaN(amount) || amount <= 0) {
+            setNotification({ type: 'error', message: 'Select a worker and enter an amount' });
+            return;
+        }
+        setSaving(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await addLedgerEntry({
+                workerId: newEntry.workerId,
+                entryType: newEntry.entryType,
+                amount,
+                date: businessDate(),
+                instalment: parseInt(newEntry.instalment) || null,
+                recoverFrom: newEntry.recoverFrom,
+                note: newEntry.note,
+            }, user?.id || null);
+            setNotification({ type: 'success', message: `${LEDGER_LABELS[newEntry.entryType].label} recorded!` });
+            setShowModal(false);
+            setSelectedWorker(newEntry.workerId);
+            setNewEntry(emptyEntry());
+            refresh();
+        } catch (error: any) {
+            setNotification({ type: 'error', message: error.message || 'Failed to save' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRepayment = async () => {
+        const amount = parseInt(repayment);
+        if (!selectedWorker || isNaN(amount) || amount <= 0) return;
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await recordRepayment(selectedWorker, amount, businessDate(), user?.id || null);
+            setNotification({ type: 'success', message: 'Repayment recorded!' });
+            setRepayment('');
+            refresh();
+        } catch (error: any) {
+            setNotification({ type: 'error', message: error.message || 'Failed to save' });
+        }
+    };
+
+    const owing = workers
+        .map(w => ({ worker: w, outstanding: outstandingFor(debits, w.id) }))
+        .filter(o => o.outstanding > 0)
+        .sort((a, b) => b.outstanding - a.outstanding);
+    const totalOutstanding = owing.reduce((sum, o) => sum + o.outstanding, 0);
+    const selected = workers.find(w => w.id === selectedWorker);
+    const selectedDebits = debits.filter(d => d.worker_id === selectedWorker);
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <div className="w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 relative">
+            {/* Toast Notification */}
+            {notification && (
+                <div className={`fixed bottom-6 right-6 z-[100] px-6 py-4 rounded-xl shadow-2xl border flex items-center gap-3 ${notification.type === 'success'
+                        ? 'bg-slate-900/90 border-green-500/30 text-green-400'
+                        : 'bg-slate-900/90 border-red-500/30 text-red-400'
+                    }`}>
+                    <span className="text-2xl">{notification.type === 'success' ? '✓' : '⚠️'}</span>
+                    <span className="font-medium">{notification.message}</span>
+                </div>
+            )}
+
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div>
+                    <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                        💵 Advances & Deductions
+                    </h1>
+                    <p className="text-sm text-slate-400">Due instalments are taken off wages when payouts are processed</p>
+                </div>
+                <button onClick={() => setShowModal(true)}
+                    className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl hover:from-cyan-400 hover:to-blue-400 font-medium">
+                    + New Entry
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Outstanding Balances */}
+                <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                    <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
+                        <h3 className="font-semibold text-white">Outstanding</h3>
+                        <span className="text-cyan-400 font-bold">₹{totalOutstanding.toLocaleString()}</span>
+                    </div>
+                    {owing.length === 0 ? (
+                        <p className="text-center py-12 text-slate-500">Nothing outstanding</p>
+                    ) : (
+                        <div className="divide-y divide-white/5">
+                            {owing.map(({ worker, outstanding }) => (
+                                <button key={worker.id} onClick={() => setSelectedWorker(worker.id)}
+                                    className={`w-full flex items-center justify-between px-4 py-3 text-left hover:bg-white/5 ${selectedWorker === worker.id ? 'bg-cyan-500/10' : ''}`}>
+                                    <div className="min-w-0">
+                                        <p className="text-white font-medium truncate">{worker.name}</p>
+                                        <p className="text-xs text-slate-500">{worker.worker_number || 'No ID'}</p>
+                                    </div>
+                                    <span className="text-amber-400 font-medium">₹{outstanding.toLocaleString()}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Worker Ledger */}
+                <div className="lg:col-span-2 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                    <div className="px-4 py-3 border-b border-white/10 flex flex-col md:flex-row md:items-center gap-3">
+                        <select value={selectedWorker || ''} onChange={(e) => setSelectedWorker(e.target.value || null)}
+                            className="flex-1 px-4 py-2 bg-black/30 border border-white/10 rounded-xl text-white">
+                            <option value="" className="bg-slate-900">Select worker to view ledger</option>
+                            {workers.map(w => <option key={w.id} value={w.id} className="bg-slate-900">{w.name} ({w.worker_number || 'No ID'})</option>)}
+                        </select>
+                        {selected && selectedDebits.length > 0 && (
+                            <div className="flex gap-2">
+                                <input type="number" min="1" placeholder="Repaid ₹" value={repayment} onChange={(e) => setRepayment(e.target.value)}
+                                    className="w-28 px-3 py-2 bg-black/30 border border-white/10 rounded-xl text-white placeholder:text-white/30" />
+                                <button onClick={handleRepayment} disabled={!repayment}
+                                    className="px-4 py-2 bg-green-500/20 text-green-400 border border-green-500/30 rounded-xl text-sm font-medium disabled:opacity-50">
+                                    Record Repayment
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {!selected ? (
+                        <p className="text-center py-12 text-slate-500">Select a worker</p>
+                    ) : ledger.length === 0 ? (
+                        <p className="text-center py-12 text-slate-500">No ledger entries for {selected.name}</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-slate-400 text-xs border-b border-white/10">
+                                        <th className="text-left px-4 py-2">Date</th>
+                                        <th className="text-left px-4 py-2">Entry</th>
+                                        <th className="text-right px-4 py-2">Debit</th>
+                                        <th className="text-right px-4 py-2">Recovered</th>
+                                        <th className="text-right px-4 py-2">Balance</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-white/5">
+                                    {ledger.map(entry => {
+                                        const isRecovery = entry.entry_type === 'recovery';
+                                        const open = selectedDebits.find(d => d.id === entry.id);
+                                        return (
+                                            <tr key={entry.id}>
+                                                <td className="px-4 py-2 text-slate-400 whitespace-nowrap">{entry.date}</td>
+                                                <td className="px-4 py-2 text-white">
+                                                    {LEDGER_LABELS[entry.entry_type].icon} {LEDGER_LABELS[entry.entry_type].label}
+                                                    {isRecovery && <span className="text-slate-500 text-xs"> • {entry.payment_batch_id ? 'payout' : 'cash'}</span>}
+                                                    {!isRecovery && (
+                                                        <span className="text-slate-500 text-xs">
+                                                            {' • '}{entry.instalment ? `₹${entry.instalment}/payout` : 'in full'}
+                                                            {open && entry.recover_from && entry.recover_from > businessDate() && ` from ${entry.recover_from}`}
+                                                        </span>
+                                                    )}
+                                                    {entry.note && <p className="text-slate-500 text-xs">{entry.note}</p>}
+                                                </td>
+                                                <td className="px-4 py-2 text-right text-amber-400">{isRecovery ? '' : `₹${entry.amount.toLocaleString()}`}</td>
+                                                <td className="px-4 py-2 text-right text-green-400">{isRecovery ? `₹${entry.amount.toLocaleString()}` : ''}</td>
+                                                <td className="px-4 py-2 text-right text-white font-medium">₹{entry.balance.toLocaleString()}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* New Entry Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md shadow-2xl">
+                        <h3 className="font-bold text-xl text-white mb-6">New Entry</h3>
+                        <form onSubmit={handleAddEntry} className="space-y-4">
+                            <select value={newEntry.workerId} onChange={(e) => setNewEntry({ ...newEntry, workerId: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" required>
+                                <option value="" className="bg-slate-900">Select worker</option>
+                                {workers.map(w => <option key={w.id} value={w.id} className="bg-slate-900">{w.name} ({w.worker_number || 'No ID'})</option>)}
+                            </select>
+                            <div className="grid grid-cols-3 gap-2">
+                                {DEBIT_TYPES.map(type => (
+                                    <button key={type} type="button" onClick={() => setNewEntry({ ...newEntry, entryType: type })}
+                                        className={`py-2 rounded-xl text-sm font-medium border ${newEntry.entryType === type
+                                            ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/40'
+                                            : 'bg-white/5 text-slate-400 border-white/10'
+                                            }`}>
+                                        {LEDGER_LABELS[type].icon} {LEDGER_LABELS[type].label}
+                                    </button>
+                                ))}
+                            </div>
+                            <input type="number" min="1" placeholder="Amount (₹)" value={newEntry.amount}
+                                onChange={(e) => setNewEntry({ ...newEntry, amount: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" required />
+                            <input type="number" min="1" placeholder="Instalment per payout (₹, blank = in full)" value={newEntry.instalment}
+                                onChange={(e) => setNewEntry({ ...newEntry, instalment: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" />
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Start recovering from</label>
+                                <input type="date" value={newEntry.recoverFrom}
+                                    onChange={(e) => setNewEntry({ ...newEntry, recoverFrom: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" />
+                            </div>
+                            <input type="text" placeholder="Note (optional)" value={newEntry.note}
+                                onChange={(e) => setNewEntry({ ...newEntry, note: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" />
+                            <div className="flex gap-3 mt-8">
+                                <button type="button" onClick={() => setShowModal(false)}
+                                    className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5">
+                                    Cancel
+                                </button>
+                                <button type="submit" disabled={saving}
+                                    className="flex-1 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold shadow-lg disabled:opacity-50">
+                                    {saving ? 'Saving...' : 'Save'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,13 +2,18 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { businessDate, addDays } from '@/lib/business-date';
+import { loadHolidayCalendar, dayOff } from '@/lib/holidays';
 
 interface DailyStats {
     date: string;
     present: number;
     absent: number;
     halfDay: number;
+    leave: number;
     overtime: number;
+    late: number;
+    earlyLeave: number;
     expenses: number;
 }
 
@@ -27,8 +32,12 @@ export default function AnalyticsPage() {
     const [totals, setTotals] = useState({
         totalWorkers: 0,
         avgPresent: 0,
+        avgAbsent: 0,
+        leaveDays: 0,
         totalExpenses: 0,
-        totalOvertimeHours: 0
+        totalOvertimeHours: 0,
+        lateArrivals: 0,
+        earlyLeaves: 0
     });
 
     useEffect(() => {
@@ -39,9 +48,8 @@ export default function AnalyticsPage() {
         setLoading(true);
 
         const days = parseInt(period);
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - days);
-        const startDateStr = startDate.toISOString().split('T')[0];
+        const today = businessDate();
+        const startDateStr = addDays(today, -days);
 
         // Get attendance logs
         const { data: logs } = await supabase
@@ -68,24 +76,34 @@ export default function AnalyticsPage() {
             .select('id, name')
             .eq('is_active', true);
 
+        // Weekly offs, holidays and rostered offs aren't absences
+        const calendar = await loadHolidayCalendar(addDays(today, -(days - 1)), today);
+
         // Process daily stats
         const dailyMap: Record<string, DailyStats> = {};
 
         for (let i = 0; i < days; i++) {
-            const d = new Date();
-            d.setDate(d.getDate() - i);
-            const dateStr = d.toISOString().split('T')[0];
-            dailyMap[dateStr] = { date: dateStr, present: 0, absent: 0, halfDay: 0, overtime: 0, expenses: 0 };
+            const dateStr = addDays(today, -i);
+            dailyMap[dateStr] = { date: dateStr, present: 0, absent: 0, halfDay: 0, leave: 0, overtime: 0, late: 0, earlyLeave: 0, expenses: 0 };
         }
 
         (logs || []).forEach((log: any) => {
             if (dailyMap[log.date]) {
                 if (log.check_in_time) dailyMap[log.date].present++;
                 if (log.status === 'half-day') dailyMap[log.date].halfDay++;
-                if (log.overtime_hours) dailyMap[log.date].overtime += log.overtime_hours;
+                if (log.status === 'leave' && !log.check_in_time) dailyMap[log.date].leave++;
+                if (log.overtime_hours) dailyMap[log.date].overtime += Number(log.overtime_hours);
+                if (log.late_minutes > 0) dailyMap[log.date].late++;
+                if (log.early_leave_minutes > 0) dailyMap[log.date].earlyLeave++;
             }
         });
 
+        // Checked in or on approved leave = not absent
+        const accounted = new Set((logs || []).filter((l: any) => l.check_in_time || l.status === 'leave').map((l: any) => `${l.worker_id}|${l.date}`));
+        Object.values(dailyMap).forEach(day => {
+            day.absent = (workers || []).filter((w: any) => !accounted.has(`${w.id}|${day.date}`) && !dayOff(calendar, w, day.date)).length;
+        });
+
         (expenses || []).forEach((exp: any) => {
             if (dailyMap[exp.date]) {
                 dailyMap[exp.date].expenses += exp.amount;
@@ -101,7 +119,6 @@ export default function AnalyticsPage() {
             siteMap[site.id] = { site_id: site.id, site_name: site.name, workers: 0, present: 0 };
         });
 
-        const today = new Date().toISOString().split('T')[0];
         const todayLogs = (logs || []).filter((l: any) => l.date === today);
 
         todayLogs.forEach((log: any) => {
@@ -127,14 +144,18 @@ export default function AnalyticsPage() {
         setTotals({
             totalWorkers: workers?.length || 0,
             avgPresent: Math.round(totalPresent / days),
+            avgAbsent: Math.round(sortedStats.reduce((sum, d) => sum + d.absent, 0) / days),
+            leaveDays: sortedStats.reduce((sum, d) => sum + d.leave, 0),
             totalExpenses: totalExpensesVal,
-            totalOvertimeHours: totalOvertime
+            totalOvertimeHours: Math.round(totalOvertime * 10) / 10,
+            lateArrivals: sortedStats.reduce((sum, d) => sum + d.late, 0),
+            earlyLeaves: sortedStats.reduce((sum, d) => sum + d.earlyLeave, 0)
         });
 
         setLoading(false);
     };
 
-    const maxPresent = Math.max(...dailyStats.map(d => d.present), 1);
+    const maxPresent = Math.max(...dailyStats.map(d => Math.max(d.present, d.absent)), 1);
 
     if (loading) {
         return (
@@ -171,8 +192,12 @@ export default function AnalyticsPage() {
             <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
                 <StatCard icon="👷" label="Total Workers" value={totals.totalWorkers} color="from-blue-500 to-cyan-500" />
                 <StatCard icon="📊" label="Avg Present/Day" value={totals.avgPresent} color="from-green-500 to-emerald-500" />
+                <StatCard icon="🚫" label="Avg Absent/Day" value={totals.avgAbsent} color="from-red-500 to-rose-500" />
+                <StatCard icon="🏖️" label="Leave Days" value={totals.leaveDays} color="from-sky-500 to-blue-500" />
                 <StatCard icon="💰" label="Total Expenses" value={`₹${totals.totalExpenses.toLocaleString()}`} color="from-amber-500 to-orange-500" />
                 <StatCard icon="⏰" label="Overtime Hours" value={totals.totalOvertimeHours} color="from-purple-500 to-violet-500" />
+                <StatCard icon="🐢" label="Late Arrivals" value={totals.lateArrivals} color="from-orange-500 to-red-500" />
+                <StatCard icon="🚪" label="Early Leaves" value={totals.earlyLeaves} color="from-rose-500 to-pink-500" />
             </div>
 
             {/* Attendance Chart */}
@@ -196,6 +221,14 @@ export default function AnalyticsPage() {
                                         title={`Half Day: ${day.halfDay}`}
                                     />
                                 )}
+                                {/* Absent bar */}
+                                {day.absent > 0 && (
+                                    <div
+                                        className="w-4 lg:w-6 bg-gradient-to-t from-red-600 to-red-400 rounded-t transition-all hover:opacity-80"
+                                        style={{ height: `${(day.absent / maxPresent) * 100}%`, minHeight: '8px' }}
+                                        title={`Absent: ${day.absent}`}
+                                    />
+                                )}
                             </div>
                             <span className="text-[10px] lg:text-xs text-slate-500 mt-2 transform -rotate-45 lg:rotate-0">
                                 {new Date(day.date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
@@ -212,6 +245,10 @@ export default function AnalyticsPage() {
                         <div className="w-3 h-3 bg-yellow-500 rounded" />
                         <span className="text-slate-400">Half Day</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-red-500 rounded" />
+                        <span className="text-slate-400">Absent</span>
+                    </div>
                 </div>
             </div>
 
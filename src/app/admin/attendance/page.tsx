@@ -2,22 +2,35 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import type { MatchCandidate } from '@/lib/face-utils';
+import { businessDate } from '@/lib/business-date';
 
 interface AttendanceLog {
     id: string;
     worker_id: string;
     date: string;
+    status: string;
     check_in_time: string | null;
     check_out_time: string | null;
     hours_worked: number | null;
+    gps_lat: number | null;
+    gps_long: number | null;
+    gps_accuracy: number | null;
+    is_flagged: boolean | null;
+    spoof_confidence: number | null;
+    spoof_reason: string | null;
+    match_candidates: MatchCandidate[] | null;
+    match_out_candidates: MatchCandidate[] | null;
+    auto_closed: boolean | null;
     workers: { name: string } | null;
 }
 
 export default function AdminAttendancePage() {
     const [logs, setLogs] = useState<AttendanceLog[]>([]);
     const [loading, setLoading] = useState(true);
-    const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
-    const [stats, setStats] = useState({ present: 0, left: 0, totalHours: 0 });
+    const [selectedDate, setSelectedDate] = useState(() => businessDate());
+    const [stats, setStats] = useState({ present: 0, left: 0, totalHours: 0, flagged: 0 });
+    const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
 
     useEffect(() => { loadLogs(); }, [selectedDate]);
 
@@ -44,6 +57,7 @@ export default function AdminAttendancePage() {
             present: logsData.filter(l => l.check_in_time && !l.check_out_time).length,
             left: logsData.filter(l => l.check_out_time).length,
             totalHours: Math.round(totalHours * 10) / 10,
+            flagged: logsData.filter(l => l.is_flagged).length,
         });
         setLoading(false);
     };
@@ -54,17 +68,31 @@ export default function AdminAttendancePage() {
         loadLogs();
     };
 
+    const visibleLogs = showFlaggedOnly ? logs.filter(l => l.is_flagged) : logs;
+
+    // "0.312 · Ramesh 0.401" - matched distance followed by the runners-up
+    const formatCandidates = (candidates: MatchCandidate[] | null) =>
+        candidates?.length
+            ? [candidates[0].distance.toFixed(3), ...candidates.slice(1).map(c => `${c.name} ${c.distance.toFixed(3)}`)].join(' · ')
+            : '';
+
     const exportCSV = () => {
-        if (logs.length === 0) return;
+        if (visibleLogs.length === 0) return;
 
-        const headers = ['Worker Name', 'Date', 'Check In', 'Check Out', 'Hours Worked', 'Status'];
-        const rows = logs.map(log => [
+        const headers = ['Worker Name', 'Date', 'Check In', 'Check Out', 'Hours Worked', 'Status', 'GPS', 'Accuracy (m)', 'Flagged', 'Spoof Reason', 'Match In', 'Match Out'];
+        const rows = visibleLogs.map(log => [
             log.workers?.name || 'Unknown',
             new Date(log.date).toLocaleDateString(),
             log.check_in_time ? new Date(log.check_in_time).toLocaleTimeString() : '-',
             log.check_out_time ? new Date(log.check_out_time).toLocaleTimeString() : '-',
             log.hours_worked ? log.hours_worked.toFixed(2) : '0',
-            log.check_out_time ? 'Checked Out' : 'Present'
+            log.check_out_time ? 'Checked Out' : 'Present',
+            log.gps_lat !== null && log.gps_long !== null ? `${log.gps_lat} ${log.gps_long}` : '-',
+            log.gps_accuracy !== null ? Math.round(log.gps_accuracy) : '-',
+            log.is_flagged ? 'Yes' : 'No',
+            `"${(log.spoof_reason || '').replace(/"/g, "'")}"`,
+            `"${formatCandidates(log.match_candidates)}"`,
+            `"${formatCandidates(log.match_out_candidates)}"`
         ]);
 
         const csvContent = "data:text/csv;charset=utf-8,"
@@ -88,6 +116,12 @@ export default function AdminAttendancePage() {
                     <p className="text-sm text-slate-400">View and manage attendance records</p>
                 </div>
                 <div className="flex items-center gap-3">
+                    <button onClick={() => setShowFlaggedOnly(f => !f)}
+                        className={`px-3 py-2 border rounded-xl text-xs font-bold transition-all flex items-center gap-2 ${showFlaggedOnly
+                            ? 'bg-red-500/20 border-red-500/40 text-red-400'
+                            : 'bg-white/5 border-white/10 text-slate-400 hover:bg-white/10'}`}>
+                        <span>🚩</span> {showFlaggedOnly ? 'Showing Flagged' : 'Flagged Only'}
+                    </button>
                     <button onClick={exportCSV} className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-bold text-cyan-400 hover:bg-white/10 hover:border-cyan-500/30 transition-all flex items-center gap-2">
                         <span>⬇</span> Export CSV
                     </button>
@@ -100,7 +134,7 @@ export default function AdminAttendancePage() {
             </div>
 
             {/* Stats */}
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-4 text-center">
                     <p className="text-2xl font-bold text-green-400">{stats.present}</p>
                     <p className="text-sm text-green-500/80 uppercase tracking-widest font-medium text-[10px]">Present</p>
@@ -113,6 +147,11 @@ export default function AdminAttendancePage() {
                     <p className="text-2xl font-bold text-purple-400">{stats.totalHours}h</p>
                     <p className="text-sm text-purple-500/80 uppercase tracking-widest font-medium text-[10px]">Total Hours</p>
                 </div>
+                <button onClick={() => setShowFlaggedOnly(f => !f)}
+                    className={`rounded-xl p-4 text-center border transition-colors ${showFlaggedOnly ? 'bg-red-500/20 border-red-500/40' : 'bg-red-500/10 border-red-500/20 hover:bg-red-500/15'}`}>
+                    <p className="text-2xl font-bold text-red-400">{stats.flagged}</p>
+                    <p className="text-sm text-red-500/80 uppercase tracking-widest font-medium text-[10px]">GPS Flagged</p>
+                </button>
             </div>
 
             {loading ? (
@@ -134,9 +173,35 @@ export default function AdminAttendancePage() {
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-white/5">
-                                {logs.map(log => (
-                                    <tr key={log.id} className="hover:bg-white/5 transition-colors">
-                                        <td className="px-6 py-4 font-medium text-white">{log.workers?.name || 'Unknown'}</td>
+                                {visibleLogs.map(log => (
+                                    <tr key={log.id} className={`hover:bg-white/5 transition-colors ${log.is_flagged ? 'bg-red-500/5' : ''}`}>
+                                        <td className="px-6 py-4">
+                                            <div className="font-medium text-white flex items-center gap-2">
+                                                {log.workers?.name || 'Unknown'}
+                                                {log.is_flagged && (
+                                                    <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-red-500/10 text-red-400 border border-red-500/20">
+                                                        🚩 Flagged
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {log.spoof_reason && (
+                                                <div className={`text-xs mt-1 ${log.is_flagged ? 'text-red-400/80' : 'text-slate-500'}`}>
+                                                    {log.spoof_reason}{log.spoof_confidence ? ` (${Math.round(log.spoof_confidence * 100)}%)` : ''}
+                                                </div>
+                                            )}
+                                            {(log.match_candidates?.length || log.match_out_candidates?.length) ? (
+                                                <div className="text-slate-500 font-mono text-[10px] mt-1">
+                                                    {log.match_candidates?.length ? `IN ${formatCandidates(log.match_candidates)}` : ''}
+                                                    {log.match_candidates?.length && log.match_out_candidates?.length ? ' | ' : ''}
+                                                    {log.match_out_candidates?.length ? `OUT ${formatCandidates(log.match_out_candidates)}` : ''}
+                                                </div>
+                                            ) : null}
+                                            {log.gps_lat !== null && log.gps_long !== null && (
+                                                <div className="text-slate-500 font-mono text-[10px] mt-1">
+                                                    {log.gps_lat.toFixed(5)}, {log.gps_long.toFixed(5)}{log.gps_accuracy !== null && ` ±${Math.round(log.gps_accuracy)}m`}
+                                                </div>
+                                            )}
+                                        </td>
                                         <td className="px-6 py-4 text-slate-300 font-mono text-xs">
                                             {log.check_in_time ? new Date(log.check_in_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' }) : '-'}
                                         </td>
@@ -147,11 +212,23 @@ export default function AdminAttendancePage() {
                                             {log.hours_worked ? `${log.hours_worked.toFixed(1)}h` : '-'}
                                         </td>
                                         <td className="px-6 py-4">
-                                            <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider ${log.check_out_time
-                                                ? 'bg-blue-500/10 text-blue-400 border border-blue-500/20'
-                                                : 'bg-green-500/10 text-green-400 border border-green-500/20'}`}>
-                                                {log.check_out_time ? 'Left' : 'Present'}
-                                            </span>
+                                            {log.status === 'leave' && !log.check_in_time ? (
+                                                <span className="px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider bg-sky-500/10 text-sky-400 border border-sky-500/20">
+                                                    On Leave
+                                                </span>
+                                            ) : (
+                                                <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider ${log.check_out_time
+                                                    ? 'bg-blue-500/10 text-blue-400 border border-blue-500/20'
+                                                    : 'bg-green-500/10 text-green-400 border border-green-500/20'}`}>
+                                                    {log.check_out_time ? 'Left' : 'Present'}
+                                                </span>
+                                            )}
+                                            {log.auto_closed && (
+                                                <span className="ml-2 px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider bg-amber-500/10 text-amber-400 border border-amber-500/20"
+                                                    title="No checkout scan - closed by the end-of-day routine">
+                                                    System closed
+                                                </span>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 text-right">
                                             <button onClick={() => deleteLog(log.id)}
@@ -164,10 +241,10 @@ export default function AdminAttendancePage() {
                             </tbody>
                         </table>
                     </div>
-                    {logs.length === 0 && (
+                    {visibleLogs.length === 0 && (
                         <div className="flex flex-col items-center justify-center py-12 text-slate-500">
                             <span className="text-2xl mb-2">📅</span>
-                            <p>No attendance for this date</p>
+                            <p>{showFlaggedOnly ? 'No flagged attendance for this date' : 'No attendance for this date'}</p>
                         </div>
                     )}
                 </div>
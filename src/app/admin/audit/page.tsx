@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { businessDate, addDays } from '@/lib/business-date';
 
 interface DailyClosing {
     id: string;
@@ -42,9 +43,7 @@ export default function AdminAuditPage() {
 
         if (dateRange !== 'all') {
             const days = parseInt(dateRange);
-            const startDate = new Date();
-            startDate.setDate(startDate.getDate() - days);
-            query = query.gte('date', startDate.toISOString().split('T')[0]);
+            query = query.gte('date', addDays(businessDate(), -days));
         }
 
         const { data } = await query.limit(500);
@@ -89,15 +88,14 @@ export default function AdminAuditPage() {
     };
 
     const deleteOldEntries = async (days: number) => {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - days);
+        const cutoffDate = addDays(businessDate(), -days);
 
         if (!confirm(`Delete all entries older than ${days} days?`)) return;
 
         const { error } = await supabase
             .from('daily_closings')
             .delete()
-            .lt('date', cutoffDate.toISOString().split('T')[0]);
+            .lt('date', cutoffDate);
 
         if (!error) {
             setNotification({ type: 'success', message: `Cleaned up old entries` });
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { businessDate, monthStart } from '@/lib/business-date';
 
 interface Expense {
     id: string;
@@ -17,8 +18,8 @@ export default function AdminFinancePage() {
     const [expenses, setExpenses] = useState<Expense[]>([]);
     const [loading, setLoading] = useState(true);
     const [dateRange, setDateRange] = useState({
-        start: new Date(new Date().setDate(1)).toISOString().split('T')[0],
-        end: new Date().toISOString().split('T')[0],
+        start: monthStart(businessDate()),
+        end: businessDate(),
     });
     const [stats, setStats] = useState({ total: 0, byCategory: {} as Record<string, number> });
 
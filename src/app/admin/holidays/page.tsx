@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
+import { DEFAULT_WEEKLY_OFF, WEEKDAY_LABELS, weekday, Holiday } from '@/lib/holidays';
+
+interface Site {
+    id: string;
+    name: string;
+    weekly_off_days: number[] | null;
+}
+
+const EMPTY_HOLIDAY = { date: '', name: '', site_id: '', is_paid: true };
+
+export default function AdminHolidaysPage() {
+    const [sites, setSites] = useState<Site[]>([]);
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [year, setYear] = useState(() => parseInt(businessDate().slice(0, 4)));
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [newHoliday, setNewHoliday] = useState(EMPTY_HOLIDAY);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+    useEffect(() => { loadData(); }, [year]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    const loadData = async () => {
+        const [sitesRes, holidaysRes] = await Promise.all([
+            supabase.from('sites').select('id, name, weekly_off_days').eq('is_active', true).order('name'),
+            supabase.from('site_holidays').select('id, site_id, date, name, is_paid')
+                .gte('date', `${year}-01-01`).lte('date', `${year}-12-31`).order('date'),
+        ]);
+        if (holidaysRes.error) setNotification({ type: 'error', message: 'Failed to load holidays' });
+        setSites(sitesRes.data || []);
+        setHolidays(holidaysRes.data || []);
+        setLoading(false);
+    };
+
+    const toggleWeeklyOff = async (site: Site, day: number) => {
+        const current = site.weekly_off_days || DEFAULT_WEEKLY_OFF;
+        const weekly_off_days = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+        const { error } = await supabase.from('sites').update({ weekly_off_days }).eq('id', site.id);
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setSites(prev => prev.map(s => s.id === site.id ? { ...s, weekly_off_days } : s));
+    };
+
+    const handleAddHoliday = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newHoliday.date || !newHoliday.name.trim()) {
+            setNotification({ type: 'error', message: 'Date and name are required' });
+            return;
+        }
+
+        const { error } = await supabase.from('site_holidays').insert({
+            date: newHoliday.date,
+            name: newHoliday.name.trim(),
+            site_id: newHoliday.site_id || null,
+            is_paid: newHoliday.is_paid,
+        });
+        if (error) {
+            setNotification({ type: 'error', message: error.code === '23505' ? 'A holiday already exists on that date' : `Error: ${error.message}` });
+            return;
+        }
+
+        setNotification({ type: 'success', message: 'Holiday added!' });
+        setShowModal(false);
+        setNewHoliday(EMPTY_HOLIDAY);
+        loadData();
+    };
+
+    const togglePaid = async (holiday: Holiday) => {
+        const { error } = await supabase.from('site_holidays').update({ is_paid: !holiday.is_paid }).eq('id', holiday.id);
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setHolidays(prev => prev.map(h => h.id === holiday.id ? { ...h, is_paid: !h.is_paid } : h));
+    };
+
+    const deleteHoliday = async (holiday: Holiday) => {
+        if (!confirm(`Delete ${holiday.name}?`)) return;
+        const { error } = await supabase.from('site_holidays').delete().eq('id', holiday.id);
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setHolidays(prev => prev.filter(h => h.id !== holiday.id));
+    };
+
+    const siteName = (siteId: string | null) => siteId ? sites.find(s => s.id === siteId)?.name || 'Unknown site' : 'All sites';
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <div className="w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 relative">
+            {/* Toast Notification */}
+            {notification && (
+                <div className={`fixed bottom-6 right-6 z-[100] px-6 py-4 rounded-xl shadow-2xl border flex items-center gap-3 ${notification.type === 'success'
+                        ? 'bg-slate-900/90 border-green-500/30 text-green-400'
+                        : 'bg-slate-900/90 border-red-500/30 text-red-400'
+                    }`}>
+                    <span className="text-2xl">{notification.type === 'success' ? '✓' : '⚠️'}</span>
+                    <span className="font-medium">{notification.message}</span>
+                </div>
+            )}
+
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div>
+                    <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                        🎉 Holidays & Weekly Offs
+                    </h1>
+                    <p className="text-sm text-slate-400">Days off are not counted as absences. Paid holidays earn a day&apos;s wage.</p>
+                </div>
+                <button onClick={() => setShowModal(true)}
+                    className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl hover:from-cyan-400 hover:to-blue-400 font-medium">
+                    + Add Holiday
+                </button>
+            </div>
+
+            {/* Weekly Offs */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                <div className="px-4 py-3 border-b border-white/10">
+                    <h3 className="font-semibold text-white">📅 Weekly Offs</h3>
+                </div>
+                <div className="p-4 space-y-3">
+                    {sites.length === 0 ? (
+                        <p className="text-center text-slate-500 py-4">No active sites</p>
+                    ) : sites.map(site => {
+                        const offs = site.weekly_off_days || DEFAULT_WEEKLY_OFF;
+                        return (
+                            <div key={site.id} className="flex flex-col md:flex-row md:items-center gap-3 bg-black/20 rounded-xl p-3">
+                                <span className="text-white font-medium md:w-48 truncate">{site.name}</span>
+                                <div className="flex gap-1">
+                                    {WEEKDAY_LABELS.map((label, day) => (
+                                        <button key={day} onClick={() => toggleWeeklyOff(site, day)}
+                                            className={`w-12 py-2 rounded-lg text-xs font-medium border transition-colors ${offs.includes(day)
+                                                ? 'bg-red-500/20 text-red-300 border-red-500/40'
+                                                : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'
+                                                }`}>
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                    <p className="text-xs text-slate-500">Workers rostered on a shift still work their weekly off day.</p>
+                </div>
+            </div>
+
+            {/* Holidays */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
+                    <h3 className="font-semibold text-white">🎉 Holidays {year}</h3>
+                    <div className="flex gap-2">
+                        <button onClick={() => setYear(year - 1)} className="px-3 py-1 bg-white/5 rounded-lg text-slate-300 hover:bg-white/10">←</button>
+                        <button onClick={() => setYear(year + 1)} className="px-3 py-1 bg-white/5 rounded-lg text-slate-300 hover:bg-white/10">→</button>
+                    </div>
+                </div>
+                {holidays.length === 0 ? (
+                    <p className="text-center py-12 text-slate-500">No holidays for {year}</p>
+                ) : (
+                    <div className="divide-y divide-white/5">
+                        {holidays.map(holiday => (
+                            <div key={holiday.id} className="flex items-center gap-4 px-4 py-3">
+                                <div className="w-16 text-center">
+                                    <p className="text-white font-bold">{holiday.date.slice(8, 10)}/{holiday.date.slice(5, 7)}</p>
+                                    <p className="text-xs text-slate-500">{WEEKDAY_LABELS[weekday(holiday.date)]}</p>
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-white font-medium truncate">{holiday.name}</p>
+                                    <p className="text-xs text-slate-400">{siteName(holiday.site_id)}</p>
+                                </div>
+                                <button onClick={() => togglePaid(holiday)}
+                                    className={`px-3 py-1 rounded-full text-xs font-medium border ${holiday.is_paid
+                                        ? 'bg-green-500/20 text-green-300 border-green-500/30'
+                                        : 'bg-white/5 text-slate-400 border-white/10'
+                                        }`}>
+                                    {holiday.is_paid ? '₹ Paid' : 'Unpaid'}
+                                </button>
+                                <button onClick={() => deleteHoliday(holiday)} className="text-red-400 text-sm hover:underline">Delete</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Add Holiday Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md shadow-2xl">
+                        <h3 className="font-bold text-xl text-white mb-6">Add Holiday</h3>
+                        <form onSubmit={handleAddHoliday} className="space-y-4">
+                            <input type="text" placeholder="e.g. Diwali" value={newHoliday.name}
+                                onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" required />
+                            <input type="date" value={newHoliday.date}
+                                onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" required />
+                            <select value={newHoliday.site_id} onChange={(e) => setNewHoliday({ ...newHoliday, site_id: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                <option value="" className="bg-slate-900">All sites</option>
+                                {sites.map(s => <option key={s.id} value={s.id} className="bg-slate-900">{s.name}</option>)}
+                            </select>
+                            <label className="flex items-center gap-3 text-slate-300 text-sm">
+                                <input type="checkbox" checked={newHoliday.is_paid}
+                                    onChange={(e) => setNewHoliday({ ...newHoliday, is_paid: e.target.checked })}
+                                    className="w-4 h-4" />
+                                Paid holiday (workers earn a day&apos;s wage without attending)
+                            </label>
+                            <div className="flex gap-3 mt-8">
+                                <button type="button" onClick={() => setShowModal(false)}
+                                    className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5">
+                                    Cancel
+                                </button>
+                                <button type="submit"
+                                    className="flex-1 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold shadow-lg">
+                                    Add Holiday
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
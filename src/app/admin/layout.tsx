@@ -16,9 +16,13 @@ const sidebarItems = [
     { icon: '👷', label: 'Workers', href: '/admin/workers' },
     { icon: '📍', label: 'Sites', href: '/admin/sites' },
     { icon: '🕐', label: 'Shifts', href: '/admin/shifts' },
+    { icon: '🗓️', label: 'Roster', href: '/admin/roster' },
+    { icon: '🎉', label: 'Holidays', href: '/admin/holidays' },
     { icon: '📊', label: 'Attendance', href: '/admin/attendance' },
     { icon: '📈', label: 'Analytics', href: '/admin/analytics' },
     { icon: '🧾', label: 'Payslips', href: '/admin/payslips' },
+    { icon: '🤝', label: 'Maistries', href: '/admin/maistries' },
+    { icon: '💵', label: 'Advances', href: '/admin/advances' },
     { icon: '🔓', label: 'Access Requests', href: '/admin/access-requests', badge: true },
     { icon: '💰', label: 'Finance', href: '/admin/finance' },
     { icon: '📋', label: 'Audit Log', href: '/admin/audit' },
@@ -0,0 +1,494 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { COMPANY_NAME } from '@/lib/config';
+import { businessDate, addDays } from '@/lib/business-date';
+import {
+    loadMaistries, loadMaistryStatement, gangCommission, COMMISSION_LABELS,
+    Maistry, CommissionType, CommissionSlab, StatementRow,
+} from '@/lib/maistry';
+
+interface Incharge {
+    id: string;
+    email: string;
+    full_name: string | null;
+}
+
+interface MaistryForm {
+    name: string;
+    phone: string;
+    incharge_id: string;
+    commission_type: CommissionType;
+    commission_rate: string;
+    slabs: { upto: string; per_head_day: string }[];
+    deduct_from_wages: boolean;
+    is_active: boolean;
+}
+
+const EMPTY_FORM: MaistryForm = {
+    name: '', phone: '', incharge_id: '', commission_type: 'percent', commission_rate: '',
+    slabs: [{ upto: '', per_head_day: '' }], deduct_from_wages: false, is_active: true,
+};
+
+function ruleSummary(maistry: Maistry): string {
+    if (maistry.commission_type === 'percent') return `${maistry.commission_rate}% of wages`;
+    if (maistry.commission_type === 'per_head_day') return `₹${maistry.commission_rate} per head-day`;
+    return (maistry.slabs || []).map(s => `${s.upto === null ? 'above' : `≤${s.upto}`}: ₹${s.per_head_day}`).join(', ') || 'No slabs';
+}
+
+export default function AdminMaistriesPage() {
+    const [maistries, setMaistries] = useState<Maistry[]>([]);
+    const [incharges, setIncharges] = useState<Incharge[]>([]);
+    const [gangSizes, setGangSizes] = useState<Record<string, number>>({});
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<MaistryForm>(EMPTY_FORM);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+    // Settlement statement
+    const [statementMaistryId, setStatementMaistryId] = useState('');
+    const [startDate, setStartDate] = useState(() => addDays(businessDate(), -9));
+    const [endDate, setEndDate] = useState(() => businessDate());
+    const [statement, setStatement] = useState<StatementRow[] | null>(null);
+    const [generating, setGenerating] = useState(false);
+
+    useEffect(() => { loadData(); }, []);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    const loadData = async () => {
+        const [list, inchargesRes, workersRes] = await Promise.all([
+            loadMaistries(false),
+            supabase.from('profiles').select('id, email, full_name').eq('role', 'manager'),
+            supabase.from('workers').select('incharge_id').eq('is_active', true).not('incharge_id', 'is', null),
+        ]);
+        const sizes: Record<string, number> = {};
+        (workersRes.data || []).forEach(w => { sizes[w.incharge_id] = (sizes[w.incharge_id] || 0) + 1; });
+        setMaistries(list);
+        setIncharges(inchargesRes.data || []);
+        setGangSizes(sizes);
+        if (list.length > 0) setStatementMaistryId(prev => prev || list[0].id);
+        setLoading(false);
+    };
+
+    const inchargeName = (id: string | null) => {
+        const incharge = incharges.find(i => i.id === id);
+        return incharge ? incharge.full_name || incharge.email : 'Not linked';
+    };
+
+    const openModal = (maistry?: Maistry) => {
+        if (maistry) {
+            setEditingId(maistry.id);
+            setForm({
+                name: maistry.name,
+                phone: maistry.phone || '',
+                incharge_id: maistry.incharge_id || '',
+                commission_type: maistry.commission_type,
+                commission_rate: String(maistry.commission_rate ?? ''),
+                slabs: maistry.slabs && maistry.slabs.length > 0
+                    ? maistry.slabs.map(s => ({ upto: s.upto === null ? '' : String(s.upto), per_head_day: String(s.per_head_day) }))
+                    : EMPTY_FORM.slabs,
+                deduct_from_wages: maistry.deduct_from_wages,
+                is_active: maistry.is_active,
+            });
+        } else {
+            setEditingId(null);
+            setForm(EMPTY_FORM);
+        }
+        setShowModal(true);
+    };
+
+    const updateSlab = (index: number, field: 'upto' | 'per_head_day', value: string) => {
+        setForm(prev => ({ ...prev, slabs: prev.slabs.map((s, i) => i === index ? { ...s, [field]: value } : s) }));
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.name.trim()) {
+            setNotification({ type: 'error', message: 'Name is required' });
+            return;
+        }
+
+        let slabs: CommissionSlab[] | null = null;
+        if (form.commission_type === 'slab') {
+            slabs = form.slabs
+                .filter(s => s.per_head_day !== '')
+                .map(s => ({ upto: s.upto === '' ? null : parseFloat(s.upto), per_head_day: parseFloat(s.per_head_day) }));
+            if (slabs.length === 0 || slabs.some(s => isNaN(s.per_head_day) || (s.upto !== null && isNaN(s.upto)))) {
+                setNotification({ type: 'error', message: 'Enter at least one valid slab' });
+                return;
+            }
+        }
+        const rate = form.commission_type === 'slab' ? 0 : parseFloat(form.commission_rate);
+        if (isNaN(rate) || rate < 0) {
+            setNotification({ type: 'error', message: 'Enter a valid commission rate' });
+            return;
+        }
+
+        const payload = {
+            name: form.name.trim(),
+            phone: form.phone.trim() || null,
+            incharge_id: form.incharge_id || null,
+            commission_type: form.commission_type,
+            commission_rate: rate,
+            slabs,
+            deduct_from_wages: form.deduct_from_wages,
+            is_active: form.is_active,
+        };
+
+        const { data: { user } } = await supabase.auth.getUser();
+        const existing = maistries.find(m => m.id === editingId);
+        const { data, error } = editingId
+            ? await supabase.from('maistries').update(payload).eq('id', editingId).select('id').single()
+            : await supabase.from('maistries').insert(payload).select('id').single();
+        if (error) {
+            setNotification({ type: 'error', message: error.code === '23505' ? 'That incharge already has a maistry' : `Error: ${error.message}` });
+            return;
+        }
+
+        await supabase.from('audit_logs').insert({
+            table_name: 'maistries',
+            record_id: data.id,
+            action: editingId ? 'UPDATE' : 'INSERT',
+            old_values: existing || null,
+            new_values: payload,
+            changed_by: user?.id || null,
+        });
+
+        setNotification({ type: 'success', message: editingId ? 'Maistry updated!' : 'Maistry added!' });
+        setShowModal(false);
+        loadData();
+    };
+
+    const generateStatement = async () => {
+        const maistry = maistries.find(m => m.id === statementMaistryId);
+        if (!maistry) return;
+        if (!maistry.incharge_id) {
+            setNotification({ type: 'error', message: 'Link this maistry to an incharge first' });
+            return;
+        }
+        setGenerating(true);
+        try {
+            setStatement(await loadMaistryStatement(maistry, startDate, endDate));
+        } catch (error: any) {
+            setNotification({ type: 'error', message: error.message || 'Failed to load statement' });
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const statementMaistry = maistries.find(m => m.id === statementMaistryId);
+    const totals = statement && statementMaistry ? {
+        headDays: statement.reduce((sum, r) => sum + r.headDays, 0),
+        wages: statement.reduce((sum, r) => sum + r.wages, 0),
+        commission: gangCommission(statementMaistry, statement),
+    } : null;
+
+    const printStatement = () => {
+        if (!statement || !statementMaistry || !totals) return;
+
+        const rows = statement.filter(r => r.headDays > 0).map(r => `
+            <tr>
+                <td>${r.name}</td>
+                <td>${r.workerNumber || '-'}</td>
+                <td class="num">${r.headDays}</td>
+                <td class="num">₹${Math.round(r.wages).toLocaleString()}</td>
+                <td class="num">₹${Math.round(r.commission).toLocaleString()}</td>
+            </tr>`).join('');
+
+        const printContent = `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <title>Settlement - ${statementMaistry.name}</title>
+                <style>
+                    body { font-family: Arial, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto; }
+                    .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px; }
+                    .company { font-size: 24px; font-weight: bold; color: #333; }
+                    .title { font-size: 18px; color: #666; margin-top: 10px; }
+                    .info { background: #f5f5f5; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+                    .info-name { font-size: 20px; font-weight: bold; }
+                    .info-line { color: #666; }
+                    .period { background: #e3f2fd; padding: 15px; border-radius: 8px; text-align: center; margin-bottom: 30px; }
+                    table { width: 100%; border-collapse: collapse; margin-bottom: 30px; }
+                    th, td { padding: 10px; border-bottom: 1px solid #eee; text-align: left; }
+                    th { background: #f9f9f9; font-size: 12px; color: #666; }
+                    .num { text-align: right; }
+                    tr.total td { background: #333; color: white; font-weight: bold; }
+                    .footer { text-align: center; margin-top: 40px; color: #999; font-size: 12px; }
+                    @media print { body { padding: 20px; } }
+                </style>
+            </head>
+            <body>
+                <div class="header">
+                    <div class="company">${COMPANY_NAME}</div>
+                    <div class="title">MAISTRY SETTLEMENT STATEMENT</div>
+                </div>
+
+                <div class="info">
+                    <div class="info-name">${statementMaistry.name}</div>
+                    ${statementMaistry.phone ? `<div class="info-line">Phone: ${statementMaistry.phone}</div>` : ''}
+                    <div class="info-line">Commission: ${ruleSummary(statementMaistry)}</div>
+                    <div class="info-line">${statementMaistry.deduct_from_wages ? 'Deducted from workers\' wages' : 'Paid by company'}</div>
+                </div>
+
+                <div class="period">
+                    <strong>Period:</strong> ${new Date(startDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}
+                    to ${new Date(endDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}
+                </div>
+
+                <table>
+                    <thead>
+                        <tr><th>Worker</th><th>ID</th><th class="num">Head-days</th><th class="num">Wages</th><th class="num">Commission</th></tr>
+                    </thead>
+                    <tbody>
+                        ${rows}
+                        <tr class="total">
+                            <td colspan="2">Total Commission Payable</td>
+                            <td class="num">${totals.headDays}</td>
+                            <td class="num">₹${Math.round(totals.wages).toLocaleString()}</td>
+                            <td class="num">₹${Math.round(totals.commission).toLocaleString()}</td>
+                        </tr>
+                    </tbody>
+                </table>
+
+                <div class="footer">
+                    Generated on ${new Date().toLocaleString('en-IN')} | ${COMPANY_NAME}
+                </div>
+            </body>
+            </html>
+        `;
+
+        const printWindow = window.open('', '_blank');
+        if (printWindow) {
+            printWindow.document.write(printContent);
+            printWindow.document.close();
+            setTimeout(() => printWindow.print(), 300);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <div className="w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 relative">
+            {/* Toast Notification */}
+            {notification && (
+                <div className={`fixed bottom-6 right-6 z-[100] px-6 py-4 rounded-xl shadow-2xl border flex items-center gap-3 ${notification.type === 'success'
+                        ? 'bg-slate-900/90 border-green-500/30 text-green-400'
+                        : 'bg-slate-900/90 border-red-500/30 text-red-400'
+                    }`}>
+                    <span className="text-2xl">{notification.type === 'success' ? '✓' : '⚠️'}</span>
+                    <span className="font-medium">{notification.message}</span>
+                </div>
+            )}
+
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div>
+                    <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                        🤝 Maistries
+                    </h1>
+                    <p className="text-sm text-slate-400">A maistry&apos;s gang is the workers assigned to their incharge</p>
+                </div>
+                <button onClick={() => openModal()}
+                    className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl hover:from-cyan-400 hover:to-blue-400 font-medium">
+                    + Add Maistry
+                </button>
+            </div>
+
+            {/* Maistry List */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                {maistries.length === 0 ? (
+                    <p className="text-center py-12 text-slate-500">No maistries yet</p>
+                ) : (
+                    <div className="divide-y divide-white/5">
+                        {maistries.map(maistry => (
+                            <div key={maistry.id} className={`flex items-center gap-4 px-4 py-3 ${maistry.is_active ? '' : 'opacity-50'}`}>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-white font-medium truncate">{maistry.name}{!maistry.is_active && ' (inactive)'}</p>
+                                    <p className="text-xs text-slate-400">
+                                        {inchargeName(maistry.incharge_id)} • {maistry.incharge_id ? gangSizes[maistry.incharge_id] || 0 : 0} workers
+                                        {maistry.phone && ` • ${maistry.phone}`}
+                                    </p>
+                                </div>
+                                <div className="text-right">
+                                    <p className="text-cyan-400 text-sm">{ruleSummary(maistry)}</p>
+                                    <p className="text-xs text-slate-500">{maistry.deduct_from_wages ? 'Deducted from wages' : 'Paid by company'}</p>
+                                </div>
+                                <button onClick={() => openModal(maistry)} className="text-cyan-400 text-sm hover:underline">Edit</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Settlement Statement */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-4 lg:p-6">
+                <h3 className="font-semibold text-white mb-4">📄 Settlement Statement</h3>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                        <label className="text-xs text-slate-400 block mb-1">Maistry</label>
+                        <select value={statementMaistryId} onChange={(e) => { setStatementMaistryId(e.target.value); setStatement(null); }}
+                            className="w-full px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white">
+                            {maistries.map(m => <option key={m.id} value={m.id} className="bg-slate-900">{m.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-400 block mb-1">Start Date</label>
+                        <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)}
+                            className="w-full px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white" />
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-400 block mb-1">End Date</label>
+                        <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)}
+                            className="w-full px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white" />
+                    </div>
+                    <div className="flex items-end">
+                        <button onClick={generateStatement} disabled={generating || !statementMaistryId}
+                            className="w-full px-6 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-medium disabled:opacity-50">
+                            {generating ? 'Generating...' : '📊 Generate'}
+                        </button>
+                    </div>
+                </div>
+
+                {statement && totals && (
+                    <div className="mt-6">
+                        {statement.length === 0 ? (
+                            <p className="text-center py-8 text-slate-500">No workers in this gang</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs border-b border-white/10">
+                                            <th className="text-left py-2">Worker</th>
+                                            <th className="text-right py-2">Head-days</th>
+                                            <th className="text-right py-2">Wages</th>
+                                            <th className="text-right py-2">Commission</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-white/5">
+                                        {statement.map(row => (
+                                            <tr key={row.workerId} className={row.headDays > 0 ? '' : 'opacity-40'}>
+                                                <td className="py-2 text-white">{row.name} <span className="text-slate-500 text-xs">{row.workerNumber}</span></td>
+                                                <td className="py-2 text-right text-slate-300">{row.headDays}</td>
+                                                <td className="py-2 text-right text-slate-300">₹{Math.round(row.wages).toLocaleString()}</td>
+                                                <td className="py-2 text-right text-cyan-400">₹{Math.round(row.commission).toLocaleString()}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                    <tfoot>
+                                        <tr className="border-t border-white/20 font-bold">
+                                            <td className="py-3 text-white">Total</td>
+                                            <td className="py-3 text-right text-white">{totals.headDays}</td>
+                                            <td className="py-3 text-right text-white">₹{Math.round(totals.wages).toLocaleString()}</td>
+                                            <td className="py-3 text-right text-cyan-400 text-lg">₹{Math.round(totals.commission).toLocaleString()}</td>
+                                        </tr>
+                                    </tfoot>
+                                </table>
+                            </div>
+                        )}
+                        <div className="flex justify-end mt-4">
+                            <button onClick={printStatement} disabled={statement.length === 0}
+                                className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-lg text-sm font-medium disabled:opacity-50">
+                                🖨️ Print / Download
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Add / Edit Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+                        <h3 className="font-bold text-xl text-white mb-6">{editingId ? 'Edit Maistry' : 'Add Maistry'}</h3>
+                        <form onSubmit={handleSave} className="space-y-4">
+                            <input type="text" placeholder="Name" value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" required />
+                            <input type="tel" placeholder="Phone (optional)" value={form.phone}
+                                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" />
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Gang (workers under this incharge)</label>
+                                <select value={form.incharge_id} onChange={(e) => setForm({ ...form, incharge_id: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                    <option value="" className="bg-slate-900">Not linked</option>
+                                    {incharges.map(i => <option key={i.id} value={i.id} className="bg-slate-900">{i.full_name || i.email}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Commission rule</label>
+                                <select value={form.commission_type} onChange={(e) => setForm({ ...form, commission_type: e.target.value as CommissionType })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                    {(Object.keys(COMMISSION_LABELS) as CommissionType[]).map(type => (
+                                        <option key={type} value={type} className="bg-slate-900">{COMMISSION_LABELS[type]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            {form.commission_type === 'slab' ? (
+                                <div className="space-y-2">
+                                    <p className="text-xs text-slate-400">Gang head-days up to the limit earn the slab rate; leave the last limit empty for no cap</p>
+                                    {form.slabs.map((slab, index) => (
+                                        <div key={index} className="flex gap-2">
+                                            <input type="number" min="0" placeholder="Up to (head-days)" value={slab.upto}
+                                                onChange={(e) => updateSlab(index, 'upto', e.target.value)}
+                                                className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-white outline-none placeholder:text-white/20" />
+                                            <input type="number" min="0" step="0.01" placeholder="₹ per head-day" value={slab.per_head_day}
+                                                onChange={(e) => updateSlab(index, 'per_head_day', e.target.value)}
+                                                className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-white outline-none placeholder:text-white/20" />
+                                            <button type="button" onClick={() => setForm({ ...form, slabs: form.slabs.filter((_, i) => i !== index) })}
+                                                className="px-3 text-red-400 hover:bg-red-500/10 rounded-xl">✕</button>
+                                        </div>
+                                    ))}
+                                    <button type="button" onClick={() => setForm({ ...form, slabs: [...form.slabs, { upto: '', per_head_day: '' }] })}
+                                        className="text-cyan-400 text-sm hover:underline">+ Add slab</button>
+                                </div>
+                            ) : (
+                                <input type="number" min="0" step="0.01" value={form.commission_rate}
+                                    placeholder={form.commission_type === 'percent' ? 'Percent of wages' : '₹ per head-day'}
+                                    onChange={(e) => setForm({ ...form, commission_rate: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" required />
+                            )}
+                            <label className="flex items-center gap-3 text-slate-300 text-sm">
+                                <input type="checkbox" checked={form.deduct_from_wages}
+                                    onChange={(e) => setForm({ ...form, deduct_from_wages: e.target.checked })}
+                                    className="w-4 h-4" />
+                                Deduct commission from workers&apos; wages
+                            </label>
+                            <label className="flex items-center gap-3 text-slate-300 text-sm">
+                                <input type="checkbox" checked={form.is_active}
+                                    onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                                    className="w-4 h-4" />
+                                Active
+                            </label>
+                            <div className="flex gap-3 mt-8">
+                                <button type="button" onClick={() => setShowModal(false)}
+                                    className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5">
+                                    Cancel
+                                </button>
+                                <button type="submit"
+                                    className="flex-1 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold shadow-lg">
+                                    {editingId ? 'Save' : 'Add Maistry'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
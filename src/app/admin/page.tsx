@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
 
 interface Stats {
     totalWorkers: number;
@@ -23,7 +24,7 @@ export default function AdminDashboard() {
     const [recentLogs, setRecentLogs] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
 
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = businessDate();
 
     useEffect(() => { loadStats(); }, []);
 
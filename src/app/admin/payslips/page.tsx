@@ -3,53 +3,172 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { COMPANY_NAME } from '@/lib/config';
+import { businessDate, addDays } from '@/lib/business-date';
+import { lineTotal, formatRates, LineItem } from '@/lib/wage-engine';
+import { PaymentBatch } from '@/lib/payment-batches';
+import {
+    buildPayslip, buildBatchPayslips, issuePayslips, loadIssuedPayslips,
+    PayslipSnapshot, PayslipWorker, IssuedPayslip, PAYSLIP_WORKER_COLUMNS,
+} from '@/lib/payslips';
+
+interface PayslipData extends PayslipSnapshot {
+    serialNo: string | null; // Set once printed (issued to the archive)
+}
 
-interface Worker {
-    id: string;
-    name: string;
-    worker_number: string | null;
-    base_rate: number;
-    category: string | null;
-    photo_url: string | null;
+// "Basic Pay (6 days × ₹400)"
+function lineDescription(line: LineItem): string {
+    if (line.kind === 'commission' || line.kind === 'recovery') return line.label;
+    return `${line.label} (${line.quantity} ${line.kind === 'overtime' ? 'hrs' : 'days'} × ${formatRates(line.rates)})`;
 }
 
-interface AttendanceRecord {
-    date: string;
-    check_in_time: string | null;
-    check_out_time: string | null;
-    status: string;
-    overtime_hours: number;
+// One payslip's printable HTML; styles come from printPayslips
+function payslipHtml(slip: PayslipSnapshot, serialNo: string | null): string {
+    return `
+            <div class="payslip">
+                <div class="header">
+                    <div class="company">${COMPANY_NAME}</div>
+                    <div class="title">WORKER PAYSLIP</div>
+                    ${serialNo ? `<div class="serial">Payslip No. ${serialNo}</div>` : ''}
+                </div>
+
+                <div class="worker-info">
+                    ${slip.worker.photo_url ? `<img src="${slip.worker.photo_url}" class="worker-photo" />` : '<div class="worker-photo"></div>'}
+                    <div class="worker-details">
+                        <div class="worker-name">${slip.worker.name}</div>
+                        <div class="worker-id">ID: ${slip.worker.worker_number || 'N/A'}</div>
+                        <div class="worker-id">Category: ${slip.worker.category || 'General'}</div>
+                        <div class="worker-id">Daily Rate: ${formatRates(slip.sheet.rates)}</div>
+                    </div>
+                </div>
+
+                <div class="period">
+                    <strong>Pay Period:</strong> ${new Date(slip.startDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })} 
+                    to ${new Date(slip.endDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}
+                </div>
+
+                <div class="summary">
+                    <div class="stat">
+                        <div class="stat-value" style="color: green;">${slip.sheet.days.present}</div>
+                        <div class="stat-label">Days Present</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value" style="color: orange;">${slip.sheet.days.halfDay}</div>
+                        <div class="stat-label">Half Days</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value" style="color: red;">${slip.sheet.days.absent}</div>
+                        <div class="stat-label">Days Absent</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value">${slip.lateDays}</div>
+                        <div class="stat-label">Late Days (${slip.lateMinutes} min)</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value">${slip.earlyLeaveDays}</div>
+                        <div class="stat-label">Early Leaves (${slip.earlyLeaveMinutes} min)</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value" style="color: purple;">${slip.sheet.overtimeHours}</div>
+                        <div class="stat-label">OT Hours</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value" style="color: #0277bd;">${slip.sheet.days.off}</div>
+                        <div class="stat-label">Weekly Offs / Holidays (${slip.sheet.days.paidHolidays} paid)</div>
+                    </div>
+                    <div class="stat">
+                        <div class="stat-value" style="color: #0277bd;">${slip.sheet.days.leave}</div>
+                        <div class="stat-label">Leave Taken (${slip.sheet.days.leavePaid} paid)</div>
+                    </div>
+                </div>
+
+                <div class="pay-section">
+                    ${slip.sheet.lines.map(line => `
+                    <div class="pay-row">
+                        <span>${lineDescription(line)}${line.note ? ` (${line.note})` : ''}</span>
+                        <span>${line.effect === 'deduction' ? '-' : ''}₹${Math.round(line.amount).toLocaleString()}</span>
+                    </div>`).join('')}
+                    <div class="pay-row total">
+                        <span>Total Payable</span>
+                        <span>₹${Math.round(slip.sheet.net).toLocaleString()}</span>
+                    </div>
+                </div>
+                ${slip.ledgerBalance > 0 || lineTotal(slip.sheet, 'recovery') > 0 ? `
+                <div class="period" style="margin-top: 20px; margin-bottom: 0;">
+                    <strong>Advance balance outstanding:</strong> ₹${Math.round(slip.ledgerBalance).toLocaleString()}
+                </div>` : ''}
+
+                <div class="footer">
+                    Generated on ${new Date().toLocaleString('en-IN')} | ${COMPANY_NAME}
+                </div>
+            </div>`;
 }
 
-interface PayslipData {
-    worker: Worker;
-    attendance: AttendanceRecord[];
-    daysPresent: number;
-    daysHalfDay: number;
-    daysAbsent: number;
-    overtimeHours: number;
-    basicPay: number;
-    overtimePay: number;
-    totalPay: number;
+// One document with a page per payslip - print it or save it as PDF
+function printPayslips(slips: { snapshot: PayslipSnapshot; serialNo: string | null }[], title: string) {
+    const printContent = `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <title>${title}</title>
+                <style>
+                    body { font-family: Arial, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto; }
+                    .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px; }
+                    .company { font-size: 24px; font-weight: bold; color: #333; }
+                    .title { font-size: 18px; color: #666; margin-top: 10px; }
+                    .worker-info { display: flex; gap: 20px; margin-bottom: 30px; background: #f5f5f5; padding: 20px; border-radius: 8px; }
+                    .worker-photo { width: 80px; height: 80px; border-radius: 8px; object-fit: cover; background: #ddd; }
+                    .worker-details { flex: 1; }
+                    .worker-name { font-size: 20px; font-weight: bold; }
+                    .worker-id { color: #666; }
+                    .period { background: #e3f2fd; padding: 15px; border-radius: 8px; text-align: center; margin-bottom: 30px; }
+                    .summary { display: grid; grid-template-columns: repeat(3, 1fr); gap: 15px; margin-bottom: 30px; }
+                    .stat { background: #f9f9f9; padding: 15px; border-radius: 8px; text-align: center; }
+                    .stat-value { font-size: 24px; font-weight: bold; color: #333; }
+                    .stat-label { font-size: 12px; color: #666; }
+                    .pay-section { border: 2px solid #333; border-radius: 8px; overflow: hidden; }
+                    .pay-row { display: flex; justify-content: space-between; padding: 15px 20px; border-bottom: 1px solid #eee; }
+                    .pay-row:last-child { border-bottom: none; }
+                    .pay-row.total { background: #333; color: white; font-weight: bold; font-size: 18px; }
+                    .footer { text-align: center; margin-top: 40px; color: #999; font-size: 12px; }
+                    .serial { font-size: 12px; color: #999; margin-top: 6px; }
+                    .payslip { page-break-after: always; }
+                    .payslip:last-child { page-break-after: auto; }
+                    @media print { body { padding: 20px; } }
+                </style>
+            </head>
+            <body>
+                ${slips.map(slip => payslipHtml(slip.snapshot, slip.serialNo)).join('')}
+            </body>
+            </html>
+        `;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+        printWindow.document.write(printContent);
+        printWindow.document.close();
+        setTimeout(() => printWindow.print(), 300);
+    }
 }
 
 export default function PayslipsPage() {
     const [loading, setLoading] = useState(true);
-    const [workers, setWorkers] = useState<Worker[]>([]);
+    const [workers, setWorkers] = useState<PayslipWorker[]>([]);
     const [selectedWorker, setSelectedWorker] = useState<string>('');
-    const [startDate, setStartDate] = useState(() => {
-        const d = new Date();
-        d.setDate(d.getDate() - 9); // Last 10 days
-        return d.toISOString().split('T')[0];
-    });
-    const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+    const [startDate, setStartDate] = useState(() => addDays(businessDate(), -9)); // Last 10 days
+    const [endDate, setEndDate] = useState(() => businessDate());
     const [payslip, setPayslip] = useState<PayslipData | null>(null);
     const [generating, setGenerating] = useState(false);
     const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+    const [batches, setBatches] = useState<PaymentBatch[]>([]);
+    const [selectedBatch, setSelectedBatch] = useState<string>('');
+    const [printingBatch, setPrintingBatch] = useState(false);
+    const [archive, setArchive] = useState<IssuedPayslip[]>([]);
 
-    const OVERTIME_RATE_MULTIPLIER = 1.5; // Overtime is 1.5x
-
-    useEffect(() => { loadWorkers(); }, []);
+    useEffect(() => {
+        loadWorkers();
+        loadBatches();
+        loadArchive();
+    }, []);
 
     useEffect(() => {
         if (notification) {
@@ -59,7 +178,7 @@ export default function PayslipsPage() {
     }, [notification]);
 
     const loadWorkers = async () => {
-        const { data } = await supabase.from('workers').select('id, name, worker_number, base_rate, category, photo_url').eq('is_active', true).order('name');
+        const { data } = await supabase.from('workers').select(PAYSLIP_WORKER_COLUMNS).eq('is_active', true).order('name');
         setWorkers(data || []);
         if (data && data.length > 0) {
             setSelectedWorker(data[0].id);
@@ -67,6 +186,18 @@ export default function PayslipsPage() {
         setLoading(false);
     };
 
+    const loadBatches = async () => {
+        const { data } = await supabase.from('payment_batches').select('*').order('created_at', { ascending: false }).limit(20);
+        setBatches(data || []);
+        if (data && data.length > 0) {
+            setSelectedBatch(data[0].id);
+        }
+    };
+
+    const loadArchive = async () => {
+        setArchive(await loadIssuedPayslips());
+    };
+
     const generatePayslip = async () => {
         if (!selectedWorker) return;
 
@@ -77,162 +208,64 @@ export default function PayslipsPage() {
             return;
         }
 
-        // Get attendance for date range
-        const { data: attendance } = await supabase
-            .from('attendance_logs')
-            .select('date, check_in_time, check_out_time, status, overtime_hours')
-            .eq('worker_id', selectedWorker)
-            .gte('date', startDate)
-            .lte('date', endDate)
-            .order('date', { ascending: true });
-
-        const records = attendance || [];
-
-        // Calculate stats
-        let daysPresent = 0;
-        let daysHalfDay = 0;
-        let overtimeHours = 0;
-
-        records.forEach(r => {
-            if (r.check_in_time) {
-                if (r.status === 'half-day') {
-                    daysHalfDay++;
-                } else {
-                    daysPresent++;
-                }
-            }
-            if (r.overtime_hours) {
-                overtimeHours += r.overtime_hours;
-            }
-        });
-
-        // Calculate total working days in range
-        const start = new Date(startDate);
-        const end = new Date(endDate);
-        const totalDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        const daysAbsent = totalDays - daysPresent - daysHalfDay;
-
-        // Calculate pay
-        const dailyRate = worker.base_rate;
-        const basicPay = (daysPresent * dailyRate) + (daysHalfDay * dailyRate * 0.5);
-        const hourlyRate = dailyRate / 8; // Assuming 8-hour workday
-        const overtimePay = overtimeHours * hourlyRate * OVERTIME_RATE_MULTIPLIER;
-        const totalPay = basicPay + overtimePay;
-
-        setPayslip({
-            worker,
-            attendance: records,
-            daysPresent,
-            daysHalfDay,
-            daysAbsent,
-            overtimeHours,
-            basicPay,
-            overtimePay,
-            totalPay
-        });
+        try {
+            setPayslip({ ...await buildPayslip(worker, startDate, endDate), serialNo: null });
+        } catch (error: any) {
+            console.error('Error generating payslip:', error);
+            setNotification({ type: 'error', message: error.message || 'Failed to generate payslip' });
+            setGenerating(false);
+            return;
+        }
 
         setGenerating(false);
         setNotification({ type: 'success', message: 'Payslip generated!' });
     };
 
-    const printPayslip = () => {
+    const printPayslip = async () => {
         if (!payslip) return;
 
-        const printContent = `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <title>Payslip - ${payslip.worker.name}</title>
-                <style>
-                    body { font-family: Arial, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto; }
-                    .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px; }
-                    .company { font-size: 24px; font-weight: bold; color: #333; }
-                    .title { font-size: 18px; color: #666; margin-top: 10px; }
-                    .worker-info { display: flex; gap: 20px; margin-bottom: 30px; background: #f5f5f5; padding: 20px; border-radius: 8px; }
-                    .worker-photo { width: 80px; height: 80px; border-radius: 8px; object-fit: cover; background: #ddd; }
-                    .worker-details { flex: 1; }
-                    .worker-name { font-size: 20px; font-weight: bold; }
-                    .worker-id { color: #666; }
-                    .period { background: #e3f2fd; padding: 15px; border-radius: 8px; text-align: center; margin-bottom: 30px; }
-                    .summary { display: grid; grid-template-columns: repeat(3, 1fr); gap: 15px; margin-bottom: 30px; }
-                    .stat { background: #f9f9f9; padding: 15px; border-radius: 8px; text-align: center; }
-                    .stat-value { font-size: 24px; font-weight: bold; color: #333; }
-                    .stat-label { font-size: 12px; color: #666; }
-                    .pay-section { border: 2px solid #333; border-radius: 8px; overflow: hidden; }
-                    .pay-row { display: flex; justify-content: space-between; padding: 15px 20px; border-bottom: 1px solid #eee; }
-                    .pay-row:last-child { border-bottom: none; }
-                    .pay-row.total { background: #333; color: white; font-weight: bold; font-size: 18px; }
-                    .footer { text-align: center; margin-top: 40px; color: #999; font-size: 12px; }
-                    @media print { body { padding: 20px; } }
-                </style>
-            </head>
-            <body>
-                <div class="header">
-                    <div class="company">${COMPANY_NAME}</div>
-                    <div class="title">WORKER PAYSLIP</div>
-                </div>
-
-                <div class="worker-info">
-                    ${payslip.worker.photo_url ? `<img src="${payslip.worker.photo_url}" class="worker-photo" />` : '<div class="worker-photo"></div>'}
-                    <div class="worker-details">
-                        <div class="worker-name">${payslip.worker.name}</div>
-                        <div class="worker-id">ID: ${payslip.worker.worker_number || 'N/A'}</div>
-                        <div class="worker-id">Category: ${payslip.worker.category || 'General'}</div>
-                        <div class="worker-id">Daily Rate: ₹${payslip.worker.base_rate}</div>
-                    </div>
-                </div>
-
-                <div class="period">
-                    <strong>Pay Period:</strong> ${new Date(startDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })} 
-                    to ${new Date(endDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' })}
-                </div>
-
-                <div class="summary">
-                    <div class="stat">
-                        <div class="stat-value" style="color: green;">${payslip.daysPresent}</div>
-                        <div class="stat-label">Days Present</div>
-                    </div>
-                    <div class="stat">
-                        <div class="stat-value" style="color: orange;">${payslip.daysHalfDay}</div>
-                        <div class="stat-label">Half Days</div>
-                    </div>
-                    <div class="stat">
-                        <div class="stat-value" style="color: red;">${payslip.daysAbsent}</div>
-                        <div class="stat-label">Days Absent</div>
-                    </div>
-                </div>
-
-                <div class="pay-section">
-                    <div class="pay-row">
-                        <span>Basic Pay (${payslip.daysPresent} days × ₹${payslip.worker.base_rate})</span>
-                        <span>₹${(payslip.daysPresent * payslip.worker.base_rate).toLocaleString()}</span>
-                    </div>
-                    <div class="pay-row">
-                        <span>Half Day Pay (${payslip.daysHalfDay} × ₹${payslip.worker.base_rate / 2})</span>
-                        <span>₹${(payslip.daysHalfDay * payslip.worker.base_rate / 2).toLocaleString()}</span>
-                    </div>
-                    <div class="pay-row">
-                        <span>Overtime Pay (${payslip.overtimeHours} hrs × ₹${Math.round((payslip.worker.base_rate / 8) * OVERTIME_RATE_MULTIPLIER)})</span>
-                        <span>₹${Math.round(payslip.overtimePay).toLocaleString()}</span>
-                    </div>
-                    <div class="pay-row total">
-                        <span>Total Payable</span>
-                        <span>₹${Math.round(payslip.totalPay).toLocaleString()}</span>
-                    </div>
-                </div>
-
-                <div class="footer">
-                    Generated on ${new Date().toLocaleString('en-IN')} | ${COMPANY_NAME}
-                </div>
-            </body>
-            </html>
-        `;
+        // Issued once, so the archive can reprint the same figures
+        let serialNo = payslip.serialNo;
+        if (!serialNo) {
+            try {
+                const { data: { user } } = await supabase.auth.getUser();
+                const [issued] = await issuePayslips([payslip], null, user?.id || null);
+                serialNo = issued.serial_no;
+                setPayslip({ ...payslip, serialNo });
+                loadArchive();
+            } catch (error: any) {
+                console.error('Error issuing payslip:', error);
+                setNotification({ type: 'error', message: error.message || 'Failed to save payslip' });
+                return;
+            }
+        }
+        printPayslips([{ snapshot: payslip, serialNo }], `Payslip - ${payslip.worker.name}`);
+    };
 
-        const printWindow = window.open('', '_blank');
-        if (printWindow) {
-            printWindow.document.write(printContent);
-            printWindow.document.close();
-            setTimeout(() => printWindow.print(), 300);
+    // Every payslip in a batch as one document: issued on the first print, reprinted from the archive after
+    const printBatch = async () => {
+        const batch = batches.find(b => b.id === selectedBatch);
+        if (!batch) return;
+
+        setPrintingBatch(true);
+        try {
+            let slips = await loadIssuedPayslips(batch.id);
+            if (slips.length === 0) {
+                const { data: { user } } = await supabase.auth.getUser();
+                slips = await issuePayslips(await buildBatchPayslips(batch), batch.id, user?.id || null);
+                loadArchive();
+            }
+            if (slips.length === 0) {
+                setNotification({ type: 'error', message: 'No workers were paid in this batch' });
+                return;
+            }
+            printPayslips(slips.map(p => ({ snapshot: p.snapshot, serialNo: p.serial_no })), `Payslips ${batch.start_date} to ${batch.end_date}`);
+            setNotification({ type: 'success', message: `${slips.length} payslips ready to print` });
+        } catch (error: any) {
+            console.error('Error printing batch payslips:', error);
+            setNotification({ type: 'error', message: error.message || 'Failed to generate payslips' });
+        } finally {
+            setPrintingBatch(false);
         }
     };
 
@@ -312,11 +345,41 @@ export default function PayslipsPage() {
                 </div>
             </div>
 
+            {/* Batch Payslips */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-4 lg:p-6">
+                <h3 className="font-semibold text-white mb-1">Batch Payslips</h3>
+                <p className="text-xs text-slate-400 mb-4">Every worker paid in a settlement, as one document to print or save as PDF</p>
+                <div className="flex flex-col md:flex-row gap-4">
+                    <select
+                        value={selectedBatch}
+                        onChange={(e) => setSelectedBatch(e.target.value)}
+                        className="flex-1 px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white"
+                    >
+                        {batches.length === 0 && <option value="" className="bg-slate-900">No payment batches yet</option>}
+                        {batches.map(b => (
+                            <option key={b.id} value={b.id} className="bg-slate-900">
+                                {b.start_date} → {b.end_date} • ₹{b.net_amount.toLocaleString()} • {b.status}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={printBatch}
+                        disabled={printingBatch || !selectedBatch}
+                        className="px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-xl font-medium disabled:opacity-50"
+                    >
+                        {printingBatch ? 'Preparing...' : '🖨️ Print All Payslips'}
+                    </button>
+                </div>
+            </div>
+
             {/* Payslip Preview */}
             {payslip && (
                 <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
                     <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
-                        <h3 className="font-semibold text-white">Payslip Preview</h3>
+                        <h3 className="font-semibold text-white">
+                            Payslip Preview
+                            {payslip.serialNo && <span className="text-xs font-normal text-slate-400 ml-2">No. {payslip.serialNo}</span>}
+                        </h3>
                         <button
                             onClick={printPayslip}
                             className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-lg text-sm font-medium"
@@ -338,49 +401,71 @@ export default function PayslipsPage() {
                             <div>
                                 <p className="text-white font-bold text-lg">{payslip.worker.name}</p>
                                 <p className="text-slate-400 text-sm">{payslip.worker.worker_number || 'No ID'} • {payslip.worker.category || 'General'}</p>
-                                <p className="text-cyan-400 text-sm">₹{payslip.worker.base_rate}/day</p>
+                                <p className="text-cyan-400 text-sm">{formatRates(payslip.sheet.rates)}/day</p>
                             </div>
                         </div>
 
                         {/* Stats */}
                         <div className="grid grid-cols-4 gap-3 mb-6">
                             <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-3 text-center">
-                                <p className="text-2xl font-bold text-green-400">{payslip.daysPresent}</p>
+                                <p className="text-2xl font-bold text-green-400">{payslip.sheet.days.present}</p>
                                 <p className="text-xs text-slate-400">Present</p>
                             </div>
                             <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-3 text-center">
-                                <p className="text-2xl font-bold text-yellow-400">{payslip.daysHalfDay}</p>
+                                <p className="text-2xl font-bold text-yellow-400">{payslip.sheet.days.halfDay}</p>
                                 <p className="text-xs text-slate-400">Half Day</p>
                             </div>
                             <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-center">
-                                <p className="text-2xl font-bold text-red-400">{payslip.daysAbsent}</p>
+                                <p className="text-2xl font-bold text-red-400">{payslip.sheet.days.absent}</p>
                                 <p className="text-xs text-slate-400">Absent</p>
                             </div>
                             <div className="bg-purple-500/10 border border-purple-500/20 rounded-xl p-3 text-center">
-                                <p className="text-2xl font-bold text-purple-400">{payslip.overtimeHours}</p>
+                                <p className="text-2xl font-bold text-purple-400">{payslip.sheet.overtimeHours}</p>
                                 <p className="text-xs text-slate-400">OT Hours</p>
                             </div>
                         </div>
-
-                        {/* Pay Breakdown */}
-                        <div className="bg-black/20 rounded-xl overflow-hidden">
-                            <div className="flex justify-between p-4 border-b border-white/5">
-                                <span className="text-slate-300">Basic Pay ({payslip.daysPresent} days)</span>
-                                <span className="text-white font-medium">₹{(payslip.daysPresent * payslip.worker.base_rate).toLocaleString()}</span>
+                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+                            <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-3 text-center">
+                                <p className="text-xl font-bold text-blue-400">{payslip.sheet.days.leave} <span className="text-xs font-normal text-slate-400">({payslip.sheet.days.leavePaid} paid)</span></p>
+                                <p className="text-xs text-slate-400">Leave Taken</p>
+                            </div>
+                            <div className="bg-sky-500/10 border border-sky-500/20 rounded-xl p-3 text-center">
+                                <p className="text-xl font-bold text-sky-400">{payslip.sheet.days.off} <span className="text-xs font-normal text-slate-400">({payslip.sheet.days.paidHolidays} paid)</span></p>
+                                <p className="text-xs text-slate-400">Offs / Holidays</p>
                             </div>
-                            <div className="flex justify-between p-4 border-b border-white/5">
-                                <span className="text-slate-300">Half Day Pay ({payslip.daysHalfDay} days)</span>
-                                <span className="text-white font-medium">₹{(payslip.daysHalfDay * payslip.worker.base_rate / 2).toLocaleString()}</span>
+                            <div className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-3 text-center">
+                                <p className="text-xl font-bold text-orange-400">{payslip.lateDays} <span className="text-xs font-normal text-slate-400">({payslip.lateMinutes} min)</span></p>
+                                <p className="text-xs text-slate-400">Late Arrivals</p>
                             </div>
-                            <div className="flex justify-between p-4 border-b border-white/5">
-                                <span className="text-slate-300">Overtime Pay ({payslip.overtimeHours} hrs)</span>
-                                <span className="text-white font-medium">₹{Math.round(payslip.overtimePay).toLocaleString()}</span>
+                            <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-3 text-center">
+                                <p className="text-xl font-bold text-amber-400">{payslip.earlyLeaveDays} <span className="text-xs font-normal text-slate-400">({payslip.earlyLeaveMinutes} min)</span></p>
+                                <p className="text-xs text-slate-400">Early Leaves</p>
                             </div>
+                        </div>
+
+                        {/* Pay Breakdown */}
+                        <div className="bg-black/20 rounded-xl overflow-hidden">
+                            {payslip.sheet.lines.map((line, i) => (
+                                <div key={i} className="flex justify-between p-4 border-b border-white/5">
+                                    <span className="text-slate-300">
+                                        {lineDescription(line)}
+                                        {line.note && <span className="text-slate-500 text-xs"> • {line.note}</span>}
+                                    </span>
+                                    <span className={`font-medium ${line.effect === 'deduction' ? 'text-red-400' : line.effect === 'memo' ? 'text-slate-500' : 'text-white'}`}>
+                                        {line.effect === 'deduction' ? '-' : ''}₹{Math.round(line.amount).toLocaleString()}
+                                    </span>
+                                </div>
+                            ))}
                             <div className="flex justify-between p-4 bg-gradient-to-r from-cyan-500/20 to-blue-500/20">
                                 <span className="text-white font-bold">Total Payable</span>
-                                <span className="text-2xl font-bold text-cyan-400">₹{Math.round(payslip.totalPay).toLocaleString()}</span>
+                                <span className="text-2xl font-bold text-cyan-400">₹{Math.round(payslip.sheet.net).toLocaleString()}</span>
                             </div>
                         </div>
+                        {(payslip.ledgerBalance > 0 || lineTotal(payslip.sheet, 'recovery') > 0) && (
+                            <p className="text-sm text-slate-400 mt-3 text-right">
+                                Advance balance outstanding: <span className="text-white font-medium">₹{Math.round(payslip.ledgerBalance).toLocaleString()}</span>
+                            </p>
+                        )}
                     </div>
                 </div>
             )}
@@ -393,6 +478,47 @@ export default function PayslipsPage() {
                     <p className="text-sm text-slate-400">Click "Generate Payslip" to calculate wages</p>
                 </div>
             )}
+
+            {/* Archive */}
+            {archive.length > 0 && (
+                <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                    <div className="px-4 py-3 border-b border-white/10">
+                        <h3 className="font-semibold text-white">Issued Payslips</h3>
+                        <p className="text-xs text-slate-400">Reprints show the figures as issued</p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-slate-400 border-b border-white/10">
+                                    <th className="px-4 py-3">No.</th>
+                                    <th className="px-4 py-3">Worker</th>
+                                    <th className="px-4 py-3">Period</th>
+                                    <th className="px-4 py-3 text-right">Net</th>
+                                    <th className="px-4 py-3"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {archive.map(p => (
+                                    <tr key={p.id} className="border-b border-white/5">
+                                        <td className="px-4 py-3 text-slate-300 font-mono">{p.serial_no}</td>
+                                        <td className="px-4 py-3 text-white">{p.snapshot.worker.name}</td>
+                                        <td className="px-4 py-3 text-slate-400">{p.period_start} → {p.period_end}</td>
+                                        <td className="px-4 py-3 text-right text-cyan-400 font-medium">₹{Math.round(p.net_amount).toLocaleString()}</td>
+                                        <td className="px-4 py-3 text-right">
+                                            <button
+                                                onClick={() => printPayslips([{ snapshot: p.snapshot, serialNo: p.serial_no }], `Payslip ${p.serial_no}`)}
+                                                className="text-xs px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg"
+                                            >
+                                                🖨️ Reprint
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
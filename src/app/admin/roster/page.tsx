@@ -0,0 +1,484 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { businessDate, addDays, isOvernightShift, rosterMap } from '@/lib/business-date';
+import {
+    loadRoster, saveRosterEntries, clearRoster, loadRosterTemplates, expandRotation, cycleLength,
+    RosterEntry, RosterTemplate, RotationSegment,
+} from '@/lib/roster';
+
+interface RosterWorker {
+    id: string;
+    name: string;
+    worker_number: string | null;
+    category: string | null;
+    incharge_id: string | null;
+    shift_id: number | null;
+}
+
+interface Shift {
+    id: number;
+    name: string;
+    start_time: string;
+    end_time: string;
+}
+
+interface Incharge {
+    id: string;
+    email: string;
+    full_name: string | null;
+}
+
+// 'clear' removes the roster entry so the worker's default shift applies
+type Brush = number | null | 'clear';
+
+const VISIBLE_DAYS = 14;
+const SHIFT_COLORS = [
+    'bg-amber-500/20 text-amber-300 border-amber-500/30',
+    'bg-indigo-500/20 text-indigo-300 border-indigo-500/30',
+    'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+    'bg-pink-500/20 text-pink-300 border-pink-500/30',
+    'bg-cyan-500/20 text-cyan-300 border-cyan-500/30',
+];
+
+// Monday of the week containing `date`
+function weekStart(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return addDays(date, -((day + 6) % 7));
+}
+
+const EMPTY_BULK = { group: 'category' as 'category' | 'incharge' | 'filtered', value: '', from: '', to: '', mode: 'template' as 'shift' | 'template', shiftId: '', templateId: '', offset: '0' };
+
+export default function AdminRosterPage() {
+    const [workers, setWorkers] = useState<RosterWorker[]>([]);
+    const [shifts, setShifts] = useState<Shift[]>([]);
+    const [incharges, setIncharges] = useState<Incharge[]>([]);
+    const [templates, setTemplates] = useState<RosterTemplate[]>([]);
+    const [roster, setRoster] = useState<Record<string, number | null>>({});
+    const [loading, setLoading] = useState(true);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+    const [startDate, setStartDate] = useState(() => weekStart(businessDate()));
+    const [categoryFilter, setCategoryFilter] = useState('all');
+    const [inchargeFilter, setInchargeFilter] = useState('all');
+    const [brush, setBrush] = useState<Brush>('clear');
+
+    const [showBulk, setShowBulk] = useState(false);
+    const [bulk, setBulk] = useState(EMPTY_BULK);
+    const [applying, setApplying] = useState(false);
+
+    const [showTemplate, setShowTemplate] = useState(false);
+    const [editingTemplate, setEditingTemplate] = useState<RosterTemplate | null>(null);
+    const [templateName, setTemplateName] = useState('');
+    const [segments, setSegments] = useState<RotationSegment[]>([]);
+
+    const dates = Array.from({ length: VISIBLE_DAYS }, (_, i) => addDays(startDate, i));
+    const endDate = dates[dates.length - 1];
+    const today = businessDate();
+
+    useEffect(() => { loadData(); }, []);
+    useEffect(() => { loadWeek(); }, [startDate]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    const loadData = async () => {
+        const [workersRes, shiftsRes, inchargesRes, templateList] = await Promise.all([
+            supabase.from('workers').select('id, name, worker_number, category, incharge_id, shift_id').eq('is_active', true).order('name'),
+            supabase.from('shifts').select('id, name, start_time, end_time').eq('is_active', true).order('start_time'),
+            supabase.from('profiles').select('id, email, full_name').eq('role', 'manager'),
+            loadRosterTemplates(),
+        ]);
+        if (workersRes.error) setNotification({ type: 'error', message: 'Failed to load workers' });
+        setWorkers(workersRes.data || []);
+        setShifts(shiftsRes.data || []);
+        setIncharges(inchargesRes.data || []);
+        setTemplates(templateList);
+        setLoading(false);
+    };
+
+    const loadWeek = async () => {
+        setRoster(rosterMap(await loadRoster(startDate, addDays(startDate, VISIBLE_DAYS - 1))));
+    };
+
+    const categories = Array.from(new Set(workers.map(w => w.category).filter(Boolean))) as string[];
+    const visibleWorkers = workers.filter(w =>
+        (categoryFilter === 'all' || w.category === categoryFilter) &&
+        (inchargeFilter === 'all' || w.incharge_id === inchargeFilter));
+
+    const shiftIndex = (shiftId: number) => shifts.findIndex(s => s.id === shiftId);
+    const shiftName = (shiftId: number | null) => shiftId ? shifts.find(s => s.id === shiftId)?.name || `#${shiftId}` : 'Off';
+
+    const paintCell = async (workerId: string, date: string) => {
+        const key = `${workerId}|${date}`;
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (brush === 'clear') {
+                if (!(key in roster)) return;
+                await clearRoster([workerId], date, date);
+                setRoster(prev => {
+                    const next = { ...prev };
+                    delete next[key];
+                    return next;
+                });
+            } else {
+                await saveRosterEntries([{ worker_id: workerId, date, shift_id: brush }], user?.id || null);
+                setRoster(prev => ({ ...prev, [key]: brush }));
+            }
+        } catch (err: any) {
+            setNotification({ type: 'error', message: err.message || 'Failed to update roster' });
+        }
+    };
+
+    const bulkWorkerIds = () => {
+        if (bulk.group === 'filtered') return visibleWorkers.map(w => w.id);
+        if (bulk.group === 'category') return workers.filter(w => w.category === bulk.value).map(w => w.id);
+        return workers.filter(w => w.incharge_id === bulk.value).map(w => w.id);
+    };
+
+    const applyBulk = async () => {
+        const workerIds = bulkWorkerIds();
+        if (workerIds.length === 0) { setNotification({ type: 'error', message: 'No workers in this group' }); return; }
+        if (!bulk.from || !bulk.to || bulk.to < bulk.from) { setNotification({ type: 'error', message: 'Choose a valid date range' }); return; }
+
+        let entries: RosterEntry[];
+        if (bulk.mode === 'template') {
+            const template = templates.find(t => t.id === parseInt(bulk.templateId));
+            if (!template || cycleLength(template.pattern) === 0) { setNotification({ type: 'error', message: 'Choose a rotation template' }); return; }
+            entries = expandRotation(template.pattern, workerIds, bulk.from, bulk.to, parseInt(bulk.offset) || 0);
+        } else {
+            entries = expandRotation([{ shift_id: bulk.shiftId ? parseInt(bulk.shiftId) : null, days: 1 }], workerIds, bulk.from, bulk.to);
+        }
+
+        setApplying(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await saveRosterEntries(entries, user?.id || null);
+            await supabase.from('audit_logs').insert({
+                table_name: 'shift_roster',
+                record_id: null,
+                action: 'BULK_ROSTER',
+                old_values: null,
+                new_values: { workers: workerIds.length, from: bulk.from, to: bulk.to, mode: bulk.mode, shift_id: bulk.shiftId || null, template_id: bulk.templateId || null, offset: bulk.offset },
+                changed_by: user?.id,
+            });
+            setNotification({ type: 'success', message: `Rostered ${workerIds.length} workers (${entries.length} days)` });
+            setShowBulk(false);
+            loadWeek();
+        } catch (err: any) {
+            setNotification({ type: 'error', message: err.message || 'Bulk assignment failed' });
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const openTemplateModal = (template: RosterTemplate | null) => {
+        setEditingTemplate(template);
+        setTemplateName(template?.name || '');
+        setSegments(template?.pattern || shifts.slice(0, 2).map(s => ({ shift_id: s.id, days: 7 })));
+        setShowTemplate(true);
+    };
+
+    const saveTemplate = async () => {
+        if (!templateName.trim() || cycleLength(segments) === 0) {
+            setNotification({ type: 'error', message: 'Name and at least one day are required' });
+            return;
+        }
+        const templateData = { name: templateName.trim(), pattern: segments.filter(s => s.days > 0), is_active: true };
+        const result = editingTemplate
+            ? await supabase.from('roster_templates').update(templateData).eq('id', editingTemplate.id)
+            : await supabase.from('roster_templates').insert(templateData);
+        if (result.error) {
+            setNotification({ type: 'error', message: `Error: ${result.error.message}` });
+            return;
+        }
+        setNotification({ type: 'success', message: editingTemplate ? 'Template updated!' : 'Template created!' });
+        setShowTemplate(false);
+        setTemplates(await loadRosterTemplates());
+    };
+
+    const deleteTemplate = async (templateId: number) => {
+        if (!confirm('Delete this rotation template? Rosters already applied are kept.')) return;
+        const { error } = await supabase.from('roster_templates').delete().eq('id', templateId);
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setTemplates(prev => prev.filter(t => t.id !== templateId));
+    };
+
+    const formatDay = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', timeZone: 'UTC' });
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <div className="w-8 h-8 border-4 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 relative">
+            {/* Toast Notification */}
+            {notification && (
+                <div className={`fixed bottom-6 right-6 z-[100] px-6 py-4 rounded-xl shadow-2xl border flex items-center gap-3 ${notification.type === 'success'
+                        ? 'bg-slate-900/90 border-green-500/30 text-green-400'
+                        : 'bg-slate-900/90 border-red-500/30 text-red-400'
+                    }`}>
+                    <span className="text-2xl">{notification.type === 'success' ? '✓' : '⚠️'}</span>
+                    <span className="font-medium">{notification.message}</span>
+                </div>
+            )}
+
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                <div>
+                    <h1 className="text-xl font-bold text-white flex items-center gap-2">
+                        🗓️ Shift Roster
+                    </h1>
+                    <p className="text-sm text-slate-400">Who works which shift on which day. Rostered shifts override the worker&apos;s default shift.</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={() => openTemplateModal(null)}
+                        className="px-4 py-2 bg-white/5 border border-white/10 text-slate-300 rounded-xl hover:bg-white/10 font-medium">
+                        + Rotation
+                    </button>
+                    <button onClick={() => { setBulk({ ...EMPTY_BULK, from: startDate, to: endDate, value: categories[0] || '' }); setShowBulk(true); }}
+                        className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl hover:from-cyan-400 hover:to-blue-400 font-medium">
+                        Bulk Assign
+                    </button>
+                </div>
+            </div>
+
+            {/* Rotation Templates */}
+            {templates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {templates.map(template => (
+                        <div key={template.id} className="flex items-center gap-2 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm">
+                            <span className="text-white font-medium">🔁 {template.name}</span>
+                            <span className="text-slate-500 text-xs">
+                                {template.pattern.map(s => `${shiftName(s.shift_id)} ×${s.days}`).join(' → ')}
+                            </span>
+                            <button onClick={() => openTemplateModal(template)} className="text-blue-400 text-xs hover:underline">Edit</button>
+                            <button onClick={() => deleteTemplate(template.id)} className="text-red-400 text-xs hover:underline">✕</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Toolbar */}
+            <div className="flex flex-col lg:flex-row lg:items-center gap-3 bg-white/5 border border-white/10 rounded-2xl p-4">
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setStartDate(addDays(startDate, -7))} className="px-3 py-2 bg-white/5 rounded-lg text-slate-300 hover:bg-white/10">←</button>
+                    <button onClick={() => setStartDate(weekStart(today))} className="px-3 py-2 bg-white/5 rounded-lg text-slate-300 hover:bg-white/10 text-sm">This week</button>
+                    <button onClick={() => setStartDate(addDays(startDate, 7))} className="px-3 py-2 bg-white/5 rounded-lg text-slate-300 hover:bg-white/10">→</button>
+                    <span className="text-sm text-slate-400 ml-2">{startDate} – {endDate}</span>
+                </div>
+                <div className="flex gap-2 lg:ml-auto">
+                    <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)}
+                        className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none">
+                        <option value="all" className="bg-slate-900">All categories</option>
+                        {categories.map(c => <option key={c} value={c} className="bg-slate-900">{c}</option>)}
+                    </select>
+                    <select value={inchargeFilter} onChange={(e) => setInchargeFilter(e.target.value)}
+                        className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none">
+                        <option value="all" className="bg-slate-900">All incharges</option>
+                        {incharges.map(i => <option key={i.id} value={i.id} className="bg-slate-900">{i.full_name || i.email}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {/* Brush */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-slate-400">Click cells to set:</span>
+                {shifts.map((shift, idx) => (
+                    <button key={shift.id} onClick={() => setBrush(shift.id)}
+                        className={`px-3 py-1 rounded-lg border ${SHIFT_COLORS[idx % SHIFT_COLORS.length]} ${brush === shift.id ? 'ring-2 ring-white/60' : ''}`}>
+                        {shift.name}{isOvernightShift(shift) && ' 🌙'}
+                    </button>
+                ))}
+                <button onClick={() => setBrush(null)}
+                    className={`px-3 py-1 rounded-lg border bg-slate-500/20 text-slate-300 border-slate-500/30 ${brush === null ? 'ring-2 ring-white/60' : ''}`}>
+                    Off
+                </button>
+                <button onClick={() => setBrush('clear')}
+                    className={`px-3 py-1 rounded-lg border border-dashed border-white/20 text-slate-400 ${brush === 'clear' ? 'ring-2 ring-white/60' : ''}`}>
+                    Default
+                </button>
+            </div>
+
+            {/* Roster Grid */}
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead className="bg-black/20 border-b border-white/5">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-slate-400 font-medium sticky left-0 bg-slate-900 min-w-[160px]">Worker</th>
+                                {dates.map(date => (
+                                    <th key={date} className={`px-1 py-3 text-center font-medium min-w-[64px] ${date === today ? 'text-cyan-400' : 'text-slate-400'}`}>
+                                        {formatDay(date)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {visibleWorkers.map(worker => (
+                                <tr key={worker.id}>
+                                    <td className="px-4 py-2 sticky left-0 bg-slate-900">
+                                        <p className="text-white font-medium truncate">{worker.name}</p>
+                                        <p className="text-slate-500">{worker.worker_number || worker.category || '-'}</p>
+                                    </td>
+                                    {dates.map(date => {
+                                        const key = `${worker.id}|${date}`;
+                                        const rostered = key in roster;
+                                        const shiftId = rostered ? roster[key] : worker.shift_id;
+                                        const idx = shiftId ? shiftIndex(shiftId) : -1;
+                                        return (
+                                            <td key={date} className="px-1 py-1 text-center">
+                                                <button onClick={() => paintCell(worker.id, date)}
+                                                    title={rostered ? 'Rostered' : 'Default shift'}
+                                                    className={`w-full py-2 rounded border truncate ${shiftId && idx >= 0
+                                                        ? SHIFT_COLORS[idx % SHIFT_COLORS.length]
+                                                        : 'bg-slate-500/10 text-slate-500 border-slate-500/20'} ${rostered ? '' : 'opacity-40 border-dashed'}`}>
+                                                    {shiftName(shiftId)}
+                                                </button>
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {visibleWorkers.length === 0 && (
+                    <p className="text-center py-12 text-slate-500">No workers match these filters</p>
+                )}
+            </div>
+
+            {/* Bulk Assign Modal */}
+            {showBulk && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md shadow-2xl">
+                        <h3 className="font-bold text-xl text-white mb-6">Bulk Assign</h3>
+                        <div className="space-y-4">
+                            <div className="grid grid-cols-3 gap-2">
+                                {(['category', 'incharge', 'filtered'] as const).map(group => (
+                                    <button key={group} onClick={() => setBulk({ ...bulk, group, value: group === 'category' ? categories[0] || '' : group === 'incharge' ? incharges[0]?.id || '' : '' })}
+                                        className={`py-2 rounded-lg text-xs font-medium border ${bulk.group === group ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/40' : 'bg-white/5 text-slate-400 border-white/10'}`}>
+                                        {group === 'category' ? 'By Category' : group === 'incharge' ? 'By Incharge' : `Filtered (${visibleWorkers.length})`}
+                                    </button>
+                                ))}
+                            </div>
+                            {bulk.group !== 'filtered' && (
+                                <select value={bulk.value} onChange={(e) => setBulk({ ...bulk, value: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                    {bulk.group === 'category'
+                                        ? categories.map(c => <option key={c} value={c} className="bg-slate-900">{c}</option>)
+                                        : incharges.map(i => <option key={i.id} value={i.id} className="bg-slate-900">{i.full_name || i.email}</option>)}
+                                </select>
+                            )}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">From</label>
+                                    <input type="date" value={bulk.from} onChange={(e) => setBulk({ ...bulk, from: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">To</label>
+                                    <input type="date" value={bulk.to} onChange={(e) => setBulk({ ...bulk, to: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                {(['template', 'shift'] as const).map(mode => (
+                                    <button key={mode} onClick={() => setBulk({ ...bulk, mode })}
+                                        className={`py-2 rounded-lg text-xs font-medium border ${bulk.mode === mode ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/40' : 'bg-white/5 text-slate-400 border-white/10'}`}>
+                                        {mode === 'template' ? '🔁 Rotation' : '🕐 Single Shift'}
+                                    </button>
+                                ))}
+                            </div>
+                            {bulk.mode === 'template' ? (
+                                <div className="grid grid-cols-3 gap-2">
+                                    <select value={bulk.templateId} onChange={(e) => setBulk({ ...bulk, templateId: e.target.value })}
+                                        className="col-span-2 px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                        <option value="" className="bg-slate-900">Select rotation</option>
+                                        {templates.map(t => <option key={t.id} value={t.id} className="bg-slate-900">{t.name}</option>)}
+                                    </select>
+                                    <input type="number" min="0" value={bulk.offset} onChange={(e) => setBulk({ ...bulk, offset: e.target.value })}
+                                        title="Start this many days into the rotation (e.g. 7 for the second gang of a weekly A/B pattern)"
+                                        className="px-3 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" placeholder="Offset" />
+                                </div>
+                            ) : (
+                                <select value={bulk.shiftId} onChange={(e) => setBulk({ ...bulk, shiftId: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                    <option value="" className="bg-slate-900">Off</option>
+                                    {shifts.map(s => <option key={s.id} value={s.id} className="bg-slate-900">{s.name}</option>)}
+                                </select>
+                            )}
+                            <p className="text-xs text-slate-500">Existing roster entries in the range are replaced. Offset starts the rotation part-way, so gangs on the same pattern alternate.</p>
+                        </div>
+                        <div className="flex gap-3 mt-8">
+                            <button onClick={() => setShowBulk(false)}
+                                className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5">
+                                Cancel
+                            </button>
+                            <button onClick={applyBulk} disabled={applying}
+                                className="flex-1 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold shadow-lg disabled:opacity-50">
+                                {applying ? 'Applying...' : 'Apply'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Rotation Template Modal */}
+            {showTemplate && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md shadow-2xl">
+                        <h3 className="font-bold text-xl text-white mb-6">{editingTemplate ? 'Edit Rotation' : 'New Rotation'}</h3>
+                        <div className="space-y-4">
+                            <input type="text" placeholder="e.g. Kiln A/B 2-week" value={templateName}
+                                onChange={(e) => setTemplateName(e.target.value)}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" />
+                            {segments.map((segment, idx) => (
+                                <div key={idx} className="flex gap-2 items-center">
+                                    <select value={segment.shift_id ?? ''}
+                                        onChange={(e) => setSegments(segments.map((s, i) => i === idx ? { ...s, shift_id: e.target.value ? parseInt(e.target.value) : null } : s))}
+                                        className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white outline-none">
+                                        <option value="" className="bg-slate-900">Off</option>
+                                        {shifts.map(s => <option key={s.id} value={s.id} className="bg-slate-900">{s.name}</option>)}
+                                    </select>
+                                    <input type="number" min="1" value={segment.days}
+                                        onChange={(e) => setSegments(segments.map((s, i) => i === idx ? { ...s, days: parseInt(e.target.value) || 0 } : s))}
+                                        className="w-20 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white outline-none" />
+                                    <span className="text-xs text-slate-500">days</span>
+                                    <button onClick={() => setSegments(segments.filter((_, i) => i !== idx))} className="text-red-400 px-2">✕</button>
+                                </div>
+                            ))}
+                            <button onClick={() => setSegments([...segments, { shift_id: shifts[0]?.id ?? null, days: 7 }])}
+                                className="w-full py-2 border border-dashed border-white/20 rounded-lg text-slate-400 text-sm hover:bg-white/5">
+                                + Add block
+                            </button>
+                            <p className="text-xs text-slate-500">Cycle: {cycleLength(segments)} days, then repeats.</p>
+                        </div>
+                        <div className="flex gap-3 mt-8">
+                            <button onClick={() => setShowTemplate(false)}
+                                className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5">
+                                Cancel
+                            </button>
+                            <button onClick={saveTemplate}
+                                className="flex-1 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold shadow-lg">
+                                {editingTemplate ? 'Update Rotation' : 'Create Rotation'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
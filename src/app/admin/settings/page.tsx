@@ -3,10 +3,12 @@
 import { useEffect, useState } from 'react';
 import { COMPANY_NAME, ADMIN_EMAIL } from '@/lib/config';
 import { supabase } from '@/lib/supabase';
+import { MATCH_MARGIN } from '@/lib/face-utils';
 
 export default function AdminSettingsPage() {
     const [saved, setSaved] = useState(false);
     const [locationEnabled, setLocationEnabled] = useState(true);
+    const [matchMargin, setMatchMargin] = useState(MATCH_MARGIN.toString());
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -17,11 +19,11 @@ export default function AdminSettingsPage() {
         const { data } = await supabase
             .from('system_settings')
             .select('*')
-            .eq('key', 'location_check_enabled')
-            .single();
+            .in('key', ['location_check_enabled', 'face_match_margin']);
 
-        if (data) {
-            setLocationEnabled(data.value === 'true');
+        for (const setting of data || []) {
+            if (setting.key === 'location_check_enabled') setLocationEnabled(setting.value === 'true');
+            if (setting.key === 'face_match_margin') setMatchMargin(setting.value);
         }
         setLoading(false);
     };
@@ -46,7 +48,23 @@ export default function AdminSettingsPage() {
         }
     };
 
-    const handleSave = () => {
+    const handleSave = async () => {
+        const margin = parseFloat(matchMargin);
+        if (!isNaN(margin)) {
+            const { error } = await supabase
+                .from('system_settings')
+                .upsert({
+                    key: 'face_match_margin',
+                    value: margin.toString(),
+                    updated_at: new Date().toISOString()
+                }, { onConflict: 'key' });
+
+            if (error) {
+                console.error('Save error:', error);
+                return;
+            }
+        }
+
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
     };
@@ -175,6 +193,12 @@ export default function AdminSettingsPage() {
                             className="w-full md:w-32 px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
                         <p className="text-[10px] text-slate-500 mt-1 ml-1">Lower = stricter matching (0.3-0.7)</p>
                     </div>
+                    <div>
+                        <label className="text-xs text-slate-400 ml-1 mb-1 block">Ambiguous Match Margin</label>
+                        <input type="number" value={matchMargin} onChange={(e) => setMatchMargin(e.target.value)} step="0.01" min="0" max="0.2"
+                            className="w-full md:w-32 px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
+                        <p className="text-[10px] text-slate-500 mt-1 ml-1">Reject a match if the second-closest worker is within this distance (look-alikes)</p>
+                    </div>
                     <div>
                         <label className="text-xs text-slate-400 ml-1 mb-1 block">Scan Cooldown (seconds)</label>
                         <input type="number" defaultValue="3" min="1" max="10"
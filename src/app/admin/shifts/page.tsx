@@ -2,22 +2,41 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { isOvernightShift } from '@/lib/business-date';
+import { DEFAULT_SHIFT_RULES } from '@/lib/shift-metrics';
+import { DEFAULT_CHECKOUT_POLICY, resolveCheckoutPolicy } from '@/lib/checkout-policy';
 
 interface Shift {
     id: number;
     name: string;
     start_time: string;
     end_time: string;
+    late_grace_minutes: number | null;
+    early_grace_minutes: number | null;
+    overtime_after_minutes: number | null;
+    min_checkout_minutes: number | null;
+    confirm_checkout_minutes: number | null;
+    half_day_minutes: number | null;
     is_active: boolean;
     created_at: string;
 }
 
+const EMPTY_SHIFT = {
+    name: '', start_time: '06:00', end_time: '14:00',
+    late_grace_minutes: String(DEFAULT_SHIFT_RULES.late_grace_minutes),
+    early_grace_minutes: String(DEFAULT_SHIFT_RULES.early_grace_minutes),
+    overtime_after_minutes: String(DEFAULT_SHIFT_RULES.overtime_after_minutes),
+    min_checkout_minutes: String(DEFAULT_CHECKOUT_POLICY.min_checkout_minutes),
+    confirm_checkout_minutes: String(DEFAULT_CHECKOUT_POLICY.confirm_checkout_minutes),
+    half_day_minutes: String(DEFAULT_CHECKOUT_POLICY.half_day_minutes),
+};
+
 export default function AdminShiftsPage() {
     const [shifts, setShifts] = useState<Shift[]>([]);
     const [loading, setLoading] = useState(true);
     const [showModal, setShowModal] = useState(false);
     const [editingShift, setEditingShift] = useState<Shift | null>(null);
-    const [formData, setFormData] = useState({ name: '', start_time: '06:00', end_time: '14:00' });
+    const [formData, setFormData] = useState(EMPTY_SHIFT);
     const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
 
     useEffect(() => { loadShifts(); }, []);
@@ -44,11 +63,21 @@ export default function AdminShiftsPage() {
             setNotification({ type: 'error', message: 'All fields are required' });
             return;
         }
+        if ((parseInt(formData.min_checkout_minutes) || 0) > (parseInt(formData.confirm_checkout_minutes) || 0)) {
+            setNotification({ type: 'error', message: 'Minimum checkout must not exceed the confirm threshold' });
+            return;
+        }
 
         const shiftData = {
             name: formData.name,
             start_time: formData.start_time,
             end_time: formData.end_time,
+            late_grace_minutes: parseInt(formData.late_grace_minutes) || 0,
+            early_grace_minutes: parseInt(formData.early_grace_minutes) || 0,
+            overtime_after_minutes: parseInt(formData.overtime_after_minutes) || 0,
+            min_checkout_minutes: parseInt(formData.min_checkout_minutes) || 0,
+            confirm_checkout_minutes: parseInt(formData.confirm_checkout_minutes) || 0,
+            half_day_minutes: parseInt(formData.half_day_minutes) || 0,
             is_active: true
         };
 
@@ -68,7 +97,7 @@ export default function AdminShiftsPage() {
             setNotification({ type: 'success', message: editingShift ? 'Shift updated!' : 'Shift created!' });
             setShowModal(false);
             setEditingShift(null);
-            setFormData({ name: '', start_time: '06:00', end_time: '14:00' });
+            setFormData(EMPTY_SHIFT);
             loadShifts();
         } catch (err: any) {
             setNotification({ type: 'error', message: err.message });
@@ -101,11 +130,18 @@ export default function AdminShiftsPage() {
     };
 
     const openEditModal = (shift: Shift) => {
+        const policy = resolveCheckoutPolicy(shift);
         setEditingShift(shift);
         setFormData({
             name: shift.name,
             start_time: shift.start_time,
-            end_time: shift.end_time
+            end_time: shift.end_time,
+            late_grace_minutes: String(shift.late_grace_minutes ?? DEFAULT_SHIFT_RULES.late_grace_minutes),
+            early_grace_minutes: String(shift.early_grace_minutes ?? DEFAULT_SHIFT_RULES.early_grace_minutes),
+            overtime_after_minutes: String(shift.overtime_after_minutes ?? DEFAULT_SHIFT_RULES.overtime_after_minutes),
+            min_checkout_minutes: String(policy.min_checkout_minutes),
+            confirm_checkout_minutes: String(policy.confirm_checkout_minutes),
+            half_day_minutes: String(policy.half_day_minutes),
         });
         setShowModal(true);
     };
@@ -147,7 +183,7 @@ export default function AdminShiftsPage() {
                     </h1>
                     <p className="text-sm text-slate-400">Configure work shifts and timings</p>
                 </div>
-                <button onClick={() => { setEditingShift(null); setFormData({ name: '', start_time: '06:00', end_time: '14:00' }); setShowModal(true); }}
+                <button onClick={() => { setEditingShift(null); setFormData(EMPTY_SHIFT); setShowModal(true); }}
                     className="px-4 py-2 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl hover:from-cyan-400 hover:to-blue-400 font-medium">
                     + Add Shift
                 </button>
@@ -181,10 +217,16 @@ export default function AdminShiftsPage() {
                                 </div>
                                 <span className="text-slate-500">→</span>
                                 <div className="text-right">
-                                    <p className="text-slate-400 text-xs">End</p>
+                                    <p className="text-slate-400 text-xs">End{isOvernightShift(shift) && ' (next day)'}</p>
                                     <p className="text-white font-mono font-bold">{formatTime(shift.end_time)}</p>
                                 </div>
                             </div>
+                            <p className="text-xs text-slate-500 mt-2">
+                                Grace {shift.late_grace_minutes ?? DEFAULT_SHIFT_RULES.late_grace_minutes}m late / {shift.early_grace_minutes ?? DEFAULT_SHIFT_RULES.early_grace_minutes}m early • OT after {shift.overtime_after_minutes ?? DEFAULT_SHIFT_RULES.overtime_after_minutes}m
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                Checkout min {resolveCheckoutPolicy(shift).min_checkout_minutes}m • confirm under {resolveCheckoutPolicy(shift).confirm_checkout_minutes}m • half-day under {resolveCheckoutPolicy(shift).half_day_minutes}m
+                            </p>
                         </div>
 
                         <div className="flex gap-2">
@@ -253,6 +295,48 @@ export default function AdminShiftsPage() {
                                     />
                                 </div>
                             </div>
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">Late Grace (min)</label>
+                                    <input type="number" min="0" value={formData.late_grace_minutes}
+                                        onChange={(e) => setFormData({ ...formData, late_grace_minutes: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">Early Grace (min)</label>
+                                    <input type="number" min="0" value={formData.early_grace_minutes}
+                                        onChange={(e) => setFormData({ ...formData, early_grace_minutes: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">OT After (min)</label>
+                                    <input type="number" min="0" value={formData.overtime_after_minutes}
+                                        onChange={(e) => setFormData({ ...formData, overtime_after_minutes: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-slate-500">Arrivals and departures within the grace period are not counted. Overtime starts once a worker stays past shift end by the OT threshold.</p>
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">Min Checkout (min)</label>
+                                    <input type="number" min="0" value={formData.min_checkout_minutes}
+                                        onChange={(e) => setFormData({ ...formData, min_checkout_minutes: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">Confirm Under (min)</label>
+                                    <input type="number" min="0" value={formData.confirm_checkout_minutes}
+                                        onChange={(e) => setFormData({ ...formData, confirm_checkout_minutes: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none" />
+                                </div>
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">Half-day Under (min)</label>
+                                    <input type="number" min="0" value={formData.half_day_minutes}
+                                        onChange={(e) => setFormData({ ...formData, half_day_minutes: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-slate-500">Scanner checkout is refused below the minimum and needs a second scan below the confirm threshold. Days checked out below the half-day threshold are marked half-day.</p>
                         </div>
                         <div className="flex gap-3 mt-8">
                             <button onClick={() => { setShowModal(false); setEditingShift(null); }}
@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { DEFAULT_TIMEZONE, SITE_TIMEZONES } from '@/lib/business-date';
+import { DEFAULT_MISSING_CHECKOUT_MODE, DEFAULT_DAY_END_TIME, MissingCheckoutMode } from '@/lib/missing-checkout';
 
 interface Site {
     id: string;
@@ -11,14 +13,24 @@ interface Site {
     radius_meters: number;
     address: string | null;
     is_active: boolean;
+    liveness_enabled: boolean | null;
+    liveness_timeout_seconds: number | null;
+    offline_matching_enabled: boolean | null;
+    timezone: string | null;
+    missing_checkout_mode: MissingCheckoutMode | null;
+    day_end_time: string | null;
     created_at: string;
 }
 
+const EMPTY_SITE = { name: '', latitude: '', longitude: '', radius_meters: '200', address: '', liveness_enabled: false, liveness_timeout_seconds: '8', timezone: DEFAULT_TIMEZONE,
+    offline_matching_enabled: false, missing_checkout_mode: DEFAULT_MISSING_CHECKOUT_MODE, day_end_time: DEFAULT_DAY_END_TIME,
+};
+
 export default function AdminSitesPage() {
     const [sites, setSites] = useState<Site[]>([]);
     const [loading, setLoading] = useState(true);
     const [showAdd, setShowAdd] = useState(false);
-    const [newSite, setNewSite] = useState({ name: '', latitude: '', longitude: '', radius_meters: '200', address: '' });
+    const [newSite, setNewSite] = useState(EMPTY_SITE);
     const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
 
     const [editingSite, setEditingSite] = useState<Site | null>(null);
@@ -60,6 +72,12 @@ export default function AdminSitesPage() {
             radius_meters: parseInt(newSite.radius_meters) || 200,
             address: newSite.address || null,
             is_active: true,
+            liveness_enabled: newSite.liveness_enabled,
+            liveness_timeout_seconds: parseInt(newSite.liveness_timeout_seconds) || 8,
+            offline_matching_enabled: newSite.offline_matching_enabled,
+            timezone: newSite.timezone || DEFAULT_TIMEZONE,
+            missing_checkout_mode: newSite.missing_checkout_mode,
+            day_end_time: newSite.day_end_time || DEFAULT_DAY_END_TIME,
         };
 
         try {
@@ -79,7 +97,7 @@ export default function AdminSitesPage() {
             showNotification('success', editingSite ? 'Site updated successfully!' : 'Site created successfully!');
             setShowAdd(false);
             setEditingSite(null);
-            setNewSite({ name: '', latitude: '', longitude: '', radius_meters: '200', address: '' });
+            setNewSite(EMPTY_SITE);
             loadSites();
         } catch (err: any) {
             console.error('Save exception:', err);
@@ -94,7 +112,13 @@ export default function AdminSitesPage() {
             latitude: site.latitude.toString(),
             longitude: site.longitude.toString(),
             radius_meters: site.radius_meters.toString(),
-            address: site.address || ''
+            address: site.address || '',
+            liveness_enabled: !!site.liveness_enabled,
+            liveness_timeout_seconds: (site.liveness_timeout_seconds || 8).toString(),
+            offline_matching_enabled: !!site.offline_matching_enabled,
+            timezone: site.timezone || DEFAULT_TIMEZONE,
+            missing_checkout_mode: site.missing_checkout_mode || DEFAULT_MISSING_CHECKOUT_MODE,
+            day_end_time: (site.day_end_time || DEFAULT_DAY_END_TIME).slice(0, 5),
         });
         setShowAdd(true);
     };
@@ -184,6 +208,16 @@ export default function AdminSitesPage() {
                                             : 'bg-red-500/10 text-red-400 border border-red-500/20'}`}>
                                             {site.is_active ? 'Active' : 'Inactive'}
                                         </span>
+                                        {site.liveness_enabled && (
+                                            <span className="ml-2 px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider bg-purple-500/10 text-purple-400 border border-purple-500/20">
+                                                Liveness
+                                            </span>
+                                        )}
+                                        {site.offline_matching_enabled && (
+                                            <span className="ml-2 px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider bg-amber-500/10 text-amber-400 border border-amber-500/20">
+                                                Offline Faces
+                                            </span>
+                                        )}
                                     </td>
                                     <td className="px-6 py-4 text-right space-x-3">
                                         <button onClick={() => toggleActive(site.id, site.is_active)}
@@ -244,15 +278,80 @@ export default function AdminSitesPage() {
                                     onChange={(e) => setNewSite({ ...newSite, radius_meters: e.target.value })}
                                     className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors placeholder:text-white/20" />
                             </div>
+                            <div>
+                                <label className="text-xs text-slate-400 ml-1 mb-1 block">Timezone (Attendance Day)</label>
+                                <select value={newSite.timezone}
+                                    onChange={(e) => setNewSite({ ...newSite, timezone: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors">
+                                    {SITE_TIMEZONES.map(tz => <option key={tz} value={tz} className="bg-slate-900">{tz}</option>)}
+                                </select>
+                            </div>
                             <div>
                                 <label className="text-xs text-slate-400 ml-1 mb-1 block">Address (Optional)</label>
                                 <input type="text" placeholder="Full address..." value={newSite.address}
                                     onChange={(e) => setNewSite({ ...newSite, address: e.target.value })}
                                     className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors placeholder:text-white/20" />
                             </div>
+                            <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                                <label className="flex items-center justify-between cursor-pointer">
+                                    <div>
+                                        <p className="text-sm text-white font-medium">Liveness Challenge</p>
+                                        <p className="text-xs text-slate-500">Ask workers to blink, smile or look left after a face match</p>
+                                    </div>
+                                    <input type="checkbox" checked={newSite.liveness_enabled}
+                                        onChange={(e) => setNewSite({ ...newSite, liveness_enabled: e.target.checked })}
+                                        className="w-5 h-5 accent-purple-500" />
+                                </label>
+                                {newSite.liveness_enabled && (
+                                    <div>
+                                        <label className="text-xs text-slate-400 ml-1 mb-1 block">Challenge Timeout (Seconds)</label>
+                                        <input type="number" placeholder="8" value={newSite.liveness_timeout_seconds}
+                                            onChange={(e) => setNewSite({ ...newSite, liveness_timeout_seconds: e.target.value })}
+                                            className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors placeholder:text-white/20" />
+                                    </div>
+                                )}
+                            </div>
+                            <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+                                <label className="flex items-center justify-between cursor-pointer">
+                                    <div>
+                                        <p className="text-sm text-white font-medium">Offline Face Matching</p>
+                                        <p className="text-xs text-slate-500">Keep this site&apos;s face templates on its scanner devices so faces match without internet. Off: offline scans need manual marking.</p>
+                                    </div>
+                                    <input type="checkbox" checked={newSite.offline_matching_enabled}
+                                        onChange={(e) => setNewSite({ ...newSite, offline_matching_enabled: e.target.checked })}
+                                        className="w-5 h-5 accent-amber-500" />
+                                </label>
+                            </div>
+                            <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                                <div>
+                                    <p className="text-sm text-white font-medium">Missing Checkouts</p>
+                                    <p className="text-xs text-slate-500">Workers still checked in after their shift ends (or after day end, without a shift)</p>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {([['review', 'Manager resolves'], ['auto_close', 'Auto-close']] as const).map(([mode, label]) => (
+                                        <button key={mode} type="button" onClick={() => setNewSite({ ...newSite, missing_checkout_mode: mode })}
+                                            className={`py-2 rounded-lg text-xs font-medium border transition-colors ${newSite.missing_checkout_mode === mode
+                                                ? 'bg-teal-500/20 text-teal-300 border-teal-500/40'
+                                                : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'}`}>
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-slate-500">
+                                    {newSite.missing_checkout_mode === 'auto_close'
+                                        ? 'Open sessions are closed at shift end and marked as system-closed. Closing runs only while the scanner, khata or verify page is open on a device for this site.'
+                                        : 'Open sessions must be resolved before the evening closing can be submitted.'}
+                                </p>
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">Day End (Workers Without Shift)</label>
+                                    <input type="time" value={newSite.day_end_time}
+                                        onChange={(e) => setNewSite({ ...newSite, day_end_time: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
+                                </div>
+                            </div>
                         </div>
                         <div className="flex gap-3 mt-8">
-                            <button onClick={() => { setShowAdd(false); setEditingSite(null); setNewSite({ name: '', latitude: '', longitude: '', radius_meters: '200', address: '' }); }}
+                            <button onClick={() => { setShowAdd(false); setEditingSite(null); setNewSite(EMPTY_SITE); }}
                                 className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5 transition-colors">
                                 Cancel
                             </button>
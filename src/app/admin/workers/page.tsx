@@ -1,21 +1,29 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { supabase } from '@/lib/supabase';
+import { supabase, WORKER_COLUMNS } from '@/lib/supabase';
 import Webcam from 'react-webcam';
 import * as faceUtils from '@/lib/face-utils';
-import { FaceDetectionResult } from '@/lib/face-utils';
+import { FaceDetectionResult, DuplicateMatch } from '@/lib/face-utils';
+import { loadFaceTemplates, saveFaceTemplates, deleteFaceTemplate, logDuplicateOverride, FaceTemplate, NewFaceTemplate } from '@/lib/face-gallery';
+import { loadRateBook, rateHistory, recordRateChange, WageRate } from '@/lib/wage-rates';
+import { businessDate } from '@/lib/business-date';
+import { isValidIfsc, isValidUpiId } from '@/lib/bank-payments';
 
 interface Worker {
     id: string;
     name: string;
     worker_number: string | null;
     photo_url: string | null;
-    face_descriptor: number[] | null;
+    face_enrolled: boolean;
     base_rate: number;
     category: string | null;
     shift_id: number | null;
     incharge_id: string | null;
+    bank_account_number: string | null;
+    bank_ifsc: string | null;
+    bank_account_name: string | null;
+    upi_id: string | null;
     is_active: boolean;
     created_at: string;
 }
@@ -34,6 +42,11 @@ interface Incharge {
     full_name: string | null;
 }
 
+const EMPTY_WORKER_FORM = {
+    name: '', worker_number: '', base_rate: 400, category: 'Unskilled', shift_id: null, incharge_id: null, photo_url: '', face_descriptor: null,
+    bank_account_number: '', bank_ifsc: '', bank_account_name: '', upi_id: '',
+};
+
 type ScanStep = 'INIT' | 'LOADING_MODELS' | 'SCANNING_CENTER' | 'SCANNING_LEFT' | 'SCANNING_RIGHT' | 'COMPLETED';
 
 export default function AdminWorkersPage() {
@@ -60,8 +73,18 @@ export default function AdminWorkersPage() {
         shift_id: number | null;
         incharge_id: string | null;
         photo_url: string;
-        face_descriptor: number[] | null;
-    }>({ name: '', worker_number: '', base_rate: 400, category: 'Unskilled', shift_id: null, incharge_id: null, photo_url: '', face_descriptor: null });
+        face_descriptor: number[] | null; // Newly captured face; null keeps the enrolled one
+        bank_account_number: string;
+        bank_ifsc: string;
+        bank_account_name: string;
+        upi_id: string;
+    }>({ ...EMPTY_WORKER_FORM });
+
+    // Rate changes take effect from a date instead of repricing past days
+    const [rateFrom, setRateFrom] = useState('');
+    const [rateHistoryList, setRateHistoryList] = useState<WageRate[]>([]);
+    const [showCategoryRate, setShowCategoryRate] = useState(false);
+    const [categoryRate, setCategoryRate] = useState({ category: 'Unskilled', rate: '', effectiveFrom: businessDate() });
 
     // Face Scan State
     const webcamRef = useRef<Webcam>(null);
@@ -69,9 +92,19 @@ export default function AdminWorkersPage() {
     const [scanStep, setScanStep] = useState<ScanStep>('INIT');
     const [scanError, setScanError] = useState<string | null>(null);
     const [scanProgress, setScanProgress] = useState(0);
-    const [collectedDescriptors, setCollectedDescriptors] = useState<Float32Array[]>([]);
+    const [collectedTemplates, setCollectedTemplates] = useState<NewFaceTemplate[]>([]);
     const scanningInterval = useRef<NodeJS.Timeout | null>(null);
 
+    // Face Template Gallery
+    const templateWebcamRef = useRef<Webcam>(null);
+    const [pendingTemplates, setPendingTemplates] = useState<NewFaceTemplate[]>([]);
+    const [workerTemplates, setWorkerTemplates] = useState<FaceTemplate[]>([]);
+    const [addingTemplate, setAddingTemplate] = useState(false);
+    const [savingTemplate, setSavingTemplate] = useState(false);
+
+    // Duplicate identity check (blocks save until overridden)
+    const [duplicateMatch, setDuplicateMatch] = useState<DuplicateMatch | null>(null);
+
     useEffect(() => {
         loadWorkers();
         loadShifts();
@@ -96,7 +129,7 @@ export default function AdminWorkersPage() {
     };
 
     const loadWorkers = async () => {
-        const { data, error } = await supabase.from('workers').select('*').order('name');
+        const { data, error } = await supabase.from('workers').select(`${WORKER_COLUMNS}, bank_account_number, bank_ifsc, bank_account_name, upi_id`).order('name');
         if (error) {
             console.error('Error loading workers:', error);
             showNotification('error', 'Failed to load workers');
@@ -130,11 +163,45 @@ export default function AdminWorkersPage() {
         return `LBR-${nextNum.toString().padStart(4, '0')}`;
     };
 
-    const handleSaveWorker = async () => {
+    // Compare a newly captured face against every other worker on all sites (server-side; descriptors are never downloaded)
+    const checkDuplicateIdentity = async (): Promise<DuplicateMatch | null> => {
+        const captured = [
+            ...(newWorker.face_descriptor ? [new Float32Array(newWorker.face_descriptor)] : []),
+            ...pendingTemplates.map(t => t.descriptor),
+        ];
+        if (captured.length === 0) return null;
+        return faceUtils.findDuplicateWorkerRemote(captured, undefined, true, editingWorker?.id);
+    };
+
+    const handleSaveWorker = async (overrideDuplicate = false) => {
         if (!newWorker.name) {
             showNotification('error', 'Please enter a worker name');
             return;
         }
+        // Payment details feed the bank/UPI upload files, so bad ones would bounce
+        const ifsc = newWorker.bank_ifsc.trim().toUpperCase();
+        if (newWorker.bank_account_number.trim() && !isValidIfsc(ifsc)) {
+            showNotification('error', 'Enter a valid IFSC code (e.g. SBIN0001234)');
+            return;
+        }
+        if (newWorker.upi_id.trim() && !isValidUpiId(newWorker.upi_id)) {
+            showNotification('error', 'Enter a valid UPI ID (e.g. name@upi)');
+            return;
+        }
+
+        let duplicate: DuplicateMatch | null;
+        try {
+            duplicate = await checkDuplicateIdentity();
+        } catch (err: any) {
+            console.error('Duplicate check error:', err);
+            showNotification('error', `Duplicate face check failed: ${err.message}`);
+            return;
+        }
+        if (duplicate && !overrideDuplicate) {
+            setDuplicateMatch(duplicate);
+            showNotification('error', `Face matches existing worker ${duplicate.worker.name}`);
+            return;
+        }
 
         // Auto-generate Worker ID if not set
         const workerId = newWorker.worker_number || generateNextWorkerId();
@@ -142,21 +209,27 @@ export default function AdminWorkersPage() {
         const workerData = {
             name: newWorker.name,
             worker_number: workerId,
-            base_rate: newWorker.base_rate,
+            // An edited rate is recorded below as a dated change
+            base_rate: editingWorker ? editingWorker.base_rate : newWorker.base_rate,
             category: newWorker.category,
             shift_id: newWorker.shift_id || null,
             incharge_id: newWorker.incharge_id || null,
+            bank_account_number: newWorker.bank_account_number.replace(/\s/g, '') || null,
+            bank_ifsc: newWorker.bank_account_number.trim() ? ifsc : null,
+            bank_account_name: newWorker.bank_account_name.trim() || null,
+            upi_id: newWorker.upi_id.trim() || null,
             photo_url: newWorker.photo_url || null,
-            face_descriptor: newWorker.face_descriptor || null,
+            // Descriptors can't be read back, so an edit only writes a newly captured one
+            ...(newWorker.face_descriptor ? { face_descriptor: newWorker.face_descriptor } : {}),
             is_active: true
         };
 
         try {
             let result;
             if (editingWorker) {
-                result = await supabase.from('workers').update(workerData).eq('id', editingWorker.id);
+                result = await supabase.from('workers').update(workerData).eq('id', editingWorker.id).select('id').single();
             } else {
-                result = await supabase.from('workers').insert(workerData);
+                result = await supabase.from('workers').insert(workerData).select('id').single();
             }
 
             // Check for Supabase errors
@@ -166,6 +239,27 @@ export default function AdminWorkersPage() {
                 return;
             }
 
+            if (duplicate) await logDuplicateOverride(result.data.id, duplicate, 'admin');
+
+            if (editingWorker && newWorker.base_rate !== editingWorker.base_rate) {
+                const { data: { user } } = await supabase.auth.getUser();
+                await recordRateChange({ workerId: editingWorker.id, rate: newWorker.base_rate, effectiveFrom: rateFrom || businessDate() }, user?.id || null);
+            }
+
+            // Keep every pose from the live scan in the worker's template gallery
+            if (pendingTemplates.length > 0) {
+                try {
+                    await saveFaceTemplates(result.data.id, pendingTemplates);
+                } catch (err: any) {
+                    console.error('Template save error:', err);
+                    showNotification('error', `Worker saved, but face templates failed: ${err.message}`);
+                    setShowAddWorker(false);
+                    resetForm();
+                    loadWorkers();
+                    return;
+                }
+            }
+
             showNotification('success', editingWorker ? 'Worker updated!' : `Worker added! ID: ${workerId}`);
             setShowAddWorker(false);
             resetForm();
@@ -204,7 +298,12 @@ export default function AdminWorkersPage() {
 
     const resetForm = () => {
         setEditingWorker(null);
-        setNewWorker({ name: '', worker_number: '', base_rate: 400, category: 'Unskilled', shift_id: null, incharge_id: null, photo_url: '', face_descriptor: null });
+        setNewWorker({ ...EMPTY_WORKER_FORM });
+        setPendingTemplates([]);
+        setWorkerTemplates([]);
+        setRateHistoryList([]);
+        setAddingTemplate(false);
+        setDuplicateMatch(null);
         stopScanning();
         setScanStep('INIT');
     };
@@ -219,9 +318,35 @@ export default function AdminWorkersPage() {
             shift_id: worker.shift_id || null,
             incharge_id: worker.incharge_id || null,
             photo_url: worker.photo_url || '',
-            face_descriptor: worker.face_descriptor
+            face_descriptor: null,
+            bank_account_number: worker.bank_account_number || '',
+            bank_ifsc: worker.bank_ifsc || '',
+            bank_account_name: worker.bank_account_name || '',
+            upi_id: worker.upi_id || '',
         });
         setShowAddWorker(true);
+        setRateFrom(businessDate());
+        loadFaceTemplates(worker.id).then(setWorkerTemplates);
+        loadRateBook().then(book => setRateHistoryList(rateHistory(book, worker)));
+    };
+
+    const handleCategoryRate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const rate = parseFloat(categoryRate.rate);
+        if (isNaN(rate) || rate <= 0) {
+            showNotification('error', 'Enter a valid rate');
+            return;
+        }
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await recordRateChange({ category: categoryRate.category, rate, effectiveFrom: categoryRate.effectiveFrom }, user?.id || null);
+            showNotification('success', `${categoryRate.category} rate set to ₹${rate} from ${categoryRate.effectiveFrom}`);
+            setShowCategoryRate(false);
+            setCategoryRate({ category: 'Unskilled', rate: '', effectiveFrom: businessDate() });
+            loadWorkers();
+        } catch (err: any) {
+            showNotification('error', `Error: ${err.message}`);
+        }
     };
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -242,7 +367,8 @@ export default function AdminWorkersPage() {
     const startFaceRegistration = async () => {
         setScanStep('LOADING_MODELS');
         setScanError(null);
-        setCollectedDescriptors([]);
+        setCollectedTemplates([]);
+        setDuplicateMatch(null);
         setScanProgress(0);
 
         try {
@@ -277,8 +403,8 @@ export default function AdminWorkersPage() {
     const stepRef = useRef<ScanStep>('INIT');
     useEffect(() => { stepRef.current = scanStep; }, [scanStep]);
 
-    const descriptorsRef = useRef<Float32Array[]>([]);
-    useEffect(() => { descriptorsRef.current = collectedDescriptors; }, [collectedDescriptors]);
+    const templatesRef = useRef<NewFaceTemplate[]>([]);
+    useEffect(() => { templatesRef.current = collectedTemplates; }, [collectedTemplates]);
 
     const processFrame = async () => {
         const currentStep = stepRef.current;
@@ -324,9 +450,10 @@ export default function AdminWorkersPage() {
         }
 
         if (validCapture) {
-            // Capture this descriptor
-            const newDescriptors = [...descriptorsRef.current, result.descriptor];
-            setCollectedDescriptors(newDescriptors);
+            // Capture this pose as a template
+            const pose = currentStep === 'SCANNING_LEFT' ? 'left' : currentStep === 'SCANNING_RIGHT' ? 'right' : 'center';
+            const newTemplates = [...templatesRef.current, { descriptor: result.descriptor, pose, photoUrl: result.croppedFace } as NewFaceTemplate];
+            setCollectedTemplates(newTemplates);
 
             // Console log for debug
             console.log(`Captured ${currentStep}`);
@@ -343,38 +470,66 @@ export default function AdminWorkersPage() {
             } else if (currentStep === 'SCANNING_RIGHT') {
                 // Done
                 setScanProgress(100);
-                finishRegistration(newDescriptors);
+                finishRegistration(newTemplates);
             }
         }
     };
 
-    const finishRegistration = (descriptors: Float32Array[]) => {
+    const finishRegistration = (templates: NewFaceTemplate[]) => {
         stopScanning();
         setScanStep('COMPLETED');
 
-        // Average descriptors
-        if (descriptors.length > 0) {
-            const numDescriptors = descriptors.length;
-            const vectorSize = descriptors[0].length;
-            const avgDescriptor = new Float32Array(vectorSize);
-
-            for (let i = 0; i < vectorSize; i++) {
-                let sum = 0;
-                for (let j = 0; j < numDescriptors; j++) {
-                    sum += descriptors[j][i];
-                }
-                avgDescriptor[i] = sum / numDescriptors;
-            }
-
+        // Center capture stays the primary descriptor; all poses go to the gallery on save
+        if (templates.length > 0) {
             setNewWorker(prev => ({
                 ...prev,
-                face_descriptor: Array.from(avgDescriptor)
+                face_descriptor: Array.from(templates[0].descriptor)
             }));
+            setPendingTemplates(templates);
 
             showNotification('success', 'Face Scan Complete!');
         }
     };
 
+    // --- Face Template Gallery ---
+
+    const captureTemplate = async () => {
+        if (!editingWorker) return;
+        const imageSrc = templateWebcamRef.current?.getScreenshot();
+        if (!imageSrc) return;
+
+        setSavingTemplate(true);
+        try {
+            await faceUtils.loadFaceModels();
+            const result = await faceUtils.detectFaceFromBase64(imageSrc);
+            if (!result) {
+                showNotification('error', 'No face detected, try again');
+                return;
+            }
+
+            await saveFaceTemplates(editingWorker.id, [{ descriptor: result.descriptor, pose: result.headPose, photoUrl: result.croppedFace }]);
+            setWorkerTemplates(await loadFaceTemplates(editingWorker.id));
+            setAddingTemplate(false);
+            showNotification('success', `Template added (${result.headPose})`);
+        } catch (err: any) {
+            console.error('Template capture error:', err);
+            showNotification('error', `Template save failed: ${err.message}`);
+        } finally {
+            setSavingTemplate(false);
+        }
+    };
+
+    const removeTemplate = async (templateId: string) => {
+        if (!confirm('Remove this face template?')) return;
+        try {
+            await deleteFaceTemplate(templateId);
+            setWorkerTemplates(prev => prev.filter(t => t.id !== templateId));
+            showNotification('success', 'Template removed');
+        } catch (err: any) {
+            showNotification('error', `Delete failed: ${err.message}`);
+        }
+    };
+
     const exportCSV = () => {
         if (filteredWorkers.length === 0) {
             showNotification('error', 'No workers to export');
@@ -391,7 +546,7 @@ export default function AdminWorkersPage() {
             incharges.find(i => i.id === w.incharge_id)?.full_name || incharges.find(i => i.id === w.incharge_id)?.email || '-',
             w.is_active ? 'Active' : 'Inactive',
             new Date(w.created_at).toLocaleDateString('en-IN'),
-            w.face_descriptor ? 'Yes' : 'No',
+            w.face_enrolled ? 'Yes' : 'No',
             w.photo_url || '-'
         ]);
         const csvContent = "data:text/csv;charset=utf-8," + headers.join(",") + "\n" + rows.map(e => e.join(",")).join("\n");
@@ -583,6 +738,10 @@ export default function AdminWorkersPage() {
                             </button>
                         </div>
                     </div>
+                    <button onClick={() => setShowCategoryRate(true)}
+                        className="px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-bold text-cyan-400 hover:bg-white/10 hover:border-cyan-500/30 transition-all">
+                        ₹ Category Rate
+                    </button>
                     <button onClick={() => setShowAddWorker(true)}
                         className="px-4 py-2 bg-gradient-to-r from-teal-500 to-emerald-500 text-white rounded-xl hover:from-teal-400 hover:to-emerald-400 hover:shadow-lg hover:shadow-teal-500/20 transition-all font-medium">
                         + Add Worker
@@ -663,6 +822,43 @@ export default function AdminWorkersPage() {
                 </div>
             )}
 
+            {/* Category Rate Modal */}
+            {showCategoryRate && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-900 border border-white/10 rounded-2xl p-6 w-full max-w-md shadow-2xl">
+                        <h3 className="font-bold text-xl text-white mb-2">Category Rate</h3>
+                        <p className="text-sm text-slate-400 mb-6">Applies to every worker in the category from the date; days before it keep their old rate.</p>
+                        <form onSubmit={handleCategoryRate} className="space-y-4">
+                            <select value={categoryRate.category} onChange={(e) => setCategoryRate({ ...categoryRate, category: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none">
+                                <option value="Unskilled" className="bg-slate-900">Unskilled</option>
+                                <option value="Skilled" className="bg-slate-900">Skilled</option>
+                                <option value="Semi-Skilled" className="bg-slate-900">Semi-Skilled</option>
+                            </select>
+                            <input type="number" min="1" placeholder="Daily rate (₹)" value={categoryRate.rate}
+                                onChange={(e) => setCategoryRate({ ...categoryRate, rate: e.target.value })}
+                                className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none placeholder:text-white/20" required />
+                            <div>
+                                <label className="text-xs text-slate-400 ml-1 mb-1 block">Effective from</label>
+                                <input type="date" value={categoryRate.effectiveFrom}
+                                    onChange={(e) => setCategoryRate({ ...categoryRate, effectiveFrom: e.target.value })}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white outline-none" required />
+                            </div>
+                            <div className="flex gap-3 mt-8">
+                                <button type="button" onClick={() => setShowCategoryRate(false)}
+                                    className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5">
+                                    Cancel
+                                </button>
+                                <button type="submit"
+                                    className="flex-1 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white rounded-xl font-bold shadow-lg">
+                                    Save Rate
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
             {/* Add/Edit Modal */}
             {showAddWorker && (
                 <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -715,7 +911,7 @@ export default function AdminWorkersPage() {
                                         <div className="w-24 h-24 rounded-full bg-slate-800 border-2 border-green-500/50 overflow-hidden">
                                             <img src={newWorker.photo_url} className="w-full h-full object-cover" />
                                         </div>
-                                        <button onClick={() => { setNewWorker({ ...newWorker, photo_url: '', face_descriptor: null }); setScanStep('INIT'); }}
+                                        <button onClick={() => { setNewWorker({ ...newWorker, photo_url: '', face_descriptor: null }); setPendingTemplates([]); setDuplicateMatch(null); setScanStep('INIT'); }}
                                             className="absolute -top-1 -right-1 w-6 h-6 bg-red-500 rounded-full flex items-center justify-center text-white text-sm hover:bg-red-600">×</button>
                                     </div>
                                 </div>
@@ -723,7 +919,61 @@ export default function AdminWorkersPage() {
 
                             {newWorker.photo_url && (
                                 <div className="bg-green-500/10 border border-green-500/20 text-green-400 p-3 rounded-lg text-xs text-center font-bold">
-                                    ✓ {newWorker.face_descriptor ? 'Face Registered with AI' : 'Photo Added'}
+                                    ✓ {newWorker.face_descriptor || editingWorker?.face_enrolled ? 'Face Registered with AI' : 'Photo Added'}
+                                    {pendingTemplates.length > 0 && ` • ${pendingTemplates.length} templates`}
+                                </div>
+                            )}
+
+                            {/* Face Template Gallery */}
+                            {editingWorker && (scanStep === 'INIT' || scanStep === 'COMPLETED') && (
+                                <div className="bg-white/5 border border-white/10 rounded-xl p-3">
+                                    <div className="flex items-center justify-between mb-2">
+                                        <p className="text-sm font-bold text-white">Face Templates ({workerTemplates.length})</p>
+                                        {!addingTemplate && (
+                                            <button onClick={() => setAddingTemplate(true)} className="text-xs text-cyan-400 hover:underline">+ Add Template</button>
+                                        )}
+                                    </div>
+
+                                    {addingTemplate && (
+                                        <div className="mb-3">
+                                            <div className="relative w-full aspect-video bg-black rounded-xl overflow-hidden border-2 border-cyan-500/30">
+                                                <Webcam ref={templateWebcamRef}
+                                                    screenshotFormat="image/jpeg"
+                                                    videoConstraints={{ width: 640, height: 480, facingMode: "user" }}
+                                                    className="w-full h-full object-cover"
+                                                    style={{ transform: 'scaleX(-1)' }} />
+                                            </div>
+                                            <div className="flex gap-2 mt-2">
+                                                <button onClick={() => setAddingTemplate(false)} className="flex-1 py-2 text-red-400 text-sm hover:underline">Cancel</button>
+                                                <button onClick={captureTemplate} disabled={savingTemplate}
+                                                    className="flex-1 py-2 bg-cyan-500/20 border border-cyan-500/30 text-cyan-400 rounded-lg text-sm font-bold disabled:opacity-50">
+                                                    {savingTemplate ? 'Saving...' : '📸 Capture'}
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {workerTemplates.length === 0 ? (
+                                        <p className="text-xs text-slate-500">No templates yet. Matching uses the main face only.</p>
+                                    ) : (
+                                        <div className="grid grid-cols-4 gap-2">
+                                            {workerTemplates.map(template => (
+                                                <div key={template.id} className="relative text-center">
+                                                    <div className="aspect-square bg-slate-800 rounded-lg overflow-hidden">
+                                                        {template.photo_url
+                                                            ? <img src={template.photo_url} className="w-full h-full object-cover" />
+                                                            : <div className="w-full h-full flex items-center justify-center text-xl">👤</div>}
+                                                    </div>
+                                                    <button onClick={() => removeTemplate(template.id)}
+                                                        className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full flex items-center justify-center text-white text-xs hover:bg-red-600">×</button>
+                                                    <p className="text-[10px] text-slate-400 mt-1 capitalize">
+                                                        {template.pose || '-'} • {template.quality !== null ? `${Math.round(template.quality * 100)}%` : '-'}
+                                                    </p>
+                                                    <p className="text-[10px] text-slate-500">{new Date(template.captured_at).toLocaleDateString('en-IN')}</p>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             )}
 
@@ -747,6 +997,28 @@ export default function AdminWorkersPage() {
                                         className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
                                 </div>
                             </div>
+                            {editingWorker && newWorker.base_rate !== editingWorker.base_rate && (
+                                <div>
+                                    <label className="text-xs text-slate-400 ml-1 mb-1 block">New rate effective from</label>
+                                    <input type="date" value={rateFrom} onChange={(e) => setRateFrom(e.target.value)}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
+                                    <p className="text-xs text-slate-500 mt-1 ml-1">Days before this date keep ₹{editingWorker.base_rate}</p>
+                                </div>
+                            )}
+                            {editingWorker && rateHistoryList.length > 0 && (
+                                <div className="bg-black/20 rounded-xl p-3 space-y-1">
+                                    <p className="text-xs text-slate-400 mb-1">Rate history</p>
+                                    {rateHistoryList.map(rate => (
+                                        <div key={rate.id} className="flex justify-between text-xs">
+                                            <span className="text-slate-300">
+                                                {rate.effective_from ? `From ${rate.effective_from}` : 'Starting rate'}
+                                                {rate.category && <span className="text-slate-500"> • {rate.category}</span>}
+                                            </span>
+                                            <span className="text-white font-medium">₹{rate.rate}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             <div>
                                 <label className="text-xs text-slate-400 ml-1 mb-1 block">Category</label>
                                 <select value={newWorker.category} onChange={(e) => setNewWorker({ ...newWorker, category: e.target.value })}
@@ -786,6 +1058,24 @@ export default function AdminWorkersPage() {
                                 </div>
                             </div>
 
+                            <div>
+                                <label className="text-xs text-slate-400 ml-1 mb-1 block">Payment Details 🏦 <span className="text-slate-500">(for bank/UPI payouts)</span></label>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <input type="text" inputMode="numeric" placeholder="Account number" value={newWorker.bank_account_number}
+                                        onChange={(e) => setNewWorker({ ...newWorker, bank_account_number: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
+                                    <input type="text" placeholder="IFSC" value={newWorker.bank_ifsc}
+                                        onChange={(e) => setNewWorker({ ...newWorker, bank_ifsc: e.target.value.toUpperCase() })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white uppercase focus:border-cyan-500 outline-none transition-colors" />
+                                    <input type="text" placeholder="Account holder name" value={newWorker.bank_account_name}
+                                        onChange={(e) => setNewWorker({ ...newWorker, bank_account_name: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
+                                    <input type="text" placeholder="UPI ID (name@bank)" value={newWorker.upi_id}
+                                        onChange={(e) => setNewWorker({ ...newWorker, upi_id: e.target.value })}
+                                        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white focus:border-cyan-500 outline-none transition-colors" />
+                                </div>
+                            </div>
+
                             {!newWorker.photo_url && (
                                 <div className="grid grid-cols-2 gap-3">
                                     <div onClick={startFaceRegistration} className="p-4 border-2 border-dashed border-white/10 rounded-xl text-center cursor-pointer hover:border-cyan-500/50 hover:bg-cyan-500/5 transition-all group">
@@ -809,17 +1099,43 @@ export default function AdminWorkersPage() {
                             )}
                         </div>
 
+                        {/* Duplicate Identity Warning */}
+                        {duplicateMatch && (
+                            <div className="mt-6 p-3 bg-red-500/10 border border-red-500/30 rounded-xl flex items-center gap-3">
+                                <div className="w-12 h-12 rounded-full bg-slate-800 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                                    {duplicateMatch.worker.photo_url
+                                        ? <img src={duplicateMatch.worker.photo_url} className="w-full h-full object-cover" />
+                                        : <span className="text-xl">👤</span>}
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-red-400 text-sm font-bold">⚠ Possible duplicate identity</p>
+                                    <p className="text-white text-sm truncate">
+                                        {duplicateMatch.worker.name}{duplicateMatch.worker.worker_number ? ` (${duplicateMatch.worker.worker_number})` : ''}
+                                    </p>
+                                    <p className="text-slate-400 text-xs">Face distance {duplicateMatch.distance.toFixed(3)}. Saving will be recorded in the audit log.</p>
+                                </div>
+                            </div>
+                        )}
+
                         <div className="flex gap-3 mt-8">
                             <button onClick={() => { setShowAddWorker(false); resetForm(); }}
                                 className="flex-1 py-3 border border-white/10 rounded-xl text-slate-300 hover:bg-white/5 transition-colors">
                                 Cancel
                             </button>
                             {scanStep === 'INIT' || scanStep === 'COMPLETED' ? (
-                                <button onClick={handleSaveWorker}
-                                    disabled={!newWorker.name}
-                                    className="flex-1 py-3 bg-gradient-to-r from-teal-500 to-emerald-500 text-white rounded-xl font-bold shadow-lg shadow-teal-500/20 hover:scale-[1.02] transition-transform disabled:opacity-50 disabled:hover:scale-100">
-                                    {editingWorker ? 'Update Worker' : 'Save Worker'}
-                                </button>
+                                duplicateMatch ? (
+                                    <button onClick={() => handleSaveWorker(true)}
+                                        disabled={!newWorker.name}
+                                        className="flex-1 py-3 bg-gradient-to-r from-red-500 to-orange-500 text-white rounded-xl font-bold hover:scale-[1.02] transition-transform disabled:opacity-50 disabled:hover:scale-100">
+                                        Override &amp; Save
+                                    </button>
+                                ) : (
+                                    <button onClick={() => handleSaveWorker()}
+                                        disabled={!newWorker.name}
+                                        className="flex-1 py-3 bg-gradient-to-r from-teal-500 to-emerald-500 text-white rounded-xl font-bold shadow-lg shadow-teal-500/20 hover:scale-[1.02] transition-transform disabled:opacity-50 disabled:hover:scale-100">
+                                        {editingWorker ? 'Update Worker' : 'Save Worker'}
+                                    </button>
+                                )
                             ) : (
                                 <div className="flex-1"></div>
                             )}
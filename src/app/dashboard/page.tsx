@@ -87,9 +87,9 @@ export default function DashboardPage() {
         ...basicStats,
         presentToday: todayLogs.filter(l => l.check_in_time && !l.check_out_time).length,
         checkedOut: todayLogs.filter(l => l.check_out_time).length,
-        absent: workers.filter(w => w.is_active).length - todayLogs.filter(l => l.check_in_time).length,
+        absent: basicStats.absentCount,
         halfDay: todayLogs.filter(l => l.status === 'half-day').length,
-        totalWages: todayLogs.reduce((sum, l) => {
+        totalWages: todayLogs.filter(l => l.check_in_time).reduce((sum, l) => {
             const worker = workers.find(w => w.id === l.worker_id);
             const rate = worker?.base_rate || 500;
             return sum + (l.status === 'half-day' ? rate / 2 : rate);
@@ -377,7 +377,7 @@ function DayEndSummary({ stats, workers, logs, onClose, isAccountant }: any) {
                 {stats.absent > 0 && (
                     <div className="space-y-2 mb-6">
                         <h3 className="text-red-400/70 text-sm font-medium">Absent Today</h3>
-                        {workers.filter((w: any) => w.is_active && !logs.find((l: any) => l.worker_id === w.id)).map((worker: any) => (
+                        {stats.absentWorkers.map((worker: any) => (
                             <div key={worker.id} className="flex items-center gap-3 bg-red-500/10 rounded-xl p-3">
                                 <div className="w-8 h-8 rounded-full bg-white/10 overflow-hidden">
                                     {worker.photo_url ? <img src={worker.photo_url} alt="" className="w-full h-full object-cover" />
@@ -2,8 +2,13 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, Worker } from '@/lib/supabase';
+import { supabase, Worker, WORKER_COLUMNS } from '@/lib/supabase';
 import { COMPANY_NAME } from '@/lib/config';
+import { businessDate } from '@/lib/business-date';
+import { autoCloseMissingCheckouts, loadMissingCheckouts, MissingCheckout } from '@/lib/missing-checkout';
+import MissingCheckoutList from '@/components/MissingCheckoutList';
+import { addLedgerEntry } from '@/lib/worker-ledger';
+import { loadWageContext, computeWages, WageContext, EMPTY_WAGE_CONTEXT } from '@/lib/wage-engine';
 
 interface Expense {
     id: string;
@@ -40,12 +45,15 @@ export default function KhataPage() {
     const [activeTab, setActiveTab] = useState<'ledger' | 'closing' | 'history'>('ledger');
 
     const [workers, setWorkers] = useState<Worker[]>([]);
+    const [wageContext, setWageContext] = useState<WageContext>(EMPTY_WAGE_CONTEXT);
     const [expenses, setExpenses] = useState<Expense[]>([]);
     const [todayAttendance, setTodayAttendance] = useState<any[]>([]);
     const [pastClosings, setPastClosings] = useState<DailyClosing[]>([]);
+    const [missingCheckouts, setMissingCheckouts] = useState<MissingCheckout[]>([]);
+    const [missingCheckoutsChecked, setMissingCheckoutsChecked] = useState(false); // Closing stays blocked until the check succeeds
 
     const [showAddExpense, setShowAddExpense] = useState(false);
-    const [newExpense, setNewExpense] = useState({ category: 'chai_pani', amount: '', note: '' });
+    const [newExpense, setNewExpense] = useState({ category: 'chai_pani', amount: '', note: '', workerId: '', instalment: '' });
 
     const [notebookCount, setNotebookCount] = useState('');
     const [closingNote, setClosingNote] = useState('');
@@ -55,7 +63,7 @@ export default function KhataPage() {
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
 
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = businessDate();
     const currentHour = new Date().getHours();
 
     useEffect(() => { loadData(); }, []);
@@ -65,14 +73,29 @@ export default function KhataPage() {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) { router.push('/login'); return; }
 
-            const [workersRes, expensesRes, attendanceRes, closingsRes] = await Promise.all([
-                supabase.from('workers').select('*').eq('is_active', true),
+            const [workersRes, expensesRes, attendanceRes, closingsRes, profileRes, context] = await Promise.all([
+                supabase.from('workers').select(WORKER_COLUMNS).eq('is_active', true),
                 supabase.from('expenses').select('*').is('payment_batch_id', null).order('date', { ascending: false }),
-                supabase.from('attendance_logs').select('*').eq('date', currentDate),
+                supabase.from('attendance_logs').select('*, leave_requests(leave_types(is_paid))').eq('date', currentDate),
                 supabase.from('daily_closings').select('*').order('date', { ascending: false }).limit(10),
+                supabase.from('profiles').select('assigned_site_id').eq('id', user.id).single(),
+                loadWageContext(currentDate, currentDate),
             ]);
 
+            // End-of-day routine first, so only sessions the manager must resolve remain
+            const siteId = profileRes.data?.assigned_site_id || null;
+            setMissingCheckoutsChecked(false);
+            try {
+                await autoCloseMissingCheckouts(siteId);
+                setMissingCheckouts(await loadMissingCheckouts(siteId));
+                setMissingCheckoutsChecked(true);
+            } catch (err) {
+                console.error('Error checking missing checkouts:', err);
+                setError('Could not check missing checkouts');
+            }
+
             setWorkers(workersRes.data || []);
+            setWageContext(context);
             setExpenses(expensesRes.data || []);
             setTodayAttendance(attendanceRes.data || []);
             setPastClosings(closingsRes.data || []);
@@ -81,28 +104,46 @@ export default function KhataPage() {
     };
 
     const systemCount = todayAttendance.filter(a => a.check_in_time).length;
-    const totalWages = todayAttendance.reduce((sum, log) => {
-        const worker = workers.find(w => w.id === log.worker_id);
-        const rate = worker?.base_rate || 500;
-        return sum + (log.status === 'half-day' ? rate / 2 : rate);
-    }, 0);
+    const totalWages = workers.reduce((sum, worker) => sum + computeWages({
+        worker,
+        attendance: todayAttendance.filter(log => log.worker_id === worker.id),
+        startDate: currentDate,
+        endDate: currentDate,
+        context: wageContext,
+    }).gross, 0);
     const totalExpenses = expenses.reduce((sum, exp) => sum + exp.amount, 0);
     const netPayable = totalWages - totalExpenses;
 
     const addExpense = async () => {
         if (!newExpense.amount || parseInt(newExpense.amount) <= 0) { setError('Enter valid amount'); return; }
+        // Advances are given to a worker and recovered from their wages
+        const isAdvance = newExpense.category === 'advance';
+        if (isAdvance && !newExpense.workerId) { setError('Select the worker'); setTimeout(() => setError(null), 2000); return; }
         try {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) return;
-            await supabase.from('expenses').insert({
+            const { data: expense, error: expenseError } = await supabase.from('expenses').insert({
                 category: newExpense.category,
                 amount: parseInt(newExpense.amount),
                 note: newExpense.note || null,
+                worker_id: isAdvance ? newExpense.workerId : null,
                 date: currentDate,
                 created_by: user.id,
-            });
+            }).select('id').single();
+            if (expenseError) throw expenseError;
+            if (isAdvance) {
+                await addLedgerEntry({
+                    workerId: newExpense.workerId,
+                    entryType: 'advance',
+                    amount: parseInt(newExpense.amount),
+                    date: currentDate,
+                    instalment: parseInt(newExpense.instalment) || null,
+                    expenseId: expense.id,
+                    note: newExpense.note || null,
+                }, user.id);
+            }
             setSuccess('Expense added!');
-            setNewExpense({ category: 'chai_pani', amount: '', note: '' });
+            setNewExpense({ category: 'chai_pani', amount: '', note: '', workerId: '', instalment: '' });
             setShowAddExpense(false);
             loadData();
             setTimeout(() => setSuccess(null), 2000);
@@ -112,6 +153,8 @@ export default function KhataPage() {
     const verifyAndCloseDay = async () => {
         const notebook = parseInt(notebookCount);
         if (isNaN(notebook) || notebook < 0) { setError('Enter valid count'); return; }
+        if (!missingCheckoutsChecked) { setError('Could not check missing checkouts - reload and try again'); setTimeout(() => setError(null), 2000); return; }
+        if (missingCheckouts.length > 0) { setError('Resolve missing checkouts first'); setTimeout(() => setError(null), 2000); return; }
         const difference = systemCount - notebook;
         if (difference !== 0 && !closingNote.trim()) {
             setMismatchData({ system: systemCount, notebook });
@@ -154,6 +197,7 @@ export default function KhataPage() {
             'Verify & Close': 'ચકાસો અને બંધ', 'System Count': 'સિસ્ટમ ગણતરી',
             'Mismatch!': 'મેળ નથી!', 'Add note to explain': 'સમજાવવા નોંધ ઉમેરો',
             'Submit': 'સબમિટ', 'Cancel': 'રદ', 'Past Closings': 'પાછલા બંધ',
+            'Select worker': 'કામદાર પસંદ કરો', 'Recover per payout (₹, blank = all)': 'દરેક ચુકવણીમાં વસૂલી (₹, ખાલી = બધું)',
         };
         return lang === 'gu' ? (tr[text] || text) : text;
     };
@@ -255,6 +299,8 @@ export default function KhataPage() {
                     <div className="bg-white rounded-xl border border-slate-200 p-5 shadow-sm">
                         <h2 className="text-lg font-bold mb-4 text-center text-slate-800">{t('Evening Tally')}</h2>
 
+                        <MissingCheckoutList items={missingCheckouts} onResolved={loadData} />
+
                         <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 mb-4 text-center">
                             <p className="text-sm text-blue-600 mb-1 font-medium">{t('System Count')}</p>
                             <p className="text-4xl font-bold text-blue-700">{systemCount}</p>
@@ -275,7 +321,7 @@ export default function KhataPage() {
                                 className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm text-slate-800 bg-white placeholder-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all resize-none" rows={2} />
                         </div>
 
-                        <button onClick={verifyAndCloseDay} disabled={!notebookCount}
+                        <button onClick={verifyAndCloseDay} disabled={!notebookCount || !missingCheckoutsChecked || missingCheckouts.length > 0}
                             className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-xl font-medium transition-colors shadow-sm">
                             ✓ {t('Verify & Close')}
                         </button>
@@ -338,6 +384,18 @@ export default function KhataPage() {
                         <input type="number" placeholder="Amount (₹)" value={newExpense.amount}
                             onChange={(e) => setNewExpense(ex => ({ ...ex, amount: e.target.value }))}
                             className="w-full px-4 py-3 border border-slate-200 rounded-xl mb-3 text-lg text-slate-800 bg-white placeholder-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" autoFocus />
+                        {newExpense.category === 'advance' && (
+                            <>
+                                <select value={newExpense.workerId} onChange={(e) => setNewExpense(ex => ({ ...ex, workerId: e.target.value }))}
+                                    className="w-full px-4 py-3 border border-slate-200 rounded-xl mb-3 text-slate-800 bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none">
+                                    <option value="">{t('Select worker')}</option>
+                                    {workers.map(w => <option key={w.id} value={w.id}>{w.name}{w.worker_number ? ` (${w.worker_number})` : ''}</option>)}
+                                </select>
+                                <input type="number" placeholder={t('Recover per payout (₹, blank = all)')} value={newExpense.instalment}
+                                    onChange={(e) => setNewExpense(ex => ({ ...ex, instalment: e.target.value }))}
+                                    className="w-full px-4 py-2 border border-slate-200 rounded-xl mb-3 text-slate-800 bg-white placeholder-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" />
+                            </>
+                        )}
                         <input type="text" placeholder="Note (optional)" value={newExpense.note}
                             onChange={(e) => setNewExpense(ex => ({ ...ex, note: e.target.value }))}
                             className="w-full px-4 py-2 border border-slate-200 rounded-xl mb-4 text-slate-800 bg-white placeholder-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none" />
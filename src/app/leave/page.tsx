@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
+import {
+    loadLeaveTypes, loadLeaveRequests, loadLeaveBalances, requestLeave, cancelLeave,
+    LeaveType, LeaveRequest, LeaveBalance, LeaveStatus,
+} from '@/lib/leave';
+
+interface WorkerOption {
+    id: string;
+    name: string;
+    worker_number: string | null;
+    site_id: string | null;
+}
+
+const STATUS_STYLES: Record<LeaveStatus, string> = {
+    pending: 'bg-yellow-500/20 text-yellow-400',
+    approved: 'bg-green-500/20 text-green-400',
+    rejected: 'bg-red-500/20 text-red-400',
+    cancelled: 'bg-white/10 text-white/40',
+};
+
+export default function LeavePage() {
+    const router = useRouter();
+    const [loading, setLoading] = useState(true);
+    const [workers, setWorkers] = useState<WorkerOption[]>([]);
+    const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+    const [requests, setRequests] = useState<LeaveRequest[]>([]);
+    const [balances, setBalances] = useState<LeaveBalance[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const [workerId, setWorkerId] = useState('');
+    const [leaveTypeId, setLeaveTypeId] = useState('');
+    const [startDate, setStartDate] = useState(() => businessDate());
+    const [endDate, setEndDate] = useState(() => businessDate());
+    const [reason, setReason] = useState('');
+
+    useEffect(() => { loadData(); }, []);
+    useEffect(() => {
+        if (workerId) loadLeaveBalances(workerId, parseInt(startDate.slice(0, 4))).then(setBalances);
+        else setBalances([]);
+    }, [workerId, startDate]);
+
+    const loadData = async () => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) { router.push('/login'); return; }
+
+            const [workersRes, types, recent] = await Promise.all([
+                supabase.from('workers').select('id, name, worker_number, site_id').eq('is_active', true).order('name'),
+                loadLeaveTypes(),
+                loadLeaveRequests(),
+            ]);
+            setWorkers(workersRes.data || []);
+            setLeaveTypes(types);
+            setRequests(recent);
+            if (types.length > 0) setLeaveTypeId(prev => prev || String(types[0].id));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const showMessage = (message: string, isError = false) => {
+        if (isError) { setError(message); setTimeout(() => setError(null), 3000); }
+        else { setSuccessMessage(message); setTimeout(() => setSuccessMessage(null), 2000); }
+    };
+
+    const submitRequest = async () => {
+        const worker = workers.find(w => w.id === workerId);
+        const leaveType = leaveTypes.find(t => t.id === parseInt(leaveTypeId));
+        if (!worker || !leaveType) { showMessage('Select a worker and leave type', true); return; }
+        if (endDate < startDate) { showMessage('End date is before start date', true); return; }
+
+        setIsProcessing(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await requestLeave(worker, leaveType, startDate, endDate, reason, user?.id || null);
+            showMessage(`Leave requested for ${worker.name}`);
+            setReason('');
+            loadData();
+            loadLeaveBalances(worker.id, parseInt(startDate.slice(0, 4))).then(setBalances);
+        } catch (err: any) {
+            showMessage(err.message || 'Request failed', true);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const withdraw = async (request: LeaveRequest) => {
+        if (!confirm(`Withdraw leave for ${request.workers?.name || 'this worker'}?`)) return;
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await cancelLeave(request, user?.id || null);
+            showMessage('Request withdrawn');
+            loadData();
+        } catch (err: any) {
+            showMessage(err.message || 'Failed', true);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900/30 to-slate-900">
+                <div className="w-12 h-12 border-4 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900/30 to-slate-900">
+            {/* Header */}
+            <div className="relative overflow-hidden">
+                <div className="absolute inset-0 bg-gradient-to-r from-cyan-500/10 via-purple-500/10 to-pink-500/10" />
+                <div className="relative px-4 py-4 backdrop-blur-xl border-b border-white/10">
+                    <div className="flex items-center justify-between">
+                        <button onClick={() => router.push('/workers')} className="w-10 h-10 rounded-xl bg-white/10 flex items-center justify-center text-white">←</button>
+                        <h1 className="text-xl font-bold text-white">Leave</h1>
+                        <div className="w-10" />
+                    </div>
+                </div>
+            </div>
+
+            {error && <div className="mx-4 mt-4 p-3 bg-red-500/20 border border-red-500/30 rounded-xl text-red-400 text-sm text-center">{error}</div>}
+            {successMessage && <div className="mx-4 mt-4 p-3 bg-green-500/20 border border-green-500/30 rounded-xl text-green-400 text-sm text-center">{successMessage}</div>}
+
+            {/* Request Form */}
+            <div className="p-4">
+                <div className="bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10 p-4 space-y-3">
+                    <h2 className="text-white font-semibold">New Request</h2>
+                    <select value={workerId} onChange={(e) => setWorkerId(e.target.value)}
+                        className="w-full px-4 py-3 bg-white/5 rounded-xl border border-white/10 text-white">
+                        <option value="" className="bg-slate-900">Select worker</option>
+                        {workers.map(w => <option key={w.id} value={w.id} className="bg-slate-900">{w.name}{w.worker_number ? ` (${w.worker_number})` : ''}</option>)}
+                    </select>
+
+                    {balances.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {balances.map(b => (
+                                <span key={b.type.id} className="px-3 py-1 rounded-full text-xs bg-white/10 text-white/70">
+                                    {b.type.code}: {b.remaining === null ? '∞' : `${b.remaining} left`}
+                                    {b.pending > 0 && <span className="text-yellow-400"> • {b.pending} pending</span>}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    <select value={leaveTypeId} onChange={(e) => setLeaveTypeId(e.target.value)}
+                        className="w-full px-4 py-3 bg-white/5 rounded-xl border border-white/10 text-white">
+                        {leaveTypes.map(t => <option key={t.id} value={t.id} className="bg-slate-900">{t.name}{t.is_paid ? '' : ' (unpaid)'}</option>)}
+                    </select>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="text-white/40 text-xs ml-1">From</label>
+                            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)}
+                                className="w-full px-4 py-3 bg-white/5 rounded-xl border border-white/10 text-white" />
+                        </div>
+                        <div>
+                            <label className="text-white/40 text-xs ml-1">To</label>
+                            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)}
+                                className="w-full px-4 py-3 bg-white/5 rounded-xl border border-white/10 text-white" />
+                        </div>
+                    </div>
+                    <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (optional)"
+                        className="w-full px-4 py-3 bg-white/5 rounded-xl border border-white/10 text-white placeholder-white/40" />
+                    <button onClick={submitRequest} disabled={isProcessing || !workerId}
+                        className="w-full py-3 bg-gradient-to-r from-cyan-500 to-purple-500 text-white rounded-xl font-medium disabled:opacity-50">
+                        {isProcessing ? 'Submitting...' : 'Request Leave'}
+                    </button>
+                    <p className="text-white/30 text-xs text-center">Weekly offs and holidays in the range don&apos;t use leave. The owner approves requests.</p>
+                </div>
+            </div>
+
+            {/* Recent Requests */}
+            <div className="px-4 pb-8 space-y-3">
+                <h2 className="text-white/60 text-sm font-medium">Recent Requests</h2>
+                {requests.length === 0 ? (
+                    <p className="text-center text-white/40 py-8">No leave requests yet</p>
+                ) : requests.map(request => (
+                    <div key={request.id} className="bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10 p-4 flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-white truncate">{request.workers?.name || 'Unknown'}</p>
+                            <p className="text-white/40 text-sm">
+                                {request.leave_types?.name || 'Leave'} • {request.days} {request.days === 1 ? 'day' : 'days'}
+                            </p>
+                            <p className="text-white/30 text-xs">
+                                {request.start_date}{request.end_date !== request.start_date && ` → ${request.end_date}`}
+                                {request.reason && ` • ${request.reason}`}
+                            </p>
+                        </div>
+                        <div className="flex flex-col items-end gap-2">
+                            <span className={`px-3 py-1 rounded-full text-xs font-medium uppercase ${STATUS_STYLES[request.status]}`}>{request.status}</span>
+                            {request.status === 'pending' && (
+                                <button onClick={() => withdraw(request)} className="text-xs text-red-400 hover:underline">Withdraw</button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
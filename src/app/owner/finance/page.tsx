@@ -2,19 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
-
-interface PaymentBatch {
-    id: string;
-    start_date: string;
-    end_date: string;
-    total_wages: number;
-    total_expenses: number;
-    net_amount: number;
-    status: string;
-    payment_method: string;
-    notes: string | null;
-    created_at: string;
-}
+import { markBatchPaid as settleBatch, PaymentBatch } from '@/lib/payment-batches';
+import { loadRateBook, rateOn } from '@/lib/wage-rates';
 
 interface Expense {
     id: string;
@@ -32,15 +21,17 @@ export default function OwnerFinancePage() {
     const [batches, setBatches] = useState<PaymentBatch[]>([]);
     const [pendingExpenses, setPendingExpenses] = useState<Expense[]>([]);
     const [stats, setStats] = useState({ totalWages: 0, totalExpenses: 0, netPending: 0 });
+    const [payingId, setPayingId] = useState<string | null>(null);
 
     useEffect(() => { loadData(); }, []);
 
     const loadData = async () => {
         try {
-            const [expensesRes, batchesRes, logsRes] = await Promise.all([
+            const [expensesRes, batchesRes, logsRes, rateBook] = await Promise.all([
                 supabase.from('expenses').select('*').is('payment_batch_id', null).order('date', { ascending: false }),
                 supabase.from('payment_batches').select('*').order('created_at', { ascending: false }).limit(20),
-                supabase.from('attendance_logs').select('*, workers(base_rate)').is('payment_batch_id', null),
+                supabase.from('attendance_logs').select('*, workers(id, base_rate, category)').is('payment_batch_id', null),
+                loadRateBook(),
             ]);
 
             const pendingExp = expensesRes.data || [];
@@ -48,8 +39,8 @@ export default function OwnerFinancePage() {
             setBatches(batchesRes.data || []);
 
             const totalExpenses = pendingExp.reduce((sum, e) => sum + e.amount, 0);
-            const totalWages = (logsRes.data || []).reduce((sum: number, l: any) => {
-                const rate = l.workers?.base_rate || 500;
+            const totalWages = (logsRes.data || []).filter((l: any) => l.check_in_time).reduce((sum: number, l: any) => {
+                const rate = l.workers ? rateOn(rateBook, l.workers, l.date) : 500;
                 return sum + (l.status === 'half-day' ? rate / 2 : rate);
             }, 0);
 
@@ -57,9 +48,16 @@ export default function OwnerFinancePage() {
         } finally { setLoading(false); }
     };
 
-    const markBatchPaid = async (batchId: string) => {
-        await supabase.from('payment_batches').update({ status: 'paid', paid_at: new Date().toISOString() }).eq('id', batchId);
-        loadData();
+    const markBatchPaid = async (batch: PaymentBatch) => {
+        if (!confirm(`Mark ₹${batch.net_amount.toLocaleString()} as paid?`)) return;
+        setPayingId(batch.id);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await settleBatch(batch, user?.id || null);
+            loadData();
+        } catch (err: any) {
+            alert(err.message || 'Failed to mark batch paid');
+        } finally { setPayingId(null); }
     };
 
     const categoryLabels: Record<string, string> = {
@@ -146,20 +144,27 @@ export default function OwnerFinancePage() {
                                         {new Date(batch.start_date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })} -
                                         {new Date(batch.end_date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
                                     </p>
-                                    <p className="text-sm text-slate-500">{batch.payment_method}</p>
+                                    <p className="text-sm text-slate-500">
+                                        {batch.payment_method}
+                                        {batch.paid_at && ` • paid ${new Date(batch.paid_at).toLocaleDateString('en-IN')}`}
+                                    </p>
                                 </div>
                                 <span className={`px-2 py-1 rounded text-xs ${batch.status === 'paid' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
                                     {batch.status === 'paid' ? '✓ Paid' : 'Pending'}
                                 </span>
                             </div>
-                            <div className="grid grid-cols-3 gap-2 mt-3 text-sm">
+                            <div className={`grid ${batch.total_commission > 0 ? 'grid-cols-2' : 'grid-cols-3'} gap-2 mt-3 text-sm`}>
                                 <div><span className="text-slate-500">Wages:</span> <span className="text-green-600">+₹{batch.total_wages}</span></div>
+                                {batch.total_commission > 0 && (
+                                    <div><span className="text-slate-500">Maistry:</span> <span className="text-amber-600">+₹{batch.total_commission}</span></div>
+                                )}
                                 <div><span className="text-slate-500">Exp:</span> <span className="text-red-600">-₹{batch.total_expenses}</span></div>
                                 <div><span className="text-slate-500">Net:</span> <span className="font-bold">₹{batch.net_amount}</span></div>
                             </div>
                             {batch.status === 'pending' && (
-                                <button onClick={() => markBatchPaid(batch.id)} className="mt-3 w-full py-2 bg-green-600 text-white rounded-xl text-sm">
-                                    Mark as Paid
+                                <button onClick={() => markBatchPaid(batch)} disabled={payingId === batch.id}
+                                    className="mt-3 w-full py-2 bg-green-600 text-white rounded-xl text-sm disabled:opacity-50">
+                                    {payingId === batch.id ? 'Saving...' : 'Mark as Paid'}
                                 </button>
                             )}
                         </div>
@@ -27,6 +27,9 @@ export default function OwnerLayout({ children }: OwnerLayoutProps) {
         { href: '/owner/staff', icon: '👥', label: t.staff },
         { href: '/owner/tasks', icon: '✅', label: t.tasks },
         { href: '/owner/audit', icon: '📋', label: t.audit },
+        { href: '/owner/live-wall', icon: '📸', label: t.liveWall },
+        { href: '/owner/review', icon: '🔎', label: t.review },
+        { href: '/owner/leave', icon: '🏖️', label: t.leave },
         { href: '/owner/finance', icon: '💰', label: t.finance },
     ];
 
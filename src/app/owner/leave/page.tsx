@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
+import {
+    loadLeaveTypes, loadLeaveRequests, loadLeaveBalances, approveLeave, rejectLeave, cancelLeave, setLeaveAllowance,
+    LeaveType, LeaveRequest, LeaveBalance,
+} from '@/lib/leave';
+
+interface WorkerOption {
+    id: string;
+    name: string;
+    worker_number: string | null;
+}
+
+const EMPTY_TYPE = { name: '', code: '', yearly_allowance: '', is_paid: true };
+
+export default function OwnerLeavePage() {
+    const [loading, setLoading] = useState(true);
+    const [pending, setPending] = useState<LeaveRequest[]>([]);
+    const [approved, setApproved] = useState<LeaveRequest[]>([]);
+    const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+    const [workers, setWorkers] = useState<WorkerOption[]>([]);
+    const [managers, setManagers] = useState<Record<string, string>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+    const [balanceWorker, setBalanceWorker] = useState('');
+    const [balanceYear, setBalanceYear] = useState(() => parseInt(businessDate().slice(0, 4)));
+    const [balances, setBalances] = useState<LeaveBalance[]>([]);
+    const [newType, setNewType] = useState(EMPTY_TYPE);
+
+    useEffect(() => { loadData(); }, []);
+    useEffect(() => { loadBalances(); }, [balanceWorker, balanceYear]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    const loadData = async () => {
+        try {
+            const [pendingList, approvedList, types, workersRes] = await Promise.all([
+                loadLeaveRequests('pending'),
+                loadLeaveRequests('approved'),
+                loadLeaveTypes(false),
+                supabase.from('workers').select('id, name, worker_number').eq('is_active', true).order('name'),
+            ]);
+            setPending(pendingList);
+            setApproved(approvedList.filter(r => r.end_date >= businessDate()));
+            setLeaveTypes(types);
+            setWorkers(workersRes.data || []);
+
+            // Requesting manager names
+            const managerIds = Array.from(new Set(pendingList.map(r => r.requested_by).filter(Boolean))) as string[];
+            if (managerIds.length > 0) {
+                const { data } = await supabase.from('profiles').select('id, email, full_name').in('id', managerIds);
+                setManagers(Object.fromEntries((data || []).map(p => [p.id, p.full_name || p.email])));
+            }
+        } finally { setLoading(false); }
+    };
+
+    const loadBalances = async () => {
+        setBalances(balanceWorker ? await loadLeaveBalances(balanceWorker, balanceYear) : []);
+    };
+
+    const runAction = async (request: LeaveRequest, action: (by: string | null) => Promise<void>, message: string) => {
+        setBusyId(request.id);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            await action(user?.id || null);
+            setNotification({ type: 'success', message });
+            loadData();
+        } catch (err: any) {
+            console.error('Leave action failed:', err);
+            setNotification({ type: 'error', message: err.message || 'Action failed' });
+        } finally { setBusyId(null); }
+    };
+
+    const handleCancel = (request: LeaveRequest) => {
+        if (!confirm(`Cancel ${request.workers?.name || 'this'} leave? Days without attendance go back to absent.`)) return;
+        runAction(request, by => cancelLeave(request, by), 'Leave cancelled');
+    };
+
+    const updateType = async (type: LeaveType, changes: Partial<LeaveType>) => {
+        const { error } = await supabase.from('leave_types').update(changes).eq('id', type.id);
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setLeaveTypes(prev => prev.map(t => t.id === type.id ? { ...t, ...changes } : t));
+    };
+
+    const addType = async () => {
+        if (!newType.name.trim() || !newType.code.trim()) {
+            setNotification({ type: 'error', message: 'Name and code are required' });
+            return;
+        }
+        const { error } = await supabase.from('leave_types').insert({
+            name: newType.name.trim(),
+            code: newType.code.trim().toUpperCase(),
+            yearly_allowance: newType.yearly_allowance === '' ? null : parseFloat(newType.yearly_allowance),
+            is_paid: newType.is_paid,
+        });
+        if (error) {
+            setNotification({ type: 'error', message: error.code === '23505' ? 'That code is already used' : error.message });
+            return;
+        }
+        setNewType(EMPTY_TYPE);
+        setLeaveTypes(await loadLeaveTypes(false));
+    };
+
+    const saveAllowance = async (balance: LeaveBalance, value: string) => {
+        const allowance = parseFloat(value);
+        if (isNaN(allowance) || allowance < 0 || allowance === balance.allowance) return;
+        try {
+            await setLeaveAllowance(balanceWorker, balance.type.id, balanceYear, allowance);
+            loadBalances();
+        } catch (err: any) {
+            setNotification({ type: 'error', message: err.message || 'Failed to save allowance' });
+        }
+    };
+
+    const formatRange = (r: LeaveRequest) => r.end_date !== r.start_date ? `${r.start_date} → ${r.end_date}` : r.start_date;
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64">
+            <div className="w-10 h-10 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+        </div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Toast */}
+            {notification && (
+                <div className={`fixed bottom-6 right-6 z-[100] px-6 py-4 rounded-xl shadow-2xl border flex items-center gap-3 bg-white ${notification.type === 'success'
+                    ? 'border-green-500/30 text-green-600'
+                    : 'border-red-500/30 text-red-600'
+                    }`}>
+                    <span className="text-2xl">{notification.type === 'success' ? '✓' : '⚠️'}</span>
+                    <span className="font-medium">{notification.message}</span>
+                </div>
+            )}
+
+            <div>
+                <h1 className="text-2xl font-bold text-slate-800">Leave</h1>
+                <p className="text-sm text-slate-500">Approve leave requested by managers and set yearly balances</p>
+            </div>
+
+            {/* Pending Requests */}
+            <div className="space-y-3">
+                <p className="text-sm text-slate-500">{pending.length} requests pending</p>
+                {pending.map(request => (
+                    <div key={request.id} className="bg-white rounded-xl border p-4 flex flex-wrap items-center gap-4">
+                        <div className="flex-1 min-w-[200px]">
+                            <p className="font-semibold text-slate-800">
+                                {request.workers?.name || 'Unknown'}
+                                {request.workers?.worker_number && <span className="text-slate-400 font-normal text-sm"> • {request.workers.worker_number}</span>}
+                            </p>
+                            <p className="text-sm text-slate-600">
+                                {request.leave_types?.name || 'Leave'} • {request.days} {request.days === 1 ? 'day' : 'days'} • {formatRange(request)}
+                                {request.leave_types && !request.leave_types.is_paid && <span className="text-slate-400"> (unpaid)</span>}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                                {request.reason ? `"${request.reason}" • ` : ''}Requested by {(request.requested_by && managers[request.requested_by]) || 'Unknown'}
+                            </p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => runAction(request, by => approveLeave(request, by), 'Leave approved')} disabled={busyId === request.id}
+                                className="px-4 py-2 bg-green-600 text-white rounded-xl text-sm disabled:opacity-50">✓ Approve</button>
+                            <button onClick={() => runAction(request, by => rejectLeave(request, by), 'Leave rejected')} disabled={busyId === request.id}
+                                className="px-4 py-2 bg-red-50 text-red-600 border border-red-200 rounded-xl text-sm disabled:opacity-50">✕ Reject</button>
+                        </div>
+                    </div>
+                ))}
+                {pending.length === 0 && (
+                    <div className="text-center py-8 text-slate-400">
+                        <div className="text-4xl mb-2">✅</div>
+                        <p>No leave waiting for approval</p>
+                    </div>
+                )}
+            </div>
+
+            {/* Current & Upcoming Leave */}
+            {approved.length > 0 && (
+                <div className="bg-white rounded-xl border overflow-hidden">
+                    <div className="px-4 py-3 border-b font-semibold text-slate-800">Current & Upcoming Leave</div>
+                    <div className="divide-y">
+                        {approved.map(request => (
+                            <div key={request.id} className="px-4 py-3 flex items-center gap-3 text-sm">
+                                <span className="flex-1 text-slate-800">{request.workers?.name || 'Unknown'}</span>
+                                <span className="text-slate-500">{request.leave_types?.code} • {formatRange(request)}</span>
+                                <button onClick={() => handleCancel(request)} disabled={busyId === request.id}
+                                    className="text-red-600 text-xs hover:underline disabled:opacity-50">Cancel</button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Worker Balances */}
+            <div className="bg-white rounded-xl border overflow-hidden">
+                <div className="px-4 py-3 border-b flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-slate-800 flex-1">Balances</span>
+                    <select value={balanceWorker} onChange={e => setBalanceWorker(e.target.value)} className="px-3 py-2 border rounded-xl text-sm">
+                        <option value="">Select worker...</option>
+                        {workers.map(w => <option key={w.id} value={w.id}>{w.name}{w.worker_number ? ` (${w.worker_number})` : ''}</option>)}
+                    </select>
+                    <select value={balanceYear} onChange={e => setBalanceYear(parseInt(e.target.value))} className="px-3 py-2 border rounded-xl text-sm">
+                        {[-1, 0, 1].map(d => {
+                            const y = parseInt(businessDate().slice(0, 4)) + d;
+                            return <option key={y} value={y}>{y}</option>;
+                        })}
+                    </select>
+                </div>
+                {balances.length > 0 ? (
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-500">
+                            <tr>
+                                <th className="px-4 py-2 text-left font-medium">Type</th>
+                                <th className="px-4 py-2 text-center font-medium">Allowance</th>
+                                <th className="px-4 py-2 text-center font-medium">Used</th>
+                                <th className="px-4 py-2 text-center font-medium">Pending</th>
+                                <th className="px-4 py-2 text-center font-medium">Left</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {balances.map(b => (
+                                <tr key={b.type.id}>
+                                    <td className="px-4 py-2 text-slate-800">{b.type.name}</td>
+                                    <td className="px-4 py-2 text-center">
+                                        {b.allowance === null ? <span className="text-slate-400">No limit</span> : (
+                                            <input key={`${balanceWorker}-${balanceYear}-${b.allowance}`} type="number" min="0" step="0.5" defaultValue={b.allowance}
+                                                onBlur={e => saveAllowance(b, e.target.value)}
+                                                className="w-20 px-2 py-1 border rounded-lg text-center" />
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-center text-slate-600">{b.used}</td>
+                                    <td className="px-4 py-2 text-center text-amber-600">{b.pending}</td>
+                                    <td className="px-4 py-2 text-center font-semibold text-slate-800">{b.remaining ?? '∞'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="text-center py-6 text-slate-400 text-sm">Select a worker to see their leave balance</p>
+                )}
+            </div>
+
+            {/* Leave Types */}
+            <div className="bg-white rounded-xl border overflow-hidden">
+                <div className="px-4 py-3 border-b font-semibold text-slate-800">Leave Types</div>
+                <div className="divide-y">
+                    {leaveTypes.map(type => (
+                        <div key={type.id} className={`px-4 py-3 flex flex-wrap items-center gap-3 text-sm ${type.is_active ? '' : 'opacity-50'}`}>
+                            <span className="w-12 font-mono text-slate-500">{type.code}</span>
+                            <span className="flex-1 text-slate-800">{type.name}</span>
+                            <span className="text-slate-500">{type.yearly_allowance === null ? 'No limit' : `${type.yearly_allowance} days/year`}</span>
+                            <button onClick={() => updateType(type, { is_paid: !type.is_paid })}
+                                className={`px-3 py-1 rounded-full text-xs font-medium ${type.is_paid ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-500'}`}>
+                                {type.is_paid ? '₹ Paid' : 'Unpaid'}
+                            </button>
+                            <button onClick={() => updateType(type, { is_active: !type.is_active })} className="text-xs text-blue-600 hover:underline">
+                                {type.is_active ? 'Disable' : 'Enable'}
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <div className="px-4 py-3 border-t bg-slate-50 flex flex-wrap gap-2 items-center">
+                    <input type="text" placeholder="Name" value={newType.name} onChange={e => setNewType({ ...newType, name: e.target.value })}
+                        className="flex-1 min-w-[140px] px-3 py-2 border rounded-xl text-sm" />
+                    <input type="text" placeholder="Code" value={newType.code} onChange={e => setNewType({ ...newType, code: e.target.value })}
+                        className="w-20 px-3 py-2 border rounded-xl text-sm" />
+                    <input type="number" min="0" placeholder="Days/yr" value={newType.yearly_allowance} onChange={e => setNewType({ ...newType, yearly_allowance: e.target.value })}
+                        className="w-24 px-3 py-2 border rounded-xl text-sm" title="Leave empty for no limit" />
+                    <label className="flex items-center gap-1 text-sm text-slate-600">
+                        <input type="checkbox" checked={newType.is_paid} onChange={e => setNewType({ ...newType, is_paid: e.target.checked })} /> Paid
+                    </label>
+                    <button onClick={addType} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm">+ Add</button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { getRecentProofs } from '@/lib/storage-utils';
+import { businessDate } from '@/lib/business-date';
+
+type Proof = Awaited<ReturnType<typeof getRecentProofs>>[number];
+
+export default function OwnerLiveWallPage() {
+    const [loading, setLoading] = useState(true);
+    const [proofs, setProofs] = useState<Proof[]>([]);
+    const [selectedDate, setSelectedDate] = useState(() => businessDate());
+    const [search, setSearch] = useState('');
+    const [zoomed, setZoomed] = useState<{ title: string; url: string } | null>(null);
+
+    useEffect(() => {
+        loadProofs();
+
+        // Proof URLs are written after the background upload finishes
+        const channel = supabase
+            .channel('owner_live_wall')
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'attendance_logs' }, () => loadProofs())
+            .subscribe();
+
+        return () => { supabase.removeChannel(channel); };
+    }, [selectedDate]);
+
+    const loadProofs = async () => {
+        try {
+            setProofs(await getRecentProofs(200, selectedDate));
+        } finally { setLoading(false); }
+    };
+
+    const formatTime = (iso: string | null) =>
+        iso ? new Date(iso).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' }) : '-';
+
+    const filtered = proofs.filter(p => p.worker_name.toLowerCase().includes(search.toLowerCase()));
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64">
+            <div className="w-10 h-10 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+        </div>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-800">Live Wall</h1>
+                    <p className="text-sm text-slate-500">Scan photo vs enrolled photo</p>
+                </div>
+                <input type="date" value={selectedDate} onChange={e => { setLoading(true); setSelectedDate(e.target.value); }}
+                    className="px-3 py-2 border rounded-xl text-sm" />
+            </div>
+
+            <input type="text" placeholder="🔍 Search workers..." value={search} onChange={e => setSearch(e.target.value)}
+                className="w-full px-4 py-2 border rounded-xl" />
+
+            <p className="text-sm text-slate-500">{filtered.length} scans with proof</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {filtered.map(proof => (
+                    <div key={proof.id} className="bg-white rounded-xl border p-3">
+                        <div className="flex items-center justify-between mb-2">
+                            <p className="font-semibold text-slate-800 truncate">{proof.worker_name}</p>
+                            <span className="text-xs text-slate-500">{formatTime(proof.check_in_time)} → {formatTime(proof.check_out_time)}</span>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            {[
+                                { label: 'Enrolled', url: proof.worker_photo_url },
+                                { label: 'In', url: proof.proof_url },
+                                { label: 'Out', url: proof.proof_out_url },
+                            ].map(photo => (
+                                <div key={photo.label} className="text-center">
+                                    <div className="aspect-square bg-slate-100 rounded-lg overflow-hidden flex items-center justify-center">
+                                        {photo.url ? (
+                                            <img src={photo.url} alt={`${proof.worker_name} ${photo.label}`}
+                                                onClick={() => setZoomed({ title: `${proof.worker_name} • ${photo.label}`, url: photo.url! })}
+                                                className="w-full h-full object-cover cursor-zoom-in" />
+                                        ) : (
+                                            <span className="text-2xl text-slate-300">👤</span>
+                                        )}
+                                    </div>
+                                    <p className="text-[10px] text-slate-500 mt-1 uppercase tracking-wider">{photo.label}</p>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {filtered.length === 0 && (
+                <div className="text-center py-12 text-slate-400">
+                    <div className="text-4xl mb-2">📸</div>
+                    <p>No proof photos for this date</p>
+                </div>
+            )}
+
+            {/* Zoomed Photo */}
+            {zoomed && (
+                <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={() => setZoomed(null)}>
+                    <div className="bg-white rounded-2xl p-3 max-w-md w-full">
+                        <div className="flex items-center justify-between mb-2">
+                            <h2 className="font-bold">{zoomed.title}</h2>
+                            <button onClick={() => setZoomed(null)} className="text-2xl text-slate-400">×</button>
+                        </div>
+                        <img src={zoomed.url} alt={zoomed.title} className="w-full rounded-xl" />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,8 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, Worker } from '@/lib/supabase';
+import { supabase, Worker, WORKER_COLUMNS } from '@/lib/supabase';
 import { COMPANY_NAME } from '@/lib/config';
+import { businessDate } from '@/lib/business-date';
 
 interface Stats {
     activeSites: number;
@@ -26,7 +27,7 @@ export default function OwnerDashboard() {
     const [closings, setClosings] = useState<any[]>([]);
     const [pendingRequests, setPendingRequests] = useState(0);
 
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = businessDate();
 
     useEffect(() => {
         loadData();
@@ -71,7 +72,7 @@ export default function OwnerDashboard() {
 
             const [sitesRes, workersRes, logsRes, closingsRes, expensesRes] = await Promise.all([
                 supabase.from('sites').select('id').eq('is_active', true),
-                supabase.from('workers').select('*').eq('is_active', true),
+                supabase.from('workers').select(WORKER_COLUMNS).eq('is_active', true),
                 supabase.from('attendance_logs').select('*, workers(name, base_rate, photo_url)').eq('date', currentDate),
                 supabase.from('daily_closings').select('*').order('date', { ascending: false }).limit(7),
                 supabase.from('expenses').select('*').eq('date', currentDate),
@@ -82,7 +83,7 @@ export default function OwnerDashboard() {
             const expenses = expensesRes.data || [];
 
             const presentCount = logs.filter((l: any) => l.check_in_time).length;
-            const burnRate = logs.reduce((sum: number, log: any) => {
+            const burnRate = logs.filter((l: any) => l.check_in_time).reduce((sum: number, log: any) => {
                 const rate = log.workers?.base_rate || 500;
                 return sum + (log.status === 'half-day' ? rate / 2 : rate);
             }, 0);
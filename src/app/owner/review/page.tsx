@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { loadReviewQueue, confirmReview, reassignReview, voidReview, ReviewItem } from '@/lib/match-review';
+import type { MatchCandidate } from '@/lib/face-utils';
+
+interface WorkerOption {
+    id: string;
+    name: string;
+    worker_number: string | null;
+}
+
+export default function OwnerReviewPage() {
+    const [loading, setLoading] = useState(true);
+    const [items, setItems] = useState<ReviewItem[]>([]);
+    const [workers, setWorkers] = useState<WorkerOption[]>([]);
+    const [managers, setManagers] = useState<Record<string, string>>({});
+    const [reassigning, setReassigning] = useState<{ item: ReviewItem; workerId: string } | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [zoomed, setZoomed] = useState<{ title: string; url: string } | null>(null);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+    useEffect(() => { loadData(); }, []);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 3000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    const loadData = async () => {
+        try {
+            const [queue, workersRes] = await Promise.all([
+                loadReviewQueue(),
+                supabase.from('workers').select('id, name, worker_number').eq('is_active', true).order('name'),
+            ]);
+            setItems(queue);
+            setWorkers(workersRes.data || []);
+
+            // Scanning manager names
+            const managerIds = Array.from(new Set(queue.map(i => i.marked_by).filter(Boolean))) as string[];
+            if (managerIds.length > 0) {
+                const { data } = await supabase.from('profiles').select('id, email, full_name').in('id', managerIds);
+                setManagers(Object.fromEntries((data || []).map(p => [p.id, p.full_name || p.email])));
+            }
+        } finally { setLoading(false); }
+    };
+
+    const runAction = async (item: ReviewItem, action: () => Promise<void>, message: string) => {
+        setBusyId(item.id);
+        try {
+            await action();
+            setItems(prev => prev.filter(i => i.id !== item.id));
+            setNotification({ type: 'success', message });
+        } catch (err: any) {
+            console.error('Review action failed:', err);
+            setNotification({ type: 'error', message: err.message || 'Action failed' });
+        } finally { setBusyId(null); }
+    };
+
+    const handleVoid = (item: ReviewItem) => {
+        if (!confirm(`Void ${item.workers?.name || 'this'} attendance for ${item.date}? The worker will be marked absent.`)) return;
+        runAction(item, () => voidReview(item), 'Record voided');
+    };
+
+    const handleReassign = () => {
+        if (!reassigning?.workerId) return;
+        const { item, workerId } = reassigning;
+        const target = workers.find(w => w.id === workerId);
+        setReassigning(null);
+        runAction(item, () => reassignReview(item, workerId), `Reassigned to ${target?.name || 'worker'}`);
+    };
+
+    const formatTime = (iso: string | null) =>
+        iso ? new Date(iso).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' }) : '-';
+
+    const formatCandidates = (candidates: MatchCandidate[] | null) =>
+        candidates?.length ? candidates.map(c => `${c.name} ${c.distance.toFixed(3)}`).join(' · ') : 'No face match';
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-64">
+            <div className="w-10 h-10 border-4 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+        </div>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Toast */}
+            {notification && (
+                <div className={`fixed bottom-6 right-6 z-[100] px-6 py-4 rounded-xl shadow-2xl border flex items-center gap-3 bg-white ${notification.type === 'success'
+                    ? 'border-green-500/30 text-green-600'
+                    : 'border-red-500/30 text-red-600'
+                    }`}>
+                    <span className="text-2xl">{notification.type === 'success' ? '✓' : '⚠️'}</span>
+                    <span className="font-medium">{notification.message}</span>
+                </div>
+            )}
+
+            <div>
+                <h1 className="text-2xl font-bold text-slate-800">Match Review</h1>
+                <p className="text-sm text-slate-500">Narrow face matches and manual overrides waiting for a decision</p>
+            </div>
+
+            <p className="text-sm text-slate-500">{items.length} records pending</p>
+
+            <div className="space-y-3">
+                {items.map(item => (
+                    <div key={item.id} className="bg-white rounded-xl border p-4">
+                        <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+                            <div>
+                                <p className="font-semibold text-slate-800">
+                                    {item.workers?.name || 'Unknown'}
+                                    {item.workers?.worker_number && <span className="text-slate-400 font-normal text-sm"> • {item.workers.worker_number}</span>}
+                                </p>
+                                <p className="text-xs text-slate-500">
+                                    {item.date} • {formatTime(item.check_in_time)} → {formatTime(item.check_out_time)} • Scanned by {(item.marked_by && managers[item.marked_by]) || 'Unknown'}
+                                </p>
+                            </div>
+                            <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-lg text-xs font-medium">{item.review_reason || 'Needs review'}</span>
+                            {item.payment_batch_id && <span className="px-2 py-1 bg-slate-100 text-slate-600 rounded-lg text-xs font-medium">Settled in a payout</span>}
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-2 max-w-sm">
+                            {[
+                                { label: 'Enrolled', url: item.workers?.photo_url || null },
+                                { label: 'In', url: item.proof_url },
+                                { label: 'Out', url: item.proof_out_url },
+                            ].map(photo => (
+                                <div key={photo.label} className="text-center">
+                                    <div className="aspect-square bg-slate-100 rounded-lg overflow-hidden flex items-center justify-center">
+                                        {photo.url ? (
+                                            <img src={photo.url} alt={`${item.workers?.name} ${photo.label}`}
+                                                onClick={() => setZoomed({ title: `${item.workers?.name} • ${photo.label}`, url: photo.url! })}
+                                                className="w-full h-full object-cover cursor-zoom-in" />
+                                        ) : (
+                                            <span className="text-2xl text-slate-300">👤</span>
+                                        )}
+                                    </div>
+                                    <p className="text-[10px] text-slate-500 mt-1 uppercase tracking-wider">{photo.label}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="mt-3 text-xs text-slate-600 space-y-1 font-mono">
+                            <p>IN: {formatCandidates(item.match_candidates)}</p>
+                            {item.check_out_time && <p>OUT: {formatCandidates(item.match_out_candidates)}</p>}
+                        </div>
+
+                        <div className="flex flex-wrap gap-2 mt-4">
+                            <button onClick={() => runAction(item, () => confirmReview(item), 'Record confirmed')} disabled={busyId === item.id || !!item.payment_batch_id}
+                                className="px-4 py-2 bg-green-600 text-white rounded-xl text-sm disabled:opacity-50">✓ Confirm</button>
+                            <button onClick={() => setReassigning({ item, workerId: '' })} disabled={busyId === item.id || !!item.payment_batch_id}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm disabled:opacity-50">⇄ Reassign</button>
+                            <button onClick={() => handleVoid(item)} disabled={busyId === item.id || !!item.payment_batch_id}
+                                className="px-4 py-2 bg-red-50 text-red-600 border border-red-200 rounded-xl text-sm disabled:opacity-50">✕ Void</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {items.length === 0 && (
+                <div className="text-center py-12 text-slate-400">
+                    <div className="text-4xl mb-2">✅</div>
+                    <p>Nothing to review</p>
+                </div>
+            )}
+
+            {/* Reassign Modal */}
+            {reassigning && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-2xl p-4 max-w-sm w-full space-y-3">
+                        <h2 className="font-bold">Reassign {reassigning.item.workers?.name}&apos;s record</h2>
+
+                        {/* Runners-up from the face match are the most likely owners */}
+                        {(reassigning.item.match_candidates || []).filter(c => c.worker_id !== reassigning.item.worker_id).length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {(reassigning.item.match_candidates || []).filter(c => c.worker_id !== reassigning.item.worker_id).map(c => (
+                                    <button key={c.worker_id} onClick={() => setReassigning({ ...reassigning, workerId: c.worker_id })}
+                                        className={`px-3 py-1 rounded-lg text-xs border ${reassigning.workerId === c.worker_id ? 'bg-blue-600 text-white border-blue-600' : 'bg-slate-50'}`}>
+                                        {c.name} ({c.distance.toFixed(3)})
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        <select value={reassigning.workerId} onChange={e => setReassigning({ ...reassigning, workerId: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-xl text-sm">
+                            <option value="">Select worker...</option>
+                            {workers.filter(w => w.id !== reassigning.item.worker_id).map(w => (
+                                <option key={w.id} value={w.id}>{w.name}{w.worker_number ? ` (${w.worker_number})` : ''}</option>
+                            ))}
+                        </select>
+
+                        <div className="flex gap-2">
+                            <button onClick={() => setReassigning(null)} className="flex-1 py-2 border rounded-xl text-sm">Cancel</button>
+                            <button onClick={handleReassign} disabled={!reassigning.workerId}
+                                className="flex-1 py-2 bg-blue-600 text-white rounded-xl text-sm disabled:opacity-50">Reassign</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Zoomed Photo */}
+            {zoomed && (
+                <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={() => setZoomed(null)}>
+                    <div className="bg-white rounded-2xl p-3 max-w-md w-full">
+                        <div className="flex items-center justify-between mb-2">
+                            <h2 className="font-bold">{zoomed.title}</h2>
+                            <button onClick={() => setZoomed(null)} className="text-2xl text-slate-400">×</button>
+                        </div>
+                        <img src={zoomed.url} alt={zoomed.title} className="w-full rounded-xl" />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
+import { businessDate } from '@/lib/business-date';
 
 interface AccountantTask {
     id: string;
@@ -27,7 +28,7 @@ export default function OwnerTasksPage() {
     const [loading, setLoading] = useState(true);
     const [tasks, setTasks] = useState<AccountantTask[]>([]);
     const [accountants, setAccountants] = useState<Accountant[]>([]);
-    const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+    const [selectedDate, setSelectedDate] = useState(() => businessDate());
     const [selectedAccountant, setSelectedAccountant] = useState<string>('all');
     const [newAssignment, setNewAssignment] = useState('');
     const [assignTo, setAssignTo] = useState('');
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, Worker } from '@/lib/supabase';
+import { supabase, Worker, WORKER_COLUMNS } from '@/lib/supabase';
 
 export default function OwnerWorkersPage() {
     const router = useRouter();
@@ -16,7 +16,7 @@ export default function OwnerWorkersPage() {
 
     const loadWorkers = async () => {
         try {
-            const { data } = await supabase.from('workers').select('*').order('name');
+            const { data } = await supabase.from('workers').select(WORKER_COLUMNS).order('name');
             setWorkers(data || []);
         } finally { setLoading(false); }
     };
@@ -76,8 +76,8 @@ export default function OwnerWorkersPage() {
                                 <td className="py-2 px-3 font-medium">{worker.name}</td>
                                 <td className="py-2 px-3">₹{worker.base_rate}</td>
                                 <td className="py-2 px-3">
-                                    <span className={`px-2 py-0.5 rounded text-xs ${worker.face_descriptor?.length ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                                        {worker.face_descriptor?.length ? '✓ Enrolled' : '✗ None'}
+                                    <span className={`px-2 py-0.5 rounded text-xs ${worker.face_enrolled ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                        {worker.face_enrolled ? '✓ Enrolled' : '✗ None'}
                                     </span>
                                 </td>
                                 <td className="py-2 px-3">
@@ -113,7 +113,7 @@ export default function OwnerWorkersPage() {
                                 </div>
                                 <div className="bg-slate-50 p-3 rounded-xl">
                                     <p className="text-xs text-slate-500">Face Enrolled</p>
-                                    <p className="text-xl font-bold">{selectedWorker.face_descriptor?.length ? 'Yes' : 'No'}</p>
+                                    <p className="text-xl font-bold">{selectedWorker.face_enrolled ? 'Yes' : 'No'}</p>
                                 </div>
                             </div>
 
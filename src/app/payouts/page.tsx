@@ -2,21 +2,90 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, Worker } from '@/lib/supabase';
+import { supabase, Worker, WORKER_COLUMNS } from '@/lib/supabase';
 import Header from '@/components/Header';
 import BottomNav from '@/components/BottomNav';
 import { THEME_COLOR } from '@/lib/config';
+import { businessDate, addDays } from '@/lib/business-date';
+import { createPaymentBatch } from '@/lib/payment-batches';
+import { loadMaistries, allocateCommission, maistryForWorker, Maistry } from '@/lib/maistry';
+import { loadOpenDebits, dueInstalments, outstandingFor, OpenDebit, Instalment } from '@/lib/worker-ledger';
+import { loadRateBook, rateOn, recordRateChange } from '@/lib/wage-rates';
+import {
+    loadWageContext, computeWages, withDeductions, commissionLine, recoveryLine, lineTotal,
+    WageAttendance, WageContext, WageSheet, EMPTY_WAGE_CONTEXT,
+} from '@/lib/wage-engine';
 
 interface PayoutRow {
     worker: Worker;
-    daysWorked: number;
-    halfDays: number;
-    baseWage: number;
-    overtime: number;
-    totalWage: number;
+    earnings: WageSheet; // Before commission and recoveries
+    sheet: WageSheet; // What is paid: earnings less the deductions below
+    rate: number; // In force at the end of the period
+    commission: number; // This worker's share of their maistry's commission
+    instalments: Instalment[]; // Advance/loan/fine recoveries due from this payout
+    balance: number; // Still owed after this payout's recoveries
     isEdited: boolean;
 }
 
+interface PayoutPeriod {
+    startDate: string;
+    endDate: string;
+    paidHolidaysFrom?: string; // Day after the last batch - earlier paid holidays are settled
+}
+
+/**
+ * Wages for each worker's unsettled attendance, from the shared wage engine
+ */
+function priceRow(worker: Worker, attendance: WageAttendance[], period: PayoutPeriod, context: WageContext): PayoutRow {
+    const earnings = computeWages({ worker, attendance, ...period, context });
+    return {
+        worker,
+        earnings,
+        sheet: earnings,
+        rate: rateOn(context.rateBook, worker, period.endDate),
+        commission: 0,
+        instalments: [],
+        balance: 0,
+        isEdited: false,
+    };
+}
+
+/**
+ * Work out maistry commission per gang and take it off the workers' pay where the maistry deducts it
+ */
+function withCommission(rows: PayoutRow[], maistries: Maistry[]): PayoutRow[] {
+    const commission: Record<string, number> = {};
+    for (const maistry of maistries) {
+        const gang = rows.filter(r => maistryForWorker([maistry], r.worker));
+        Object.assign(commission, allocateCommission(maistry, gang.map(r => ({
+            workerId: r.worker.id, headDays: r.earnings.headDays, wages: r.earnings.gross,
+        }))));
+    }
+    return rows.map(r => {
+        const share = commission[r.worker.id] || 0;
+        const maistry = maistryForWorker(maistries, r.worker);
+        const sheet = maistry ? withDeductions(r.earnings, [commissionLine(maistry.name, share, maistry.deduct_from_wages)]) : r.earnings;
+        return { ...r, commission: share, sheet };
+    });
+}
+
+/**
+ * Take due advance/loan/fine instalments off each worker's pay
+ */
+function withRecoveries(rows: PayoutRow[], debits: OpenDebit[], asOf: string): PayoutRow[] {
+    return rows.map(r => {
+        const instalments = dueInstalments(debits, r.worker.id, asOf, r.sheet.net);
+        const sheet = withDeductions(r.sheet, instalments.map(i => recoveryLine(i.entryType, i.amount)));
+        return { ...r, instalments, sheet, balance: outstandingFor(debits, r.worker.id) - lineTotal(sheet, 'recovery') };
+    });
+}
+
+interface PendingExpense {
+    id: string;
+    date: string;
+    amount: number;
+}
+
 export default function PayoutsPage() {
     const router = useRouter();
     const [payoutRows, setPayoutRows] = useState<PayoutRow[]>([]);
@@ -24,10 +93,19 @@ export default function PayoutsPage() {
     const [processing, setProcessing] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editRate, setEditRate] = useState<string>('');
-
-    // Get current pay period (last 15 days)
-    const endDate = new Date().toISOString().split('T')[0];
-    const startDate = new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const [pendingExpenses, setPendingExpenses] = useState<PendingExpense[]>([]);
+    const [maistries, setMaistries] = useState<Maistry[]>([]);
+    const [debits, setDebits] = useState<OpenDebit[]>([]);
+    const [editFrom, setEditFrom] = useState<string>('');
+    const [attendance, setAttendance] = useState<(WageAttendance & { worker_id: string })[]>([]);
+    const [context, setContext] = useState<WageContext>(EMPTY_WAGE_CONTEXT);
+    const [paidHolidaysFrom, setPaidHolidaysFrom] = useState<string | undefined>();
+    const [settledLogIds, setSettledLogIds] = useState<string[]>([]);
+
+    // Pay period: everything not yet settled in a payment batch, up to the last closed business day.
+    // Today is still being worked, so its open sessions are left for the next payout.
+    const endDate = addDays(businessDate(), -1);
+    const [startDate, setStartDate] = useState(endDate);
 
     const themeClass = THEME_COLOR === 'orange' ? 'bg-orange-500' :
         THEME_COLOR === 'blue' ? 'bg-blue-500' :
@@ -49,42 +127,61 @@ export default function PayoutsPage() {
             // Get all workers
             const { data: workers, error: workersError } = await supabase
                 .from('workers')
-                .select('*')
+                .select(WORKER_COLUMNS)
                 .eq('is_active', true);
 
             if (workersError) throw workersError;
 
-            // Get attendance logs for the period
-            const { data: logs, error: logsError } = await supabase
-                .from('attendance_logs')
-                .select('*')
-                .gte('date', startDate)
-                .lte('date', endDate);
+            // Unsettled attendance and expenses
+            const [{ data: logs, error: logsError }, { data: expenses, error: expensesError }, { data: lastBatch }, maistryList, openDebits] = await Promise.all([
+                supabase
+                    .from('attendance_logs')
+                    .select('id, worker_id, date, status, check_in_time, overtime_hours, leave_requests(leave_types(is_paid))')
+                    .is('payment_batch_id', null)
+                    // Scans waiting in the review queue are held until a reviewer decides
+                    .or('review_status.is.null,review_status.neq.pending')
+                    // Sessions never checked out wait for the evening closing
+                    .or('check_in_time.is.null,check_out_time.not.is.null')
+                    .lte('date', endDate),
+                supabase.from('expenses').select('id, date, amount').is('payment_batch_id', null).lte('date', endDate),
+                supabase.from('payment_batches').select('end_date').order('end_date', { ascending: false }).limit(1).maybeSingle(),
+                loadMaistries(),
+                loadOpenDebits(),
+            ]);
 
             if (logsError) throw logsError;
+            if (expensesError) throw expensesError;
+
+            const unsettled = (logs || []) as unknown as (WageAttendance & { id: string; worker_id: string })[];
+            setPendingExpenses(expenses || []);
+            setMaistries(maistryList);
+            setDebits(openDebits);
+            setAttendance(unsettled);
+
+            // Everything the batch settles: active workers' days, even when they earn nothing,
+            // and voided/absent days of anyone. Otherwise they stay unsettled and drag the period back.
+            const activeIds = new Set((workers || []).map(w => w.id));
+            const settled = unsettled.filter(log => activeIds.has(log.worker_id) || log.status === 'absent');
+            setSettledLogIds(settled.map(log => log.id));
+
+            // The period reaches back to the oldest record it settles, or the day after the last batch for paid holidays
+            const holidaysFrom = lastBatch?.end_date ? addDays(lastBatch.end_date, 1) : undefined;
+            const dates = [...settled, ...(expenses || [])].map(r => r.date as string);
+            if (holidaysFrom && holidaysFrom <= endDate) dates.push(holidaysFrom);
+            const periodStart = dates.length > 0 ? dates.sort()[0] : endDate;
+            setStartDate(periodStart);
+            setPaidHolidaysFrom(holidaysFrom);
+
+            const wageContext = await loadWageContext(periodStart, endDate);
+            setContext(wageContext);
 
             // Calculate payouts for each worker
-            const rows: PayoutRow[] = (workers || []).map(worker => {
-                const workerLogs = (logs || []).filter(log => log.worker_id === worker.id);
-                const presentDays = workerLogs.filter(log => log.status === 'present').length;
-                const halfDays = workerLogs.filter(log => log.status === 'half-day').length;
-
-                const effectiveDays = presentDays + (halfDays * 0.5);
-                const baseWage = effectiveDays * worker.base_rate;
-                const overtime = 0;
-
-                return {
-                    worker,
-                    daysWorked: presentDays,
-                    halfDays,
-                    baseWage,
-                    overtime,
-                    totalWage: baseWage + overtime,
-                    isEdited: false,
-                };
-            }).filter(row => row.daysWorked > 0 || row.halfDays > 0);
-
-            setPayoutRows(rows);
+            const period = { startDate: periodStart, endDate, paidHolidaysFrom: holidaysFrom };
+            const rows = (workers || [])
+                .map(worker => priceRow(worker, unsettled.filter(log => log.worker_id === worker.id), period, wageContext))
+                .filter(row => row.earnings.gross > 0);
+
+            setPayoutRows(withRecoveries(withCommission(rows, maistryList), openDebits, endDate));
 
         } catch (err) {
             console.error('Payout load error:', err);
@@ -101,61 +198,61 @@ export default function PayoutsPage() {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) return;
 
-            const row = payoutRows.find(r => r.worker.id === workerId);
-            if (!row) return;
+            // Days before the effective date keep the old rate
+            const effectiveFrom = editFrom || endDate;
+            await recordRateChange({ workerId, rate: newRate, effectiveFrom }, user.id);
+            const repriced = { ...context, rateBook: await loadRateBook() };
+            setContext(repriced);
 
-            const oldRate = row.worker.base_rate;
-
-            // Update worker rate
-            await supabase
-                .from('workers')
-                .update({ base_rate: newRate })
-                .eq('id', workerId);
-
-            // Log the audit
-            await supabase.from('audit_logs').insert({
-                table_name: 'workers',
-                record_id: workerId,
-                action: 'UPDATE_RATE',
-                old_values: { base_rate: oldRate },
-                new_values: { base_rate: newRate },
-                changed_by: user.id,
-            });
-
-            // Update local state
-            setPayoutRows(prev => prev.map(r => {
-                if (r.worker.id === workerId) {
-                    const effectiveDays = r.daysWorked + (r.halfDays * 0.5);
-                    const newBaseWage = effectiveDays * newRate;
-                    return {
-                        ...r,
-                        worker: { ...r.worker, base_rate: newRate },
-                        baseWage: newBaseWage,
-                        totalWage: newBaseWage + r.overtime,
-                        isEdited: true,
-                    };
-                }
-                return r;
-            }));
+            // Reprice with the new rate history
+            const period = { startDate, endDate, paidHolidaysFrom };
+            setPayoutRows(prev => withRecoveries(withCommission(prev.map(r => r.worker.id === workerId
+                ? { ...priceRow(r.worker, attendance.filter(log => log.worker_id === workerId), period, repriced), isEdited: true }
+                : r
+            ), maistries), debits, endDate));
 
             setEditingId(null);
             setEditRate('');
+            setEditFrom('');
 
-        } catch (err) {
+        } catch (err: any) {
             console.error('Edit rate error:', err);
+            alert(err.message || 'Failed to change rate');
         }
     };
 
-    const totalWages = payoutRows.reduce((sum, row) => sum + row.totalWage, 0);
+    const totalWages = payoutRows.reduce((sum, row) => sum + row.sheet.net, 0);
+    const totalCommission = payoutRows.reduce((sum, row) => sum + row.commission, 0);
+    const totalRecovered = payoutRows.reduce((sum, row) => sum + lineTotal(row.sheet, 'recovery'), 0);
+    const totalExpenses = pendingExpenses.reduce((sum, e) => sum + e.amount, 0);
+    const netAmount = totalWages + totalCommission - totalExpenses;
+
+    // Commission payable per maistry
+    const maistryTotals = maistries
+        .map(m => ({ maistry: m, amount: payoutRows.filter(r => maistryForWorker([m], r.worker)).reduce((sum, r) => sum + r.commission, 0) }))
+        .filter(t => t.amount > 0);
 
     const handleProcessPayouts = async () => {
+        if (!confirm(`Settle ₹${netAmount.toFixed(0)} for ${startDate} to ${endDate}? These records won't appear in the next payout.`)) return;
         setProcessing(true);
         try {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-            alert('Payouts processed successfully!');
+            const { data: { user } } = await supabase.auth.getUser();
+            const batch = await createPaymentBatch({
+                startDate,
+                endDate,
+                logIds: settledLogIds,
+                expenseIds: pendingExpenses.map(e => e.id),
+                totalWages,
+                totalCommission,
+                totalExpenses,
+                recoveries: payoutRows.flatMap(row => row.instalments),
+                sheets: payoutRows.map(row => ({ sheet: row.sheet, ledgerBalance: row.balance })),
+            }, user?.id || null);
+            alert(`Payment batch created: ₹${batch.net_amount.toLocaleString()} pending payment`);
             router.push('/dashboard');
-        } catch (err) {
+        } catch (err: any) {
             console.error('Process error:', err);
+            alert(err.message || 'Failed to process payouts');
         } finally {
             setProcessing(false);
         }
@@ -216,14 +313,20 @@ export default function PayoutsPage() {
                                             </div>
                                         </td>
                                         <td className="px-4 py-3 text-center">
-                                            <span className="text-gray-900">{row.daysWorked}</span>
-                                            {row.halfDays > 0 && (
-                                                <span className="text-gray-400 text-xs ml-1">+{row.halfDays}½</span>
+                                            <span className="text-gray-900">{row.sheet.days.present}</span>
+                                            {row.sheet.days.halfDay > 0 && (
+                                                <span className="text-gray-400 text-xs ml-1">+{row.sheet.days.halfDay}½</span>
+                                            )}
+                                            {row.sheet.days.paidHolidays + row.sheet.days.leavePaid > 0 && (
+                                                <p className="text-sky-600 text-xs">+{row.sheet.days.paidHolidays + row.sheet.days.leavePaid} paid off</p>
+                                            )}
+                                            {row.sheet.overtimeHours > 0 && (
+                                                <p className="text-purple-600 text-xs">+{row.sheet.overtimeHours.toFixed(1)}h OT</p>
                                             )}
                                         </td>
                                         <td className="px-4 py-3 text-right">
                                             {editingId === row.worker.id ? (
-                                                <div className="flex items-center justify-end gap-1">
+                                                <div className="flex flex-wrap items-center justify-end gap-1">
                                                     <input
                                                         type="number"
                                                         value={editRate}
@@ -231,6 +334,14 @@ export default function PayoutsPage() {
                                                         className="w-20 px-2 py-1 text-sm border rounded"
                                                         autoFocus
                                                     />
+                                                    <input
+                                                        type="date"
+                                                        value={editFrom}
+                                                        max={endDate}
+                                                        onChange={(e) => setEditFrom(e.target.value)}
+                                                        title="Effective from"
+                                                        className="px-2 py-1 text-xs border rounded"
+                                                    />
                                                     <button
                                                         onClick={() => handleEditRate(row.worker.id)}
                                                         className="text-green-600 text-sm font-medium"
@@ -238,7 +349,7 @@ export default function PayoutsPage() {
                                                         ✓
                                                     </button>
                                                     <button
-                                                        onClick={() => { setEditingId(null); setEditRate(''); }}
+                                                        onClick={() => { setEditingId(null); setEditRate(''); setEditFrom(''); }}
                                                         className="text-red-600 text-sm font-medium"
                                                     >
                                                         ✗
@@ -248,16 +359,29 @@ export default function PayoutsPage() {
                                                 <button
                                                     onClick={() => {
                                                         setEditingId(row.worker.id);
-                                                        setEditRate(row.worker.base_rate.toString());
+                                                        setEditRate(row.rate.toString());
+                                                        setEditFrom(endDate);
                                                     }}
                                                     className="text-gray-900 hover:text-orange-600"
                                                 >
-                                                    ₹{row.worker.base_rate}
+                                                    ₹{row.rate}
+                                                    {row.sheet.rates.length > 1 && <span className="block text-xs text-gray-400">rate changed</span>}
                                                 </button>
                                             )}
                                         </td>
                                         <td className="px-4 py-3 text-right font-semibold text-gray-900">
-                                            ₹{row.totalWage.toFixed(0)}
+                                            ₹{row.sheet.net.toFixed(0)}
+                                            {lineTotal(row.sheet, 'overtime') > 0 && (
+                                                <p className="text-purple-600 text-xs font-normal">incl. ₹{lineTotal(row.sheet, 'overtime').toFixed(0)} OT</p>
+                                            )}
+                                            {row.sheet.lines.filter(line => line.effect === 'deduction').map((line, i) => (
+                                                <p key={i} className={`${line.kind === 'commission' ? 'text-amber-600' : 'text-red-600'} text-xs font-normal`}>
+                                                    -₹{line.amount.toFixed(0)} {line.kind === 'commission' ? 'maistry' : 'advance'}
+                                                </p>
+                                            ))}
+                                            {row.balance > 0 && (
+                                                <p className="text-gray-400 text-xs font-normal">₹{row.balance.toFixed(0)} still owed</p>
+                                            )}
                                         </td>
                                     </tr>
                                 ))}
@@ -275,10 +399,30 @@ export default function PayoutsPage() {
                 </div>
 
                 {/* Summary */}
-                <div className="bg-white rounded-2xl p-4 mb-6 shadow-sm">
+                <div className="bg-white rounded-2xl p-4 mb-6 shadow-sm divide-y divide-gray-100">
+                    <div className="flex justify-between py-3">
+                        <span className="text-gray-600">Wages</span>
+                        <span className="font-medium text-gray-900">₹{(totalWages + totalRecovered).toFixed(0)}</span>
+                    </div>
+                    {totalRecovered > 0 && (
+                        <div className="flex justify-between py-3">
+                            <span className="text-gray-600">Advance recoveries</span>
+                            <span className="font-medium text-red-600">-₹{totalRecovered.toFixed(0)}</span>
+                        </div>
+                    )}
+                    {maistryTotals.map(({ maistry, amount }) => (
+                        <div key={maistry.id} className="flex justify-between py-3">
+                            <span className="text-gray-600">Commission: {maistry.name}</span>
+                            <span className="font-medium text-amber-600">+₹{amount.toFixed(0)}</span>
+                        </div>
+                    ))}
+                    <div className="flex justify-between py-3">
+                        <span className="text-gray-600">Expenses ({pendingExpenses.length})</span>
+                        <span className="font-medium text-red-600">-₹{totalExpenses.toFixed(0)}</span>
+                    </div>
                     <div className="flex justify-between py-3">
-                        <span className="font-bold text-gray-900">Total Payout</span>
-                        <span className="font-bold text-xl text-gray-900">₹{totalWages.toFixed(0)}</span>
+                        <span className="font-bold text-gray-900">Net Payout</span>
+                        <span className="font-bold text-xl text-gray-900">₹{netAmount.toFixed(0)}</span>
                     </div>
                 </div>
 
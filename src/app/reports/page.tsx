@@ -2,8 +2,12 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, Worker } from '@/lib/supabase';
+import { supabase, Worker, WORKER_COLUMNS } from '@/lib/supabase';
 import { COMPANY_NAME } from '@/lib/config';
+import { loadPunches, groupPunches, summarizePunches, formatMinutes, PunchSummary } from '@/lib/punches';
+import { businessDate, addDays, monthStart } from '@/lib/business-date';
+import { rateOn } from '@/lib/wage-rates';
+import { loadWageContext, computeWages, dayWage, WageContext, WageSheet, EMPTY_WAGE_CONTEXT } from '@/lib/wage-engine';
 
 export default function ReportsPage() {
     const router = useRouter();
@@ -11,12 +15,11 @@ export default function ReportsPage() {
     const [userRole, setUserRole] = useState('');
     const [workers, setWorkers] = useState<Worker[]>([]);
     const [logs, setLogs] = useState<any[]>([]);
-    const [startDate, setStartDate] = useState(() => {
-        const d = new Date();
-        d.setDate(d.getDate() - 7);
-        return d.toISOString().split('T')[0];
-    });
-    const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+    const [daySummaries, setDaySummaries] = useState<Record<string, PunchSummary>>({});
+    const [wageContext, setWageContext] = useState<WageContext>(EMPTY_WAGE_CONTEXT);
+    const [wageSheets, setWageSheets] = useState<Record<string, WageSheet>>({});
+    const [startDate, setStartDate] = useState(() => addDays(businessDate(), -7));
+    const [endDate, setEndDate] = useState(() => businessDate());
     const [selectedWorker, setSelectedWorker] = useState<string>('all');
     const [exporting, setExporting] = useState(false);
 
@@ -38,7 +41,7 @@ export default function ReportsPage() {
         const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
         setUserRole(profile?.role || 'manager');
 
-        const { data: workersData } = await supabase.from('workers').select('*').eq('is_active', true).order('name');
+        const { data: workersData } = await supabase.from('workers').select(WORKER_COLUMNS).eq('is_active', true).order('name');
         setWorkers(workersData || []);
         setLoading(false);
     };
@@ -46,7 +49,7 @@ export default function ReportsPage() {
     const loadReports = async () => {
         let query = supabase
             .from('attendance_logs')
-            .select('*, workers(id, name, photo_url, base_rate, category)')
+            .select('*, workers(id, name, photo_url, base_rate, category, site_id, shift_id), leave_requests(leave_types(is_paid))')
             .gte('date', startDate)
             .lte('date', endDate)
             .order('date', { ascending: false });
@@ -55,45 +58,73 @@ export default function ReportsPage() {
             query = query.eq('worker_id', selectedWorker);
         }
 
-        const { data } = await query;
+        const [{ data }, punches, context] = await Promise.all([
+            query,
+            loadPunches(startDate, endDate, selectedWorker !== 'all' ? selectedWorker : undefined),
+            loadWageContext(startDate, endDate, selectedWorker !== 'all' ? [selectedWorker] : undefined),
+        ]);
         setLogs(data || []);
+        setWageContext(context);
+
+        // Wages per worker from the shared engine, so totals match payouts and payslips
+        const sheets: Record<string, WageSheet> = {};
+        workers.filter(w => selectedWorker === 'all' || w.id === selectedWorker).forEach(worker => {
+            sheets[worker.id] = computeWages({ worker, attendance: (data || []).filter(l => l.worker_id === worker.id), startDate, endDate, context });
+        });
+        setWageSheets(sheets);
+
+        // Sessions and breaks per worker-day from the punches
+        const summaries: Record<string, PunchSummary> = {};
+        groupPunches(punches).forEach((dayPunches, key) => { summaries[key] = summarizePunches(dayPunches); });
+        setDaySummaries(summaries);
 
         // Calculate stats
-        const totalPresent = (data || []).filter(l => l.status === 'present').length;
-        const totalHalfDay = (data || []).filter(l => l.status === 'half-day').length;
-        const totalWages = (data || []).reduce((sum, l) => {
-            const rate = l.workers?.base_rate || 500;
-            return sum + (l.status === 'half-day' ? rate / 2 : rate);
-        }, 0);
+        const totalPresent = Object.values(sheets).reduce((sum, sheet) => sum + sheet.days.present, 0);
+        const totalHalfDay = Object.values(sheets).reduce((sum, sheet) => sum + sheet.days.halfDay, 0);
+        const totalWages = Math.round(Object.values(sheets).reduce((sum, sheet) => sum + sheet.gross, 0));
 
         const dates = new Set((data || []).map(l => l.date));
 
         setStats({ totalDays: dates.size, totalPresent, totalHalfDay, totalWages });
     };
 
+    const getDaySummary = (log: any): PunchSummary | undefined => daySummaries[`${log.worker_id}|${log.date}`];
+
+    // Rate in force on the day of the log, and what the log earns (incl. overtime)
+    const dayRate = (log: any): number => log.workers ? rateOn(wageContext.rateBook, log.workers, log.date) : 0;
+    const logWage = (log: any): number => log.workers ? Math.round(dayWage(wageContext, log.workers, log)) : 0;
+
+    const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
     const exportToCSV = () => {
         setExporting(true);
         try {
             // Create CSV content
-            const headers = ['Date', 'Worker Name', 'Category', 'Status', 'Check In', 'Check Out', 'Rate', 'Amount'];
-            const rows = logs.map(log => [
-                log.date,
-                log.workers?.name || 'Unknown',
-                log.workers?.category || '-',
-                log.status === 'half-day' ? 'Half Day' : 'Present',
-                log.check_in_time ? new Date(log.check_in_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' }) : '-',
-                log.check_out_time ? new Date(log.check_out_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' }) : '-',
-                `₹${log.workers?.base_rate || 500}`,
-                `₹${log.status === 'half-day' ? (log.workers?.base_rate || 500) / 2 : (log.workers?.base_rate || 500)}`
-            ]);
+            const headers = ['Date', 'Worker Name', 'Category', 'Status', 'Check In', 'Check Out', 'Sessions', 'Worked Hours', 'Break (min)', 'Rate', 'Amount'];
+            const rows = logs.map(log => {
+                const day = getDaySummary(log);
+                return [
+                    log.date,
+                    log.workers?.name || 'Unknown',
+                    log.workers?.category || '-',
+                    log.status === 'half-day' ? 'Half Day' : 'Present',
+                    log.check_in_time ? formatTime(log.check_in_time) : '-',
+                    log.check_out_time ? formatTime(log.check_out_time) : '-',
+                    day ? day.sessions.map(s => `${formatTime(s.in)}-${s.out ? formatTime(s.out) : ''}`).join(' | ') : '-',
+                    day ? (day.workedMinutes / 60).toFixed(2) : log.worked_minutes != null ? (log.worked_minutes / 60).toFixed(2) : '-',
+                    day ? day.breakMinutes : log.break_minutes ?? '-',
+                    `₹${dayRate(log)}`,
+                    `₹${logWage(log)}`
+                ];
+            });
 
             // Add summary row
             rows.push([]);
-            rows.push(['SUMMARY', '', '', '', '', '', '', '']);
-            rows.push(['Total Days', stats.totalDays, '', '', '', '', '', '']);
-            rows.push(['Total Present', stats.totalPresent, '', '', '', '', '', '']);
-            rows.push(['Total Half Day', stats.totalHalfDay, '', '', '', '', '', '']);
-            rows.push(['Total Wages', '', '', '', '', '', '', `₹${stats.totalWages}`]);
+            rows.push(['SUMMARY', '', '', '', '', '', '', '', '', '', '']);
+            rows.push(['Total Days', stats.totalDays, '', '', '', '', '', '', '', '', '']);
+            rows.push(['Total Present', stats.totalPresent, '', '', '', '', '', '', '', '', '']);
+            rows.push(['Total Half Day', stats.totalHalfDay, '', '', '', '', '', '', '', '', '']);
+            rows.push(['Total Wages', '', '', '', '', '', '', '', '', '', `₹${stats.totalWages}`]);
 
             const csvContent = [headers, ...rows].map(row => row.join(',')).join('\n');
 
@@ -168,13 +199,13 @@ export default function ReportsPage() {
 
                 {/* Quick Date Buttons */}
                 <div className="flex gap-2 overflow-x-auto pb-2">
-                    <button onClick={() => { setStartDate(new Date().toISOString().split('T')[0]); setEndDate(new Date().toISOString().split('T')[0]); }}
+                    <button onClick={() => { setStartDate(businessDate()); setEndDate(businessDate()); }}
                         className="px-4 py-2 bg-white/10 rounded-xl text-white text-sm whitespace-nowrap">Today</button>
-                    <button onClick={() => { const d = new Date(); d.setDate(d.getDate() - 7); setStartDate(d.toISOString().split('T')[0]); setEndDate(new Date().toISOString().split('T')[0]); }}
+                    <button onClick={() => { setStartDate(addDays(businessDate(), -7)); setEndDate(businessDate()); }}
                         className="px-4 py-2 bg-white/10 rounded-xl text-white text-sm whitespace-nowrap">Last 7 Days</button>
-                    <button onClick={() => { const d = new Date(); d.setDate(d.getDate() - 30); setStartDate(d.toISOString().split('T')[0]); setEndDate(new Date().toISOString().split('T')[0]); }}
+                    <button onClick={() => { setStartDate(addDays(businessDate(), -30)); setEndDate(businessDate()); }}
                         className="px-4 py-2 bg-white/10 rounded-xl text-white text-sm whitespace-nowrap">Last 30 Days</button>
-                    <button onClick={() => { const d = new Date(); setStartDate(new Date(d.getFullYear(), d.getMonth(), 1).toISOString().split('T')[0]); setEndDate(new Date().toISOString().split('T')[0]); }}
+                    <button onClick={() => { setStartDate(monthStart(businessDate())); setEndDate(businessDate()); }}
                         className="px-4 py-2 bg-white/10 rounded-xl text-white text-sm whitespace-nowrap">This Month</button>
                 </div>
 
@@ -206,7 +237,9 @@ export default function ReportsPage() {
                     <div className="divide-y divide-white/5 max-h-96 overflow-y-auto">
                         {logs.length === 0 ? (
                             <p className="p-8 text-center text-white/40">No records found for selected period</p>
-                        ) : logs.map((log) => (
+                        ) : logs.map((log) => {
+                            const day = getDaySummary(log);
+                            return (
                             <div key={log.id} className="p-3 flex items-center gap-3">
                                 <div className="w-10 h-10 rounded-full bg-white/10 overflow-hidden flex-shrink-0">
                                     {log.workers?.photo_url ? <img src={log.workers.photo_url} alt="" className="w-full h-full object-cover" />
@@ -219,15 +252,23 @@ export default function ReportsPage() {
                                         {log.check_in_time && ` In: ${new Date(log.check_in_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
                                         {log.check_out_time && ` → Out: ${new Date(log.check_out_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
                                     </p>
+                                    {day && day.workedMinutes > 0 && (
+                                        <p className="text-white/30 text-xs">
+                                            {formatMinutes(day.workedMinutes)} worked
+                                            {day.sessions.length > 1 && ` • ${day.sessions.length} sessions`}
+                                            {day.breakMinutes > 0 && ` • ${formatMinutes(day.breakMinutes)} break`}
+                                        </p>
+                                    )}
                                 </div>
                                 <div className="text-right">
                                     <span className={`px-2 py-1 rounded-lg text-xs ${log.status === 'half-day' ? 'bg-purple-500/20 text-purple-400' : 'bg-green-500/20 text-green-400'}`}>
                                         {log.status === 'half-day' ? 'HALF' : 'FULL'}
                                     </span>
-                                    <p className="text-white/40 text-xs mt-1">₹{log.status === 'half-day' ? (log.workers?.base_rate || 500) / 2 : log.workers?.base_rate || 500}</p>
+                                    <p className="text-white/40 text-xs mt-1">₹{logWage(log)}</p>
                                 </div>
                             </div>
-                        ))}
+                            );
+                        })}
                     </div>
                 </div>
 
@@ -242,9 +283,11 @@ export default function ReportsPage() {
                                 const workerLogs = logs.filter(l => l.worker_id === worker.id);
                                 if (workerLogs.length === 0) return null;
 
-                                const fullDays = workerLogs.filter(l => l.status === 'present').length;
-                                const halfDays = workerLogs.filter(l => l.status === 'half-day').length;
-                                const total = fullDays * worker.base_rate + halfDays * (worker.base_rate / 2);
+                                const sheet = wageSheets[worker.id];
+                                const fullDays = sheet?.days.present || 0;
+                                const halfDays = sheet?.days.halfDay || 0;
+                                const total = Math.round(sheet?.gross || 0);
+                                const workedMinutes = workerLogs.reduce((sum, l) => sum + (getDaySummary(l)?.workedMinutes || 0), 0);
 
                                 return (
                                     <div key={worker.id} className="flex items-center justify-between bg-white/5 rounded-xl p-3">
@@ -255,7 +298,7 @@ export default function ReportsPage() {
                                             </div>
                                             <div>
                                                 <p className="text-white text-sm font-medium">{worker.name}</p>
-                                                <p className="text-white/40 text-xs">{fullDays} full + {halfDays} half days</p>
+                                                <p className="text-white/40 text-xs">{fullDays} full + {halfDays} half days{workedMinutes > 0 && ` • ${formatMinutes(workedMinutes)}`}</p>
                                             </div>
                                         </div>
                                         <p className="text-yellow-400 font-medium">₹{total.toLocaleString()}</p>
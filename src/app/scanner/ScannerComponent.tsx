@@ -1,11 +1,23 @@
 'use client';
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import Webcam from 'react-webcam';
-import { supabase, Worker, AttendanceLog } from '@/lib/supabase';
-import { loadFaceModels, areModelsLoaded, detectFaceFromBase64, detectFaceBox, FaceBox, findBestMatch, descriptorToArray, WorkerWithDescriptor, HeadPose } from '@/lib/face-utils';
-import { checkImageQuality, averageDescriptors } from '@/lib/face-quality';
+import { supabase, Worker, AttendanceLog, WORKER_COLUMNS } from '@/lib/supabase';
+import { FaceBox, findEnrollmentDuplicateRemote, findBestMatchRemote, descriptorToArray, WorkerWithDescriptor, HeadPose, DuplicateMatch, MatchCandidate, MatchResult, MATCH_MARGIN } from '@/lib/face-utils';
+import { checkImageQuality } from '@/lib/face-quality';
+import { reviewFieldsForScan } from '@/lib/match-review';
+import { loadFaceWorker, detectFaceInWorker, detectFaceBoxInWorker, setWorkerGallery, findBestMatchInWorker } from '@/lib/face-worker-client';
+import { attachTemplates, saveFaceTemplates, logDuplicateOverride, NewFaceTemplate, GalleryDescriptor } from '@/lib/face-gallery';
+import { enqueueScan, replayQueue, getPendingCount, getPendingScans, getFailedScans, retryFailedScans, applyPendingScans, pendingPunches, isNetworkError } from '@/lib/offline-queue';
+import { recordPunch, summarizePunches, formatMinutes, Punch, DUPLICATE_PUNCH_MINUTES } from '@/lib/punches';
+import { siteBusinessDate, workerBusinessDate, workerShiftId, rosterMap, addDays, DEFAULT_TIMEZONE, BusinessCalendar, EMPTY_CALENDAR } from '@/lib/business-date';
+import { checkoutDecision, CheckoutPolicy, CHECKOUT_CONFIRM_SECONDS } from '@/lib/checkout-policy';
+import { autoCloseMissingCheckouts } from '@/lib/missing-checkout';
+import { uploadProofAsync } from '@/lib/storage-utils';
+import { captureLocation, locationToLogFields, LocationCapture } from '@/lib/spoof-detector';
+import { generateChallenge, getChallengeText, Challenge } from '@/lib/liveness-utils';
+import { loadFaceMesh, runLivenessCheck, LivenessCheckResult } from '@/lib/face-mesh';
 
 type ViewMode = 'camera' | 'workers' | 'history';
 
@@ -16,6 +28,22 @@ interface RecentScan {
     time: string;
 }
 
+// Extra data captured with a face scan
+interface ScanContext {
+    frame?: string;
+    livenessPassed?: boolean | null;
+    candidates?: MatchCandidate[]; // Ranked findBestMatch candidates
+    manual?: boolean;              // Marked without a face match - goes to the review queue
+}
+
+interface SiteLivenessConfig {
+    enabled: boolean;
+    timeoutSeconds: number;
+}
+
+const LIVENESS_CHALLENGES: Challenge[] = ['BLINK', 'SMILE', 'LOOK_LEFT'];
+const DEFAULT_LIVENESS: SiteLivenessConfig = { enabled: false, timeoutSeconds: 8 };
+
 const guj: Record<string, string> = {
     'Attendance Scanner': 'હાજરી સ્કેનર',
     'Camera': 'કેમેરા', 'Workers': 'કામદાર', 'History': 'ઇતિહાસ',
@@ -26,6 +54,15 @@ const guj: Record<string, string> = {
     'Name': 'નામ', 'Cancel': 'રદ કરો', 'Register': 'નોંધણી',
     'No scans yet': 'હજુ સુધી સ્કેન નથી', 'Already scanned': 'પહેલેથી સ્કેન થયેલ',
     'Day completed': 'દિવસ પૂર્ણ', 'AI Ready': 'AI તૈયાર',
+    'Liveness check': 'જીવંતતા ચકાસણી', 'Liveness failed': 'જીવંતતા નિષ્ફળ',
+    'Liveness check unavailable': 'જીવંતતા ચકાસણી ઉપલબ્ધ નથી', 'Ask the manager to mark manually': 'મેનેજરને હાથે હાજરી પૂરવા કહો',
+    'Offline': 'ઑફલાઇન', 'pending sync': 'સિંક બાકી', 'Saved offline': 'ઑફલાઇન સાચવ્યું',
+    'failed to sync': 'સિંક નિષ્ફળ', 'Retry': 'ફરી પ્રયાસ',
+    'Possible duplicate': 'સંભવિત ડુપ્લિકેટ', 'Override & Register': 'છતાં નોંધણી કરો',
+    'Only an admin can override': 'ફક્ત એડમિન મંજૂરી આપી શકે',
+    'Duplicate face check failed': 'ડુપ્લિકેટ ચહેરાની તપાસ નિષ્ફળ',
+    'Unclear match': 'અસ્પષ્ટ ઓળખ', 'Scan again': 'ફરી સ્કેન કરો',
+    'Back from break': 'વિરામ પછી પાછા', 'Break': 'વિરામ',
 };
 
 export default function ScannerComponent() {
@@ -41,6 +78,9 @@ export default function ScannerComponent() {
 
     const [workers, setWorkers] = useState<Worker[]>([]);
     const [todayLogs, setTodayLogs] = useState<AttendanceLog[]>([]);
+    const [todayPunches, setTodayPunches] = useState<Punch[]>([]);
+    const [calendar, setCalendar] = useState<BusinessCalendar>(EMPTY_CALENDAR);
+    const [checkoutPolicies, setCheckoutPolicies] = useState<Record<number, CheckoutPolicy>>({});
     const [recentScans, setRecentScans] = useState<RecentScan[]>([]);
     const [searchQuery, setSearchQuery] = useState('');
 
@@ -51,6 +91,17 @@ export default function ScannerComponent() {
     const [showRegister, setShowRegister] = useState(false);
     const [capturedImage, setCapturedImage] = useState<string | null>(null);
     const [capturedDescriptor, setCapturedDescriptor] = useState<Float32Array | null>(null);
+    const [capturedTemplates, setCapturedTemplates] = useState<NewFaceTemplate[]>([]);
+    const [duplicateMatch, setDuplicateMatch] = useState<DuplicateMatch | null>(null);
+    // Offline fallback gallery: the operator's own site only, and only when the site has
+    // enabled offline matching (site_face_gallery RPC). Online scans are matched server-side.
+    const [offlineMatching, setOfflineMatching] = useState<Record<string, boolean>>({});
+    const [siteGallery, setSiteGallery] = useState<GalleryDescriptor[]>([]);
+
+    // Workers with face data (legacy vector or gallery templates), matched in the face worker
+    const matchGallery: WorkerWithDescriptor[] = useMemo(() => attachTemplates(workers
+        .map(w => ({ id: w.id, name: w.name, face_descriptor: null, photo_url: w.photo_url, worker_number: w.worker_number })), siteGallery)
+        .filter(w => w.templates!.length > 0), [workers, siteGallery]);
     const [newWorkerName, setNewWorkerName] = useState('');
     const [newWorkerRate, setNewWorkerRate] = useState('500');
 
@@ -67,6 +118,19 @@ export default function ScannerComponent() {
     const [error, setError] = useState<string | null>(null);
     const [faceBox, setFaceBox] = useState<FaceBox | null>(null);
 
+    // Offline queue state
+    const [isOnline, setIsOnline] = useState(true);
+    const [pendingSync, setPendingSync] = useState(0);
+    const [failedSync, setFailedSync] = useState(0); // Scans that kept failing to sync
+
+    // Liveness challenge state (per-site setting)
+    const [siteLiveness, setSiteLiveness] = useState<Record<string, SiteLivenessConfig>>({});
+    const [operatorSiteId, setOperatorSiteId] = useState<string | null>(null);
+    const [operatorRole, setOperatorRole] = useState<string | null>(null);
+    const [matchMargin, setMatchMargin] = useState(MATCH_MARGIN);
+    const [livenessPrompt, setLivenessPrompt] = useState<{ workerName: string; challenge: Challenge; message: string } | null>(null);
+    const livenessActiveRef = useRef(false);
+
     // Early checkout confirmation state
     const [earlyCheckoutConfirm, setEarlyCheckoutConfirm] = useState<{ workerId: string; workerName: string; hours: number; expires: number } | null>(null);
 
@@ -75,10 +139,11 @@ export default function ScannerComponent() {
     const lastSpokenTimeRef = { current: 0 };
 
     const setShowEarlyCheckoutConfirm = (data: { workerId: string; workerName: string; hours: number }) => {
-        setEarlyCheckoutConfirm({ ...data, expires: Date.now() + 30000 }); // 30 second timeout
+        setEarlyCheckoutConfirm({ ...data, expires: Date.now() + CHECKOUT_CONFIRM_SECONDS * 1000 });
     };
 
-    const currentDate = new Date().toISOString().split('T')[0];
+    // Operator's site calendar day; each worker's attendance date also follows their shift
+    const currentDate = siteBusinessDate(calendar, operatorSiteId);
     const t = (text: string) => lang === 'gu' && guj[text] ? guj[text] : text;
 
     const speak = (text: string) => {
@@ -99,8 +164,8 @@ export default function ScannerComponent() {
 
     useEffect(() => {
         const init = async () => {
-            await loadFaceModels();
-            setModelsReady(areModelsLoaded());
+            // Detection runs in a Web Worker so the camera preview doesn't stutter
+            setModelsReady(await loadFaceWorker());
             await loadData();
         };
         init();
@@ -121,9 +186,21 @@ export default function ScannerComponent() {
 
         document.addEventListener('visibilitychange', handleVisibilityChange);
 
+        const handleOffline = () => setIsOnline(false);
+
+        getPendingCount().then(setPendingSync);
+        getFailedScans().then(failed => setFailedSync(failed.length));
+        syncQueue();
+        window.addEventListener('online', syncQueue);
+        window.addEventListener('offline', handleOffline);
+        const syncInterval = setInterval(syncQueue, 30000); // Retry patchy connections
+
         // Cleanup on unmount
         return () => {
             document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('online', syncQueue);
+            window.removeEventListener('offline', handleOffline);
+            clearInterval(syncInterval);
             // Stop all camera streams
             const video = webcamRef.current?.video;
             if (video && video.srcObject) {
@@ -138,7 +215,53 @@ export default function ScannerComponent() {
             const interval = setInterval(performScan, 500); // Fast: scan every 0.5 seconds
             return () => clearInterval(interval);
         }
-    }, [cameraReady, modelsReady, viewMode, showRegister, cooldown, workers, todayLogs, lastScannedId]);
+    }, [cameraReady, modelsReady, viewMode, showRegister, cooldown, workers, matchGallery, todayLogs, todayPunches, lastScannedId, siteLiveness, calendar, checkoutPolicies, operatorSiteId, matchMargin]);
+
+    // Keep the offline gallery only on devices of sites that opted in; clear it otherwise
+    const offlineGalleryAllowed = !!operatorSiteId && !!offlineMatching[operatorSiteId];
+    useEffect(() => {
+        if (!offlineGalleryAllowed) {
+            setSiteGallery([]);
+            return;
+        }
+        const loadSiteGallery = async () => {
+            const { data, error } = await supabase.rpc('site_face_gallery');
+            if (error) {
+                console.error('[SCAN] Offline gallery load failed:', error);
+                return;
+            }
+            setSiteGallery(data || []);
+        };
+        loadSiteGallery();
+    }, [offlineGalleryAllowed]);
+
+    // End-of-day routine: auto-close sites get open sessions closed at shift end
+    useEffect(() => {
+        const closeMissing = async () => {
+            if (!navigator.onLine) return;
+            const closed = await autoCloseMissingCheckouts(operatorSiteId).catch(err => {
+                console.error('[EOD] Auto-close failed:', err);
+                return 0;
+            });
+            if (closed > 0) {
+                console.log(`[EOD] Closed ${closed} missing checkouts`);
+                loadData();
+            }
+        };
+        closeMissing();
+        const interval = setInterval(closeMissing, 5 * 60 * 1000);
+        return () => clearInterval(interval);
+    }, [operatorSiteId]);
+
+    // Keep the worker's copy of enrolled faces in sync (legacy vector or gallery templates)
+    useEffect(() => {
+        setWorkerGallery(matchGallery).catch(err => console.error('[SCAN] Gallery sync failed:', err));
+    }, [matchGallery]);
+
+    // Preload face mesh when any site requires a liveness challenge
+    useEffect(() => {
+        if (Object.values(siteLiveness).some(s => s.enabled)) loadFaceMesh();
+    }, [siteLiveness]);
 
     // Real-time face tracking for visual feedback
     useEffect(() => {
@@ -147,7 +270,7 @@ export default function ScannerComponent() {
         const trackFace = async () => {
             const video = webcamRef.current?.video;
             if (video) {
-                const box = await detectFaceBox(video);
+                const box = await detectFaceBoxInWorker(video);
                 setFaceBox(box);
             }
         };
@@ -158,54 +281,226 @@ export default function ScannerComponent() {
 
     const loadData = async () => {
         try {
-            const { data: { user } } = await supabase.auth.getUser();
-            if (!user) { router.push('/login'); return; }
-            const [workersRes, logsRes] = await Promise.all([
-                supabase.from('workers').select('*').eq('is_active', true).order('name'),
-                supabase.from('attendance_logs').select('*').eq('date', currentDate),
+            // Session is read locally so the scanner keeps working offline
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session?.user) { router.push('/login'); return; }
+            const [workersRes, logsRes, punchesRes, sitesRes, shiftsRes, rosterRes, profileRes, marginRes] = await Promise.all([
+                // No face_descriptor: biometric templates stay on the server
+                supabase.from('workers').select(WORKER_COLUMNS).eq('is_active', true).order('name'),
+                // Yesterday too: night-shift workers check out on yesterday's row after midnight
+                supabase.from('attendance_logs').select('*').in('date', [addDays(currentDate, -1), currentDate]),
+                supabase.from('attendance_punches').select('id, attendance_id, worker_id, date, punch_type, punch_time, source, marked_by').in('date', [addDays(currentDate, -1), currentDate]).order('punch_time'),
+                supabase.from('sites').select('id, liveness_enabled, liveness_timeout_seconds, timezone, offline_matching_enabled'),
+                supabase.from('shifts').select('id, start_time, end_time, min_checkout_minutes, confirm_checkout_minutes, half_day_minutes'),
+                // Rostered shifts override workers.shift_id for the day
+                supabase.from('shift_roster').select('worker_id, date, shift_id').gte('date', addDays(currentDate, -1)).lte('date', addDays(currentDate, 1)),
+                supabase.from('profiles').select('assigned_site_id, role').eq('id', session.user.id).single(),
+                supabase.from('system_settings').select('value').eq('key', 'face_match_margin').maybeSingle(),
             ]);
-            setWorkers(workersRes.data || []);
-            setTodayLogs(logsRes.data || []);
+            // Keep the last known data if the network request failed
+            if (!workersRes.error) setWorkers(workersRes.data || []);
+            const pending = await getPendingScans().catch(() => []);
+            if (!logsRes.error) setTodayLogs(applyPendingScans(logsRes.data || [], pending));
+            if (!punchesRes.error) setTodayPunches([...(punchesRes.data || []), ...pendingPunches(pending)]);
+            if (!sitesRes.error) {
+                setSiteLiveness(Object.fromEntries((sitesRes.data || []).map(s => [s.id, {
+                    enabled: !!s.liveness_enabled,
+                    timeoutSeconds: s.liveness_timeout_seconds || DEFAULT_LIVENESS.timeoutSeconds,
+                }])));
+                setOfflineMatching(Object.fromEntries((sitesRes.data || []).map(s => [s.id, !!s.offline_matching_enabled])));
+                const timezones = Object.fromEntries((sitesRes.data || []).map(s => [s.id, s.timezone || DEFAULT_TIMEZONE]));
+                setCalendar(prev => ({ ...prev, timezones }));
+            }
+            if (!shiftsRes.error) {
+                const shifts = Object.fromEntries((shiftsRes.data || []).map(s => [s.id, s]));
+                setCalendar(prev => ({ ...prev, shifts }));
+                setCheckoutPolicies(shifts);
+            }
+            if (!rosterRes.error) setCalendar(prev => ({ ...prev, roster: rosterMap(rosterRes.data || []) }));
+            if (!marginRes.error && marginRes.data) {
+                const margin = parseFloat(marginRes.data.value);
+                if (!isNaN(margin)) setMatchMargin(margin);
+            }
+            if (!profileRes.error) {
+                setOperatorSiteId(profileRes.data?.assigned_site_id || null);
+                setOperatorRole(profileRes.data?.role || null);
+            }
         } catch (err) { console.error(err); }
         finally { setLoading(false); }
     };
 
+    // Replay offline scans whenever connectivity returns
+    const syncQueue = async () => {
+        try {
+            setIsOnline(navigator.onLine);
+            if (!navigator.onLine) return;
+            if (await getPendingCount() === 0) return;
+            const result = await replayQueue();
+            console.log(`[OFFLINE] Synced ${result.synced}, failed ${result.failed}, remaining ${result.remaining}`);
+            setPendingSync(await getPendingCount());
+            if (result.failed > 0) setFailedSync((await getFailedScans()).length);
+            if (result.synced > 0) loadData();
+        } catch (err) {
+            console.error('[OFFLINE] Sync failed:', err);
+            setError('Offline sync failed');
+            setTimeout(() => setError(null), 3000);
+        }
+    };
+
+    // Operator retries scans that kept failing, e.g. after an admin fixed the worker or site
+    const retryFailedSync = async () => {
+        try {
+            const count = await retryFailedScans();
+            setFailedSync(0);
+            setPendingSync(prev => prev + count);
+            await syncQueue();
+        } catch (err) {
+            console.error('[OFFLINE] Retry failed:', err);
+            setError('Offline sync failed');
+            setTimeout(() => setError(null), 3000);
+        }
+    };
+
+    // Short timeout so a weak GPS signal doesn't hold up the scan queue
+    const readLocation = () => captureLocation({ timeout: 5000, maximumAge: 30000 });
+
+    // Store a scan locally when attendance_logs can't be reached
+    const queueOfflineScan = async (workerId: string, action: 'IN' | 'OUT', time: string, markedBy: string | null, location: LocationCapture | null, scan?: ScanContext) => {
+        const queued = await enqueueScan({
+            workerId, action, date: workerDate(workerId), deviceTime: time,
+            location, proofFrame: scan?.frame || null, markedBy,
+            livenessPassed: scan?.livenessPassed ?? null,
+            candidates: scan?.candidates || null,
+            manual: !!scan?.manual,
+        });
+        setTodayLogs(prev => applyPendingScans(prev, [queued]));
+        setTodayPunches(prev => [...prev, ...pendingPunches([queued])]);
+        setPendingSync(await getPendingCount());
+        setIsOnline(navigator.onLine);
+    };
+
+    // Liveness settings come from the worker's site, falling back to the operator's site
+    const getLivenessConfig = (workerId: string): SiteLivenessConfig => {
+        const worker = workers.find(w => w.id === workerId);
+        const siteId = worker?.site_id || operatorSiteId;
+        return (siteId && siteLiveness[siteId]) || DEFAULT_LIVENESS;
+    };
+
+    // Returns null when the challenge could not run (face mesh unavailable)
+    const runLiveness = async (workerId: string, workerName: string, timeoutSeconds: number): Promise<LivenessCheckResult | null> => {
+        const video = webcamRef.current?.video;
+        if (!video || !(await loadFaceMesh())) {
+            console.warn('[LIVENESS] Face mesh unavailable - challenge cannot run');
+            return null;
+        }
+
+        const challenge = generateChallenge(LIVENESS_CHALLENGES);
+        livenessActiveRef.current = true;
+        setLivenessPrompt({ workerName, challenge, message: '' });
+        speak(getChallengeText(challenge).replace(/^\S+\s/, '')); // Drop emoji prefix for speech
+
+        try {
+            const result = await runLivenessCheck(video, challenge, timeoutSeconds * 1000,
+                frame => setLivenessPrompt(prev => prev && { ...prev, message: frame.message }));
+            console.log(`[LIVENESS] ${challenge}: ${result.passed ? 'passed' : 'failed'} (${result.message})`);
+            if (!result.passed) recordLivenessFailure(workerId, result);
+            return result;
+        } finally {
+            livenessActiveRef.current = false;
+            setLivenessPrompt(null);
+        }
+    };
+
+    // result is null when the challenge could not run; the scan is refused either way
+    const recordLivenessFailure = async (workerId: string, result: LivenessCheckResult | null) => {
+        const { data: { session } } = await supabase.auth.getSession();
+        await supabase.from('audit_logs').insert({
+            table_name: 'workers',
+            record_id: workerId,
+            action: 'LIVENESS_FAILED',
+            new_values: { challenge: result?.challenge ?? null, message: result?.message ?? 'Face mesh unavailable', spoof_suspected: result?.spoofSuspected ?? false, date: workerDate(workerId) },
+            changed_by: session?.user.id,
+        });
+    };
+
+    // Server-side match when online; the face worker's site gallery covers offline scans
+    const matchFace = async (descriptor: Float32Array): Promise<MatchResult | null> => {
+        if (navigator.onLine) {
+            try {
+                return await findBestMatchRemote(descriptor, 0.55, matchMargin); // Balanced threshold
+            } catch (err) {
+                if (!isNetworkError(err)) console.error('[SCAN] Server match failed, using offline gallery:', err);
+            }
+        }
+        return findBestMatchInWorker(descriptor, 0.55, matchMargin);
+    };
+
     const performScan = useCallback(async () => {
-        if (!webcamRef.current || !cameraReady || !modelsReady || isScanning || cooldown) return;
-        const screenshot = webcamRef.current.getScreenshot();
-        if (!screenshot) return;
+        if (!webcamRef.current || !cameraReady || !modelsReady || isScanning || cooldown || livenessActiveRef.current) return;
+        const video = webcamRef.current.video;
+        if (!video) return;
 
         setIsScanning(true);
         setScanStatus('Scanning...');
 
         try {
-            const faceResult = await detectFaceFromBase64(screenshot);
+            const faceResult = await detectFaceInWorker(video);
             if (!faceResult) { setScanStatus('Show face'); setIsScanning(false); return; }
 
-            const { descriptor, croppedFace, isFrontalFace } = faceResult;
-
-            // Debug: Check workers with descriptors
-            const workersWithDescriptors: WorkerWithDescriptor[] = workers
-                .filter(w => w.face_descriptor && w.face_descriptor.length === 128)
-                .map(w => ({ id: w.id, name: w.name, face_descriptor: w.face_descriptor, photo_url: w.photo_url, worker_number: w.worker_number }));
+            const { descriptor, croppedFace, isFrontalFace, headPose } = faceResult;
 
-            console.log(`[SCAN] Workers loaded: ${workers.length}, With face data: ${workersWithDescriptors.length}`);
+            console.log(`[SCAN] Workers loaded: ${workers.length}, Offline gallery: ${matchGallery.length}`);
 
-            if (workersWithDescriptors.length === 0) {
-                console.log('[SCAN] No workers with face descriptors found - showing register');
+            if (workers.length === 0) {
+                console.log('[SCAN] No workers enrolled - showing register');
                 setCapturedImage(croppedFace);
                 setCapturedDescriptor(descriptor);
+                setCapturedTemplates([{ descriptor, pose: headPose, photoUrl: croppedFace }]);
                 setShowRegister(true);
                 setIsScanning(false);
                 return;
             }
 
-            const match = await findBestMatch(descriptor, workersWithDescriptors, 0.55); // Balanced threshold
-
-            if (match) {
+            const match = await matchFace(descriptor);
+
+            if (match?.ambiguous) {
+                // Runner-up is nearly as close - don't guess between look-alikes
+                const runnerUp = match.candidates[1];
+                console.log(`[SCAN] ✗ Ambiguous: ${match.worker.name} vs ${runnerUp?.name}`);
+                setScanStatus('Unclear match');
+                speak('Face not clear. Please look at the camera and scan again.');
+                showFeedback(`${t('Unclear match')}\n${match.worker.name} / ${runnerUp?.name}\n${t('Scan again')}`, 'info');
+                startCooldown('ambiguous');
+            } else if (match) {
                 console.log(`[SCAN] ✓ Matched: ${match.worker.name} (${(match.similarity * 100).toFixed(0)}%)`);
                 if (lastScannedId === match.worker.id) { setScanStatus('Wait...'); setIsScanning(false); return; }
-                await handleWorkerScan(match.worker.id, match.worker.name);
+
+                let livenessPassed: boolean | null = null;
+                const liveness = getLivenessConfig(match.worker.id);
+                if (liveness.enabled) {
+                    const result = await runLiveness(match.worker.id, match.worker.name, liveness.timeoutSeconds);
+                    if (!result) {
+                        // Site requires liveness: never accept a scan without the check
+                        recordLivenessFailure(match.worker.id, null);
+                        showFeedback(`${match.worker.name}\n✗ ${t('Liveness check unavailable')}\n${t('Ask the manager to mark manually')}`, 'info');
+                        speak(`${match.worker.name}, liveness check is not available. Please ask the manager.`);
+                        addRecentScan(match.worker.id, match.worker.name, 'SKIP');
+                        startCooldown(match.worker.id);
+                        return;
+                    }
+                    if (!result.passed) {
+                        showFeedback(`${match.worker.name}\n✗ ${t('Liveness failed')}\n${result.message}`, 'info');
+                        speak(`${match.worker.name}, liveness check failed. Please scan again.`);
+                        addRecentScan(match.worker.id, match.worker.name, 'SKIP');
+                        startCooldown(match.worker.id);
+                        return;
+                    }
+                    livenessPassed = true;
+                }
+
+                // Proof frame is only encoded once a worker has been identified
+                const screenshot = webcamRef.current?.getScreenshot() || undefined;
+                await handleWorkerScan(match.worker.id, match.worker.name, { frame: screenshot, livenessPassed, candidates: match.candidates });
             } else {
                 // No match found - DO NOT auto-register to prevent duplicates
                 // User must manually add workers through admin panel
@@ -217,15 +512,15 @@ export default function ScannerComponent() {
             }
         } catch (err) { console.error('[SCAN] Error:', err); setScanStatus('Error'); }
         finally { setIsScanning(false); }
-    }, [cameraReady, modelsReady, isScanning, cooldown, workers, todayLogs, lastScannedId]);
+    }, [cameraReady, modelsReady, isScanning, cooldown, workers, matchGallery, todayLogs, todayPunches, lastScannedId, siteLiveness, calendar, checkoutPolicies, operatorSiteId, matchMargin]);
 
-    const handleWorkerScan = async (workerId: string, workerName: string) => {
+    const handleWorkerScan = async (workerId: string, workerName: string, scan?: ScanContext) => {
         // Check if there's a pending early checkout confirmation for this worker
         if (earlyCheckoutConfirm && earlyCheckoutConfirm.workerId === workerId && Date.now() < earlyCheckoutConfirm.expires) {
             // Confirmed early checkout
             showFeedback(`${workerName}\n✓ Early checkout confirmed!`, 'out');
             speak(`${workerName}, early checkout confirmed.`);
-            await performCheckOut(workerId, workerName, earlyCheckoutConfirm.hours);
+            await performCheckOut(workerId, workerName, earlyCheckoutConfirm.hours, scan);
             setEarlyCheckoutConfirm(null);
             return;
         }
@@ -235,90 +530,155 @@ export default function ScannerComponent() {
             setEarlyCheckoutConfirm(null);
         }
 
-        const existingLog = todayLogs.find(l => l.worker_id === workerId);
-
-        if (!existingLog) {
-            // First scan of the day - Check In
-            await performCheckIn(workerId, workerName);
-        } else if (!existingLog.check_out_time) {
-            // Already checked in - Calculate time since check-in
-            const checkInTime = new Date(existingLog.check_in_time!).getTime();
-            const msSince = Date.now() - checkInTime;
-            const minsSince = Math.round(msSince / 60000);
-            const hoursSince = msSince / 3600000;
-
-            // Format time properly (minutes vs hours)
-            const timeAgo = hoursSince >= 1
-                ? `${Math.floor(hoursSince)} hour${Math.floor(hoursSince) > 1 ? 's' : ''} ${minsSince % 60} min`
-                : `${minsSince} minute${minsSince !== 1 ? 's' : ''}`;
-
-            if (hoursSince < 1) {
-                // Less than 1 hour - Don't allow checkout, show warning
-                showFeedback(`${workerName}\n⚠️ Checked in ${timeAgo} ago\nToo early for checkout`, 'info');
-                speak(`${workerName}, you already checked in ${minsSince} minutes ago. Too early to check out. This may affect your salary.`);
+        const day = getDaySummary(workerId);
+        const lastPunch = day.lastPunch;
+        const minsSincePunch = lastPunch ? Math.round((Date.now() - new Date(lastPunch.punch_time).getTime()) / 60000) : null;
+
+        if (lastPunch && minsSincePunch! < DUPLICATE_PUNCH_MINUTES) {
+            // Scanned again right after a punch - almost always a double scan
+            const action = lastPunch.punch_type === 'IN' ? 'checked in' : 'checked out';
+            showFeedback(`${workerName}\n⚠️ Already ${action} ${minsSincePunch} min ago`, 'info');
+            speak(`${workerName}, you already ${action} ${minsSincePunch} minutes ago.`);
+            addRecentScan(workerId, workerName, 'SKIP');
+            startCooldown(workerId);
+        } else if (!day.isIn) {
+            // First scan of the day, or back from a break
+            await performCheckIn(workerId, workerName, scan);
+        } else {
+            const hoursWorked = day.workedMinutes / 60;
+            const decision = checkoutDecision(day.workedMinutes, getCheckoutPolicy(workerId));
+            if (decision === 'refuse') {
+                // Below the shift's minimum - don't allow checkout
+                showFeedback(`${workerName}\n⚠️ Only ${formatMinutes(day.workedMinutes)} worked today\nToo early for checkout`, 'info');
+                speak(`${workerName}, you worked only ${day.workedMinutes} minutes today. Too early to check out. This may affect your salary.`);
                 addRecentScan(workerId, workerName, 'SKIP');
                 startCooldown(workerId);
-            } else if (hoursSince < 4) {
-                // 1-4 hours - Early checkout warning
-                showFeedback(`${workerName}\n⚠️ Only ${Math.floor(hoursSince)}h worked\nCheckout may affect salary!`, 'info');
-                speak(`${workerName}, you worked only ${Math.floor(hoursSince)} hours. Early checkout may affect your salary. Scan again to confirm checkout.`);
-                // Set a flag to allow checkout on next scan within 30 seconds
-                setShowEarlyCheckoutConfirm({ workerId, workerName, hours: hoursSince });
+            } else if (decision === 'confirm') {
+                // Short day - Early checkout warning
+                showFeedback(`${workerName}\n⚠️ Only ${formatMinutes(day.workedMinutes)} worked today\nCheckout may affect salary!`, 'info');
+                speak(`${workerName}, you worked only ${Math.floor(hoursWorked)} hours today. Early checkout may affect your salary. Scan again to confirm checkout.`);
+                // Set a flag to allow checkout on the next scan within the confirm window
+                setShowEarlyCheckoutConfirm({ workerId, workerName, hours: hoursWorked });
                 startCooldown(workerId);
             } else {
-                // 4+ hours - Normal checkout
-                await performCheckOut(workerId, workerName, hoursSince);
+                await performCheckOut(workerId, workerName, hoursWorked, scan);
             }
-        } else {
-            // Already checked out today
-            showFeedback(`${workerName}\n✓ ${t('Day completed')}`, 'info');
-            speak(`${workerName}, your day is already completed.`);
-            startCooldown(workerId);
         }
     };
 
-    const performCheckIn = async (workerId: string, workerName?: string) => {
+    // Attendance date for a worker right now: their site's timezone and their shift's day boundary
+    const workerDate = (workerId: string) =>
+        workerBusinessDate(calendar, workers.find(w => w.id === workerId), new Date(), operatorSiteId);
+
+    // Checkout thresholds from the worker's shift for the day (defaults when unassigned)
+    const getCheckoutPolicy = (workerId: string) => {
+        const shiftId = workerShiftId(calendar, workers.find(w => w.id === workerId), workerDate(workerId));
+        return shiftId ? checkoutPolicies[shiftId] : null;
+    };
+
+    const getWorkerLog = (workerId: string) => {
+        const date = workerDate(workerId);
+        return todayLogs.find(l => l.worker_id === workerId && l.date === date);
+    };
+
+    // Today's sessions for a worker; the open session counts up to now
+    const getDaySummary = (workerId: string) => {
+        const date = workerDate(workerId);
+        return summarizePunches(todayPunches.filter(p => p.worker_id === workerId && p.date === date), Date.now());
+    };
+
+    const performCheckIn = async (workerId: string, workerName?: string, scan?: ScanContext) => {
         try {
-            const { data: { user } } = await supabase.auth.getUser();
+            const { data: { session } } = await supabase.auth.getSession();
+            const user = session?.user;
             if (!user) return;
-            await supabase.from('attendance_logs').upsert({
-                worker_id: workerId, date: currentDate, status: 'present',
-                check_in_time: new Date().toISOString(), marked_by: user.id,
-            }, { onConflict: 'worker_id,date' });
+            const checkInTime = new Date().toISOString();
+            const location = await readLocation();
+            if (location?.spoof.isSpoofed) console.warn('[GPS] Check-in flagged:', location.spoof.reason);
+            const existingLog = getWorkerLog(workerId);
+            const returning = !!existingLog?.check_out_time;
+
+            let queued = !navigator.onLine;
+            if (!queued) {
+                try {
+                    const { logId } = await recordPunch({
+                        workerId, date: workerDate(workerId), type: 'IN', time: checkInTime,
+                        source: scan?.manual ? 'manual' : 'scan', markedBy: user.id,
+                    }, {
+                        ...locationToLogFields(location, false, existingLog),
+                        ...(scan?.livenessPassed != null && { liveness_passed: scan.livenessPassed }),
+                        ...(scan?.candidates && { match_candidates: scan.candidates }),
+                        ...reviewFieldsForScan(scan?.candidates, !!scan?.manual, false),
+                    });
+                    // Proof photo uploads in the background
+                    if (scan?.frame) uploadProofAsync(scan.frame, workerId, logId);
+                } catch (error) {
+                    if (!isNetworkError(error)) throw error;
+                    queued = true;
+                }
+            }
+            if (queued) await queueOfflineScan(workerId, 'IN', checkInTime, user.id, location, scan);
 
             const worker = workers.find(w => w.id === workerId);
             const name = workerName || worker?.name || 'Worker';
-            showFeedback(`${name}\n✓ ${t('CHECK IN')}`, 'in');
+            showFeedback(`${name}\n✓ ${t('CHECK IN')}${returning ? `\n${t('Back from break')}` : ''}${queued ? `\n${t('Saved offline')}` : ''}`, 'in');
             speak(`${name}, ચેક ઇન થયું`); // Gujarati: Check in done
             addRecentScan(workerId, name, 'IN');
-            loadData(); startCooldown(workerId);
+            if (!queued) loadData();
+            startCooldown(workerId);
         } catch { setError('Check-in failed'); setTimeout(() => setError(null), 2000); }
     };
 
-    const performCheckOut = async (workerId: string, workerName: string, hours?: number) => {
+    const performCheckOut = async (workerId: string, workerName: string, hours?: number, scan?: ScanContext) => {
         try {
-            await supabase.from('attendance_logs').update({
-                check_out_time: new Date().toISOString(),
-            }).eq('worker_id', workerId).eq('date', currentDate);
+            const checkOutTime = new Date().toISOString();
+            const location = await readLocation();
+            if (location?.spoof.isSpoofed) console.warn('[GPS] Check-out flagged:', location.spoof.reason);
+            const existingLog = getWorkerLog(workerId);
+
+            const { data: { session } } = await supabase.auth.getSession();
+            const markedBy = session?.user.id || null;
+
+            let queued = !navigator.onLine;
+            let workedMinutes = hours !== undefined ? Math.round(hours * 60) : undefined;
+            if (!queued) {
+                try {
+                    const { logId, summary } = await recordPunch({
+                        workerId, date: workerDate(workerId), type: 'OUT', time: checkOutTime,
+                        source: scan?.manual ? 'manual' : 'scan', markedBy,
+                    }, {
+                        ...locationToLogFields(location, true, existingLog),
+                        ...(scan?.livenessPassed != null && { liveness_out_passed: scan.livenessPassed }),
+                        ...(scan?.candidates && { match_out_candidates: scan.candidates }),
+                        ...reviewFieldsForScan(scan?.candidates, !!scan?.manual, true),
+                    });
+                    workedMinutes = summary.workedMinutes;
+                    if (scan?.frame) uploadProofAsync(scan.frame, workerId, logId, true);
+                } catch (error) {
+                    if (!isNetworkError(error)) throw error;
+                    queued = true;
+                }
+            }
+            if (queued) await queueOfflineScan(workerId, 'OUT', checkOutTime, markedBy, location, scan);
 
-            const duration = hours ? ` • ${Math.floor(hours)}h` : '';
-            showFeedback(`${workerName}\n✓ ${t('CHECK OUT')}${duration}`, 'out');
+            const duration = workedMinutes ? ` • ${formatMinutes(workedMinutes)}` : '';
+            showFeedback(`${workerName}\n✓ ${t('CHECK OUT')}${duration}${queued ? `\n${t('Saved offline')}` : ''}`, 'out');
             speak(`${workerName}, ચેક આઉટ થયું`); // Gujarati: Check out done
             addRecentScan(workerId, workerName, 'OUT');
-            loadData(); startCooldown(workerId);
+            if (!queued) loadData();
+            startCooldown(workerId);
         } catch { setError('Check-out failed'); setTimeout(() => setError(null), 2000); }
     };
 
     const manualCheckIn = async (workerId: string) => {
         const worker = workers.find(w => w.id === workerId);
-        await performCheckIn(workerId, worker?.name);
+        await performCheckIn(workerId, worker?.name, { manual: true });
         setViewMode('camera');
     };
     const manualCheckOut = async (workerId: string) => {
         const worker = workers.find(w => w.id === workerId);
-        const log = todayLogs.find(l => l.worker_id === workerId);
-        const hours = log?.check_in_time ? (Date.now() - new Date(log.check_in_time).getTime()) / 3600000 : undefined;
-        await performCheckOut(workerId, worker?.name || 'Worker', hours);
+        const hours = getDaySummary(workerId).workedMinutes / 60;
+        await performCheckOut(workerId, worker?.name || 'Worker', hours, { manual: true });
         setViewMode('camera');
     };
 
@@ -341,13 +701,13 @@ export default function ScannerComponent() {
         if (!webcamRef.current) return;
 
         // Capture single photo immediately
-        const screenshot = webcamRef.current.getScreenshot();
-        if (!screenshot) {
+        const video = webcamRef.current.video;
+        if (!video) {
             setScanStatus('Camera error');
             return;
         }
 
-        const faceResult = await detectFaceFromBase64(screenshot);
+        const faceResult = await detectFaceInWorker(video);
         if (!faceResult) {
             setScanStatus('No face - try again');
             speak('No face detected, try again');
@@ -357,6 +717,7 @@ export default function ScannerComponent() {
         // Set captured data and show registration form directly
         setCapturedImage(faceResult.croppedFace);
         setCapturedDescriptor(faceResult.descriptor);
+        setCapturedTemplates([{ descriptor: faceResult.descriptor, pose: faceResult.headPose, photoUrl: faceResult.croppedFace }]);
         setEnrollProgress(100); // Skip multi-angle, go straight to form
         setShowRegister(true);
         speak('Enter name');
@@ -366,10 +727,10 @@ export default function ScannerComponent() {
     const autoDetectEnrollment = async () => {
         if (!webcamRef.current || !modelsReady || !isEnrolling) return;
 
-        const screenshot = webcamRef.current.getScreenshot();
-        if (!screenshot) return;
+        const video = webcamRef.current.video;
+        if (!video) return;
 
-        const faceResult = await detectFaceFromBase64(screenshot);
+        const faceResult = await detectFaceInWorker(video);
         if (!faceResult) return;
 
         const { descriptor, croppedFace, headPose } = faceResult;
@@ -383,6 +744,7 @@ export default function ScannerComponent() {
         if (headPose === 'center' && !poses.center) {
             setEnrollCapturedPoses(prev => ({ ...prev, center: true }));
             setEnrollDescriptors(prev => [...prev, descriptor]);
+            setCapturedTemplates(prev => [...prev, { descriptor, pose: headPose, photoUrl: croppedFace }]);
             setEnrollImages(prev => [...prev, croppedFace]);
             captured = true;
             speak('Good! Now turn left');
@@ -390,12 +752,14 @@ export default function ScannerComponent() {
         } else if (headPose === 'left' && !poses.left && poses.center) {
             setEnrollCapturedPoses(prev => ({ ...prev, left: true }));
             setEnrollDescriptors(prev => [...prev, descriptor]);
+            setCapturedTemplates(prev => [...prev, { descriptor, pose: headPose, photoUrl: croppedFace }]);
             captured = true;
             speak('Good! Now turn right');
             newGuide = 'Turn your head RIGHT';
         } else if (headPose === 'right' && !poses.right && poses.center) {
             setEnrollCapturedPoses(prev => ({ ...prev, right: true }));
             setEnrollDescriptors(prev => [...prev, descriptor]);
+            setCapturedTemplates(prev => [...prev, { descriptor, pose: headPose, photoUrl: croppedFace }]);
             captured = true;
         }
 
@@ -416,8 +780,8 @@ export default function ScannerComponent() {
                 if (captured) allDescs.push(descriptor);
 
                 if (allDescs.length >= 2) {
-                    const avgDescriptor = averageDescriptors(allDescs);
-                    setCapturedDescriptor(avgDescriptor);
+                    // Center capture is the primary vector; every pose is kept in the gallery
+                    setCapturedDescriptor(allDescs[0]);
                     setCapturedImage(enrollImages[0] || croppedFace);
                     setEnrollProgress(100);
                     setCurrentPoseGuide('Done! Enter name');
@@ -444,27 +808,34 @@ export default function ScannerComponent() {
         setShowRegister(false);
         setCapturedImage(null);
         setCapturedDescriptor(null);
+        setCapturedTemplates([]);
+        setDuplicateMatch(null);
         setNewWorkerName('');
         setNewWorkerRate('500');
     };
 
-    const registerWorker = async () => {
+    const registerWorker = async (overrideDuplicate = false) => {
         if (!newWorkerName.trim() || !capturedDescriptor) return;
         try {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) return;
 
-            // Check for duplicate face
-            const workersWithFaces: WorkerWithDescriptor[] = workers
-                .filter(w => w.face_descriptor?.length === 128)
-                .map(w => ({ id: w.id, name: w.name, face_descriptor: w.face_descriptor, photo_url: w.photo_url }));
-
-            const duplicate = await findBestMatch(capturedDescriptor, workersWithFaces, 0.5);
-            if (duplicate) {
-                setError(`Face already registered as ${duplicate.worker.name}`);
-                speak(`Already registered as ${duplicate.worker.name}`);
+            // Check every captured pose against enrolled faces on every site (ghost-worker check).
+            // No check, no enrollment.
+            const capturedDescriptors = [capturedDescriptor, ...capturedTemplates.map(t => t.descriptor)];
+            let duplicate: DuplicateMatch | null;
+            try {
+                duplicate = await findEnrollmentDuplicateRemote(capturedDescriptors);
+            } catch (err) {
+                console.error('[REGISTER] Duplicate check failed:', err);
+                setError(t('Duplicate face check failed'));
+                speak('Duplicate face check failed. Please try again.');
                 setTimeout(() => setError(null), 3000);
-                resetRegister();
+                return;
+            }
+            if (duplicate && !(overrideDuplicate && operatorRole === 'admin')) {
+                setDuplicateMatch(duplicate);
+                speak(`Already registered as ${duplicate.worker.name}`);
                 return;
             }
 
@@ -473,19 +844,25 @@ export default function ScannerComponent() {
                 face_descriptor: descriptorToArray(capturedDescriptor),
                 base_rate: parseFloat(newWorkerRate) || 500,
                 consent_date: new Date().toISOString(), is_active: true,
-            }).select().single();
-            if (newWorker) { await performCheckIn(newWorker.id, newWorkerName.trim()); resetRegister(); loadData(); }
+            }).select('id').single();
+            if (newWorker) {
+                if (duplicate) await logDuplicateOverride(newWorker.id, duplicate, 'scanner');
+                await saveFaceTemplates(newWorker.id, capturedTemplates).catch(err => console.error('Template save failed:', err));
+                // Enrolled over a duplicate-face warning - first attendance needs review
+                await performCheckIn(newWorker.id, newWorkerName.trim(), { manual: !!duplicate }); resetRegister(); loadData();
+            }
         } catch { setError('Registration failed'); setTimeout(() => setError(null), 2000); }
     };
 
-    const resetRegister = () => { setShowRegister(false); setCapturedImage(null); setCapturedDescriptor(null); setNewWorkerName(''); setNewWorkerRate('500'); };
+    const resetRegister = () => { setShowRegister(false); setCapturedImage(null); setCapturedDescriptor(null); setCapturedTemplates([]); setDuplicateMatch(null); setNewWorkerName(''); setNewWorkerRate('500'); };
 
-    const presentCount = todayLogs.filter(l => l.check_in_time && !l.check_out_time).length;
-    const leftCount = todayLogs.filter(l => l.check_out_time).length;
-    const absentCount = workers.length - todayLogs.filter(l => l.check_in_time).length;
+    const workerLogs = workers.map(w => getWorkerLog(w.id)).filter((l): l is AttendanceLog => !!l);
+    const presentCount = workerLogs.filter(l => l.check_in_time && !l.check_out_time).length;
+    const leftCount = workerLogs.filter(l => l.check_out_time).length;
+    const absentCount = workers.length - workerLogs.filter(l => l.check_in_time).length;
     const filteredWorkers = workers.filter(w => w.name.toLowerCase().includes(searchQuery.toLowerCase()));
     const getWorkerStatus = (workerId: string) => {
-        const log = todayLogs.find(l => l.worker_id === workerId);
+        const log = getWorkerLog(workerId);
         if (!log) return { status: 'absent', label: t('Absent'), color: 'from-gray-500 to-gray-600' };
         if (log.check_out_time) return { status: 'left', label: t('Left'), color: 'from-blue-500 to-blue-600' };
         return { status: 'present', label: t('Present'), color: 'from-green-500 to-green-600' };
@@ -516,6 +893,16 @@ export default function ScannerComponent() {
                             {t('Attendance Scanner')}
                         </h1>
                         <p className="text-xs text-cyan-400/80">{modelsReady ? `⚡ ${t('AI Ready')}` : '○ Loading...'}</p>
+                        {(!isOnline || pendingSync > 0) && (
+                            <p className="text-xs text-amber-400">
+                                {!isOnline && `📴 ${t('Offline')}`}{!isOnline && pendingSync > 0 && ' • '}{pendingSync > 0 && `⏳ ${pendingSync} ${t('pending sync')}`}
+                            </p>
+                        )}
+                        {failedSync > 0 && (
+                            <button onClick={retryFailedSync} className="text-xs text-red-400 underline">
+                                ⚠ {failedSync} {t('failed to sync')} • {t('Retry')}
+                            </button>
+                        )}
                     </div>
                     <button onClick={() => setLang(l => l === 'en' ? 'gu' : 'en')} className={`px-3 py-1.5 rounded-lg text-sm font-medium transition ${lang === 'gu' ? 'bg-cyan-500 text-white' : 'bg-white/10 text-white/60 border border-white/10'}`}>
                         {lang === 'gu' ? 'EN' : 'ગુ'}
@@ -553,6 +940,17 @@ export default function ScannerComponent() {
                                 </div>
                             </div>
 
+                            {/* Liveness Challenge Prompt */}
+                            {livenessPrompt && (
+                                <div className="absolute bottom-4 left-4 right-4 z-20">
+                                    <div className="px-4 py-3 rounded-2xl text-center bg-purple-600/90 backdrop-blur-sm border border-purple-400/40 shadow-lg shadow-purple-500/30">
+                                        <p className="text-xs text-white/70">{livenessPrompt.workerName} • {t('Liveness check')}</p>
+                                        <p className="text-2xl font-bold text-white my-1">{getChallengeText(livenessPrompt.challenge, lang === 'gu')}</p>
+                                        {livenessPrompt.message && <p className="text-xs text-white/60">{livenessPrompt.message}</p>}
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Dynamic Face Tracking Box */}
                             {faceBox ? (
                                 <div
@@ -609,7 +1007,8 @@ export default function ScannerComponent() {
                         <div className="flex-1 overflow-y-auto">
                             {filteredWorkers.map(worker => {
                                 const { status, label, color } = getWorkerStatus(worker.id);
-                                const log = todayLogs.find(l => l.worker_id === worker.id);
+                                const log = getWorkerLog(worker.id);
+                                const day = getDaySummary(worker.id);
                                 return (
                                     <div key={worker.id} className="flex items-center justify-between px-4 py-3 border-b border-white/5 hover:bg-white/5 transition">
                                         <div className="flex items-center gap-3">
@@ -621,12 +1020,14 @@ export default function ScannerComponent() {
                                                 <p className="text-white/40 text-xs">
                                                     {log?.check_in_time && new Date(log.check_in_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
                                                     {log?.check_out_time && ` → ${new Date(log.check_out_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
+                                                    {day.workedMinutes > 0 && ` • ${formatMinutes(day.workedMinutes)}`}
+                                                    {day.breakMinutes > 0 && ` • ${t('Break')} ${formatMinutes(day.breakMinutes)}`}
                                                 </p>
                                             </div>
                                         </div>
                                         <div className="flex items-center gap-2">
                                             <span className={`px-2.5 py-1 rounded-lg text-xs text-white bg-gradient-to-r ${color}`}>{label}</span>
-                                            {status === 'absent' && <button onClick={() => manualCheckIn(worker.id)} className="px-3 py-1.5 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg text-xs font-medium">IN</button>}
+                                            {status !== 'present' && <button onClick={() => manualCheckIn(worker.id)} className="px-3 py-1.5 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg text-xs font-medium">IN</button>}
                                             {status === 'present' && <button onClick={() => manualCheckOut(worker.id)} className="px-3 py-1.5 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg text-xs font-medium">OUT</button>}
                                         </div>
                                     </div>
@@ -708,12 +1109,35 @@ export default function ScannerComponent() {
                                 </div>
                             </div>
 
+                            {/* Duplicate face warning - blocks registration unless an admin overrides */}
+                            {duplicateMatch && (
+                                <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl flex items-center gap-3">
+                                    <div className="w-12 h-12 rounded-full bg-slate-800 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                                        {duplicateMatch.worker.photo_url
+                                            ? <img src={duplicateMatch.worker.photo_url} alt={duplicateMatch.worker.name} className="w-full h-full object-cover" />
+                                            : <span className="text-xl">👤</span>}
+                                    </div>
+                                    <div className="text-left min-w-0">
+                                        <p className="text-red-400 text-sm font-bold">⚠ {t('Possible duplicate')}</p>
+                                        <p className="text-white text-sm truncate">{duplicateMatch.worker.name}{duplicateMatch.worker.worker_number ? ` (${duplicateMatch.worker.worker_number})` : ''}</p>
+                                        <p className="text-white/50 text-xs">Distance {duplicateMatch.distance.toFixed(3)}{operatorRole !== 'admin' && ` • ${t('Only an admin can override')}`}</p>
+                                    </div>
+                                </div>
+                            )}
+
                             <div className="flex gap-3">
                                 <button onClick={resetEnrollment} className="flex-1 py-3 bg-white/10 border border-white/10 text-white rounded-xl hover:bg-white/20 transition-colors">{t('Cancel')}</button>
-                                <button onClick={registerWorker} disabled={!newWorkerName.trim()}
-                                    className="flex-1 py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-xl font-bold shadow-lg shadow-green-500/20 disabled:opacity-50 disabled:shadow-none transition-all hover:scale-[1.02]">
-                                    {t('Register')}
-                                </button>
+                                {duplicateMatch ? (
+                                    <button onClick={() => registerWorker(true)} disabled={!newWorkerName.trim() || operatorRole !== 'admin'}
+                                        className="flex-1 py-3 bg-gradient-to-r from-red-500 to-orange-600 text-white rounded-xl font-bold disabled:opacity-50 transition-all">
+                                        {t('Override & Register')}
+                                    </button>
+                                ) : (
+                                    <button onClick={() => registerWorker()} disabled={!newWorkerName.trim()}
+                                        className="flex-1 py-3 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-xl font-bold shadow-lg shadow-green-500/20 disabled:opacity-50 disabled:shadow-none transition-all hover:scale-[1.02]">
+                                        {t('Register')}
+                                    </button>
+                                )}
                             </div>
                         </div>
                     </div>
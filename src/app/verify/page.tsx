@@ -3,10 +3,13 @@
 import { useEffect, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Webcam from 'react-webcam';
-import { supabase, Worker, AttendanceLog } from '@/lib/supabase';
+import { supabase, Worker, AttendanceLog, WORKER_COLUMNS } from '@/lib/supabase';
 import Header from '@/components/Header';
 import BottomNav from '@/components/BottomNav';
 import { THEME_COLOR } from '@/lib/config';
+import { businessDate } from '@/lib/business-date';
+import { autoCloseMissingCheckouts, loadMissingCheckouts, MissingCheckout } from '@/lib/missing-checkout';
+import MissingCheckoutList from '@/components/MissingCheckoutList';
 
 type VerifyStep = 'blind_entry' | 'mismatch_review' | 'audio_record' | 'photo_capture' | 'complete';
 
@@ -24,6 +27,8 @@ export default function VerifyPage() {
     const [notebookCount, setNotebookCount] = useState<string>('');
     const [systemCount, setSystemCount] = useState<number>(0);
     const [todayAttendance, setTodayAttendance] = useState<TodayAttendance[]>([]);
+    const [missingCheckouts, setMissingCheckouts] = useState<MissingCheckout[]>([]);
+    const [missingCheckoutsChecked, setMissingCheckoutsChecked] = useState(false); // Closing stays blocked until the check succeeds
     const [isRecording, setIsRecording] = useState(false);
     const [recordingTime, setRecordingTime] = useState(0);
     const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
@@ -32,7 +37,7 @@ export default function VerifyPage() {
     const [submitting, setSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = businessDate();
 
     const themeClass = THEME_COLOR === 'orange' ? 'bg-orange-500 hover:bg-orange-600' :
         THEME_COLOR === 'blue' ? 'bg-blue-500 hover:bg-blue-600' :
@@ -64,9 +69,10 @@ export default function VerifyPage() {
             // Get today's attendance with worker details
             const { data: logs, error: logsError } = await supabase
                 .from('attendance_logs')
-                .select('*, workers(*)')
+                .select(`*, workers(${WORKER_COLUMNS})`)
                 .eq('date', currentDate)
-                .eq('status', 'present');
+                // Anyone who checked in, incl. short shifts marked half-day at checkout (as the khata counts)
+                .not('check_in_time', 'is', null);
 
             if (logsError) throw logsError;
 
@@ -78,6 +84,18 @@ export default function VerifyPage() {
             setTodayAttendance(attendance);
             setSystemCount(attendance.length);
 
+            // Open sessions past their cutoff must be resolved before closing
+            const { data: profile } = await supabase
+                .from('profiles')
+                .select('assigned_site_id')
+                .eq('id', user.id)
+                .single();
+            const siteId = profile?.assigned_site_id || null;
+            setMissingCheckoutsChecked(false);
+            await autoCloseMissingCheckouts(siteId);
+            setMissingCheckouts(await loadMissingCheckouts(siteId));
+            setMissingCheckoutsChecked(true);
+
         } catch (err) {
             console.error('Load error:', err);
             setError('Failed to load attendance data');
@@ -92,6 +110,14 @@ export default function VerifyPage() {
             setError('Please enter a valid number');
             return;
         }
+        if (!missingCheckoutsChecked) {
+            setError('Could not check missing checkouts - reload and try again');
+            return;
+        }
+        if (missingCheckouts.length > 0) {
+            setError('Resolve missing checkouts before closing the day');
+            return;
+        }
 
         if (notebook === systemCount) {
             // Match! Skip to audio recording
@@ -291,6 +317,8 @@ export default function VerifyPage() {
                             </p>
                         </div>
 
+                        <MissingCheckoutList items={missingCheckouts} onResolved={loadTodayAttendance} />
+
                         <div className="mb-6">
                             <label className="block text-sm font-medium text-gray-700 mb-2">
                                 How many workers attended today?
@@ -310,7 +338,7 @@ export default function VerifyPage() {
 
                         <button
                             onClick={handleBlindSubmit}
-                            disabled={!notebookCount}
+                            disabled={!notebookCount || !missingCheckoutsChecked || missingCheckouts.length > 0}
                             className={`w-full py-4 ${themeClass} text-white font-semibold rounded-xl transition-all disabled:opacity-50`}
                         >
                             Submit Count
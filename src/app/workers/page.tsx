@@ -2,7 +2,11 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase, Worker, AttendanceLog } from '@/lib/supabase';
+import { supabase, Worker, AttendanceLog, WORKER_COLUMNS } from '@/lib/supabase';
+import { loadPunches, recordPunch, summarizePunches, formatMinutes, Punch } from '@/lib/punches';
+import { loadBusinessCalendar, workerBusinessDate, businessDate, addDays, BusinessCalendar, EMPTY_CALENDAR } from '@/lib/business-date';
+import { recordRateChange } from '@/lib/wage-rates';
+import { reviewFieldsForScan } from '@/lib/match-review';
 
 type UserRole = 'admin' | 'owner' | 'manager' | 'accountant';
 
@@ -12,7 +16,8 @@ export default function WorkersPage() {
     const [userRole, setUserRole] = useState<UserRole>('manager');
     const [workers, setWorkers] = useState<Worker[]>([]);
     const [todayLogs, setTodayLogs] = useState<AttendanceLog[]>([]);
-    const [currentDate] = useState(new Date().toISOString().split('T')[0]);
+    const [todayPunches, setTodayPunches] = useState<Punch[]>([]);
+    const [calendar, setCalendar] = useState<BusinessCalendar>(EMPTY_CALENDAR);
     const [searchQuery, setSearchQuery] = useState('');
     const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -41,13 +46,19 @@ export default function WorkersPage() {
             const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
             setUserRole((profile?.role as UserRole) || 'manager');
 
-            const [workersRes, logsRes] = await Promise.all([
-                supabase.from('workers').select('*').eq('is_active', true).order('name'),
-                supabase.from('attendance_logs').select('*').eq('date', currentDate),
+            // Yesterday too: night-shift workers are still on yesterday's attendance date after midnight
+            const today = businessDate();
+            const [workersRes, logsRes, punches, businessCalendar] = await Promise.all([
+                supabase.from('workers').select(WORKER_COLUMNS).eq('is_active', true).order('name'),
+                supabase.from('attendance_logs').select('*').in('date', [addDays(today, -1), today]),
+                loadPunches(addDays(today, -1), today),
+                loadBusinessCalendar(),
             ]);
 
+            setCalendar(businessCalendar);
             setWorkers(workersRes.data || []);
             setTodayLogs(logsRes.data || []);
+            setTodayPunches(punches);
         } catch (err) {
             console.error('Load error:', err);
         } finally {
@@ -61,16 +72,26 @@ export default function WorkersPage() {
     const canAdd = ['admin', 'owner'].includes(userRole);
     const canCheckInOut = ['admin', 'owner', 'manager'].includes(userRole);
 
+    const workerDate = (workerId: string) => workerBusinessDate(calendar, workers.find(w => w.id === workerId));
+
     const getWorkerStatus = (workerId: string) => {
-        const log = todayLogs.find(l => l.worker_id === workerId);
+        const log = getWorkerLog(workerId);
         if (!log) return 'absent';
+        if (log.status === 'leave' && !log.check_in_time) return 'leave';
         if (log.status === 'half-day') return 'half';
         if (log.check_in_time && !log.check_out_time) return 'present';
         if (log.check_out_time) return 'left';
         return 'absent';
     };
 
-    const getWorkerLog = (workerId: string) => todayLogs.find(l => l.worker_id === workerId);
+    const getWorkerLog = (workerId: string) => {
+        const date = workerDate(workerId);
+        return todayLogs.find(l => l.worker_id === workerId && l.date === date);
+    };
+    const getDaySummary = (workerId: string) => {
+        const date = workerDate(workerId);
+        return summarizePunches(todayPunches.filter(p => p.worker_id === workerId && p.date === date), Date.now());
+    };
 
     const manualCheckIn = async (worker: Worker) => {
         if (!canCheckInOut) return;
@@ -78,10 +99,10 @@ export default function WorkersPage() {
         try {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) return;
-            await supabase.from('attendance_logs').upsert({
-                worker_id: worker.id, date: currentDate, status: 'present',
-                check_in_time: new Date().toISOString(), marked_by: user.id,
-            }, { onConflict: 'worker_id,date' });
+            await recordPunch({
+                workerId: worker.id, date: workerDate(worker.id), type: 'IN',
+                time: new Date().toISOString(), source: 'manual', markedBy: user.id,
+            }, reviewFieldsForScan(null, true, false));
             setSuccessMessage(`${worker.name} checked IN`);
             loadData();
             setTimeout(() => setSuccessMessage(null), 2000);
@@ -93,9 +114,11 @@ export default function WorkersPage() {
         if (!canCheckInOut) return;
         setIsProcessing(true);
         try {
-            await supabase.from('attendance_logs')
-                .update({ check_out_time: new Date().toISOString() })
-                .eq('worker_id', worker.id).eq('date', currentDate);
+            const { data: { user } } = await supabase.auth.getUser();
+            await recordPunch({
+                workerId: worker.id, date: workerDate(worker.id), type: 'OUT',
+                time: new Date().toISOString(), source: 'manual', markedBy: user?.id || null,
+            }, reviewFieldsForScan(null, true, true));
             setSuccessMessage(`${worker.name} checked OUT`);
             loadData();
             setTimeout(() => setSuccessMessage(null), 2000);
@@ -117,9 +140,14 @@ export default function WorkersPage() {
         try {
             await supabase.from('workers').update({
                 name: editName.trim(),
-                base_rate: parseFloat(editRate) || 500,
                 category: editCategory || null,
             }).eq('id', editWorker.id);
+            // Rate changes apply from today; earlier days keep the old rate
+            const rate = parseFloat(editRate) || 500;
+            if (rate !== editWorker.base_rate) {
+                const { data: { user } } = await supabase.auth.getUser();
+                await recordRateChange({ workerId: editWorker.id, rate, effectiveFrom: businessDate() }, user?.id || null);
+            }
             setSuccessMessage('Worker updated');
             setEditWorker(null);
             loadData();
@@ -170,6 +198,7 @@ export default function WorkersPage() {
     };
 
     const filteredWorkers = workers.filter(w => w.name.toLowerCase().includes(searchQuery.toLowerCase()));
+    const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
 
     if (loading) {
         return (
@@ -194,9 +223,14 @@ export default function WorkersPage() {
                     <div className="flex items-center justify-between">
                         <button onClick={() => router.push('/dashboard')} className="w-10 h-10 rounded-xl bg-white/10 flex items-center justify-center text-white">←</button>
                         <h1 className="text-xl font-bold text-white">Workers</h1>
-                        {canAdd ? (
-                            <button onClick={() => setShowAddModal(true)} className="w-10 h-10 rounded-xl bg-cyan-500 flex items-center justify-center text-white font-bold">+</button>
-                        ) : <div className="w-10" />}
+                        <div className="flex gap-2">
+                            {canCheckInOut && (
+                                <button onClick={() => router.push('/leave')} title="Leave requests" className="w-10 h-10 rounded-xl bg-white/10 flex items-center justify-center">🏖️</button>
+                            )}
+                            {canAdd ? (
+                                <button onClick={() => setShowAddModal(true)} className="w-10 h-10 rounded-xl bg-cyan-500 flex items-center justify-center text-white font-bold">+</button>
+                            ) : !canCheckInOut && <div className="w-10" />}
+                        </div>
                     </div>
                 </div>
             </div>
@@ -237,6 +271,7 @@ export default function WorkersPage() {
                 ) : filteredWorkers.map(worker => {
                     const status = getWorkerStatus(worker.id);
                     const log = getWorkerLog(worker.id);
+                    const day = getDaySummary(worker.id);
 
                     return (
                         <div key={worker.id} className="bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10 overflow-hidden">
@@ -249,13 +284,20 @@ export default function WorkersPage() {
                                 <div className="flex-1 min-w-0">
                                     <div className="flex items-center gap-2">
                                         <h3 className="font-bold text-white truncate">{worker.name}</h3>
-                                        {worker.face_descriptor && <span className="text-xs text-cyan-400">🤖</span>}
+                                        {worker.face_enrolled && <span className="text-xs text-cyan-400">🤖</span>}
                                     </div>
                                     <p className="text-white/40 text-sm">{worker.category || 'Worker'} • ₹{worker.base_rate}/day</p>
-                                    {log && (
+                                    {day.sessions.length > 0 ? (
+                                        <p className="text-white/30 text-xs mt-1">
+                                            {day.sessions.map(session =>
+                                                `${formatTime(session.in)} → ${session.out ? formatTime(session.out) : '...'}`).join(', ')}
+                                            {` • ${formatMinutes(day.workedMinutes)}`}
+                                            {day.breakMinutes > 0 && ` • Break ${formatMinutes(day.breakMinutes)}`}
+                                        </p>
+                                    ) : log?.check_in_time && (
                                         <p className="text-white/30 text-xs mt-1">
-                                            IN: {new Date(log.check_in_time || '').toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
-                                            {log.check_out_time && ` → OUT: ${new Date(log.check_out_time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
+                                            IN: {formatTime(log.check_in_time)}
+                                            {log.check_out_time && ` → OUT: ${formatTime(log.check_out_time)}`}
                                         </p>
                                     )}
                                 </div>
@@ -263,23 +305,26 @@ export default function WorkersPage() {
                                 <span className={`px-3 py-1 rounded-full text-xs font-medium ${status === 'present' ? 'bg-green-500/20 text-green-400' :
                                         status === 'left' ? 'bg-orange-500/20 text-orange-400' :
                                             status === 'half' ? 'bg-purple-500/20 text-purple-400' :
-                                                'bg-white/10 text-white/50'
+                                                status === 'leave' ? 'bg-sky-500/20 text-sky-400' :
+                                                    'bg-white/10 text-white/50'
                                     }`}>
-                                    {status === 'present' ? 'IN' : status === 'left' ? 'OUT' : status === 'half' ? 'HALF' : 'ABSENT'}
+                                    {status === 'present' ? 'IN' : status === 'left' ? 'OUT' : status === 'half' ? 'HALF' : status === 'leave' ? 'LEAVE' : 'ABSENT'}
                                 </span>
                             </div>
 
                             {/* Actions - role-based */}
                             <div className="border-t border-white/5 p-2 flex gap-2">
-                                {canCheckInOut && status === 'absent' && (
+                                {canCheckInOut && (status === 'absent' || status === 'left' || status === 'leave') && (
                                     <button onClick={() => manualCheckIn(worker)} disabled={isProcessing}
-                                        className="flex-1 py-2 bg-green-500/20 text-green-400 rounded-xl text-sm font-medium disabled:opacity-50">✓ Check IN</button>
+                                        className="flex-1 py-2 bg-green-500/20 text-green-400 rounded-xl text-sm font-medium disabled:opacity-50">
+                                        {status === 'left' ? '↪ Back IN' : '✓ Check IN'}
+                                    </button>
                                 )}
                                 {canCheckInOut && status === 'present' && (
                                     <button onClick={() => manualCheckOut(worker)} disabled={isProcessing}
                                         className="flex-1 py-2 bg-orange-500/20 text-orange-400 rounded-xl text-sm font-medium disabled:opacity-50">↩ Check OUT</button>
                                 )}
-                                {(status === 'left' || status === 'half') && (
+                                {(status === 'half' || (status === 'left' && !canCheckInOut)) && (
                                     <span className="flex-1 py-2 text-center text-white/30 text-sm">Done today</span>
                                 )}
                                 {canEdit && <button onClick={() => openEditModal(worker)} className="px-4 py-2 bg-cyan-500/20 text-cyan-400 rounded-xl text-sm">✏️</button>}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { MissingCheckout, resolveMissingCheckout, checkoutTimeFor, localTime } from '@/lib/missing-checkout';
+
+interface MissingCheckoutListProps {
+    items: MissingCheckout[];
+    onResolved: () => void;
+}
+
+/**
+ * Open sessions past their cutoff; the manager enters the actual checkout time for each.
+ * Shown on the evening closing screens, which stay locked until the list is empty.
+ */
+export default function MissingCheckoutList({ items, onResolved }: MissingCheckoutListProps) {
+    const [times, setTimes] = useState<Record<string, string>>({});
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const resolve = async (item: MissingCheckout) => {
+        const at = checkoutTimeFor(item, times[item.logId] || localTime(item, item.cutoff));
+        if (at > new Date()) { setError(`${item.workerName}: checkout can't be in the future`); return; }
+
+        setSavingId(item.logId);
+        setError(null);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) return;
+            await resolveMissingCheckout(item, at.toISOString(), user.id);
+            onResolved();
+        } catch (err) {
+            console.error('Resolve checkout error:', err);
+            setError(`Failed to check out ${item.workerName}`);
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    if (items.length === 0) return null;
+
+    return (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4">
+            <h3 className="font-semibold text-amber-800">⚠️ Missing Checkouts ({items.length})</h3>
+            <p className="text-xs text-amber-700 mb-3">These workers never scanned out. Enter when they left before closing the day.</p>
+            {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+            <div className="space-y-2">
+                {items.map(item => (
+                    <div key={item.logId} className="flex items-center gap-2 bg-white rounded-lg p-2 border border-amber-100">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-slate-800 truncate">{item.workerName}</p>
+                            <p className="text-xs text-slate-500">{item.date} • IN {localTime(item, item.openedAt)}</p>
+                        </div>
+                        <input type="time" value={times[item.logId] || localTime(item, item.cutoff)}
+                            onChange={(e) => setTimes(prev => ({ ...prev, [item.logId]: e.target.value }))}
+                            className="px-2 py-1 border border-slate-200 rounded text-sm text-slate-800" />
+                        <button onClick={() => resolve(item)} disabled={savingId === item.logId}
+                            className="px-3 py-1 bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white rounded text-xs font-medium">
+                            {savingId === item.logId ? '...' : 'OUT'}
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,371 @@
+/**
+ * Bank and UPI bulk payments for LaborOS
+ * A payment batch becomes one payment line per worker, paid by NEFT/RTGS to their bank
+ * account or to their UPI ID. Lines are exported as bank upload files, and the bank's
+ * response file marks each one sent or failed.
+ */
+
+import { supabase } from './supabase';
+import { PaymentBatch } from './payment-batches';
+import { buildBatchPayslips, loadIssuedPayslips } from './payslips';
+
+export type TransferMode = 'neft' | 'rtgs' | 'upi' | 'cash';
+export type LineStatus = 'pending' | 'sent' | 'failed';
+
+export interface PaymentLine {
+    id: string;
+    payment_batch_id: string;
+    worker_id: string | null;
+    worker_name: string;
+    amount: number;
+    mode: TransferMode; // cash = no bank account or UPI ID on file; left out of upload files
+    account_number: string | null;
+    ifsc: string | null;
+    account_name: string | null;
+    upi_id: string | null;
+    reference: string; // Sent to the bank and matched against its response
+    status: LineStatus;
+    utr: string | null; // Bank transaction reference once sent
+    failure_reason: string | null;
+    exported_at: string | null;
+    updated_at: string | null;
+}
+
+export interface BankResponseRow {
+    reference: string;
+    status: LineStatus;
+    utr: string | null;
+    reason: string | null;
+}
+
+// Payment details kept on the worker
+export interface PaymentDetails {
+    bank_account_number?: string | null;
+    bank_ifsc?: string | null;
+    bank_account_name?: string | null;
+    upi_id?: string | null;
+}
+
+export const TRANSFER_MODE_LABELS: Record<TransferMode, string> = {
+    neft: 'NEFT',
+    rtgs: 'RTGS',
+    upi: 'UPI',
+    cash: 'Cash',
+};
+
+// RTGS is only for transfers of ₹2 lakh and above
+export const RTGS_MIN_AMOUNT = 200000;
+
+const LINE_COLUMNS = 'id, payment_batch_id, worker_id, worker_name, amount, mode, account_number, ifsc, account_name, upi_id, reference, status, utr, failure_reason, exported_at, updated_at';
+
+export function isValidIfsc(ifsc: string): boolean {
+    return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc.trim().toUpperCase());
+}
+
+export function isValidUpiId(upiId: string): boolean {
+    return /^[\w.-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/.test(upiId.trim());
+}
+
+/**
+ * How a worker gets paid: bank transfer when account and IFSC are on file, else UPI, else cash
+ */
+export function transferMode(worker: PaymentDetails, amount: number): TransferMode {
+    if (worker.bank_account_number && worker.bank_ifsc) return amount >= RTGS_MIN_AMOUNT ? 'rtgs' : 'neft';
+    if (worker.upi_id) return 'upi';
+    return 'cash';
+}
+
+export async function loadPaymentLines(batchId: string): Promise<PaymentLine[]> {
+    const { data, error } = await supabase
+        .from('payment_lines')
+        .select(LINE_COLUMNS)
+        .eq('payment_batch_id', batchId)
+        .order('reference');
+    if (error) {
+        console.error('Error loading payment lines:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Payment lines for a batch, created on first use from each worker's net pay as the payout
+ * settled it (the issued payslips when there are any, so the transfer matches the payslip)
+ */
+export async function preparePaymentLines(batch: PaymentBatch, createdBy: string | null): Promise<PaymentLine[]> {
+    const existing = await loadPaymentLines(batch.id);
+    if (existing.length > 0) return existing;
+
+    const issued = await loadIssuedPayslips(batch.id);
+    const pay = issued.length > 0
+        ? issued.map(p => ({ workerId: p.snapshot.worker.id, name: p.snapshot.worker.name, amount: Math.round(p.net_amount) }))
+        : (await buildBatchPayslips(batch)).map(s => ({ workerId: s.worker.id, name: s.worker.name, amount: Math.round(s.sheet.net) }));
+    const payable = pay.filter(p => p.amount > 0);
+    if (payable.length === 0) return [];
+
+    const { data: workers, error: workersError } = await supabase
+        .from('workers')
+        .select('id, bank_account_number, bank_ifsc, bank_account_name, upi_id')
+        .in('id', payable.map(p => p.workerId));
+    if (workersError) throw workersError;
+
+    // Short alphanumeric references, unique across batches: batch prefix + line number
+    const prefix = `LB${batch.id.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+    const rows = payable.map((p, i) => {
+        const worker = (workers || []).find(w => w.id === p.workerId);
+        const mode = transferMode(worker || {}, p.amount);
+        const bank = mode === 'neft' || mode === 'rtgs';
+        return {
+            payment_batch_id: batch.id,
+            worker_id: p.workerId,
+            worker_name: p.name,
+            amount: p.amount,
+            mode,
+            account_number: bank ? worker?.bank_account_number : null,
+            ifsc: bank ? worker?.bank_ifsc?.toUpperCase() : null,
+            account_name: bank ? worker?.bank_account_name || p.name : null,
+            upi_id: mode === 'upi' ? worker?.upi_id : null,
+            reference: `${prefix}${String(i + 1).padStart(3, '0')}`,
+            status: 'pending',
+            created_by: createdBy,
+        };
+    });
+
+    const { data, error } = await supabase.from('payment_lines').insert(rows).select(LINE_COLUMNS);
+    if (error) throw error;
+    return (data || []).sort((a, b) => a.reference.localeCompare(b.reference));
+}
+
+/**
+ * Put failed lines back to pending with the worker's current bank/UPI details, for the next file
+ */
+export async function retryFailedLines(batchId: string, retriedBy: string | null): Promise<number> {
+    const failed = (await loadPaymentLines(batchId)).filter(l => l.status === 'failed' && l.worker_id);
+    if (failed.length === 0) return 0;
+
+    const { data: workers, error: workersError } = await supabase
+        .from('workers')
+        .select('id, bank_account_number, bank_ifsc, bank_account_name, upi_id')
+        .in('id', failed.map(l => l.worker_id));
+    if (workersError) throw workersError;
+
+    const now = new Date().toISOString();
+    for (const line of failed) {
+        const worker: PaymentDetails = (workers || []).find(w => w.id === line.worker_id) || {};
+        const mode = transferMode(worker, line.amount);
+        const bank = mode === 'neft' || mode === 'rtgs';
+        const { error } = await supabase.from('payment_lines').update({
+            mode,
+            account_number: bank ? worker.bank_account_number : null,
+            ifsc: bank ? worker.bank_ifsc?.toUpperCase() : null,
+            account_name: bank ? worker.bank_account_name || line.worker_name : null,
+            upi_id: mode === 'upi' ? worker.upi_id : null,
+            status: 'pending',
+            failure_reason: null,
+            updated_at: now,
+        }).eq('id', line.id);
+        if (error) throw error;
+    }
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'payment_lines',
+        record_id: batchId,
+        action: 'RETRY_FAILED_PAYMENTS',
+        old_values: { failed: failed.length },
+        new_values: { status: 'pending' },
+        changed_by: retriedBy,
+    });
+    return failed.length;
+}
+
+function csvCell(value: string | number | null | undefined): string {
+    const text = value == null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | null | undefined)[][]): string {
+    return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+// DD/MM/YYYY, as bank upload templates expect
+function bankDate(date: string): string {
+    const [y, m, d] = date.split('-');
+    return `${d}/${m}/${y}`;
+}
+
+/**
+ * NEFT/RTGS bulk upload CSV for the lines still to be paid by bank transfer
+ */
+export function neftRtgsCsv(lines: PaymentLine[], valueDate: string, narration: string): string {
+    const rows = lines
+        .filter(l => (l.mode === 'neft' || l.mode === 'rtgs') && l.status !== 'sent')
+        .map(l => [
+            l.mode === 'rtgs' ? 'R' : 'N',
+            l.account_number,
+            l.account_name,
+            l.ifsc,
+            l.amount.toFixed(2),
+            bankDate(valueDate),
+            narration,
+            l.reference,
+        ]);
+    return toCsv([['Payment Type', 'Beneficiary Account No', 'Beneficiary Name', 'IFSC Code', 'Amount', 'Value Date', 'Narration', 'Customer Reference No'], ...rows]);
+}
+
+/**
+ * UPI payout sheet for the lines still to be paid to a UPI ID
+ */
+export function upiPayoutCsv(lines: PaymentLine[], narration: string): string {
+    const rows = lines
+        .filter(l => l.mode === 'upi' && l.status !== 'sent')
+        .map(l => [l.worker_name, l.upi_id, l.amount.toFixed(2), narration, l.reference]);
+    return toCsv([['Beneficiary Name', 'UPI ID', 'Amount', 'Remarks', 'Reference ID'], ...rows]);
+}
+
+/**
+ * Stamp lines as exported (they stay pending until the bank responds)
+ */
+export async function markLinesExported(lines: PaymentLine[], exportedBy: string | null): Promise<void> {
+    if (lines.length === 0) return;
+    const now = new Date().toISOString();
+    const { error } = await supabase
+        .from('payment_lines')
+        .update({ exported_at: now, updated_at: now })
+        .in('id', lines.map(l => l.id));
+    if (error) throw error;
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'payment_lines',
+        record_id: lines[0].payment_batch_id,
+        action: 'EXPORT_PAYMENT_FILE',
+        old_values: null,
+        new_values: { lines: lines.length, amount: lines.reduce((sum, l) => sum + l.amount, 0), modes: Array.from(new Set(lines.map(l => l.mode))) },
+        changed_by: exportedBy,
+    });
+}
+
+/**
+ * Rows of a CSV file; handles quoted cells with commas, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const endRow = () => {
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell || row.length > 0) endRow();
+    return rows.filter(r => r.some(c => c.trim()));
+}
+
+// Failures are checked first: negatives like "Unsuccessful" or "Rejected - Not Credited" contain success words
+const FAILED_STATUS = /fail|reject|return|revers|invalid|error|declin|cancel|\bun(success|paid|processed|credited)|\bnot\s*(success|paid|processed|credited|complete|sent|settled)/i;
+const SENT_STATUS = /^\s*((transaction|txn|payment)\s+)?(success(ful(ly)?)?|paid|processed|credited|completed?|sent|settled)\b/i;
+
+function responseStatus(value: string): LineStatus {
+    if (FAILED_STATUS.test(value)) return 'failed';
+    if (SENT_STATUS.test(value)) return 'sent';
+    return 'pending';
+}
+
+/**
+ * Read a bank response file: columns are found by header (reference, status, UTR, reason),
+ * so response files from different banks work without mapping
+ */
+export function parseBankResponse(text: string): BankResponseRow[] {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const column = (pattern: RegExp) => header.findIndex(h => pattern.test(h.trim()));
+    // Our own reference column first - banks often add their own "Bank Reference"
+    const refCol = [/customer ref|reference id/i, /reference|ref\.? ?no/i].map(column).find(i => i >= 0) ?? -1;
+    const statusCol = column(/status/i);
+    const utrCol = column(/utr|rrn|bank ref|transaction id/i);
+    const reasonCol = column(/reason|remark|description|error/i);
+    if (refCol < 0 || statusCol < 0) throw new Error('Response file needs reference and status columns');
+
+    return rows
+        .map(r => ({
+            reference: (r[refCol] || '').trim(),
+            status: responseStatus(r[statusCol] || ''),
+            utr: utrCol >= 0 && utrCol !== refCol ? (r[utrCol] || '').trim() || null : null,
+            reason: reasonCol >= 0 && reasonCol !== statusCol ? (r[reasonCol] || '').trim() || null : null,
+        }))
+        .filter(r => r.reference);
+}
+
+/**
+ * Update line statuses from a bank response; returns how many lines changed and
+ * references that did not match a line in the batch
+ */
+export async function applyBankResponse(batchId: string, response: BankResponseRow[], importedBy: string | null): Promise<{ updated: number; unmatched: string[] }> {
+    const lines = await loadPaymentLines(batchId);
+    const byReference = Object.fromEntries(lines.map(l => [l.reference, l]));
+    const unmatched: string[] = [];
+    let updated = 0;
+    const now = new Date().toISOString();
+
+    for (const row of response) {
+        const line = byReference[row.reference];
+        if (!line) {
+            unmatched.push(row.reference);
+            continue;
+        }
+        if (row.status === 'pending' || (line.status === row.status && !row.utr)) continue;
+        const { error } = await supabase
+            .from('payment_lines')
+            .update({
+                status: row.status,
+                utr: row.utr || line.utr,
+                failure_reason: row.status === 'failed' ? row.reason : null,
+                updated_at: now,
+            })
+            .eq('id', line.id);
+        if (error) throw error;
+        updated++;
+    }
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'payment_lines',
+        record_id: batchId,
+        action: 'IMPORT_BANK_RESPONSE',
+        old_values: null,
+        new_values: {
+            rows: response.length,
+            updated,
+            sent: response.filter(r => r.status === 'sent').length,
+            failed: response.filter(r => r.status === 'failed').length,
+            unmatched: unmatched.length,
+        },
+        changed_by: importedBy,
+    });
+
+    return { updated, unmatched };
+}
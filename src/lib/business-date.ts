@@ -0,0 +1,182 @@
+/**
+ * Business date utilities for LaborOS
+ * Attendance dates are calendar days in the site's timezone, not UTC.
+ * Overnight shifts (e.g. 22:00 - 06:00) keep the date the shift started on.
+ */
+
+import { supabase } from './supabase';
+
+// Sites without a timezone are treated as IST
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+// Timezones offered in site settings
+export const SITE_TIMEZONES = ['Asia/Kolkata', 'Asia/Kathmandu', 'Asia/Dhaka', 'Asia/Dubai', 'Asia/Riyadh', 'Asia/Singapore', 'UTC'];
+
+export interface ShiftWindow {
+    start_time: string; // "HH:MM" or "HH:MM:SS"
+    end_time: string;
+}
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + (m || 0);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) and minutes since midnight in a timezone
+ */
+export function zonedParts(at: Date, timeZone: string = DEFAULT_TIMEZONE): { date: string; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone, year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }).formatToParts(at);
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+    return {
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+        minutes: parseInt(get('hour')) * 60 + parseInt(get('minute')),
+    };
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+/**
+ * First day of the month for a YYYY-MM-DD date
+ */
+export function monthStart(date: string): string {
+    return `${date.slice(0, 8)}01`;
+}
+
+/**
+ * Instant at which a local wall-clock time occurs on a date in a timezone
+ */
+export function zonedDateTime(date: string, time: string, timeZone: string = DEFAULT_TIMEZONE): Date {
+    const [y, mo, d] = date.split('-').map(Number);
+    const guess = Date.UTC(y, mo - 1, d, 0, timeToMinutes(time));
+    const local = zonedParts(new Date(guess), timeZone);
+    const [ly, lmo, ld] = local.date.split('-').map(Number);
+    const offset = Date.UTC(ly, lmo - 1, ld, 0, local.minutes) - guess;
+    return new Date(guess - offset);
+}
+
+export function isOvernightShift(shift: ShiftWindow): boolean {
+    return timeToMinutes(shift.end_time) <= timeToMinutes(shift.start_time);
+}
+
+/**
+ * Local time of day at which a shift's business day starts.
+ * Midnight for day shifts; for overnight shifts, the middle of the off-duty gap,
+ * so a 02:00 check-out still belongs to the shift that started the evening before.
+ */
+export function dayBoundaryMinutes(shift?: ShiftWindow | null): number {
+    if (!shift || !isOvernightShift(shift)) return 0;
+    const end = timeToMinutes(shift.end_time);
+    const start = timeToMinutes(shift.start_time);
+    return Math.round((end + start) / 2);
+}
+
+/**
+ * Instant the business day for `date` ends, i.e. when the next one starts
+ */
+export function businessDayEnd(date: string, timeZone: string = DEFAULT_TIMEZONE, shift?: ShiftWindow | null): Date {
+    const boundary = dayBoundaryMinutes(shift);
+    return zonedDateTime(addDays(date, 1), `${Math.floor(boundary / 60)}:${boundary % 60}`, timeZone);
+}
+
+/**
+ * Attendance date for a moment in time at a site, optionally for a worker's shift
+ */
+export function businessDate(
+    at: Date = new Date(),
+    timeZone: string = DEFAULT_TIMEZONE,
+    shift?: ShiftWindow | null
+): string {
+    const { date, minutes } = zonedParts(at, timeZone);
+    return minutes < dayBoundaryMinutes(shift) ? addDays(date, -1) : date;
+}
+
+/**
+ * Site timezones, shift windows and rostered shifts needed to date attendance per worker
+ */
+export interface BusinessCalendar {
+    timezones: Record<string, string>; // site_id -> IANA timezone
+    shifts: Record<number, ShiftWindow>;
+    roster: Record<string, number | null>; // `${worker_id}|${date}` -> shift_id (null = day off)
+}
+
+export const EMPTY_CALENDAR: BusinessCalendar = { timezones: {}, shifts: {}, roster: {} };
+
+/**
+ * Roster entries keyed the way BusinessCalendar.roster expects
+ */
+export function rosterMap(entries: { worker_id: string; date: string; shift_id: number | null }[]): Record<string, number | null> {
+    return Object.fromEntries(entries.map(e => [`${e.worker_id}|${e.date}`, e.shift_id]));
+}
+
+/**
+ * Calendar with roster entries from yesterday to tomorrow (enough to date any scan today)
+ */
+export async function loadBusinessCalendar(): Promise<BusinessCalendar> {
+    const today = businessDate();
+    const [sitesRes, shiftsRes, rosterRes] = await Promise.all([
+        supabase.from('sites').select('id, timezone'),
+        supabase.from('shifts').select('id, start_time, end_time'),
+        supabase.from('shift_roster').select('worker_id, date, shift_id').gte('date', addDays(today, -1)).lte('date', addDays(today, 1)),
+    ]);
+    if (sitesRes.error) console.error('Error loading site timezones:', sitesRes.error);
+    if (shiftsRes.error) console.error('Error loading shifts:', shiftsRes.error);
+    if (rosterRes.error) console.error('Error loading roster:', rosterRes.error);
+    return {
+        timezones: Object.fromEntries((sitesRes.data || []).map(s => [s.id, s.timezone || DEFAULT_TIMEZONE])),
+        shifts: Object.fromEntries((shiftsRes.data || []).map(s => [s.id, s])),
+        roster: rosterMap(rosterRes.data || []),
+    };
+}
+
+/**
+ * Today's business date at a site
+ */
+export function siteBusinessDate(calendar: BusinessCalendar, siteId?: string | null, at: Date = new Date()): string {
+    return businessDate(at, (siteId && calendar.timezones[siteId]) || DEFAULT_TIMEZONE);
+}
+
+type CalendarWorker = { id?: string; site_id?: string | null; shift_id?: number | null } | null | undefined;
+
+/**
+ * Shift a worker works on an attendance date: the roster entry when there is one,
+ * otherwise their default shift
+ */
+export function workerShiftId(calendar: BusinessCalendar, worker: CalendarWorker, date: string): number | null {
+    const key = `${worker?.id}|${date}`;
+    if (worker?.id && key in calendar.roster) return calendar.roster[key];
+    return worker?.shift_id || null;
+}
+
+export function workerShift(calendar: BusinessCalendar, worker: CalendarWorker, date: string): ShiftWindow | null {
+    const shiftId = workerShiftId(calendar, worker, date);
+    return shiftId ? calendar.shifts[shiftId] || null : null;
+}
+
+/**
+ * Attendance date for a worker: their site's timezone and the day boundary of the shift
+ * they worked yesterday (an overnight shift keeps them on yesterday's date until it ends).
+ * Workers without a site use `fallbackSiteId` (e.g. the scanning manager's site).
+ */
+export function workerBusinessDate(
+    calendar: BusinessCalendar,
+    worker: CalendarWorker,
+    at: Date = new Date(),
+    fallbackSiteId?: string | null
+): string {
+    const siteId = worker?.site_id || fallbackSiteId;
+    const timeZone = (siteId && calendar.timezones[siteId]) || DEFAULT_TIMEZONE;
+    const { date, minutes } = zonedParts(at, timeZone);
+    const yesterday = addDays(date, -1);
+    return minutes < dayBoundaryMinutes(workerShift(calendar, worker, yesterday)) ? yesterday : date;
+}
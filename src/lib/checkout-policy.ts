@@ -0,0 +1,49 @@
+/**
+ * Checkout policy for LaborOS
+ * How short a day may be before checkout is refused, needs a confirming scan,
+ * or counts as a half-day. Configured per shift; unassigned workers get the defaults.
+ */
+
+import type { PunchSummary } from './punches';
+
+export interface CheckoutPolicy {
+    min_checkout_minutes: number | null;     // Checkout refused below this
+    confirm_checkout_minutes: number | null; // Second scan needed below this
+    half_day_minutes: number | null;         // Status becomes half-day below this
+}
+
+export const DEFAULT_CHECKOUT_POLICY = { min_checkout_minutes: 60, confirm_checkout_minutes: 240, half_day_minutes: 240 };
+
+// How long the confirming scan is accepted after the warning
+export const CHECKOUT_CONFIRM_SECONDS = 30;
+
+export type CheckoutDecision = 'refuse' | 'confirm' | 'allow';
+
+/**
+ * Policy with defaults filled in for unset columns or a missing shift
+ */
+export function resolveCheckoutPolicy(policy?: Partial<CheckoutPolicy> | null): typeof DEFAULT_CHECKOUT_POLICY {
+    return {
+        min_checkout_minutes: policy?.min_checkout_minutes ?? DEFAULT_CHECKOUT_POLICY.min_checkout_minutes,
+        confirm_checkout_minutes: policy?.confirm_checkout_minutes ?? DEFAULT_CHECKOUT_POLICY.confirm_checkout_minutes,
+        half_day_minutes: policy?.half_day_minutes ?? DEFAULT_CHECKOUT_POLICY.half_day_minutes,
+    };
+}
+
+/**
+ * What a checkout scan should do after `workedMinutes` today
+ */
+export function checkoutDecision(workedMinutes: number, policy?: Partial<CheckoutPolicy> | null): CheckoutDecision {
+    const rules = resolveCheckoutPolicy(policy);
+    if (workedMinutes < rules.min_checkout_minutes) return 'refuse';
+    if (workedMinutes < rules.confirm_checkout_minutes) return 'confirm';
+    return 'allow';
+}
+
+/**
+ * Attendance status once the worker is out; null while still inside
+ */
+export function checkoutStatus(summary: PunchSummary, policy?: Partial<CheckoutPolicy> | null): 'present' | 'half-day' | null {
+    if (summary.isIn || !summary.lastOut) return null;
+    return summary.workedMinutes < resolveCheckoutPolicy(policy).half_day_minutes ? 'half-day' : 'present';
+}
@@ -1,13 +1,17 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { supabase, Worker, AttendanceLog } from '@/lib/supabase';
+import { supabase, Worker, AttendanceLog, WORKER_COLUMNS } from '@/lib/supabase';
+import { businessDate, siteBusinessDate, DEFAULT_TIMEZONE, EMPTY_CALENDAR } from './business-date';
+import { loadHolidayCalendar, dayOff, HolidayCalendar, EMPTY_HOLIDAY_CALENDAR } from './holidays';
 
 interface DashboardData {
     workers: Worker[];
     todayLogs: AttendanceLog[];
     sites: any[];
     expenses: any[];
+    holidayCalendar: HolidayCalendar;
+    currentDate: string; // Today in the viewer's site timezone, as the scanner dates it
     loading: boolean;
     refresh: () => Promise<void>;
 }
@@ -19,23 +23,36 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
     const [todayLogs, setTodayLogs] = useState<AttendanceLog[]>([]);
     const [sites, setSites] = useState<any[]>([]);
     const [expenses, setExpenses] = useState<any[]>([]);
+    const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(EMPTY_HOLIDAY_CALENDAR);
+    const [currentDate, setCurrentDate] = useState(businessDate());
     const [loading, setLoading] = useState(true);
 
-    const currentDate = new Date().toISOString().split('T')[0];
-
     const loadData = async () => {
         try {
-            const [workersRes, logsRes, sitesRes, expensesRes] = await Promise.all([
-                supabase.from('workers').select('*').order('name'),
-                supabase.from('attendance_logs').select('*, workers(name, photo_url)').eq('date', currentDate).order('check_in_time', { ascending: false }),
+            // "Today" follows the viewer's site timezone, the same date the scanner uses
+            const { data: { session } } = await supabase.auth.getSession();
+            const [sitesRes, profileRes] = await Promise.all([
                 supabase.from('sites').select('*').order('name'),
-                supabase.from('expenses').select('*').eq('date', currentDate).order('created_at', { ascending: false }),
+                session?.user
+                    ? supabase.from('profiles').select('assigned_site_id').eq('id', session.user.id).maybeSingle()
+                    : Promise.resolve({ data: null }),
+            ]);
+            const timezones = Object.fromEntries((sitesRes.data || []).map(s => [s.id, s.timezone || DEFAULT_TIMEZONE]));
+            const today = siteBusinessDate({ ...EMPTY_CALENDAR, timezones }, profileRes.data?.assigned_site_id);
+
+            const [workersRes, logsRes, expensesRes, calendar] = await Promise.all([
+                supabase.from('workers').select(WORKER_COLUMNS).order('name'),
+                supabase.from('attendance_logs').select('*, workers(name, photo_url)').eq('date', today).order('check_in_time', { ascending: false }),
+                supabase.from('expenses').select('*').eq('date', today).order('created_at', { ascending: false }),
+                loadHolidayCalendar(today, today),
             ]);
 
+            setCurrentDate(today);
             setWorkers(workersRes.data || []);
             setTodayLogs(logsRes.data || []);
             setSites(sitesRes.data || []);
             setExpenses(expensesRes.data || []);
+            setHolidayCalendar(calendar);
         } catch (err) {
             console.error('Error loading dashboard data:', err);
         } finally {
@@ -74,7 +91,7 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
     }, []);
 
     return (
-        <DashboardContext.Provider value={{ workers, todayLogs, sites, expenses, loading, refresh: loadData }}>
+        <DashboardContext.Provider value={{ workers, todayLogs, sites, expenses, holidayCalendar, currentDate, loading, refresh: loadData }}>
             {children}
         </DashboardContext.Provider>
     );
@@ -85,7 +102,7 @@ export function useDashboardData() {
     if (!context) {
         // Return safe defaults
         return {
-            workers: [], todayLogs: [], sites: [], expenses: [], loading: false, refresh: async () => { },
+            workers: [], todayLogs: [], sites: [], expenses: [], holidayCalendar: EMPTY_HOLIDAY_CALENDAR, currentDate: businessDate(), loading: false, refresh: async () => { },
         };
     }
     return context;
@@ -93,12 +110,15 @@ export function useDashboardData() {
 
 // Quick stats hook
 export function useDashboardStats() {
-    const { workers, todayLogs, expenses } = useDashboardData();
+    const { workers, todayLogs, expenses, holidayCalendar, currentDate } = useDashboardData();
 
     const presentCount = todayLogs.filter(l => l.check_in_time && !l.check_out_time).length;
     const leftCount = todayLogs.filter(l => l.check_out_time).length;
-    // Active workers who have NOT checked in yet = Absent
-    const absentCount = workers.filter(w => w.is_active).length - todayLogs.filter(l => l.check_in_time).length;
+    // Active workers who have NOT checked in yet and are not off or on leave today = Absent
+    const checkedIn = new Set(todayLogs.filter(l => l.check_in_time).map(l => l.worker_id));
+    const onLeave = new Set(todayLogs.filter(l => l.status === 'leave' && !l.check_in_time).map(l => l.worker_id));
+    const notCheckedIn = workers.filter(w => w.is_active && !checkedIn.has(w.id) && !onLeave.has(w.id));
+    const absentWorkers = notCheckedIn.filter(w => !dayOff(holidayCalendar, w, currentDate));
 
     // Sum amount (handle nulls)
     const todayExpenses = expenses.reduce((sum, e) => sum + (Number(e.amount) || 0), 0);
@@ -108,7 +128,10 @@ export function useDashboardStats() {
         activeWorkers: workers.filter(w => w.is_active).length,
         presentCount,
         leftCount,
-        absentCount: Math.max(0, absentCount), // Ensure non-negative
+        absentCount: absentWorkers.length,
+        absentWorkers,
+        offCount: notCheckedIn.length - absentWorkers.length,
+        onLeaveCount: onLeave.size,
         todayExpenses,
     };
 }
@@ -0,0 +1,118 @@
+/**
+ * Face template gallery for LaborOS
+ * Each worker keeps several face templates (pose, quality, capture date)
+ * and matching uses the closest template instead of one averaged vector
+ */
+
+import { supabase } from './supabase';
+import { checkImageQuality, qualityScore } from './face-quality';
+import { uploadFaceTemplatePhoto } from './storage-utils';
+import type { DuplicateMatch, HeadPose, WorkerWithDescriptor } from './face-utils';
+
+// Readable template columns; the descriptor is write-only for API users
+export interface FaceTemplate {
+    id: string;
+    worker_id: string;
+    pose: HeadPose | null;
+    quality: number | null;
+    photo_url: string | null;
+    captured_at: string;
+}
+
+// A descriptor from the site's offline gallery (site_face_gallery RPC)
+export interface GalleryDescriptor {
+    worker_id: string;
+    descriptor: number[];
+}
+
+export interface NewFaceTemplate {
+    descriptor: Float32Array;
+    pose: HeadPose;
+    photoUrl: string | null; // Cropped face used for quality scoring and review
+}
+
+const TEMPLATE_COLUMNS = 'id, worker_id, pose, quality, photo_url, captured_at';
+
+/**
+ * Load templates, optionally for a single worker
+ */
+export async function loadFaceTemplates(workerId?: string): Promise<FaceTemplate[]> {
+    let query = supabase.from('face_templates').select(TEMPLATE_COLUMNS).order('captured_at', { ascending: false });
+    if (workerId) query = query.eq('worker_id', workerId);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading face templates:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Save captured templates for a worker, scoring each photo's quality.
+ * Photos go to storage; the table keeps only their URL.
+ */
+export async function saveFaceTemplates(workerId: string, templates: NewFaceTemplate[]): Promise<void> {
+    if (templates.length === 0) return;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const rows = await Promise.all(templates.map(async (t, i) => ({
+        worker_id: workerId,
+        descriptor: Array.from(t.descriptor),
+        pose: t.pose,
+        quality: t.photoUrl ? qualityScore(await checkImageQuality(t.photoUrl)) : null,
+        photo_url: t.photoUrl?.startsWith('data:') ? await uploadFaceTemplatePhoto(t.photoUrl, workerId, i) : t.photoUrl,
+        created_by: session?.user.id || null,
+    })));
+
+    const { error } = await supabase.from('face_templates').insert(rows);
+    if (error) throw error;
+}
+
+/**
+ * Remove a single template from a worker's gallery
+ */
+export async function deleteFaceTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase.from('face_templates').delete().eq('id', templateId);
+    if (error) throw error;
+}
+
+/**
+ * Attach gallery descriptors to workers for findBestMatch
+ */
+export function attachTemplates(
+    workers: WorkerWithDescriptor[],
+    templates: GalleryDescriptor[]
+): WorkerWithDescriptor[] {
+    const byWorker = new Map<string, number[][]>();
+    for (const t of templates) {
+        if (t.descriptor?.length !== 128) continue;
+        byWorker.set(t.worker_id, [...(byWorker.get(t.worker_id) || []), t.descriptor]);
+    }
+    return workers.map(w => ({ ...w, templates: byWorker.get(w.id) || [] }));
+}
+
+/**
+ * Audit an admin's decision to enroll a worker despite a duplicate-face match
+ */
+export async function logDuplicateOverride(
+    newWorkerId: string,
+    match: DuplicateMatch,
+    source: 'admin' | 'scanner'
+): Promise<void> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const { error } = await supabase.from('audit_logs').insert({
+        table_name: 'workers',
+        record_id: newWorkerId,
+        action: 'DUPLICATE_OVERRIDE',
+        new_values: {
+            matched_worker_id: match.worker.id,
+            matched_worker_name: match.worker.name,
+            matched_worker_number: match.worker.worker_number || null,
+            distance: Number(match.distance.toFixed(4)),
+            source,
+        },
+        changed_by: session?.user.id,
+    });
+    if (error) console.error('Failed to audit duplicate override:', error);
+}
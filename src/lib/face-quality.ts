@@ -84,6 +84,16 @@ export async function checkImageQuality(imageBase64: string): Promise<QualityRes
     });
 }
 
+/**
+ * Collapse a quality check into a single 0-1 score
+ * (well-exposed + sharp = high, each reported issue costs 0.2)
+ */
+export function qualityScore(quality: QualityResult): number {
+    const exposure = 1 - Math.min(Math.abs(quality.brightness - 0.5) * 2, 1);
+    const score = exposure * 0.5 + quality.sharpness * 0.5 - quality.issues.length * 0.2;
+    return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+}
+
 /**
  * Average multiple face descriptors for multi-angle enrollment
  */
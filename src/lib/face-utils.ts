@@ -1,5 +1,8 @@
 // Face detection and recognition utilities using face-api.js
 // Only import on client side to avoid SSG/SSR issues with tfjs-node
+import type { FaceLandmarks68, Box } from '@vladmandic/face-api';
+import { supabase } from './supabase';
+
 let faceapi: typeof import('@vladmandic/face-api') | null = null;
 
 if (typeof window !== 'undefined') {
@@ -94,6 +97,77 @@ export async function detectFaceBox(videoElement: HTMLVideoElement): Promise<Fac
     }
 }
 
+// Padded square-ish region around a detected face, clamped to the image
+export function faceCropBox(box: Box, imageWidth: number, imageHeight: number) {
+    const padding = Math.max(box.width, box.height) * 0.4;
+
+    const x = Math.max(0, box.x - padding);
+    const y = Math.max(0, box.y - padding);
+    const width = Math.min(imageWidth - x, box.width + padding * 2);
+    const height = Math.min(imageHeight - y, box.height + padding * 2);
+    return { x, y, width, height };
+}
+
+// Draw the crop region into a 200x200 circular mask
+export function drawCircularFace(
+    ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+    image: CanvasImageSource,
+    crop: { x: number; y: number; width: number; height: number }
+) {
+    // Circular mask
+    ctx.beginPath();
+    ctx.arc(100, 100, 100, 0, Math.PI * 2);
+    ctx.closePath();
+    ctx.clip();
+
+    // Draw centered face
+    const centerX = crop.x + crop.width / 2;
+    const centerY = crop.y + crop.height / 2;
+    const cropSize = Math.max(crop.width, crop.height);
+
+    ctx.drawImage(
+        image,
+        centerX - cropSize / 2, centerY - cropSize / 2, cropSize, cropSize,
+        0, 0, 200, 200
+    );
+}
+
+// Check if face is frontal using landmarks
+// Compare nose position relative to eyes - if nose is centered, face is frontal
+export function analyzeFacePose(landmarks: FaceLandmarks68): Pick<FaceDetectionResult, 'isFrontalFace' | 'headPose' | 'faceAngle'> {
+    const leftEye = landmarks.getLeftEye();
+    const rightEye = landmarks.getRightEye();
+    const nose = landmarks.getNose();
+
+    // Get center points
+    const leftEyeCenter = leftEye.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    leftEyeCenter.x /= leftEye.length;
+    leftEyeCenter.y /= leftEye.length;
+
+    const rightEyeCenter = rightEye.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    rightEyeCenter.x /= rightEye.length;
+    rightEyeCenter.y /= rightEye.length;
+
+    const noseTip = nose[nose.length - 1]; // Bottom of nose
+    const eyesCenterX = (leftEyeCenter.x + rightEyeCenter.x) / 2;
+    const eyeDistance = Math.abs(rightEyeCenter.x - leftEyeCenter.x);
+
+    // Calculate nose offset from center (negative = left, positive = right)
+    const noseOffsetRaw = noseTip.x - eyesCenterX;
+    const noseOffset = Math.abs(noseOffsetRaw);
+    const faceAngle = Math.round((noseOffsetRaw / eyeDistance) * 100); // -100 to +100
+
+    // Check if frontal (centered)
+    const isFrontalFace = noseOffset < eyeDistance * 0.40; // 40% tolerance (relaxed)
+
+    // Determine head pose
+    let headPose: HeadPose = 'center';
+    if (faceAngle < -15) headPose = 'left'; // Lowered threshold from 20 to 15
+    else if (faceAngle > 15) headPose = 'right';
+
+    return { isFrontalFace, headPose, faceAngle };
+}
+
 // Detect face from base64 image - VERY LENIENT for various conditions
 export async function detectFaceFromBase64(base64Image: string): Promise<FaceDetectionResult | null> {
     return new Promise((resolve) => {
@@ -116,71 +190,17 @@ export async function detectFaceFromBase64(base64Image: string): Promise<FaceDet
                 }
 
                 // Get face bounding box with generous padding
-                const box = detection.detection.box;
-                const padding = Math.max(box.width, box.height) * 0.4;
-
-                const x = Math.max(0, box.x - padding);
-                const y = Math.max(0, box.y - padding);
-                const width = Math.min(img.width - x, box.width + padding * 2);
-                const height = Math.min(img.height - y, box.height + padding * 2);
+                const crop = faceCropBox(detection.detection.box, img.width, img.height);
 
                 // Create circular cropped face
                 const canvas = document.createElement('canvas');
                 canvas.width = 200;
                 canvas.height = 200;
-                const ctx = canvas.getContext('2d')!;
-
-                // Circular mask
-                ctx.beginPath();
-                ctx.arc(100, 100, 100, 0, Math.PI * 2);
-                ctx.closePath();
-                ctx.clip();
-
-                // Draw centered face
-                const centerX = x + width / 2;
-                const centerY = y + height / 2;
-                const cropSize = Math.max(width, height);
-
-                ctx.drawImage(
-                    img,
-                    centerX - cropSize / 2, centerY - cropSize / 2, cropSize, cropSize,
-                    0, 0, 200, 200
-                );
+                drawCircularFace(canvas.getContext('2d')!, img, crop);
 
                 const croppedFace = canvas.toDataURL('image/jpeg', 0.9);
 
-                // Check if face is frontal using landmarks
-                // Compare nose position relative to eyes - if nose is centered, face is frontal
-                const landmarks = detection.landmarks;
-                const leftEye = landmarks.getLeftEye();
-                const rightEye = landmarks.getRightEye();
-                const nose = landmarks.getNose();
-
-                // Get center points
-                const leftEyeCenter = leftEye.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
-                leftEyeCenter.x /= leftEye.length;
-                leftEyeCenter.y /= leftEye.length;
-
-                const rightEyeCenter = rightEye.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
-                rightEyeCenter.x /= rightEye.length;
-                rightEyeCenter.y /= rightEye.length;
-
-                const noseTip = nose[nose.length - 1]; // Bottom of nose
-                const eyesCenterX = (leftEyeCenter.x + rightEyeCenter.x) / 2;
-                const eyeDistance = Math.abs(rightEyeCenter.x - leftEyeCenter.x);
-
-                // Calculate nose offset from center (negative = left, positive = right)
-                const noseOffsetRaw = noseTip.x - eyesCenterX;
-                const noseOffset = Math.abs(noseOffsetRaw);
-                const faceAngle = Math.round((noseOffsetRaw / eyeDistance) * 100); // -100 to +100
-
-                // Check if frontal (centered)
-                const isFrontalFace = noseOffset < eyeDistance * 0.40; // 40% tolerance (relaxed)
-
-                // Determine head pose
-                let headPose: 'left' | 'center' | 'right' = 'center';
-                if (faceAngle < -15) headPose = 'left'; // Lowered threshold from 20 to 15
-                else if (faceAngle > 15) headPose = 'right';
+                const { isFrontalFace, headPose, faceAngle } = analyzeFacePose(detection.landmarks);
 
                 console.log(`✓ Face detected (pose: ${headPose}, angle: ${faceAngle}%, frontal: ${isFrontalFace})`);
                 resolve({
@@ -212,9 +232,14 @@ export async function getFaceDescriptorFromBase64(base64Image: string): Promise<
 }
 
 // Calculate euclidean distance between descriptors
+// Plain math (no face-api) so matching also runs inside the face worker
 export function getFaceDistance(d1: Float32Array, d2: Float32Array): number {
-    if (!faceapi) throw new Error('Face API not loaded');
-    return faceapi.euclideanDistance(d1, d2);
+    let sum = 0;
+    for (let i = 0; i < d1.length; i++) {
+        const diff = d1[i] - d2[i];
+        sum += diff * diff;
+    }
+    return Math.sqrt(sum);
 }
 
 // Worker interface
@@ -224,6 +249,13 @@ export interface WorkerWithDescriptor {
     face_descriptor: number[] | null;
     photo_url: string | null;
     worker_number?: string | null; // Employee code
+    templates?: number[][];        // Gallery descriptors (face_templates)
+}
+
+// All 128-dim descriptors known for a worker: legacy face_descriptor + gallery
+function workerDescriptors(worker: WorkerWithDescriptor): number[][] {
+    return [worker.face_descriptor, ...(worker.templates || [])]
+        .filter((d): d is number[] => !!d && d.length === 128);
 }
 
 // THRESHOLD: 0.55 for balanced accuracy
@@ -231,42 +263,193 @@ export interface WorkerWithDescriptor {
 // Higher = more lenient (more false positives)
 const MATCH_THRESHOLD = 0.55;
 
+// Minimum gap between the best and second-best distance.
+// Closer than this = look-alikes (e.g. brothers on the same gang), reject the match
+export const MATCH_MARGIN = 0.05;
+
+// How many ranked candidates to keep for investigation
+const MATCH_CANDIDATES = 3;
+
+// Ranked candidate stored on the attendance record (match_candidates)
+export interface MatchCandidate {
+    worker_id: string;
+    name: string;
+    distance: number;
+}
+
+export interface MatchResult {
+    worker: WorkerWithDescriptor;
+    similarity: number;
+    distance: number;
+    candidates: MatchCandidate[]; // Top-N closest workers, best first
+    ambiguous: boolean;           // Runner-up within the margin - caller must not accept
+}
+
 export async function findBestMatch(
     capturedDescriptor: Float32Array,
     workers: WorkerWithDescriptor[],
-    threshold: number = MATCH_THRESHOLD
-): Promise<{ worker: WorkerWithDescriptor; similarity: number; distance: number } | null> {
-    let bestMatch: WorkerWithDescriptor | null = null;
-    let bestDistance = Infinity;
-
+    threshold: number = MATCH_THRESHOLD,
+    minMargin: number = MATCH_MARGIN,
+    topN: number = MATCH_CANDIDATES
+): Promise<MatchResult | null> {
     // Filter workers with valid 128-dim descriptors
-    const validWorkers = workers.filter(w => w.face_descriptor && w.face_descriptor.length === 128);
+    const validWorkers = workers.filter(w => workerDescriptors(w).length > 0);
 
     console.log(`Comparing against ${validWorkers.length} workers with face data`);
 
-    for (const worker of validWorkers) {
-        const workerDescriptor = new Float32Array(worker.face_descriptor!);
-        const distance = getFaceDistance(capturedDescriptor, workerDescriptor);
-
+    const ranked = validWorkers.map(worker => {
+        // Closest template wins (helmet, beard, sunburn variants)
+        const distance = Math.min(...workerDescriptors(worker).map(d =>
+            getFaceDistance(capturedDescriptor, new Float32Array(d))
+        ));
         console.log(`  ${worker.name}: distance ${distance.toFixed(3)}`);
+        return { worker, distance };
+    }).sort((a, b) => a.distance - b.distance);
+
+    return rankedToMatch(ranked, threshold, minMargin, topN);
+}
 
-        if (distance < bestDistance) {
-            bestDistance = distance;
-            bestMatch = worker;
+// Apply threshold + ambiguity margin to workers sorted by distance (closest first)
+function rankedToMatch(
+    ranked: { worker: WorkerWithDescriptor; distance: number }[],
+    threshold: number,
+    minMargin: number,
+    topN: number
+): MatchResult | null {
+    const best = ranked[0];
+    const candidates: MatchCandidate[] = ranked.slice(0, topN).map(r => ({
+        worker_id: r.worker.id,
+        name: r.worker.name,
+        distance: Number(r.distance.toFixed(4)),
+    }));
+
+    // Only return if within threshold
+    if (best && best.distance <= threshold) {
+        const similarity = Math.max(0, 1 - best.distance / threshold);
+        const margin = ranked[1] ? ranked[1].distance - best.distance : Infinity;
+        const ambiguous = margin < minMargin;
+
+        if (ambiguous) {
+            console.log(`✗ Ambiguous: ${best.worker.name} vs ${ranked[1].worker.name} (margin: ${margin.toFixed(3)}, required: ${minMargin})`);
+        } else {
+            console.log(`✓ Match: ${best.worker.name} (distance: ${best.distance.toFixed(3)}, ${(similarity * 100).toFixed(0)}%)`);
         }
+        return { worker: best.worker, similarity, distance: best.distance, candidates, ambiguous };
     }
 
-    // Only return if within threshold
-    if (bestMatch && bestDistance <= threshold) {
-        const similarity = Math.max(0, 1 - bestDistance / threshold);
-        console.log(`✓ Match: ${bestMatch.name} (distance: ${bestDistance.toFixed(3)}, ${(similarity * 100).toFixed(0)}%)`);
-        return { worker: bestMatch, similarity, distance: bestDistance };
+    console.log(`✗ No match (best: ${best?.worker.name || 'none'} at ${best?.distance.toFixed(3) ?? '-'}, threshold: ${threshold})`);
+    return null;
+}
+
+// Row returned by the match_face RPC
+interface RemoteMatchRow {
+    worker_id: string;
+    name: string;
+    worker_number: string | null;
+    distance: number;
+}
+
+// Nearest-neighbour search in Postgres (pgvector) - only the probe descriptor leaves the device.
+// match_face scopes to the caller's site (every site for admins/owners); find_duplicate_face
+// searches every site and is refused by the server for anyone but admins/owners.
+async function matchFaceRemote(descriptor: Float32Array, matchCount: number, rpc: 'match_face' | 'find_duplicate_face' = 'match_face'): Promise<RemoteMatchRow[]> {
+    const { data, error } = await supabase.rpc(rpc, {
+        probe: JSON.stringify(Array.from(descriptor)),
+        match_count: matchCount,
+    });
+    if (error) throw error;
+    return data || [];
+}
+
+function remoteWorker(row: RemoteMatchRow): WorkerWithDescriptor {
+    return { id: row.worker_id, name: row.name, worker_number: row.worker_number, face_descriptor: null, photo_url: null };
+}
+
+// Server-side findBestMatch: same threshold/margin rules, no templates downloaded
+export async function findBestMatchRemote(
+    capturedDescriptor: Float32Array,
+    threshold: number = MATCH_THRESHOLD,
+    minMargin: number = MATCH_MARGIN,
+    topN: number = MATCH_CANDIDATES
+): Promise<MatchResult | null> {
+    const rows = await matchFaceRemote(capturedDescriptor, topN);
+    console.log(`Server match returned ${rows.length} candidates`);
+    return rankedToMatch(rows.map(r => ({ worker: remoteWorker(r), distance: r.distance })), threshold, minMargin, topN);
+}
+
+// Closer than this to an existing worker = probably the same person enrolled twice
+// (enrollment_duplicate_face applies the same limit on the server)
+const DUPLICATE_THRESHOLD = 0.5;
+
+export interface DuplicateMatch {
+    worker: WorkerWithDescriptor;
+    distance: number;
+}
+
+// Compare every captured descriptor against every stored descriptor of every worker.
+// Returns the closest worker under the threshold (ghost-worker check at enrollment).
+export function findDuplicateWorker(
+    capturedDescriptors: Float32Array[],
+    workers: WorkerWithDescriptor[],
+    threshold: number = DUPLICATE_THRESHOLD
+): DuplicateMatch | null {
+    let closest: DuplicateMatch | null = null;
+
+    for (const worker of workers) {
+        for (const stored of workerDescriptors(worker)) {
+            const storedDescriptor = new Float32Array(stored);
+            for (const captured of capturedDescriptors) {
+                const distance = getFaceDistance(captured, storedDescriptor);
+                if (!closest || distance < closest.distance) closest = { worker, distance };
+            }
+        }
     }
 
-    console.log(`✗ No match (best: ${bestMatch?.name || 'none'} at ${bestDistance.toFixed(3)}, threshold: ${threshold})`);
+    if (closest && closest.distance <= threshold) {
+        console.log(`⚠ Possible duplicate: ${closest.worker.name} (distance: ${closest.distance.toFixed(3)})`);
+        return closest;
+    }
     return null;
 }
 
+// Server-side duplicate check (closest worker to any captured pose).
+// allSites (admins/owners only) checks every site, otherwise the caller's own site;
+// excludeWorkerId skips the worker being edited.
+export async function findDuplicateWorkerRemote(
+    capturedDescriptors: Float32Array[],
+    threshold: number = DUPLICATE_THRESHOLD,
+    allSites = true,
+    excludeWorkerId?: string
+): Promise<DuplicateMatch | null> {
+    let closest: DuplicateMatch | null = null;
+
+    for (const captured of capturedDescriptors) {
+        const rows = await matchFaceRemote(captured, excludeWorkerId ? 2 : 1, allSites ? 'find_duplicate_face' : 'match_face');
+        const row = rows.find(r => r.worker_id !== excludeWorkerId);
+        if (row && (!closest || row.distance < closest.distance)) closest = { worker: remoteWorker(row), distance: row.distance };
+    }
+
+    return closest && closest.distance <= threshold ? closest : null;
+}
+
+// Enrollment duplicate check for any role: every site, server-side. The server only answers
+// with a worker inside its duplicate threshold, never descriptors. Errors are thrown so the
+// caller can refuse to enroll without a check.
+export async function findEnrollmentDuplicateRemote(capturedDescriptors: Float32Array[]): Promise<DuplicateMatch | null> {
+    let closest: DuplicateMatch | null = null;
+
+    for (const captured of capturedDescriptors) {
+        const { data, error } = await supabase.rpc('enrollment_duplicate_face', {
+            probe: JSON.stringify(Array.from(captured)),
+        });
+        if (error) throw error;
+        const row = ((data || []) as RemoteMatchRow[])[0];
+        if (row && (!closest || row.distance < closest.distance)) closest = { worker: remoteWorker(row), distance: row.distance };
+    }
+
+    return closest;
+}
+
 export function descriptorToArray(descriptor: Float32Array): number[] {
     return Array.from(descriptor);
 }
@@ -0,0 +1,176 @@
+/**
+ * Face worker client for LaborOS
+ * Same detection/matching API as face-utils, but the heavy work runs in face.worker.ts
+ * so the camera preview stays smooth on low-end tablets.
+ * Falls back to the main-thread face-utils functions where workers/OffscreenCanvas are missing.
+ */
+
+import {
+    loadFaceModels, detectFaceBox, detectFaceFromBase64, findBestMatch,
+    FaceBox, FaceDetectionResult, MatchResult, WorkerWithDescriptor,
+} from './face-utils';
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+export type FaceWorkerRequest =
+    | { id: number; type: 'load' }
+    | { id: number; type: 'gallery'; workers: WorkerWithDescriptor[] }
+    | { id: number; type: 'box'; frame: ImageBitmap }
+    | { id: number; type: 'detect'; frame: ImageBitmap }
+    | { id: number; type: 'match'; descriptor: Float32Array; threshold?: number; minMargin?: number };
+
+export type FaceWorkerResponse =
+    | { id: number; type: 'load'; ok: boolean }
+    | { id: number; type: 'gallery'; count: number }
+    | { id: number; type: 'box'; box: FaceBox | null }
+    | { id: number; type: 'detect'; result: FaceDetectionResult | null }
+    | { id: number; type: 'match'; match: MatchResult | null }
+    | { id: number; type: 'error'; message: string };
+
+let worker: Worker | null = null;
+let useMainThread = false;
+let nextId = 1;
+const pending = new Map<number, { resolve: (response: FaceWorkerResponse) => void; reject: (err: Error) => void }>();
+
+// Latest enrolled faces; also used directly by the main-thread fallback
+let gallery: WorkerWithDescriptor[] = [];
+
+// Tracking frames are dropped while the previous one is still being processed
+let boxInFlight = false;
+let lastBox: FaceBox | null = null;
+
+function supportsWorker(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+}
+
+function post(request: WithoutId<FaceWorkerRequest>, transfer: Transferable[] = []): Promise<FaceWorkerResponse> {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        worker!.postMessage({ ...request, id }, transfer);
+    });
+}
+
+function startWorker(): Worker {
+    const instance = new Worker(new URL('./face.worker.ts', import.meta.url));
+    instance.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+        const entry = pending.get(event.data.id);
+        if (!entry) return;
+        pending.delete(event.data.id);
+        if (event.data.type === 'error') entry.reject(new Error(event.data.message));
+        else entry.resolve(event.data);
+    };
+    instance.onerror = (event) => {
+        console.error('Face worker crashed:', event.message);
+        pending.forEach(entry => entry.reject(new Error('Face worker crashed')));
+        pending.clear();
+    };
+    return instance;
+}
+
+/**
+ * Load face models in the worker (or on the main thread as a fallback)
+ */
+export async function loadFaceWorker(): Promise<boolean> {
+    if (typeof window === 'undefined') return false;
+    if (useMainThread) return loadFaceModels();
+    if (worker) return true;
+
+    if (supportsWorker()) {
+        try {
+            worker = startWorker();
+            const response = await post({ type: 'load' });
+            if (response.type === 'load' && response.ok) {
+                // Gallery may have been set before the worker finished loading
+                if (gallery.length > 0) await post({ type: 'gallery', workers: gallery });
+                return true;
+            }
+        } catch (error) {
+            console.error('Face worker unavailable:', error);
+        }
+        worker?.terminate();
+        worker = null;
+        pending.forEach(entry => entry.reject(new Error('Face worker unavailable')));
+        pending.clear();
+    }
+
+    console.log('Face detection falling back to main thread');
+    useMainThread = true;
+    return loadFaceModels();
+}
+
+async function toBitmap(source: HTMLVideoElement | string): Promise<ImageBitmap> {
+    if (typeof source !== 'string') return createImageBitmap(source);
+    // Base64 screenshot - decoded by the browser off the main thread
+    const blob = await (await fetch(source)).blob();
+    return createImageBitmap(blob);
+}
+
+/**
+ * Quick face box for the tracking overlay (no descriptor)
+ */
+export async function detectFaceBoxInWorker(video: HTMLVideoElement): Promise<FaceBox | null> {
+    if (useMainThread || !worker) return detectFaceBox(video);
+    if (boxInFlight || video.readyState < 2) return lastBox;
+
+    boxInFlight = true;
+    try {
+        const frame = await toBitmap(video);
+        const response = await post({ type: 'box', frame }, [frame]);
+        lastBox = response.type === 'box' ? response.box : null;
+        return lastBox;
+    } catch {
+        return null;
+    } finally {
+        boxInFlight = false;
+    }
+}
+
+/**
+ * Full detection with descriptor, cropped face and head pose
+ */
+export async function detectFaceInWorker(source: HTMLVideoElement | string): Promise<FaceDetectionResult | null> {
+    if (useMainThread || !worker) {
+        if (typeof source === 'string') return detectFaceFromBase64(source);
+        const canvas = document.createElement('canvas');
+        canvas.width = source.videoWidth;
+        canvas.height = source.videoHeight;
+        canvas.getContext('2d')!.drawImage(source, 0, 0);
+        return detectFaceFromBase64(canvas.toDataURL('image/jpeg', 0.9));
+    }
+
+    try {
+        const frame = await toBitmap(source);
+        const response = await post({ type: 'detect', frame }, [frame]);
+        const result = response.type === 'detect' ? response.result : null;
+        if (result) console.log(`✓ Face detected (pose: ${result.headPose}, angle: ${result.faceAngle}%, frontal: ${result.isFrontalFace})`);
+        return result;
+    } catch (error) {
+        console.error('Face detection error:', error);
+        return null;
+    }
+}
+
+/**
+ * Replace the set of enrolled faces used by findBestMatchInWorker
+ */
+export async function setWorkerGallery(workers: WorkerWithDescriptor[]): Promise<void> {
+    // Photos aren't needed for matching and are too large to copy into the worker
+    gallery = workers.map(w => ({ ...w, photo_url: null }));
+    if (useMainThread || !worker) return;
+    await post({ type: 'gallery', workers: gallery });
+}
+
+/**
+ * findBestMatch against the gallery held by the worker
+ */
+export async function findBestMatchInWorker(
+    descriptor: Float32Array,
+    threshold?: number,
+    minMargin?: number
+): Promise<MatchResult | null> {
+    if (useMainThread || !worker) return findBestMatch(descriptor, gallery, threshold, minMargin);
+
+    const response = await post({ type: 'match', descriptor, threshold, minMargin });
+    return response.type === 'match' ? response.match : null;
+}
@@ -0,0 +1,146 @@
+/**
+ * LaborOS Face Worker
+ * Runs face-api model loading, detection and descriptor matching off the main thread.
+ * Frames arrive as transferred ImageBitmaps; results are posted back as plain data.
+ */
+
+import type * as FaceApi from '@vladmandic/face-api';
+import {
+    analyzeFacePose, faceCropBox, drawCircularFace, findBestMatch,
+    FaceBox, WorkerWithDescriptor,
+} from './face-utils';
+import type { FaceWorkerRequest, FaceWorkerResponse } from './face-worker-client';
+
+// DOM lib typings only - the worker global is a DedicatedWorkerGlobalScope at runtime
+const ctx = self as unknown as {
+    postMessage(message: FaceWorkerResponse): void;
+    onmessage: ((event: MessageEvent<FaceWorkerRequest>) => void) | null;
+    location: Location;
+};
+
+let faceapi: typeof FaceApi | null = null;
+let gallery: WorkerWithDescriptor[] = [];
+
+async function loadModels(): Promise<boolean> {
+    if (faceapi) return true;
+    try {
+        const api = await import('@vladmandic/face-api');
+
+        // face-api expects DOM canvases; OffscreenCanvas stands in for them here
+        api.env.monkeyPatch({
+            Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+            CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+            ImageData,
+            createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+            fetch: (url: string, init?: RequestInit) => fetch(url, init),
+        });
+
+        const MODEL_URL = `${ctx.location.origin}/models`;
+        await Promise.all([
+            api.nets.ssdMobilenetv1.loadFromUri(MODEL_URL),
+            api.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
+            api.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
+        ]);
+
+        faceapi = api;
+        console.log('✓ Face AI models loaded (worker)');
+        return true;
+    } catch (error) {
+        console.error('Error loading face models in worker:', error);
+        return false;
+    }
+}
+
+// Decode the frame into a tensor face-api can take without touching the DOM
+function frameToTensor(api: typeof FaceApi, bitmap: ImageBitmap) {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext('2d')!;
+    context.drawImage(bitmap, 0, 0);
+    return api.tf.browser.fromPixels(context.getImageData(0, 0, bitmap.width, bitmap.height));
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+async function detectBox(bitmap: ImageBitmap): Promise<FaceBox | null> {
+    const api = faceapi!;
+    const tensor = frameToTensor(api, bitmap);
+    try {
+        const detection = await api.detectSingleFace(tensor, new api.SsdMobilenetv1Options({ minConfidence: 0.4 }));
+        if (!detection) return null;
+
+        const box = detection.box;
+        return {
+            x: (box.x / bitmap.width) * 100,
+            y: (box.y / bitmap.height) * 100,
+            width: (box.width / bitmap.width) * 100,
+            height: (box.height / bitmap.height) * 100,
+        };
+    } finally {
+        tensor.dispose();
+    }
+}
+
+async function detectFace(bitmap: ImageBitmap) {
+    const api = faceapi!;
+    const tensor = frameToTensor(api, bitmap);
+    try {
+        // Very low confidence (0.1) to detect faces even in poor conditions
+        const detection = await api
+            .detectSingleFace(tensor, new api.SsdMobilenetv1Options({ minConfidence: 0.1 }))
+            .withFaceLandmarks()
+            .withFaceDescriptor();
+        if (!detection) return null;
+
+        const canvas = new OffscreenCanvas(200, 200);
+        drawCircularFace(canvas.getContext('2d')!, bitmap, faceCropBox(detection.detection.box, bitmap.width, bitmap.height));
+        const croppedFace = await blobToDataUrl(await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.9 }));
+
+        return { descriptor: detection.descriptor, croppedFace, ...analyzeFacePose(detection.landmarks) };
+    } finally {
+        tensor.dispose();
+    }
+}
+
+async function handle(request: FaceWorkerRequest): Promise<FaceWorkerResponse> {
+    switch (request.type) {
+        case 'load':
+            return { id: request.id, type: 'load', ok: await loadModels() };
+        case 'gallery':
+            gallery = request.workers;
+            return { id: request.id, type: 'gallery', count: gallery.length };
+        case 'box':
+            try {
+                return { id: request.id, type: 'box', box: faceapi ? await detectBox(request.frame) : null };
+            } finally {
+                request.frame.close();
+            }
+        case 'detect':
+            try {
+                return { id: request.id, type: 'detect', result: faceapi ? await detectFace(request.frame) : null };
+            } finally {
+                request.frame.close();
+            }
+        case 'match':
+            return {
+                id: request.id,
+                type: 'match',
+                match: await findBestMatch(request.descriptor, gallery, request.threshold, request.minMargin),
+            };
+    }
+}
+
+ctx.onmessage = async (event) => {
+    try {
+        ctx.postMessage(await handle(event.data));
+    } catch (error) {
+        console.error('Face worker error:', error);
+        ctx.postMessage({ id: event.data.id, type: 'error', message: String(error) });
+    }
+};
@@ -0,0 +1,91 @@
+/**
+ * Holiday calendar for LaborOS
+ * Site holidays (national or site-specific, paid or unpaid) and weekly-off days,
+ * so a Sunday or Diwali is not counted as an absence.
+ */
+
+import { supabase } from './supabase';
+import { addDays } from './business-date';
+import { loadRoster } from './roster';
+
+// Sites without weekly-off rules take Sunday off
+export const DEFAULT_WEEKLY_OFF = [0];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface Holiday {
+    id: number;
+    site_id: string | null; // null = every site
+    date: string;
+    name: string;
+    is_paid: boolean;
+}
+
+export interface HolidayCalendar {
+    weeklyOffs: Record<string, number[]>; // site_id -> weekdays off (0 = Sunday)
+    holidays: Holiday[];
+    roster: Record<string, number | null>; // `${worker_id}|${date}` -> shift_id (null = day off)
+}
+
+export const EMPTY_HOLIDAY_CALENDAR: HolidayCalendar = { weeklyOffs: {}, holidays: [], roster: {} };
+
+export type DayOffKind = 'holiday' | 'weekly-off' | 'rostered-off';
+
+export interface DayOff {
+    kind: DayOffKind;
+    name: string;
+    paid: boolean; // Paid holidays earn a day's wage without attendance
+}
+
+type CalendarWorker = { id: string; site_id?: string | null };
+
+/**
+ * Weekday (0 = Sunday) of a YYYY-MM-DD date
+ */
+export function weekday(date: string): number {
+    return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Holidays, weekly offs and roster entries for a date range (inclusive)
+ */
+export async function loadHolidayCalendar(startDate: string, endDate: string, workerIds?: string[]): Promise<HolidayCalendar> {
+    const [sitesRes, holidaysRes, rosterEntries] = await Promise.all([
+        supabase.from('sites').select('id, weekly_off_days'),
+        supabase.from('site_holidays').select('id, site_id, date, name, is_paid').gte('date', startDate).lte('date', endDate),
+        loadRoster(startDate, endDate, workerIds),
+    ]);
+    if (sitesRes.error) console.error('Error loading weekly offs:', sitesRes.error);
+    if (holidaysRes.error) console.error('Error loading holidays:', holidaysRes.error);
+    return {
+        weeklyOffs: Object.fromEntries((sitesRes.data || []).map(s => [s.id, s.weekly_off_days || DEFAULT_WEEKLY_OFF])),
+        holidays: holidaysRes.data || [],
+        roster: Object.fromEntries(rosterEntries.map(e => [`${e.worker_id}|${e.date}`, e.shift_id])),
+    };
+}
+
+/**
+ * Why a worker is not expected at work on a date, or null on a working day.
+ * Holidays win; a rostered shift overrides the weekly off (e.g. kilns that run on Sundays).
+ */
+export function dayOff(calendar: HolidayCalendar, worker: CalendarWorker, date: string): DayOff | null {
+    const holiday = calendar.holidays.find(h => h.date === date && (!h.site_id || h.site_id === worker.site_id));
+    if (holiday) return { kind: 'holiday', name: holiday.name, paid: holiday.is_paid };
+
+    const key = `${worker.id}|${date}`;
+    if (key in calendar.roster) {
+        return calendar.roster[key] === null ? { kind: 'rostered-off', name: 'Rostered off', paid: false } : null;
+    }
+
+    const offs = (worker.site_id && calendar.weeklyOffs[worker.site_id]) || DEFAULT_WEEKLY_OFF;
+    return offs.includes(weekday(date)) ? { kind: 'weekly-off', name: 'Weekly off', paid: false } : null;
+}
+
+/**
+ * Dates in a range (inclusive)
+ */
+export function dateRange(startDate: string, endDate: string): string[] {
+    const dates: string[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) dates.push(date);
+    return dates;
+}
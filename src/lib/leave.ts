@@ -0,0 +1,239 @@
+/**
+ * Worker leave for LaborOS
+ * Managers request leave on a worker's behalf, an owner approves it, and approved
+ * leave is written to attendance_logs with status 'leave' for each working day.
+ * Balances are a yearly allowance per leave type, optionally overridden per worker.
+ */
+
+import { supabase } from './supabase';
+import { loadHolidayCalendar, dayOff, dateRange } from './holidays';
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveType {
+    id: number;
+    name: string;
+    code: string;
+    yearly_allowance: number | null; // null = no limit (e.g. unpaid leave)
+    is_paid: boolean;
+    is_active: boolean;
+}
+
+export interface LeaveRequest {
+    id: string;
+    worker_id: string;
+    leave_type_id: number;
+    start_date: string;
+    end_date: string;
+    days: number;
+    reason: string | null;
+    status: LeaveStatus;
+    requested_by: string | null;
+    reviewed_by: string | null;
+    reviewed_at: string | null;
+    created_at: string;
+    workers?: { name: string; worker_number: string | null } | null;
+    leave_types?: { name: string; code: string; is_paid: boolean } | null;
+}
+
+export interface LeaveBalance {
+    type: LeaveType;
+    allowance: number | null;
+    used: number; // Approved days this year
+    pending: number;
+    remaining: number | null;
+}
+
+const REQUEST_COLUMNS = 'id, worker_id, leave_type_id, start_date, end_date, days, reason, status, requested_by, reviewed_by, reviewed_at, created_at, workers(name, worker_number), leave_types(name, code, is_paid)';
+
+export async function loadLeaveTypes(activeOnly = true): Promise<LeaveType[]> {
+    let query = supabase.from('leave_types').select('id, name, code, yearly_allowance, is_paid, is_active').order('name');
+    if (activeOnly) query = query.eq('is_active', true);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading leave types:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Leave requests, newest first; filter by status and/or worker
+ */
+export async function loadLeaveRequests(status?: LeaveStatus, workerId?: string): Promise<LeaveRequest[]> {
+    let query = supabase.from('leave_requests').select(REQUEST_COLUMNS).order('created_at', { ascending: false }).limit(200);
+    if (status) query = query.eq('status', status);
+    if (workerId) query = query.eq('worker_id', workerId);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading leave requests:', error);
+        return [];
+    }
+    return (data || []) as unknown as LeaveRequest[];
+}
+
+/**
+ * Working days in a range for a worker - weekly offs, holidays and rostered offs don't use leave
+ */
+export async function leaveDates(worker: { id: string; site_id?: string | null }, startDate: string, endDate: string): Promise<string[]> {
+    const calendar = await loadHolidayCalendar(startDate, endDate, [worker.id]);
+    return dateRange(startDate, endDate).filter(date => !dayOff(calendar, worker, date));
+}
+
+/**
+ * Allowance, used, pending and remaining days per leave type for a year.
+ * Requests count against the year they start in.
+ */
+export async function loadLeaveBalances(workerId: string, year: number): Promise<LeaveBalance[]> {
+    const [types, overridesRes, requestsRes] = await Promise.all([
+        loadLeaveTypes(),
+        supabase.from('leave_balances').select('leave_type_id, allowance').eq('worker_id', workerId).eq('year', year),
+        supabase.from('leave_requests').select('leave_type_id, days, status')
+            .eq('worker_id', workerId)
+            .in('status', ['approved', 'pending'])
+            .gte('start_date', `${year}-01-01`)
+            .lte('start_date', `${year}-12-31`),
+    ]);
+    if (overridesRes.error) console.error('Error loading leave balances:', overridesRes.error);
+    if (requestsRes.error) console.error('Error loading leave requests:', requestsRes.error);
+
+    const overrides = Object.fromEntries((overridesRes.data || []).map(o => [o.leave_type_id, Number(o.allowance)]));
+    const requests = requestsRes.data || [];
+
+    return types.map(type => {
+        const allowance = type.id in overrides ? overrides[type.id] : type.yearly_allowance;
+        const sum = (status: LeaveStatus) => requests
+            .filter(r => r.leave_type_id === type.id && r.status === status)
+            .reduce((total, r) => total + Number(r.days), 0);
+        const used = sum('approved');
+        const pending = sum('pending');
+        return {
+            type, allowance, used, pending,
+            remaining: allowance === null ? null : Math.max(0, allowance - used - pending),
+        };
+    });
+}
+
+/**
+ * Override a worker's yearly allowance for one leave type
+ */
+export async function setLeaveAllowance(workerId: string, leaveTypeId: number, year: number, allowance: number): Promise<void> {
+    const { error } = await supabase.from('leave_balances').upsert(
+        { worker_id: workerId, leave_type_id: leaveTypeId, year, allowance },
+        { onConflict: 'worker_id,leave_type_id,year' }
+    );
+    if (error) throw error;
+}
+
+/**
+ * Create a pending request on a worker's behalf.
+ * Throws when the range has no working days, overlaps another request or exceeds the balance.
+ */
+export async function requestLeave(
+    worker: { id: string; site_id?: string | null },
+    leaveType: LeaveType,
+    startDate: string,
+    endDate: string,
+    reason: string,
+    requestedBy: string | null
+): Promise<void> {
+    const dates = await leaveDates(worker, startDate, endDate);
+    if (dates.length === 0) throw new Error('No working days in the selected range');
+
+    const { data: overlapping, error: overlapError } = await supabase
+        .from('leave_requests')
+        .select('id')
+        .eq('worker_id', worker.id)
+        .in('status', ['approved', 'pending'])
+        .lte('start_date', endDate)
+        .gte('end_date', startDate)
+        .limit(1);
+    if (overlapError) throw overlapError;
+    if (overlapping && overlapping.length > 0) throw new Error('Worker already has leave in this period');
+
+    const balance = (await loadLeaveBalances(worker.id, parseInt(startDate.slice(0, 4)))).find(b => b.type.id === leaveType.id);
+    if (balance?.remaining != null && dates.length > balance.remaining) {
+        throw new Error(`Only ${balance.remaining} days of ${leaveType.name} left`);
+    }
+
+    const { error } = await supabase.from('leave_requests').insert({
+        worker_id: worker.id,
+        leave_type_id: leaveType.id,
+        start_date: startDate,
+        end_date: endDate,
+        days: dates.length,
+        reason: reason.trim() || null,
+        status: 'pending',
+        requested_by: requestedBy,
+    });
+    if (error) throw error;
+}
+
+async function setRequestStatus(request: LeaveRequest, status: LeaveStatus, reviewedBy: string | null, action: string): Promise<void> {
+    const { error } = await supabase
+        .from('leave_requests')
+        .update({ status, reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
+        .eq('id', request.id);
+    if (error) throw error;
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'leave_requests',
+        record_id: request.id,
+        action,
+        old_values: { status: request.status },
+        new_values: { status, worker_id: request.worker_id, start_date: request.start_date, end_date: request.end_date, days: request.days },
+        changed_by: reviewedBy,
+    });
+}
+
+/**
+ * Approve a request and mark its working days as leave.
+ * Days the worker already has attendance for are left as they are.
+ */
+export async function approveLeave(request: LeaveRequest, reviewedBy: string | null): Promise<void> {
+    const { data: worker, error: workerError } = await supabase.from('workers').select('id, site_id').eq('id', request.worker_id).single();
+    if (workerError) throw workerError;
+
+    const dates = await leaveDates(worker, request.start_date, request.end_date);
+    const { error } = await supabase.from('attendance_logs').upsert(
+        dates.map(date => ({ worker_id: request.worker_id, date, status: 'leave', leave_request_id: request.id, marked_by: reviewedBy })),
+        { onConflict: 'worker_id,date', ignoreDuplicates: true }
+    );
+    if (error) throw error;
+
+    await setRequestStatus(request, 'approved', reviewedBy, 'APPROVE_LEAVE');
+}
+
+export async function rejectLeave(request: LeaveRequest, reviewedBy: string | null): Promise<void> {
+    await setRequestStatus(request, 'rejected', reviewedBy, 'REJECT_LEAVE');
+}
+
+/**
+ * Withdraw a pending or approved request; approved leave days without attendance are removed.
+ * Leave already paid in a payment batch can't be withdrawn.
+ */
+export async function cancelLeave(request: LeaveRequest, cancelledBy: string | null): Promise<void> {
+    if (request.status === 'approved') {
+        const { data: settled, error: settledError } = await supabase
+            .from('attendance_logs')
+            .select('date')
+            .eq('leave_request_id', request.id)
+            .eq('status', 'leave')
+            .not('payment_batch_id', 'is', null)
+            .order('date');
+        if (settledError) throw settledError;
+        if (settled && settled.length > 0) {
+            throw new Error(`Leave on ${settled.map(d => d.date).join(', ')} was already paid in a payout and can't be cancelled`);
+        }
+
+        const { error } = await supabase
+            .from('attendance_logs')
+            .delete()
+            .eq('leave_request_id', request.id)
+            .eq('status', 'leave')
+            .is('check_in_time', null)
+            .is('payment_batch_id', null);
+        if (error) throw error;
+    }
+    await setRequestStatus(request, 'cancelled', cancelledBy, 'CANCEL_LEAVE');
+}
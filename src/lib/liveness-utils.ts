@@ -239,8 +239,7 @@ export function detectPhotoSpoof(landmarks: any[]): boolean {
 /**
  * Generate random liveness challenge
  */
-export function generateChallenge(): Challenge {
-    const challenges: Challenge[] = ['BLINK', 'SMILE', 'OPEN_MOUTH'];
+export function generateChallenge(challenges: Challenge[] = ['BLINK', 'SMILE', 'OPEN_MOUTH']): Challenge {
     return challenges[Math.floor(Math.random() * challenges.length)];
 }
 
@@ -0,0 +1,147 @@
+/**
+ * Maistry commission for LaborOS
+ * A maistry (labour contractor) brings a gang - the workers whose incharge_id is the
+ * maistry's incharge profile - and earns commission on the gang's work: a percentage
+ * of wages, a fixed amount per head-day, or progressive head-day slabs.
+ */
+
+import { supabase } from './supabase';
+import { loadWageContext, computeWages, WageAttendance } from './wage-engine';
+
+export type CommissionType = 'percent' | 'per_head_day' | 'slab';
+
+// Progressive band: head-days up to `upto` earn `per_head_day` each
+export interface CommissionSlab {
+    upto: number | null; // null = no upper bound
+    per_head_day: number;
+}
+
+export interface Maistry {
+    id: string;
+    name: string;
+    phone: string | null;
+    incharge_id: string | null;
+    commission_type: CommissionType;
+    commission_rate: number; // % of wages, or ₹ per head-day
+    slabs: CommissionSlab[] | null;
+    deduct_from_wages: boolean; // true = commission comes out of the workers' pay
+    is_active: boolean;
+}
+
+export interface GangEarning {
+    workerId: string;
+    headDays: number; // Present = 1, half-day = 0.5
+    wages: number;
+}
+
+export interface StatementRow extends GangEarning {
+    name: string;
+    workerNumber: string | null;
+    commission: number;
+}
+
+export const COMMISSION_LABELS: Record<CommissionType, string> = {
+    percent: '% of wages',
+    per_head_day: '₹ per head-day',
+    slab: 'Head-day slabs',
+};
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Commission for a head-day count across progressive slabs
+ */
+export function slabCommission(slabs: CommissionSlab[], headDays: number): number {
+    const sorted = [...slabs].sort((a, b) => (a.upto ?? Infinity) - (b.upto ?? Infinity));
+    let total = 0;
+    let from = 0;
+    for (const slab of sorted) {
+        const upto = slab.upto ?? Infinity;
+        if (headDays <= from) break;
+        total += (Math.min(headDays, upto) - from) * slab.per_head_day;
+        from = upto;
+    }
+    return round2(total);
+}
+
+/**
+ * Commission for the whole gang over a period
+ */
+export function gangCommission(maistry: Maistry, earnings: GangEarning[]): number {
+    const headDays = earnings.reduce((sum, e) => sum + e.headDays, 0);
+    const wages = earnings.reduce((sum, e) => sum + e.wages, 0);
+    if (maistry.commission_type === 'percent') return round2(wages * Number(maistry.commission_rate) / 100);
+    if (maistry.commission_type === 'per_head_day') return round2(headDays * Number(maistry.commission_rate));
+    return slabCommission(maistry.slabs || [], headDays);
+}
+
+/**
+ * Gang commission split per worker - by wages for percentage rules, by head-days otherwise
+ */
+export function allocateCommission(maistry: Maistry, earnings: GangEarning[]): Record<string, number> {
+    const total = gangCommission(maistry, earnings);
+    const share = (e: GangEarning) => maistry.commission_type === 'percent' ? e.wages : e.headDays;
+    const base = earnings.reduce((sum, e) => sum + share(e), 0);
+    return Object.fromEntries(earnings.map(e => [e.workerId, base > 0 ? round2(total * share(e) / base) : 0]));
+}
+
+export async function loadMaistries(activeOnly = true): Promise<Maistry[]> {
+    let query = supabase.from('maistries').select('*').order('name');
+    if (activeOnly) query = query.eq('is_active', true);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading maistries:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * The maistry whose gang a worker belongs to, if any
+ */
+export function maistryForWorker(maistries: Maistry[], worker: { incharge_id?: string | null }): Maistry | null {
+    return (worker.incharge_id && maistries.find(m => m.incharge_id === worker.incharge_id)) || null;
+}
+
+/**
+ * Head-days, wages and commission per gang worker for a period (settlement statement)
+ */
+export async function loadMaistryStatement(maistry: Maistry, startDate: string, endDate: string): Promise<StatementRow[]> {
+    if (!maistry.incharge_id) return [];
+
+    const { data: gang, error: gangError } = await supabase
+        .from('workers')
+        .select('id, name, worker_number, base_rate, category, site_id, shift_id')
+        .eq('incharge_id', maistry.incharge_id)
+        .order('name');
+    if (gangError) throw gangError;
+    if (!gang || gang.length === 0) return [];
+
+    const [context, { data: logs, error: logsError }] = await Promise.all([
+        loadWageContext(startDate, endDate, gang.map(w => w.id)),
+        supabase
+            .from('attendance_logs')
+            .select('id, worker_id, date, status, check_in_time, overtime_hours, leave_requests(leave_types(is_paid))')
+            .in('worker_id', gang.map(w => w.id))
+            .gte('date', startDate)
+            .lte('date', endDate),
+    ]);
+    if (logsError) throw logsError;
+    const attendance = (logs || []) as unknown as (WageAttendance & { worker_id: string })[];
+
+    const earnings: (GangEarning & { name: string; workerNumber: string | null })[] = gang.map(worker => {
+        const sheet = computeWages({ worker, attendance: attendance.filter(l => l.worker_id === worker.id), startDate, endDate, context });
+        return {
+            workerId: worker.id,
+            name: worker.name,
+            workerNumber: worker.worker_number,
+            headDays: sheet.headDays,
+            wages: sheet.gross,
+        };
+    });
+
+    const commission = allocateCommission(maistry, earnings);
+    return earnings.map(e => ({ ...e, commission: commission[e.workerId] || 0 }));
+}
@@ -0,0 +1,149 @@
+/**
+ * Match review queue for LaborOS
+ * Narrow face matches and manual overrides are posted with review_status = 'pending'
+ * so an owner/admin can confirm, reassign or void them
+ */
+
+import { supabase } from './supabase';
+import type { MatchCandidate } from './face-utils';
+
+// Matches above this distance passed the 0.55 threshold only narrowly
+export const REVIEW_DISTANCE = 0.45;
+
+export type ReviewStatus = 'pending' | 'confirmed' | 'reassigned' | 'voided';
+
+export interface ReviewItem {
+    id: string;
+    worker_id: string;
+    date: string;
+    status: string;
+    check_in_time: string | null;
+    check_out_time: string | null;
+    proof_url: string | null;
+    proof_out_url: string | null;
+    match_candidates: MatchCandidate[] | null;
+    match_out_candidates: MatchCandidate[] | null;
+    review_status: ReviewStatus;
+    review_reason: string | null;
+    marked_by: string | null;
+    payment_batch_id: string | null; // Already settled in a payout - no longer reviewable
+    workers: { name: string; photo_url: string | null; worker_number: string | null } | null;
+}
+
+/**
+ * Review fields for a scan: pending when the match was narrow or manual, empty otherwise
+ */
+export function reviewFieldsForScan(
+    candidates: MatchCandidate[] | null | undefined,
+    manual: boolean,
+    isCheckOut: boolean
+): { review_status?: ReviewStatus; review_reason?: string } {
+    const side = isCheckOut ? 'Check-out' : 'Check-in';
+    if (manual) {
+        return { review_status: 'pending', review_reason: `${side}: manual override` };
+    }
+    const distance = candidates?.[0]?.distance;
+    if (distance !== undefined && distance > REVIEW_DISTANCE) {
+        return { review_status: 'pending', review_reason: `${side}: low-confidence match (${distance.toFixed(3)})` };
+    }
+    return {};
+}
+
+/**
+ * Records waiting for a reviewer, newest first
+ */
+export async function loadReviewQueue(status: ReviewStatus = 'pending'): Promise<ReviewItem[]> {
+    const { data, error } = await supabase
+        .from('attendance_logs')
+        .select('id, worker_id, date, status, check_in_time, check_out_time, proof_url, proof_out_url, match_candidates, match_out_candidates, review_status, review_reason, marked_by, payment_batch_id, workers(name, photo_url, worker_number)')
+        .eq('review_status', status)
+        .order('date', { ascending: false })
+        .order('check_in_time', { ascending: false })
+        .limit(200);
+
+    if (error) {
+        console.error('Error loading review queue:', error);
+        return [];
+    }
+    return (data || []) as unknown as ReviewItem[];
+}
+
+async function auditReview(
+    item: ReviewItem,
+    action: string,
+    reviewedBy: string | null,
+    newValues: Record<string, unknown>,
+    oldValues: Record<string, unknown> = {}
+) {
+    await supabase.from('audit_logs').insert({
+        table_name: 'attendance_logs',
+        record_id: item.id,
+        action,
+        old_values: { worker_id: item.worker_id, review_status: item.review_status, review_reason: item.review_reason, ...oldValues },
+        new_values: newValues,
+        changed_by: reviewedBy,
+    });
+}
+
+/**
+ * Update a record only while no payment batch has settled it
+ */
+async function updateUnsettled(id: string, values: Record<string, unknown>): Promise<void> {
+    const { data, error } = await supabase.from('attendance_logs')
+        .update(values)
+        .eq('id', id)
+        .is('payment_batch_id', null)
+        .select('id');
+    if (error) throw error;
+    if (!data?.length) throw new Error('This record was already settled in a payment batch');
+}
+
+async function currentUserId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id || null;
+}
+
+/**
+ * Reviewer agrees the scan belongs to the matched worker
+ */
+export async function confirmReview(item: ReviewItem): Promise<void> {
+    const reviewedBy = await currentUserId();
+    await updateUnsettled(item.id, { review_status: 'confirmed', reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() });
+
+    await auditReview(item, 'REVIEW_CONFIRMED', reviewedBy, { review_status: 'confirmed' });
+}
+
+/**
+ * Move the record to the worker who was actually scanned
+ */
+export async function reassignReview(item: ReviewItem, workerId: string): Promise<void> {
+    const reviewedBy = await currentUserId();
+    // UNIQUE(worker_id, date): the other worker may already have a record for the day
+    await updateUnsettled(item.id, { worker_id: workerId, review_status: 'reassigned', reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() });
+
+    // The day's punches move with the record
+    const { error: punchError } = await supabase.from('attendance_punches')
+        .update({ worker_id: workerId })
+        .eq('attendance_id', item.id);
+    if (punchError) throw punchError;
+
+    await auditReview(item, 'REVIEW_REASSIGNED', reviewedBy, { worker_id: workerId, review_status: 'reassigned' });
+}
+
+/**
+ * Reject the record - the worker is marked absent for the day and its punches are removed,
+ * so later scans that day can't rebuild the status from them
+ */
+export async function voidReview(item: ReviewItem): Promise<void> {
+    const reviewedBy = await currentUserId();
+    await updateUnsettled(item.id, { status: 'absent', review_status: 'voided', reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() });
+
+    const { error: punchError } = await supabase.from('attendance_punches')
+        .delete()
+        .eq('attendance_id', item.id);
+    if (punchError) throw punchError;
+
+    await auditReview(item, 'REVIEW_VOIDED', reviewedBy,
+        { status: 'absent', review_status: 'voided' },
+        { status: item.status, check_in_time: item.check_in_time, check_out_time: item.check_out_time });
+}
@@ -0,0 +1,177 @@
+/**
+ * Missing checkout routine for LaborOS
+ * Workers who walk off without scanning out leave an open session behind.
+ * Once a session passes its cutoff (shift end, or the site's day end for workers
+ * without a shift) the site's routine either closes it as the system or lists it
+ * for the manager to resolve before the evening closing.
+ */
+
+import { supabase } from './supabase';
+import { addDays, businessDayEnd, zonedDateTime, zonedParts, workerShift, rosterMap, DEFAULT_TIMEZONE, EMPTY_CALENDAR, BusinessCalendar, ShiftWindow } from './business-date';
+import { shiftBounds } from './shift-metrics';
+import { recordPunch } from './punches';
+import { loadRoster } from './roster';
+
+export type MissingCheckoutMode = 'auto_close' | 'review';
+
+export const DEFAULT_MISSING_CHECKOUT_MODE: MissingCheckoutMode = 'review';
+export const DEFAULT_DAY_END_TIME = '20:00';
+
+export interface MissingCheckout {
+    logId: string;
+    workerId: string;
+    workerName: string;
+    siteId: string | null;
+    date: string;
+    checkInTime: string;  // First IN of the day
+    openedAt: string;     // IN punch that started the open session
+    cutoff: string;       // When the session should have ended
+    timeZone: string;
+    mode: MissingCheckoutMode;
+}
+
+interface OpenLogRow {
+    id: string;
+    worker_id: string;
+    date: string;
+    check_in_time: string;
+    workers: {
+        name: string;
+        site_id: string | null;
+        shift_id: number | null;
+        sites: { timezone: string | null; missing_checkout_mode: MissingCheckoutMode | null; day_end_time: string | null } | null;
+    } | null;
+}
+
+/**
+ * When an open session counts as a missing checkout.
+ * Shift end (or the site's day end without a shift); a session reopened after
+ * that runs until the end of the business day instead.
+ */
+export function checkoutCutoff(
+    date: string,
+    openedAt: string,
+    shift: ShiftWindow | null,
+    dayEndTime: string = DEFAULT_DAY_END_TIME,
+    timeZone: string = DEFAULT_TIMEZONE
+): Date {
+    const end = shift ? shiftBounds(date, shift, timeZone).end : zonedDateTime(date, dayEndTime, timeZone);
+    return new Date(openedAt) < end ? end : businessDayEnd(date, timeZone, shift);
+}
+
+/**
+ * Open sessions past their cutoff, oldest first. Limited to one site when given.
+ * Throws when the check can't run, so callers keep the evening closing blocked.
+ */
+export async function loadMissingCheckouts(siteId?: string | null, now: Date = new Date()): Promise<MissingCheckout[]> {
+    let query = supabase
+        .from('attendance_logs')
+        .select('id, worker_id, date, check_in_time, workers!inner(name, site_id, shift_id, sites(timezone, missing_checkout_mode, day_end_time))')
+        .not('check_in_time', 'is', null)
+        .is('check_out_time', null)
+        .order('date');
+    if (siteId) query = query.eq('workers.site_id', siteId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const rows = (data || []) as unknown as OpenLogRow[];
+    if (rows.length === 0) return [];
+
+    // Latest IN per log starts the open session (later than check_in_time after a break)
+    const [{ data: punches, error: punchesError }, { data: shifts, error: shiftsError }, roster] = await Promise.all([
+        supabase
+            .from('attendance_punches')
+            .select('attendance_id, punch_time')
+            .eq('punch_type', 'IN')
+            .in('attendance_id', rows.map(r => r.id)),
+        supabase.from('shifts').select('id, start_time, end_time'),
+        loadRoster(rows[0].date, rows[rows.length - 1].date, Array.from(new Set(rows.map(r => r.worker_id)))),
+    ]);
+    if (punchesError) throw punchesError;
+    if (shiftsError) throw shiftsError;
+    const calendar: BusinessCalendar = {
+        ...EMPTY_CALENDAR,
+        shifts: Object.fromEntries((shifts || []).map(s => [s.id, s])),
+        roster: rosterMap(roster),
+    };
+    const openedAt: Record<string, string> = {};
+    for (const p of punches || []) {
+        if (!openedAt[p.attendance_id] || p.punch_time > openedAt[p.attendance_id]) openedAt[p.attendance_id] = p.punch_time;
+    }
+
+    return rows.flatMap(row => {
+        const site = row.workers?.sites;
+        const timeZone = site?.timezone || DEFAULT_TIMEZONE;
+        const opened = openedAt[row.id] || row.check_in_time;
+        const shift = workerShift(calendar, { id: row.worker_id, shift_id: row.workers?.shift_id }, row.date);
+        const cutoff = checkoutCutoff(row.date, opened, shift, site?.day_end_time || DEFAULT_DAY_END_TIME, timeZone);
+        if (cutoff > now) return [];
+        return [{
+            logId: row.id,
+            workerId: row.worker_id,
+            workerName: row.workers?.name || 'Unknown',
+            siteId: row.workers?.site_id || null,
+            date: row.date,
+            checkInTime: row.check_in_time,
+            openedAt: opened,
+            cutoff: cutoff.toISOString(),
+            timeZone,
+            mode: site?.missing_checkout_mode || DEFAULT_MISSING_CHECKOUT_MODE,
+        }];
+    });
+}
+
+/**
+ * End-of-day routine: close missing checkouts at their cutoff for auto-close sites.
+ * Review-mode sessions are left for the manager. Returns how many were closed.
+ */
+export async function autoCloseMissingCheckouts(siteId?: string | null, now: Date = new Date()): Promise<number> {
+    const missing = (await loadMissingCheckouts(siteId, now)).filter(m => m.mode === 'auto_close');
+    let closed = 0;
+    for (const item of missing) {
+        try {
+            await recordPunch({
+                workerId: item.workerId, date: item.date, type: 'OUT', time: item.cutoff, source: 'system', markedBy: null,
+            }, { auto_closed: true });
+            closed++;
+        } catch (error) {
+            console.error('Auto-close failed for', item.workerName, error);
+        }
+    }
+    return closed;
+}
+
+/**
+ * Manager resolution of a missing checkout with the actual (or best known) time
+ */
+export async function resolveMissingCheckout(item: MissingCheckout, checkOutTime: string, resolvedBy: string): Promise<void> {
+    await recordPunch({
+        workerId: item.workerId, date: item.date, type: 'OUT', time: checkOutTime, source: 'manual', markedBy: resolvedBy,
+    });
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'attendance_logs',
+        record_id: item.logId,
+        action: 'RESOLVE_MISSING_CHECKOUT',
+        old_values: { check_out_time: null, cutoff: item.cutoff },
+        new_values: { check_out_time: checkOutTime },
+        changed_by: resolvedBy,
+    });
+}
+
+/**
+ * Checkout instant for a wall-clock time entered by the manager.
+ * A time earlier than the open session's start is taken as the next morning.
+ */
+export function checkoutTimeFor(item: MissingCheckout, time: string): Date {
+    const at = zonedDateTime(item.date, time, item.timeZone);
+    return at < new Date(item.openedAt) ? zonedDateTime(addDays(item.date, 1), time, item.timeZone) : at;
+}
+
+/**
+ * "HH:MM" of an instant in the item's site timezone (default for the time input)
+ */
+export function localTime(item: MissingCheckout, at: string): string {
+    const { minutes } = zonedParts(new Date(at), item.timeZone);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
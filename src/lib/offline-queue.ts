@@ -0,0 +1,307 @@
+/**
+ * Offline attendance queue for LaborOS
+ * Scans made without connectivity are stored in IndexedDB and
+ * replayed in order as attendance punches once the device is back online
+ */
+
+import { supabase, AttendanceLog } from './supabase';
+import { uploadProofAsync } from './storage-utils';
+import { locationToLogFields, LocationCapture } from './spoof-detector';
+import { reviewFieldsForScan } from './match-review';
+import { recordPunch, Punch } from './punches';
+import type { MatchCandidate } from './face-utils';
+
+const DB_NAME = 'laboros-offline';
+const DB_VERSION = 2;
+const STORE_NAME = 'scan_queue';
+const FAILED_STORE_NAME = 'failed_scans';
+
+// Move a scan to the failed store after this many failed (non-network) replays
+const MAX_ATTEMPTS = 5;
+
+export interface QueuedScan {
+    id?: number;              // Auto-increment key, preserves scan order
+    workerId: string;
+    action: 'IN' | 'OUT';
+    date: string;             // Attendance date (YYYY-MM-DD)
+    deviceTime: string;       // ISO timestamp taken on the device at scan time
+    location: LocationCapture | null; // GPS fix + spoof verdict at scan time
+    proofFrame: string | null; // Base64 camera frame
+    markedBy: string | null;
+    livenessPassed: boolean | null; // null = liveness not required
+    candidates?: MatchCandidate[] | null; // Ranked face-match candidates (absent on older queued scans)
+    manual?: boolean;         // Marked without a face match
+    attempts: number;
+}
+
+// A scan that kept failing to replay; kept on the device until the operator retries it
+export interface FailedScan extends QueuedScan {
+    error: string;
+    failedAt: string;
+}
+
+export interface ReplayResult {
+    synced: number;
+    failed: number;   // Moved to the failed store this run
+    remaining: number;
+}
+
+/**
+ * Open (and upgrade if needed) the offline database
+ */
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB not supported'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            }
+            if (!db.objectStoreNames.contains(FAILED_STORE_NAME)) {
+                db.createObjectStore(FAILED_STORE_NAME, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Run a single request against the queue store (or the failed store)
+ */
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName = STORE_NAME
+): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = run(tx.objectStore(storeName));
+        tx.oncomplete = () => { db.close(); resolve(request.result); };
+        tx.onerror = () => { db.close(); reject(tx.error); };
+    });
+}
+
+/**
+ * Add a scan to the offline queue
+ */
+export async function enqueueScan(scan: Omit<QueuedScan, 'id' | 'attempts'>): Promise<QueuedScan> {
+    const queued: QueuedScan = { ...scan, attempts: 0 };
+    const id = await withStore('readwrite', store => store.add(queued));
+    return { ...queued, id: id as number };
+}
+
+/**
+ * Get all pending scans in the order they were made
+ */
+export async function getPendingScans(): Promise<QueuedScan[]> {
+    const scans = await withStore<QueuedScan[]>('readonly', store => store.getAll());
+    return scans.sort((a, b) => (a.id || 0) - (b.id || 0));
+}
+
+/**
+ * Number of scans waiting to be synced
+ */
+export async function getPendingCount(): Promise<number> {
+    try {
+        return await withStore<number>('readonly', store => store.count());
+    } catch {
+        return 0;
+    }
+}
+
+async function removeScan(id: number): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
+
+async function saveScan(scan: QueuedScan): Promise<void> {
+    await withStore('readwrite', store => store.put(scan));
+}
+
+/**
+ * Scans that failed to replay MAX_ATTEMPTS times, oldest first
+ */
+export async function getFailedScans(): Promise<FailedScan[]> {
+    try {
+        const scans = await withStore<FailedScan[]>('readonly', store => store.getAll(), FAILED_STORE_NAME);
+        return scans.sort((a, b) => (a.id || 0) - (b.id || 0));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Put failed scans back in the queue for another round of replays
+ */
+export async function retryFailedScans(): Promise<number> {
+    const failed = await getFailedScans();
+    for (const { error, failedAt, id, ...scan } of failed) {
+        await withStore('readwrite', store => store.add({ ...scan, attempts: 0 }));
+        await withStore('readwrite', store => store.delete(id!), FAILED_STORE_NAME);
+    }
+    return failed.length;
+}
+
+async function moveToFailed(scan: QueuedScan, err: unknown): Promise<void> {
+    const failed: FailedScan = {
+        ...scan,
+        error: (err as { message?: string })?.message || String(err),
+        failedAt: new Date().toISOString(),
+    };
+    await withStore('readwrite', store => store.put(failed), FAILED_STORE_NAME);
+    await removeScan(scan.id!);
+}
+
+/**
+ * Detect errors caused by missing connectivity (vs. data errors)
+ */
+export function isNetworkError(err: unknown): boolean {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = (err as { message?: string })?.message || String(err);
+    return /fetch|network|timeout|offline/i.test(message);
+}
+
+/**
+ * Write one queued scan as a punch at its device time.
+ * Punches are ordered by time, so scans synced late still pair up correctly.
+ */
+async function applyScan(scan: QueuedScan): Promise<void> {
+    const { data: existing, error: fetchError } = await supabase
+        .from('attendance_logs')
+        .select('id, is_flagged, spoof_confidence')
+        .eq('worker_id', scan.workerId)
+        .eq('date', scan.date)
+        .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (existing) {
+        // Punch may already be stored if an earlier replay failed after inserting it
+        const { count, error } = await supabase.from('attendance_punches')
+            .select('id', { count: 'exact', head: true })
+            .eq('attendance_id', existing.id).eq('punch_type', scan.action).eq('punch_time', scan.deviceTime);
+        if (error) throw error;
+        if (count) return;
+    }
+
+    const locationFields = locationToLogFields(scan.location, scan.action === 'OUT', existing);
+    const livenessField = scan.livenessPassed === null ? {} :
+        scan.action === 'IN' ? { liveness_passed: scan.livenessPassed } : { liveness_out_passed: scan.livenessPassed };
+    const matchField = !scan.candidates ? {} :
+        scan.action === 'IN' ? { match_candidates: scan.candidates } : { match_out_candidates: scan.candidates };
+    const reviewFields = reviewFieldsForScan(scan.candidates, !!scan.manual, scan.action === 'OUT');
+
+    const { logId } = await recordPunch({
+        workerId: scan.workerId, date: scan.date, type: scan.action,
+        time: scan.deviceTime, source: 'offline', markedBy: scan.markedBy,
+    }, { ...locationFields, ...livenessField, ...matchField, ...reviewFields });
+
+    if (scan.proofFrame) {
+        uploadProofAsync(scan.proofFrame, scan.workerId, logId, scan.action === 'OUT');
+    }
+}
+
+/**
+ * Overlay pending scans on the loaded logs so the scanner knows who is
+ * already in/out while the queue has not been synced yet
+ */
+export function applyPendingScans(logs: AttendanceLog[], scans: QueuedScan[]): AttendanceLog[] {
+    const merged = [...logs];
+    for (const scan of scans) {
+        const index = merged.findIndex(l => l.worker_id === scan.workerId && l.date === scan.date);
+        if (index === -1) {
+            merged.push({
+                id: `offline-${scan.id ?? scan.deviceTime}`,
+                worker_id: scan.workerId,
+                date: scan.date,
+                status: 'present',
+                check_in_time: scan.action === 'IN' ? scan.deviceTime : null,
+                check_out_time: scan.action === 'OUT' ? scan.deviceTime : null,
+                gps_lat: scan.location?.location.lat ?? null,
+                gps_long: scan.location?.location.lng ?? null,
+                gps_accuracy: scan.location?.location.accuracy ?? null,
+                is_flagged: !!scan.location?.spoof.isSpoofed,
+                spoof_confidence: scan.location?.spoof.confidence ?? null,
+                spoof_reason: scan.location?.spoof.reason ?? null,
+                ip_address: null,
+                marked_by: scan.markedBy || '',
+                created_at: scan.deviceTime,
+            });
+        } else if (scan.action === 'IN') {
+            // Back from a break - inside again until the next OUT
+            merged[index] = { ...merged[index], check_in_time: merged[index].check_in_time || scan.deviceTime, check_out_time: null };
+        } else {
+            merged[index] = { ...merged[index], check_out_time: scan.deviceTime };
+        }
+    }
+    return merged;
+}
+
+/**
+ * Pending scans as punches, for session/break display before sync
+ */
+export function pendingPunches(scans: QueuedScan[]): Punch[] {
+    return scans.map(scan => ({
+        id: `offline-${scan.id ?? scan.deviceTime}`,
+        attendance_id: '',
+        worker_id: scan.workerId,
+        date: scan.date,
+        punch_type: scan.action,
+        punch_time: scan.deviceTime,
+        source: 'offline',
+        marked_by: scan.markedBy,
+    }));
+}
+
+let replaying = false;
+
+/**
+ * Replay queued scans in order.
+ * Stops at the first network failure so later scans never overtake earlier ones.
+ */
+export async function replayQueue(): Promise<ReplayResult> {
+    const result: ReplayResult = { synced: 0, failed: 0, remaining: 0 };
+    if (replaying) {
+        result.remaining = await getPendingCount();
+        return result;
+    }
+
+    replaying = true;
+    try {
+        const scans = await getPendingScans();
+        for (let i = 0; i < scans.length; i++) {
+            const scan = scans[i];
+            try {
+                await applyScan(scan);
+                await removeScan(scan.id!);
+                result.synced++;
+            } catch (err) {
+                if (isNetworkError(err)) {
+                    result.remaining = scans.length - i;
+                    break;
+                }
+                const attempts = scan.attempts + 1;
+                if (attempts >= MAX_ATTEMPTS) {
+                    // Kept in the failed store for the operator to retry; attendance is never discarded
+                    console.error('[OFFLINE] Scan failed after repeated replays:', scan, err);
+                    await moveToFailed({ ...scan, attempts }, err);
+                    result.failed++;
+                } else {
+                    console.error('[OFFLINE] Replay failed, will retry:', err);
+                    await saveScan({ ...scan, attempts });
+                    result.remaining = scans.length - i;
+                    break;
+                }
+            }
+        }
+    } finally {
+        replaying = false;
+    }
+
+    return result;
+}
@@ -13,6 +13,9 @@ export const ownerTranslations = {
         tasks: 'Tasks',
         audit: 'Audit',
         finance: 'Finance',
+        liveWall: 'Live Wall',
+        review: 'Review',
+        leave: 'Leave',
         back: 'Back',
         logout: 'Logout',
     },
@@ -25,6 +28,9 @@ export const ownerTranslations = {
         tasks: 'કાર્યો',
         audit: 'ઓડિટ',
         finance: 'નાણાં',
+        liveWall: 'લાઇવ વોલ',
+        review: 'સમીક્ષા',
+        leave: 'રજા',
         back: 'પાછા',
         logout: 'લોગઆઉટ',
     }
@@ -0,0 +1,169 @@
+/**
+ * Payment batches for LaborOS
+ * Processing payouts settles a period: the attendance and unsettled expenses it covers
+ * get the batch id, so they are left out of the next run. The owner marks the batch paid.
+ */
+
+import { supabase } from './supabase';
+import { recordRecoveries, Instalment } from './worker-ledger';
+import type { WageSheet } from './wage-engine';
+
+export type PaymentMethod = 'paytm' | 'cash' | 'bank' | 'other';
+
+export interface PaymentBatch {
+    id: string;
+    start_date: string;
+    end_date: string;
+    total_wages: number;
+    total_commission: number; // Maistry commission payable on top of the workers' pay
+    total_deductions: number; // Advance/loan/fine instalments already taken off total_wages
+    total_expenses: number;
+    net_amount: number;
+    status: 'pending' | 'paid';
+    payment_method: PaymentMethod;
+    notes: string | null;
+    created_at: string;
+    paid_at: string | null;
+}
+
+// A worker's pay as the payout settled it
+export interface BatchSheet {
+    sheet: WageSheet; // Incl. commission and recoveries
+    ledgerBalance: number; // Advances still owed after this payout
+}
+
+export interface NewPaymentBatch {
+    startDate: string;
+    endDate: string;
+    logIds: string[];
+    expenseIds: string[];
+    totalWages: number;
+    totalCommission?: number;
+    totalExpenses: number;
+    recoveries?: Instalment[]; // Ledger instalments taken from this payout
+    sheets?: BatchSheet[]; // Saved so payslips and payment lines show what was settled
+    paymentMethod?: PaymentMethod;
+    notes?: string | null;
+}
+
+// Keeps `.in()` filters well under URL length limits
+const CLAIM_CHUNK = 200;
+
+/**
+ * Set payment_batch_id on unbatched rows; returns how many were claimed
+ */
+async function claimRows(table: 'attendance_logs' | 'expenses', ids: string[], batchId: string): Promise<number> {
+    let claimed = 0;
+    for (let i = 0; i < ids.length; i += CLAIM_CHUNK) {
+        const { data, error } = await supabase
+            .from(table)
+            .update({ payment_batch_id: batchId })
+            .in('id', ids.slice(i, i + CLAIM_CHUNK))
+            .is('payment_batch_id', null)
+            .select('id');
+        if (error) throw error;
+        claimed += data?.length || 0;
+    }
+    return claimed;
+}
+
+async function releaseBatch(batchId: string): Promise<void> {
+    await supabase.from('worker_ledger').delete().eq('payment_batch_id', batchId);
+    await supabase.from('attendance_logs').update({ payment_batch_id: null }).eq('payment_batch_id', batchId);
+    await supabase.from('expenses').update({ payment_batch_id: null }).eq('payment_batch_id', batchId);
+    await supabase.from('payment_batches').delete().eq('id', batchId);
+}
+
+/**
+ * Create a pending batch and stamp its attendance and expenses.
+ * If another run settled some of the same records first, the batch is undone and this throws.
+ */
+export async function createPaymentBatch(batch: NewPaymentBatch, createdBy: string | null): Promise<PaymentBatch> {
+    const totalWages = Math.round(batch.totalWages);
+    const totalCommission = Math.round(batch.totalCommission || 0);
+    const totalExpenses = Math.round(batch.totalExpenses);
+    const recoveries = batch.recoveries || [];
+
+    const { data, error } = await supabase.from('payment_batches').insert({
+        start_date: batch.startDate,
+        end_date: batch.endDate,
+        total_wages: totalWages,
+        total_commission: totalCommission,
+        total_deductions: recoveries.reduce((sum, r) => sum + Math.round(r.amount), 0),
+        total_expenses: totalExpenses,
+        net_amount: totalWages + totalCommission - totalExpenses,
+        payment_method: batch.paymentMethod || 'cash',
+        status: 'pending',
+        notes: batch.notes || null,
+        created_by: createdBy,
+    }).select('*').single();
+    if (error) throw error;
+
+    try {
+        const logs = await claimRows('attendance_logs', batch.logIds, data.id);
+        const expenses = await claimRows('expenses', batch.expenseIds, data.id);
+        if (logs !== batch.logIds.length || expenses !== batch.expenseIds.length) {
+            throw new Error('Some records were already settled in another batch. Reload and try again.');
+        }
+        await recordRecoveries(recoveries, batch.endDate, data.id, createdBy);
+        if (batch.sheets?.length) {
+            const { error: sheetsError } = await supabase.from('payment_batch_sheets').insert(batch.sheets.map(s => ({
+                payment_batch_id: data.id,
+                worker_id: s.sheet.workerId,
+                sheet: s.sheet,
+                ledger_balance: s.ledgerBalance,
+            })));
+            if (sheetsError) throw sheetsError;
+        }
+    } catch (err) {
+        await releaseBatch(data.id);
+        throw err;
+    }
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'payment_batches',
+        record_id: data.id,
+        action: 'CREATE_BATCH',
+        old_values: null,
+        new_values: { start_date: batch.startDate, end_date: batch.endDate, logs: batch.logIds.length, expenses: batch.expenseIds.length, recoveries: recoveries.length, net_amount: data.net_amount },
+        changed_by: createdBy,
+    });
+
+    return data as PaymentBatch;
+}
+
+/**
+ * Wage sheets saved when the batch was created; empty for batches from before they were kept
+ */
+export async function loadBatchSheets(batchId: string): Promise<BatchSheet[]> {
+    const { data, error } = await supabase
+        .from('payment_batch_sheets')
+        .select('sheet, ledger_balance')
+        .eq('payment_batch_id', batchId);
+    if (error) throw error;
+    return (data || []).map(row => ({ sheet: row.sheet as WageSheet, ledgerBalance: Number(row.ledger_balance) || 0 }));
+}
+
+/**
+ * Record that a pending batch has been paid out
+ */
+export async function markBatchPaid(batch: PaymentBatch, paidBy: string | null, paymentMethod: PaymentMethod = batch.payment_method): Promise<void> {
+    const paidAt = new Date().toISOString();
+    const { data, error } = await supabase
+        .from('payment_batches')
+        .update({ status: 'paid', paid_at: paidAt, payment_method: paymentMethod })
+        .eq('id', batch.id)
+        .neq('status', 'paid')
+        .select('id');
+    if (error) throw error;
+    if (!data?.length) throw new Error('This batch was already marked paid or no longer exists');
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'payment_batches',
+        record_id: batch.id,
+        action: 'MARK_PAID',
+        old_values: { status: batch.status },
+        new_values: { status: 'paid', paid_at: paidAt, payment_method: paymentMethod, net_amount: batch.net_amount },
+        changed_by: paidBy,
+    });
+}
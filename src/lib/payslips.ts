@@ -0,0 +1,257 @@
+/**
+ * Payslips for LaborOS
+ * Builds payslips from the wage engine and archives issued ones with a serial number and a
+ * snapshot of their figures, so a reprint months later shows exactly what was paid.
+ * Batch payslips print the wage sheets the payout saved; older batches are repriced from
+ * the attendance, commission and recoveries they settled.
+ */
+
+import { supabase } from './supabase';
+import { addDays } from './business-date';
+import { PaymentBatch, loadBatchSheets } from './payment-batches';
+import { loadMaistries, loadMaistryStatement, allocateCommission, maistryForWorker } from './maistry';
+import { loadWorkerLedger, loadOpenDebits, dueInstalments, outstandingFor, DebitType } from './worker-ledger';
+import { loadWageContext, computeWages, withDeductions, commissionLine, recoveryLine, lineTotal, WageAttendance, WageSheet } from './wage-engine';
+
+export interface PayslipWorker {
+    id: string;
+    name: string;
+    worker_number: string | null;
+    base_rate: number;
+    category: string | null;
+    photo_url: string | null;
+    site_id: string | null;
+    shift_id: number | null;
+    incharge_id: string | null;
+}
+
+// Everything a payslip prints; stored as-is when the payslip is issued
+export interface PayslipSnapshot {
+    worker: Pick<PayslipWorker, 'id' | 'name' | 'worker_number' | 'category' | 'photo_url'>;
+    startDate: string;
+    endDate: string;
+    sheet: WageSheet; // Line items incl. commission and recoveries
+    lateDays: number;
+    lateMinutes: number;
+    earlyLeaveDays: number;
+    earlyLeaveMinutes: number;
+    ledgerBalance: number; // Advances still owed after these recoveries
+}
+
+export interface IssuedPayslip {
+    id: string;
+    serial_no: string;
+    payment_batch_id: string | null;
+    worker_id: string | null;
+    period_start: string;
+    period_end: string;
+    net_amount: number;
+    snapshot: PayslipSnapshot;
+    created_at: string;
+}
+
+type PayslipAttendance = WageAttendance & {
+    worker_id: string;
+    late_minutes: number | null;
+    early_leave_minutes: number | null;
+};
+
+export const PAYSLIP_WORKER_COLUMNS = 'id, name, worker_number, base_rate, category, photo_url, site_id, shift_id, incharge_id';
+const ATTENDANCE_COLUMNS = 'id, worker_id, date, status, check_in_time, overtime_hours, late_minutes, early_leave_minutes, leave_requests(leave_types(is_paid))';
+const PAYSLIP_COLUMNS = 'id, serial_no, payment_batch_id, worker_id, period_start, period_end, net_amount, snapshot, created_at';
+
+function snapshotFor(worker: PayslipWorker, startDate: string, endDate: string, sheet: WageSheet, records: PayslipAttendance[], ledgerBalance: number): PayslipSnapshot {
+    const late = records.filter(r => r.late_minutes);
+    const early = records.filter(r => r.early_leave_minutes);
+    return {
+        worker: { id: worker.id, name: worker.name, worker_number: worker.worker_number, category: worker.category, photo_url: worker.photo_url },
+        startDate,
+        endDate,
+        sheet,
+        lateDays: late.length,
+        lateMinutes: late.reduce((sum, r) => sum + (r.late_minutes || 0), 0),
+        earlyLeaveDays: early.length,
+        earlyLeaveMinutes: early.reduce((sum, r) => sum + (r.early_leave_minutes || 0), 0),
+        ledgerBalance,
+    };
+}
+
+/**
+ * Payslip for one worker over any date range.
+ * Recoveries are the ones payouts took in the period, else the instalments due now.
+ */
+export async function buildPayslip(worker: PayslipWorker, startDate: string, endDate: string): Promise<PayslipSnapshot> {
+    const [{ data: attendance, error }, context] = await Promise.all([
+        supabase
+            .from('attendance_logs')
+            .select(ATTENDANCE_COLUMNS)
+            .eq('worker_id', worker.id)
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .order('date', { ascending: true }),
+        loadWageContext(startDate, endDate, [worker.id]),
+    ]);
+    if (error) throw error;
+
+    const records = (attendance || []) as unknown as PayslipAttendance[];
+    let sheet = computeWages({ worker, attendance: records, startDate, endDate, context });
+
+    // Maistry commission share, taken off the pay when the maistry deducts it from wages
+    const maistry = maistryForWorker(await loadMaistries(), worker);
+    if (maistry) {
+        try {
+            const statement = await loadMaistryStatement(maistry, startDate, endDate);
+            const commission = statement.find(row => row.workerId === worker.id)?.commission || 0;
+            sheet = withDeductions(sheet, [commissionLine(maistry.name, commission, maistry.deduct_from_wages)]);
+        } catch (error) {
+            console.error('Error loading maistry commission:', error);
+        }
+    }
+
+    const ledger = await loadWorkerLedger(worker.id);
+    const debitTypes = Object.fromEntries(ledger.map(e => [e.id, e.entry_type as DebitType]));
+    let recoveries = ledger
+        .filter(e => e.entry_type === 'recovery' && e.payment_batch_id && e.date >= startDate && e.date <= endDate)
+        .map(e => ({ entryType: debitTypes[e.debit_id || ''] || 'advance', amount: e.amount }));
+    const recoveryDue = recoveries.length === 0;
+    if (recoveryDue) {
+        recoveries = dueInstalments(await loadOpenDebits([worker.id]), worker.id, endDate, sheet.net);
+    }
+    sheet = withDeductions(sheet, recoveries.map(r => recoveryLine(r.entryType, r.amount, recoveryDue)));
+    const ledgerBalance = (ledger.length > 0 ? ledger[ledger.length - 1].balance : 0) - (recoveryDue ? lineTotal(sheet, 'recovery') : 0);
+
+    return snapshotFor(worker, startDate, endDate, sheet, records, ledgerBalance);
+}
+
+/**
+ * Payslips for every worker paid by a batch, with the wage sheets saved by the payout
+ * that created it. Late/early figures come from the attendance it settled.
+ */
+export async function buildBatchPayslips(batch: PaymentBatch): Promise<PayslipSnapshot[]> {
+    const saved = await loadBatchSheets(batch.id);
+    if (saved.length === 0) return repriceBatchPayslips(batch);
+
+    const workerIds = saved.map(s => s.sheet.workerId);
+    const [workersRes, logsRes] = await Promise.all([
+        supabase.from('workers').select(PAYSLIP_WORKER_COLUMNS).in('id', workerIds).order('name'),
+        supabase.from('attendance_logs').select(ATTENDANCE_COLUMNS).eq('payment_batch_id', batch.id),
+    ]);
+    if (workersRes.error) throw workersRes.error;
+    if (logsRes.error) throw logsRes.error;
+
+    const records = (logsRes.data || []) as unknown as PayslipAttendance[];
+    return (workersRes.data || []).map(worker => {
+        const { sheet, ledgerBalance } = saved.find(s => s.sheet.workerId === worker.id)!;
+        return snapshotFor(worker, batch.start_date, batch.end_date, sheet, records.filter(r => r.worker_id === worker.id), ledgerBalance);
+    });
+}
+
+/**
+ * Batches created before wage sheets were saved: reprice the attendance the batch settled,
+ * paid holidays since the previous batch, gang commission split across the batch,
+ * and the recoveries it took.
+ */
+async function repriceBatchPayslips(batch: PaymentBatch): Promise<PayslipSnapshot[]> {
+    const [workersRes, logsRes, previousRes, recoveriesRes, context, maistries] = await Promise.all([
+        supabase.from('workers').select(`${PAYSLIP_WORKER_COLUMNS}, is_active`).order('name'),
+        supabase.from('attendance_logs').select(ATTENDANCE_COLUMNS).eq('payment_batch_id', batch.id),
+        supabase
+            .from('payment_batches')
+            .select('end_date')
+            .lt('created_at', batch.created_at)
+            .order('end_date', { ascending: false })
+            .limit(1)
+            .maybeSingle(),
+        supabase.from('worker_ledger').select('worker_id, amount, debit_id').eq('payment_batch_id', batch.id).eq('entry_type', 'recovery'),
+        loadWageContext(batch.start_date, batch.end_date),
+        loadMaistries(),
+    ]);
+    if (workersRes.error) throw workersRes.error;
+    if (logsRes.error) throw logsRes.error;
+    if (recoveriesRes.error) throw recoveriesRes.error;
+
+    const records = (logsRes.data || []) as unknown as PayslipAttendance[];
+    const recoveries = recoveriesRes.data || [];
+    const paidHolidaysFrom = previousRes.data?.end_date ? addDays(previousRes.data.end_date, 1) : undefined;
+
+    // Workers with settled attendance or recoveries, plus active workers paid for holidays only
+    const rows = (workersRes.data || []).map(worker => {
+        const workerRecords = records.filter(r => r.worker_id === worker.id);
+        const sheet = computeWages({ worker, attendance: workerRecords, startDate: batch.start_date, endDate: batch.end_date, context, paidHolidaysFrom });
+        return { worker, records: workerRecords, sheet };
+    }).filter(row => row.records.length > 0 || recoveries.some(r => r.worker_id === row.worker.id) || (row.worker.is_active && row.sheet.gross > 0));
+
+    const commission: Record<string, number> = {};
+    for (const maistry of maistries) {
+        const gang = rows.filter(r => maistryForWorker([maistry], r.worker));
+        Object.assign(commission, allocateCommission(maistry, gang.map(r => ({ workerId: r.worker.id, headDays: r.sheet.headDays, wages: r.sheet.gross }))));
+    }
+
+    const debitIds = Array.from(new Set(recoveries.map(r => r.debit_id).filter((id): id is string => !!id)));
+    const { data: debits } = debitIds.length > 0
+        ? await supabase.from('worker_ledger').select('id, entry_type').in('id', debitIds)
+        : { data: [] as { id: string; entry_type: DebitType }[] };
+    const debitTypes: Record<string, DebitType> = Object.fromEntries((debits || []).map(d => [d.id, d.entry_type]));
+    const openDebits = await loadOpenDebits(rows.map(r => r.worker.id));
+
+    return rows.map(({ worker, records: workerRecords, sheet }) => {
+        const maistry = maistryForWorker(maistries, worker);
+        const lines = [
+            ...(maistry ? [commissionLine(maistry.name, commission[worker.id] || 0, maistry.deduct_from_wages)] : []),
+            ...recoveries.filter(r => r.worker_id === worker.id).map(r => recoveryLine(debitTypes[r.debit_id || ''] || 'advance', r.amount)),
+        ];
+        const final = withDeductions(sheet, lines);
+        return snapshotFor(worker, batch.start_date, batch.end_date, final, workerRecords, outstandingFor(openDebits, worker.id));
+    });
+}
+
+/**
+ * Issued payslips, newest first; for one batch, in the order they were issued
+ */
+export async function loadIssuedPayslips(batchId?: string): Promise<IssuedPayslip[]> {
+    let query = supabase.from('payslips').select(PAYSLIP_COLUMNS);
+    query = batchId
+        ? query.eq('payment_batch_id', batchId).order('serial_no', { ascending: true })
+        : query.order('created_at', { ascending: false }).limit(50);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading payslips:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Archive payslips, each getting the next serial number.
+ * A batch issues each worker's payslip once; workers already issued are skipped.
+ */
+export async function issuePayslips(snapshots: PayslipSnapshot[], batchId: string | null, issuedBy: string | null): Promise<IssuedPayslip[]> {
+    let pending = snapshots;
+    if (batchId) {
+        const issued = new Set((await loadIssuedPayslips(batchId)).map(p => p.worker_id));
+        pending = snapshots.filter(s => !issued.has(s.worker.id));
+    }
+    if (pending.length === 0) return [];
+
+    const { data, error } = await supabase.from('payslips').insert(pending.map(s => ({
+        payment_batch_id: batchId,
+        worker_id: s.worker.id,
+        period_start: s.startDate,
+        period_end: s.endDate,
+        net_amount: Math.round(s.sheet.net),
+        snapshot: s,
+        created_by: issuedBy,
+    }))).select(PAYSLIP_COLUMNS);
+    if (error) throw error;
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'payslips',
+        record_id: batchId,
+        action: 'ISSUE_PAYSLIPS',
+        old_values: null,
+        new_values: { payment_batch_id: batchId, count: data?.length || 0, serials: (data || []).map(p => p.serial_no) },
+        changed_by: issuedBy,
+    });
+
+    return (data || []).sort((a, b) => a.serial_no.localeCompare(b.serial_no));
+}
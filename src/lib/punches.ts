@@ -0,0 +1,230 @@
+/**
+ * Attendance punches for LaborOS
+ * Every scan is an IN or OUT punch; a day can have several sessions
+ * (e.g. out for lunch and back). attendance_logs keeps the daily summary
+ * derived from the paired punches.
+ */
+
+import { supabase } from './supabase';
+import { computeShiftMetrics, loadWorkerShiftRules } from './shift-metrics';
+import { checkoutStatus } from './checkout-policy';
+
+export type PunchType = 'IN' | 'OUT';
+export type PunchSource = 'scan' | 'manual' | 'offline' | 'system'; // system = closed by the missing-checkout routine
+
+// A second scan this soon after the last punch is treated as a double scan
+export const DUPLICATE_PUNCH_MINUTES = 10;
+
+export interface Punch {
+    id: string;
+    attendance_id: string;
+    worker_id: string;
+    date: string;
+    punch_type: PunchType;
+    punch_time: string;
+    source: PunchSource;
+    marked_by: string | null;
+}
+
+export interface NewPunch {
+    workerId: string;
+    date: string;
+    type: PunchType;
+    time: string;
+    source: PunchSource;
+    markedBy: string | null;
+}
+
+export interface WorkSession {
+    in: string;
+    out: string | null; // null = still inside
+    minutes: number;
+}
+
+export interface BreakPeriod {
+    start: string;
+    end: string;
+    minutes: number;
+}
+
+export interface PunchSummary {
+    sessions: WorkSession[];
+    breaks: BreakPeriod[];
+    firstIn: string | null;
+    lastOut: string | null;
+    lastPunch: Pick<Punch, 'punch_type' | 'punch_time'> | null;
+    isIn: boolean;
+    workedMinutes: number;
+    breakMinutes: number;
+}
+
+function minutesBetween(start: string, end: string | number): number {
+    const endMs = typeof end === 'number' ? end : new Date(end).getTime();
+    return Math.max(0, Math.round((endMs - new Date(start).getTime()) / 60000));
+}
+
+/**
+ * Pair punches into work sessions and the breaks between them.
+ * A repeated IN keeps the earlier one; a repeated OUT extends the session.
+ * The open session counts up to `now` when given, otherwise it adds nothing.
+ */
+export function summarizePunches(
+    punches: Pick<Punch, 'punch_type' | 'punch_time'>[],
+    now?: number
+): PunchSummary {
+    const sorted = [...punches].sort((a, b) => new Date(a.punch_time).getTime() - new Date(b.punch_time).getTime());
+    const sessions: WorkSession[] = [];
+    let openIn: string | null = null;
+
+    for (const punch of sorted) {
+        if (punch.punch_type === 'IN') {
+            if (!openIn) openIn = punch.punch_time;
+        } else if (openIn) {
+            sessions.push({ in: openIn, out: punch.punch_time, minutes: minutesBetween(openIn, punch.punch_time) });
+            openIn = null;
+        } else if (sessions.length > 0) {
+            // OUT scanned twice - the later one ends the session
+            const last = sessions[sessions.length - 1];
+            last.out = punch.punch_time;
+            last.minutes = minutesBetween(last.in, punch.punch_time);
+        }
+    }
+    if (openIn) {
+        sessions.push({ in: openIn, out: null, minutes: now ? minutesBetween(openIn, now) : 0 });
+    }
+
+    const breaks: BreakPeriod[] = [];
+    for (let i = 1; i < sessions.length; i++) {
+        const start = sessions[i - 1].out!;
+        breaks.push({ start, end: sessions[i].in, minutes: minutesBetween(start, sessions[i].in) });
+    }
+
+    const closed = sessions.filter(s => s.out);
+    const last = sorted[sorted.length - 1];
+    return {
+        sessions,
+        breaks,
+        firstIn: sessions[0]?.in || null,
+        lastOut: closed.length > 0 ? closed[closed.length - 1].out : null,
+        lastPunch: last ? { punch_type: last.punch_type, punch_time: last.punch_time } : null,
+        isIn: !!openIn,
+        workedMinutes: sessions.reduce((sum, s) => sum + s.minutes, 0),
+        breakMinutes: breaks.reduce((sum, b) => sum + b.minutes, 0),
+    };
+}
+
+/**
+ * attendance_logs summary columns for a day's punches
+ */
+export function punchLogFields(summary: PunchSummary) {
+    return {
+        check_in_time: summary.firstIn,
+        check_out_time: summary.isIn ? null : summary.lastOut,
+        worked_minutes: summary.workedMinutes,
+        break_minutes: summary.breakMinutes,
+    };
+}
+
+/**
+ * Punches for a date range, oldest first
+ */
+export async function loadPunches(startDate: string, endDate: string = startDate, workerId?: string): Promise<Punch[]> {
+    let query = supabase
+        .from('attendance_punches')
+        .select('id, attendance_id, worker_id, date, punch_type, punch_time, source, marked_by')
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('punch_time');
+    if (workerId) query = query.eq('worker_id', workerId);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading punches:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Group punches by worker_id + date
+ */
+export function groupPunches(punches: Punch[]): Map<string, Punch[]> {
+    const groups = new Map<string, Punch[]>();
+    for (const punch of punches) {
+        const key = `${punch.worker_id}|${punch.date}`;
+        groups.set(key, [...(groups.get(key) || []), punch]);
+    }
+    return groups;
+}
+
+/**
+ * Record a punch and refresh the day's summary and shift metrics on attendance_logs.
+ * Once the worker is out, status follows the shift's checkout policy (present / half-day);
+ * a worker who comes in on an approved leave day is marked present.
+ * `logFields` (location, liveness, match data...) are written on the same update.
+ * A day already settled in a payment batch keeps the summary it was paid on: the punch is stored only.
+ * A voided day stays absent and voided whatever is scanned later.
+ * Throws on database/network errors so callers can queue the scan offline.
+ */
+export async function recordPunch(
+    punch: NewPunch,
+    logFields: Record<string, unknown> = {}
+): Promise<{ logId: string; summary: PunchSummary }> {
+    const { data: existing, error: fetchError } = await supabase
+        .from('attendance_logs')
+        .select('id, status, review_status, payment_batch_id')
+        .eq('worker_id', punch.workerId)
+        .eq('date', punch.date)
+        .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    let logId = existing?.id as string | undefined;
+    if (!logId) {
+        const { data, error } = await supabase.from('attendance_logs').upsert({
+            worker_id: punch.workerId, date: punch.date, status: 'present', marked_by: punch.markedBy,
+        }, { onConflict: 'worker_id,date' }).select('id').single();
+        if (error) throw error;
+        logId = data.id as string;
+    }
+
+    const { error: insertError } = await supabase.from('attendance_punches').insert({
+        attendance_id: logId, worker_id: punch.workerId, date: punch.date,
+        punch_type: punch.type, punch_time: punch.time, source: punch.source, marked_by: punch.markedBy,
+    });
+    if (insertError) throw insertError;
+
+    const { data: dayPunches, error: punchesError } = await supabase
+        .from('attendance_punches')
+        .select('punch_type, punch_time')
+        .eq('attendance_id', logId);
+    if (punchesError) throw punchesError;
+
+    const summary = summarizePunches(dayPunches || []);
+    if (existing?.payment_batch_id) return { logId, summary };
+
+    const { shift, timeZone } = await loadWorkerShiftRules(punch.workerId, punch.date);
+    const metrics = shift ? computeShiftMetrics(summary, punch.date, shift, timeZone) : {};
+    const status = checkoutStatus(summary, shift) || (existing?.status === 'leave' ? 'present' : null);
+
+    const fields: Record<string, unknown> = { ...punchLogFields(summary), ...metrics, ...(status && { status }), ...logFields };
+    if (existing?.review_status === 'voided') {
+        delete fields.status;
+        delete fields.review_status;
+        delete fields.review_reason;
+    }
+    const { error: updateError } = await supabase.from('attendance_logs')
+        .update(fields)
+        .eq('id', logId);
+    if (updateError) throw updateError;
+
+    return { logId, summary };
+}
+
+/**
+ * Format minutes as "7h 30m"
+ */
+export function formatMinutes(minutes: number): string {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Shift roster for LaborOS
+ * Per-day shift assignments (worker × date → shift) that override workers.shift_id,
+ * plus rotation templates such as a 2-week day/night pattern for kiln gangs.
+ */
+
+import { supabase } from './supabase';
+import { addDays } from './business-date';
+
+export interface RosterEntry {
+    worker_id: string;
+    date: string;
+    shift_id: number | null; // null = day off
+}
+
+// One block of a rotation: `days` consecutive days on the same shift
+export interface RotationSegment {
+    shift_id: number | null;
+    days: number;
+}
+
+export interface RosterTemplate {
+    id: number;
+    name: string;
+    pattern: RotationSegment[];
+    is_active: boolean;
+    created_at: string;
+}
+
+/**
+ * Length of one full rotation in days
+ */
+export function cycleLength(pattern: RotationSegment[]): number {
+    return pattern.reduce((sum, segment) => sum + Math.max(0, segment.days), 0);
+}
+
+function daysBetween(start: string, end: string): number {
+    return Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / 86400000);
+}
+
+/**
+ * Shift a rotation gives on `date` when it starts on `startDate`.
+ * `offsetDays` shifts the rotation, e.g. gang B starts a week into an A/B pattern.
+ */
+export function rotationShiftOn(pattern: RotationSegment[], startDate: string, date: string, offsetDays = 0): number | null {
+    const cycle = cycleLength(pattern);
+    if (cycle === 0) return null;
+    let day = ((daysBetween(startDate, date) + offsetDays) % cycle + cycle) % cycle;
+    for (const segment of pattern) {
+        if (day < segment.days) return segment.shift_id;
+        day -= segment.days;
+    }
+    return null;
+}
+
+/**
+ * Roster entries for applying a rotation to workers over a date range (inclusive)
+ */
+export function expandRotation(
+    pattern: RotationSegment[],
+    workerIds: string[],
+    startDate: string,
+    endDate: string,
+    offsetDays = 0
+): RosterEntry[] {
+    const entries: RosterEntry[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+        const shiftId = rotationShiftOn(pattern, startDate, date, offsetDays);
+        for (const workerId of workerIds) entries.push({ worker_id: workerId, date, shift_id: shiftId });
+    }
+    return entries;
+}
+
+/**
+ * Roster entries for a date range, optionally for some workers only
+ */
+export async function loadRoster(startDate: string, endDate: string, workerIds?: string[]): Promise<RosterEntry[]> {
+    let query = supabase
+        .from('shift_roster')
+        .select('worker_id, date, shift_id')
+        .gte('date', startDate)
+        .lte('date', endDate);
+    if (workerIds) query = query.in('worker_id', workerIds);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading roster:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Create or replace roster entries (one per worker and date)
+ */
+export async function saveRosterEntries(entries: RosterEntry[], assignedBy: string | null): Promise<void> {
+    // Batched so a month for a large site stays under request size limits
+    for (let i = 0; i < entries.length; i += 500) {
+        const { error } = await supabase.from('shift_roster').upsert(
+            entries.slice(i, i + 500).map(e => ({ ...e, assigned_by: assignedBy })),
+            { onConflict: 'worker_id,date' }
+        );
+        if (error) throw error;
+    }
+}
+
+/**
+ * Remove roster entries so the workers fall back to their default shift
+ */
+export async function clearRoster(workerIds: string[], startDate: string, endDate: string): Promise<void> {
+    const { error } = await supabase
+        .from('shift_roster')
+        .delete()
+        .in('worker_id', workerIds)
+        .gte('date', startDate)
+        .lte('date', endDate);
+    if (error) throw error;
+}
+
+/**
+ * Rostered shift for one worker and date: the shift id (null = day off),
+ * or undefined when the roster has no entry and the default shift applies
+ */
+export async function rosteredShiftId(workerId: string, date: string): Promise<number | null | undefined> {
+    const { data, error } = await supabase
+        .from('shift_roster')
+        .select('shift_id')
+        .eq('worker_id', workerId)
+        .eq('date', date)
+        .maybeSingle();
+    if (error) throw error;
+    return data ? data.shift_id : undefined;
+}
+
+export async function loadRosterTemplates(): Promise<RosterTemplate[]> {
+    const { data, error } = await supabase.from('roster_templates').select('*').order('name');
+    if (error) {
+        console.error('Error loading roster templates:', error);
+        return [];
+    }
+    return data || [];
+}
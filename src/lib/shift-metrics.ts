@@ -0,0 +1,114 @@
+/**
+ * Shift metrics for LaborOS
+ * Late arrival, early leave and overtime against the worker's assigned shift,
+ * stored on attendance_logs whenever a punch is recorded.
+ */
+
+import { supabase } from './supabase';
+import { addDays, isOvernightShift, zonedDateTime, DEFAULT_TIMEZONE, ShiftWindow } from './business-date';
+import type { PunchSummary } from './punches';
+import type { CheckoutPolicy } from './checkout-policy';
+import { rosteredShiftId } from './roster';
+
+export const OVERTIME_RATE_MULTIPLIER = 1.5; // Overtime is 1.5x
+export const STANDARD_SHIFT_HOURS = 8;
+
+export interface ShiftRules extends ShiftWindow, CheckoutPolicy {
+    late_grace_minutes: number | null;
+    early_grace_minutes: number | null;
+    overtime_after_minutes: number | null; // Stay at least this long past shift end before OT counts
+}
+
+export const DEFAULT_SHIFT_RULES = { late_grace_minutes: 10, early_grace_minutes: 10, overtime_after_minutes: 30 };
+
+export interface ShiftMetrics {
+    late_minutes: number;
+    early_leave_minutes: number;
+    overtime_hours: number;
+}
+
+function minutesBetween(start: Date, end: Date): number {
+    return Math.round((end.getTime() - start.getTime()) / 60000);
+}
+
+/**
+ * Shift start and end instants for an attendance date
+ */
+export function shiftBounds(date: string, shift: ShiftWindow, timeZone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } {
+    return {
+        start: zonedDateTime(date, shift.start_time, timeZone),
+        end: zonedDateTime(isOvernightShift(shift) ? addDays(date, 1) : date, shift.end_time, timeZone),
+    };
+}
+
+/**
+ * Late / early-leave / overtime for a day's punches.
+ * Minutes inside the grace period count as zero; past it, the full difference counts.
+ * Early leave and overtime are only known once the worker is out.
+ */
+export function computeShiftMetrics(
+    summary: PunchSummary,
+    date: string,
+    shift: ShiftRules,
+    timeZone: string = DEFAULT_TIMEZONE
+): ShiftMetrics {
+    const { start, end } = shiftBounds(date, shift, timeZone);
+    const lateGrace = shift.late_grace_minutes ?? DEFAULT_SHIFT_RULES.late_grace_minutes;
+    const earlyGrace = shift.early_grace_minutes ?? DEFAULT_SHIFT_RULES.early_grace_minutes;
+    const overtimeAfter = shift.overtime_after_minutes ?? DEFAULT_SHIFT_RULES.overtime_after_minutes;
+
+    const late = summary.firstIn ? minutesBetween(start, new Date(summary.firstIn)) : 0;
+    const lastOut = !summary.isIn && summary.lastOut ? new Date(summary.lastOut) : null;
+    const early = lastOut ? minutesBetween(lastOut, end) : 0;
+    const overtime = lastOut ? minutesBetween(end, lastOut) : 0;
+
+    return {
+        late_minutes: late > lateGrace ? late : 0,
+        early_leave_minutes: early > earlyGrace ? early : 0,
+        overtime_hours: overtime >= overtimeAfter ? Math.round((overtime / 60) * 100) / 100 : 0,
+    };
+}
+
+const SHIFT_RULE_COLUMNS = 'start_time, end_time, late_grace_minutes, early_grace_minutes, overtime_after_minutes, min_checkout_minutes, confirm_checkout_minutes, half_day_minutes';
+
+/**
+ * Shift rules (grace periods and checkout policy) and site timezone for a worker on a date.
+ * The rostered shift for that date wins over the worker's default shift; null when off or unassigned.
+ */
+export async function loadWorkerShiftRules(workerId: string, date: string): Promise<{ shift: ShiftRules | null; timeZone: string }> {
+    const [{ data, error }, rostered] = await Promise.all([
+        supabase
+            .from('workers')
+            .select(`shifts(${SHIFT_RULE_COLUMNS}), sites(timezone)`)
+            .eq('id', workerId)
+            .maybeSingle(),
+        rosteredShiftId(workerId, date),
+    ]);
+    if (error) throw error;
+
+    const row = data as unknown as { shifts: ShiftRules | null; sites: { timezone: string | null } | null } | null;
+    const timeZone = row?.sites?.timezone || DEFAULT_TIMEZONE;
+    if (rostered === undefined) return { shift: row?.shifts || null, timeZone };
+    if (rostered === null) return { shift: null, timeZone };
+
+    const { data: shift, error: shiftError } = await supabase.from('shifts').select(SHIFT_RULE_COLUMNS).eq('id', rostered).maybeSingle();
+    if (shiftError) throw shiftError;
+    return { shift: (shift as ShiftRules | null) || null, timeZone };
+}
+
+/**
+ * Scheduled length of a shift in hours; overnight shifts run past midnight
+ */
+export function shiftLengthHours(shift: ShiftWindow): number {
+    const [startH, startM] = shift.start_time.split(':').map(Number);
+    const [endH, endM] = shift.end_time.split(':').map(Number);
+    const minutes = (endH * 60 + (endM || 0)) - (startH * 60 + (startM || 0));
+    return (minutes > 0 ? minutes : minutes + 24 * 60) / 60;
+}
+
+/**
+ * Overtime pay at the standard multiplier, from the daily rate spread over the shift's hours
+ */
+export function overtimePay(overtimeHours: number, dailyRate: number, shiftHours: number = STANDARD_SHIFT_HOURS): number {
+    return overtimeHours * (dailyRate / shiftHours) * OVERTIME_RATE_MULTIPLIER;
+}
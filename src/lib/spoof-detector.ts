@@ -150,6 +150,70 @@ export function getCurrentPosition(options?: PositionOptions): Promise<Geolocati
     });
 }
 
+const LAST_FIX_KEY = 'laboros_last_fix';
+
+export interface LocationCapture {
+    location: LocationData;
+    spoof: SpoofCheckResult;
+}
+
+function getLastFix(): LocationData | null {
+    try {
+        const raw = localStorage.getItem(LAST_FIX_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the device position and check it against this device's previous fix.
+ * Only clean fixes are remembered, so one spoofed reading doesn't flag the next real one.
+ * Returns null when GPS is unavailable.
+ */
+export async function captureLocation(options?: PositionOptions): Promise<LocationCapture | null> {
+    try {
+        const pos = await getCurrentPosition(options);
+        const location: LocationData = {
+            lat: pos.coords.latitude,
+            lng: pos.coords.longitude,
+            accuracy: pos.coords.accuracy,
+            timestamp: pos.timestamp,
+        };
+        const spoof = detectSpoof(location, getLastFix());
+        if (!spoof.isSpoofed) localStorage.setItem(LAST_FIX_KEY, JSON.stringify(location));
+        return { location, spoof };
+    } catch (err) {
+        console.warn('Location capture failed:', err);
+        return null;
+    }
+}
+
+/**
+ * Map a captured location to attendance_logs columns.
+ * The strongest spoof verdict of the day is kept and a flag is never cleared by a later clean scan.
+ */
+export function locationToLogFields(
+    capture: LocationCapture | null,
+    isCheckOut: boolean,
+    existing?: { is_flagged?: boolean | null; spoof_confidence?: number | null } | null
+): Record<string, unknown> {
+    if (!capture) return {};
+    const { location, spoof } = capture;
+
+    const fields: Record<string, unknown> = isCheckOut
+        ? { gps_out_lat: location.lat, gps_out_long: location.lng, gps_out_accuracy: location.accuracy }
+        : { gps_lat: location.lat, gps_long: location.lng, gps_accuracy: location.accuracy };
+
+    if (!existing || spoof.confidence > (existing.spoof_confidence ?? 0)) {
+        fields.spoof_confidence = spoof.confidence;
+        fields.spoof_reason = spoof.reason;
+    }
+    fields.is_flagged = !!existing?.is_flagged || spoof.isSpoofed;
+
+    return fields;
+}
+
 /**
  * Watch position with callback
  */
@@ -9,21 +9,14 @@ import { compressToThumbnail, generateProofFilename } from './image-utils';
 const BUCKET_NAME = 'daily-scans';
 
 /**
- * Upload proof photo to Supabase Storage
+ * Compress an image to a thumbnail and upload it under the given filename
  * Returns the public URL
  */
-export async function uploadProofPhoto(
-    imageData: string | Blob,
-    workerId: string,
-    date?: string
-): Promise<string | null> {
+async function uploadThumbnail(imageData: string | Blob, filename: string): Promise<string | null> {
     try {
         // Compress to tiny thumbnail
         const compressedBlob = await compressToThumbnail(imageData, 200, 0.5);
 
-        // Generate unique filename
-        const filename = generateProofFilename(workerId, date);
-
         // Upload to Supabase Storage
         const { data, error } = await supabase.storage
             .from(BUCKET_NAME)
@@ -45,11 +38,31 @@ export async function uploadProofPhoto(
 
         return urlData.publicUrl;
     } catch (err) {
-        console.error('Proof upload failed:', err);
+        console.error('Photo upload failed:', err);
         return null;
     }
 }
 
+/**
+ * Upload proof photo to Supabase Storage
+ * Returns the public URL
+ */
+export async function uploadProofPhoto(
+    imageData: string | Blob,
+    workerId: string,
+    date?: string
+): Promise<string | null> {
+    return uploadThumbnail(imageData, generateProofFilename(workerId, date));
+}
+
+/**
+ * Upload the cropped face of a gallery template, so the table stores a URL instead of the image
+ * Returns the public URL
+ */
+export async function uploadFaceTemplatePhoto(imageData: string, workerId: string, index: number): Promise<string | null> {
+    return uploadThumbnail(imageData, `face-templates/${workerId}/${Date.now()}_${index}.webp`);
+}
+
 /**
  * Upload proof and update attendance log in parallel (non-blocking)
  */
@@ -72,26 +85,39 @@ export function uploadProofAsync(
 
 /**
  * Get recent scan proofs for live wall
+ * Pass a date to limit to that day's scans
  */
-export async function getRecentProofs(limit: number = 20): Promise<{
+export async function getRecentProofs(limit: number = 20, date?: string): Promise<{
     id: string;
+    worker_id: string;
     worker_name: string;
+    worker_photo_url: string | null;
     proof_url: string;
+    proof_out_url: string | null;
     check_in_time: string;
+    check_out_time: string | null;
     date: string;
 }[]> {
-    const { data } = await supabase
+    let query = supabase
         .from('attendance_logs')
-        .select('id, proof_url, check_in_time, date, workers(name)')
-        .not('proof_url', 'is', null)
+        .select('id, worker_id, proof_url, proof_out_url, check_in_time, check_out_time, date, workers(name, photo_url)')
+        .not('proof_url', 'is', null);
+
+    if (date) query = query.eq('date', date);
+
+    const { data } = await query
         .order('check_in_time', { ascending: false })
         .limit(limit);
 
     return (data || []).map((log: any) => ({
         id: log.id,
+        worker_id: log.worker_id,
         worker_name: log.workers?.name || 'Unknown',
+        worker_photo_url: log.workers?.photo_url || null,
         proof_url: log.proof_url,
+        proof_out_url: log.proof_out_url,
         check_in_time: log.check_in_time,
+        check_out_time: log.check_out_time,
         date: log.date,
     }));
 }
@@ -30,25 +30,34 @@ export interface Worker {
     id: string;
     name: string;
     photo_url: string | null;
-    face_descriptor: number[] | null;
+    face_enrolled: boolean; // face_descriptor itself can be written but not read back
     base_rate: number;
     category: string | null;
     site_id: string | null;
+    shift_id: number | null;
+    incharge_id: string | null;
     worker_number: string | null;
     is_active: boolean;
     consent_date: string | null;
     created_at: string;
 }
 
+// Readable worker columns (face descriptors are not granted to API users)
+export const WORKER_COLUMNS = 'id, name, photo_url, face_enrolled, base_rate, category, site_id, shift_id, incharge_id, worker_number, is_active, consent_date, created_at';
+
 export interface AttendanceLog {
     id: string;
     worker_id: string;
     date: string;
-    status: 'present' | 'absent' | 'half-day';
+    status: 'present' | 'absent' | 'half-day' | 'leave';
     check_in_time: string | null;
     check_out_time: string | null;
     gps_lat: number | null;
     gps_long: number | null;
+    gps_accuracy: number | null;
+    is_flagged: boolean;
+    spoof_confidence: number | null;
+    spoof_reason: string | null;
     ip_address: string | null;
     marked_by: string;
     created_at: string;
@@ -0,0 +1,289 @@
+/**
+ * Wage engine for LaborOS
+ * The one wage calculation behind payouts, payslips, khata, reports and the accountant view:
+ * attendance priced at the rate in force each day, paid leave and holidays, overtime at the
+ * shift's hourly rate, then maistry commission and advance recoveries as line items.
+ */
+
+import { supabase } from './supabase';
+import { ShiftWindow } from './business-date';
+import { overtimePay, shiftLengthHours, STANDARD_SHIFT_HOURS, OVERTIME_RATE_MULTIPLIER } from './shift-metrics';
+import { loadRateBook, rateOn, RateBook, RatedWorker, EMPTY_RATE_BOOK } from './wage-rates';
+import { loadHolidayCalendar, dayOff, dateRange, HolidayCalendar, EMPTY_HOLIDAY_CALENDAR } from './holidays';
+import { LEDGER_LABELS, DebitType } from './worker-ledger';
+
+export type LineKind = 'basic' | 'half_day' | 'holiday' | 'leave' | 'overtime' | 'commission' | 'recovery';
+
+// earning = adds to gross, deduction = taken off the net, memo = shown only (e.g. commission the company pays)
+export type LineEffect = 'earning' | 'deduction' | 'memo';
+
+export interface LineItem {
+    kind: LineKind;
+    label: string;
+    quantity: number; // Days, or hours for overtime
+    rates: number[]; // Unit rates applied, lowest first (more than one when the rate changed)
+    amount: number; // Always positive; the effect decides the direction
+    effect: LineEffect;
+    note?: string;
+}
+
+export interface WageAttendance {
+    id?: string;
+    date: string;
+    status: string;
+    check_in_time: string | null;
+    overtime_hours: number | null;
+    leave_requests?: { leave_types: { is_paid: boolean } | null } | null;
+}
+
+export interface WageWorker extends RatedWorker {
+    site_id?: string | null;
+    shift_id?: number | null;
+}
+
+// Everything besides attendance the engine needs for a period
+export interface WageContext {
+    rateBook: RateBook;
+    calendar: HolidayCalendar; // Holidays, weekly offs and roster for the period
+    shifts: Record<number, ShiftWindow>;
+}
+
+export interface WageInput {
+    worker: WageWorker;
+    attendance: WageAttendance[]; // The worker's records; rows outside the period are ignored
+    startDate: string;
+    endDate: string;
+    context: WageContext;
+    paidHolidaysFrom?: string; // Paid holidays before this date were already paid (previous payout)
+}
+
+export interface WageSheet {
+    workerId: string;
+    days: {
+        present: number;
+        halfDay: number;
+        leave: number;
+        leavePaid: number;
+        absent: number;
+        off: number; // Weekly offs and holidays not worked
+        paidHolidays: number;
+    };
+    headDays: number; // Present = 1, half-day = 0.5
+    overtimeHours: number;
+    rates: number[]; // Daily rates in force on paid days, lowest first
+    lines: LineItem[];
+    gross: number;
+    deductions: number;
+    net: number;
+    logIds: string[]; // Attendance paid by this sheet (worked days and leave)
+}
+
+export const EMPTY_WAGE_CONTEXT: WageContext = { rateBook: EMPTY_RATE_BOOK, calendar: EMPTY_HOLIDAY_CALENDAR, shifts: {} };
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function sortedRates(rates: Iterable<number>): number[] {
+    return Array.from(new Set(Array.from(rates, round2))).sort((a, b) => a - b);
+}
+
+/**
+ * Rates, shifts and the holiday calendar for a period
+ */
+export async function loadWageContext(startDate: string, endDate: string, workerIds?: string[]): Promise<WageContext> {
+    const [rateBook, calendar, shiftsRes] = await Promise.all([
+        loadRateBook(),
+        loadHolidayCalendar(startDate, endDate, workerIds),
+        supabase.from('shifts').select('id, start_time, end_time'),
+    ]);
+    if (shiftsRes.error) console.error('Error loading shifts:', shiftsRes.error);
+    return {
+        rateBook,
+        calendar,
+        shifts: Object.fromEntries((shiftsRes.data || []).map(s => [s.id, s])),
+    };
+}
+
+/**
+ * A day that earns wages: checked in and marked present or half-day
+ */
+export function isWorkedDay(record: WageAttendance): boolean {
+    return !!record.check_in_time && (record.status === 'present' || record.status === 'half-day');
+}
+
+/**
+ * Hours in the shift a worker works on a date (rostered, else their default), for the overtime hourly rate
+ */
+export function shiftHoursOn(context: WageContext, worker: WageWorker, date: string): number {
+    const key = `${worker.id}|${date}`;
+    const shiftId = key in context.calendar.roster ? context.calendar.roster[key] : worker.shift_id;
+    const shift = shiftId ? context.shifts[shiftId] : null;
+    return shift ? shiftLengthHours(shift) : STANDARD_SHIFT_HOURS;
+}
+
+/**
+ * Pay for one attendance record: the day (or half) at that date's rate plus its overtime
+ */
+export function dayWage(context: WageContext, worker: WageWorker, record: WageAttendance): number {
+    if (!isWorkedDay(record)) return 0;
+    const rate = rateOn(context.rateBook, worker, record.date);
+    const base = record.status === 'half-day' ? rate * 0.5 : rate;
+    return round2(base + overtimePay(Number(record.overtime_hours || 0), rate, shiftHoursOn(context, worker, record.date)));
+}
+
+function totals(sheet: WageSheet, lines: LineItem[]): WageSheet {
+    const gross = round2(lines.filter(l => l.effect === 'earning').reduce((sum, l) => sum + l.amount, 0));
+    const deductions = round2(lines.filter(l => l.effect === 'deduction').reduce((sum, l) => sum + l.amount, 0));
+    return { ...sheet, lines, gross, deductions, net: round2(gross - deductions) };
+}
+
+/**
+ * Wages for one worker over a period, as line items
+ */
+export function computeWages(input: WageInput): WageSheet {
+    const { worker, startDate, endDate, context } = input;
+    const records = input.attendance.filter(r => r.date >= startDate && r.date <= endDate);
+    const rateFor = (date: string) => rateOn(context.rateBook, worker, date);
+
+    const basic = { days: 0, amount: 0, rates: [] as number[] };
+    const halfDay = { days: 0, amount: 0, rates: [] as number[] };
+    const leave = { days: 0, amount: 0, rates: [] as number[] };
+    const holiday = { days: 0, amount: 0, rates: [] as number[] };
+    const overtime = { hours: 0, amount: 0, rates: [] as number[] };
+    let daysLeave = 0, absent = 0, off = 0;
+    const logIds: string[] = [];
+    const covered = new Set<string>();
+
+    records.forEach(r => {
+        const rate = rateFor(r.date);
+        if (isWorkedDay(r)) {
+            covered.add(r.date);
+            if (r.id) logIds.push(r.id);
+            const line = r.status === 'half-day' ? halfDay : basic;
+            line.days++;
+            line.amount += r.status === 'half-day' ? rate * 0.5 : rate;
+            line.rates.push(r.status === 'half-day' ? rate * 0.5 : rate);
+
+            const hours = Number(r.overtime_hours || 0);
+            if (hours > 0) {
+                const shiftHours = shiftHoursOn(context, worker, r.date);
+                overtime.hours += hours;
+                overtime.amount += overtimePay(hours, rate, shiftHours);
+                overtime.rates.push(Math.round((rate / shiftHours) * OVERTIME_RATE_MULTIPLIER));
+            }
+        } else if (r.status === 'leave') {
+            covered.add(r.date);
+            if (r.id) logIds.push(r.id);
+            daysLeave++;
+            if (r.leave_requests?.leave_types?.is_paid) {
+                leave.days++;
+                leave.amount += rate;
+                leave.rates.push(rate);
+            }
+        }
+    });
+
+    // Days without work or leave are absences unless they are a weekly off or holiday
+    dateRange(startDate, endDate).forEach(date => {
+        if (covered.has(date)) return;
+        const dayOffInfo = dayOff(context.calendar, worker, date);
+        if (!dayOffInfo) {
+            absent++;
+            return;
+        }
+        off++;
+        if (dayOffInfo.paid && (!input.paidHolidaysFrom || date >= input.paidHolidaysFrom)) {
+            holiday.days++;
+            holiday.amount += rateFor(date);
+            holiday.rates.push(rateFor(date));
+        }
+    });
+
+    const lines: LineItem[] = [];
+    const dayLine = (kind: LineKind, label: string, line: { days: number; amount: number; rates: number[] }) => {
+        if (line.days > 0) lines.push({ kind, label, quantity: line.days, rates: sortedRates(line.rates), amount: round2(line.amount), effect: 'earning' });
+    };
+    dayLine('basic', 'Basic Pay', basic);
+    dayLine('half_day', 'Half Day Pay', halfDay);
+    dayLine('holiday', 'Paid Holidays', holiday);
+    dayLine('leave', 'Paid Leave', leave);
+    if (overtime.hours > 0) {
+        lines.push({ kind: 'overtime', label: 'Overtime Pay', quantity: round2(overtime.hours), rates: sortedRates(overtime.rates), amount: round2(overtime.amount), effect: 'earning' });
+    }
+
+    const dailyRates = [...basic.rates, ...halfDay.rates.map(r => r * 2), ...leave.rates, ...holiday.rates];
+    return totals({
+        workerId: worker.id,
+        days: {
+            present: basic.days,
+            halfDay: halfDay.days,
+            leave: daysLeave,
+            leavePaid: leave.days,
+            absent,
+            off,
+            paidHolidays: holiday.days,
+        },
+        headDays: basic.days + halfDay.days * 0.5,
+        overtimeHours: round2(overtime.hours),
+        rates: dailyRates.length > 0 ? sortedRates(dailyRates) : [rateFor(endDate)],
+        lines: [],
+        gross: 0,
+        deductions: 0,
+        net: 0,
+        logIds,
+    }, lines);
+}
+
+/**
+ * Maistry commission line: deducted from the worker's pay, or a memo when the company pays it
+ */
+export function commissionLine(maistryName: string, amount: number, deductFromWages: boolean): LineItem {
+    return {
+        kind: 'commission',
+        label: `Maistry Commission (${maistryName})`,
+        quantity: 1,
+        rates: [],
+        amount: round2(amount),
+        effect: deductFromWages ? 'deduction' : 'memo',
+        note: deductFromWages ? undefined : 'paid by company',
+    };
+}
+
+/**
+ * Advance/loan/fine recovery line; `due` marks instalments not yet taken by a payout
+ */
+export function recoveryLine(entryType: DebitType, amount: number, due = false): LineItem {
+    return {
+        kind: 'recovery',
+        label: `${LEDGER_LABELS[entryType].label} Recovery`,
+        quantity: 1,
+        rates: [],
+        amount: round2(amount),
+        effect: 'deduction',
+        note: due ? 'due' : undefined,
+    };
+}
+
+/**
+ * Add commission/recovery lines and recompute the net
+ */
+export function withDeductions(sheet: WageSheet, lines: LineItem[]): WageSheet {
+    return totals(sheet, [...sheet.lines, ...lines.filter(l => l.amount > 0)]);
+}
+
+/**
+ * Sum of a line kind on a sheet (e.g. overtime, recovery)
+ */
+export function lineTotal(sheet: WageSheet, kind: LineKind): number {
+    return round2(sheet.lines.filter(l => l.kind === kind).reduce((sum, l) => sum + l.amount, 0));
+}
+
+/**
+ * "₹400", or "₹400–₹450" when more than one rate applied
+ */
+export function formatRates(rates: number[]): string {
+    if (rates.length === 0) return '';
+    const low = rates[0], high = rates[rates.length - 1];
+    return low === high ? `₹${low}` : `₹${low}–₹${high}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Wage rate history for LaborOS
+ * Rate changes take effect from a date, for one worker or a whole category, so each
+ * attendance day is priced at the rate in force on that date. workers.base_rate
+ * mirrors the rate in force today.
+ */
+
+import { supabase } from './supabase';
+import { businessDate } from './business-date';
+
+export interface WageRate {
+    id: string;
+    worker_id: string | null;
+    category: string | null;
+    rate: number;
+    effective_from: string | null; // null = since the worker joined
+    note: string | null;
+    created_at: string;
+}
+
+// Rates per worker and per category, latest first
+export interface RateBook {
+    byWorker: Record<string, WageRate[]>;
+    byCategory: Record<string, WageRate[]>;
+}
+
+export interface RatedWorker {
+    id: string;
+    category?: string | null;
+    base_rate: number;
+}
+
+export interface RateChange {
+    workerId?: string;
+    category?: string;
+    rate: number;
+    effectiveFrom: string;
+    note?: string | null;
+}
+
+export const EMPTY_RATE_BOOK: RateBook = { byWorker: {}, byCategory: {} };
+
+const RATE_COLUMNS = 'id, worker_id, category, rate, effective_from, note, created_at';
+
+// Later effective date first; same date: latest entry first
+function latestFirst(a: WageRate, b: WageRate): number {
+    return (b.effective_from || '').localeCompare(a.effective_from || '') || b.created_at.localeCompare(a.created_at);
+}
+
+export function buildRateBook(rates: WageRate[]): RateBook {
+    const book: RateBook = { byWorker: {}, byCategory: {} };
+    rates.forEach(rate => {
+        if (rate.worker_id) book.byWorker[rate.worker_id] = [...(book.byWorker[rate.worker_id] || []), rate];
+        else if (rate.category) book.byCategory[rate.category] = [...(book.byCategory[rate.category] || []), rate];
+    });
+    Object.values(book.byWorker).forEach(list => list.sort(latestFirst));
+    Object.values(book.byCategory).forEach(list => list.sort(latestFirst));
+    return book;
+}
+
+export async function loadRateBook(): Promise<RateBook> {
+    const { data, error } = await supabase.from('wage_rates').select(RATE_COLUMNS);
+    if (error) {
+        console.error('Error loading wage rates:', error);
+        return EMPTY_RATE_BOOK;
+    }
+    return buildRateBook((data || []).map(r => ({ ...r, rate: Number(r.rate) })));
+}
+
+/**
+ * Daily rate in force for a worker on a date.
+ * The most recent change wins, whether it was for the worker or their category;
+ * on the same date the worker's own rate wins. Without history, base_rate applies.
+ */
+export function rateOn(book: RateBook, worker: RatedWorker, date: string): number {
+    const own = (book.byWorker[worker.id] || []).find(r => (r.effective_from || '') <= date);
+    const category = worker.category ? (book.byCategory[worker.category] || []).find(r => (r.effective_from || '') <= date) : undefined;
+    if (own && (!category || (own.effective_from || '') >= (category.effective_from || ''))) return own.rate;
+    if (category) return category.rate;
+    return worker.base_rate;
+}
+
+/**
+ * Rate changes for a worker (own and category), latest first
+ */
+export function rateHistory(book: RateBook, worker: RatedWorker): WageRate[] {
+    return [...(book.byWorker[worker.id] || []), ...(worker.category ? book.byCategory[worker.category] || [] : [])].sort(latestFirst);
+}
+
+/**
+ * Record a rate change for a worker or a category.
+ * Workers without history first get their current rate recorded as the starting rate,
+ * so days before the change keep it; base_rate is updated when the change is already in force.
+ */
+export async function recordRateChange(change: RateChange, changedBy: string | null): Promise<void> {
+    if (!change.workerId && !change.category) throw new Error('Choose a worker or a category');
+
+    let query = supabase.from('workers').select('id, category, base_rate');
+    query = change.workerId ? query.eq('id', change.workerId) : query.eq('category', change.category);
+    const { data: workers, error: workersError } = await query;
+    if (workersError) throw workersError;
+
+    const { data: existing, error: existingError } = await supabase
+        .from('wage_rates')
+        .select('worker_id')
+        .in('worker_id', (workers || []).map(w => w.id));
+    if (existingError) throw existingError;
+    const withHistory = new Set((existing || []).map(r => r.worker_id));
+    const baselines = (workers || []).filter(w => !withHistory.has(w.id)).map(w => ({
+        worker_id: w.id, rate: w.base_rate, effective_from: null, note: 'Starting rate', created_by: changedBy,
+    }));
+    if (baselines.length > 0) {
+        const { error } = await supabase.from('wage_rates').insert(baselines);
+        if (error) throw error;
+    }
+
+    const { data, error } = await supabase.from('wage_rates').insert({
+        worker_id: change.workerId || null,
+        category: change.workerId ? null : change.category,
+        rate: change.rate,
+        effective_from: change.effectiveFrom,
+        note: change.note?.trim() || null,
+        created_by: changedBy,
+    }).select('id').single();
+    if (error) throw error;
+
+    // Keep base_rate at today's rate
+    const today = businessDate();
+    if (change.effectiveFrom <= today) {
+        const book = await loadRateBook();
+        for (const worker of workers || []) {
+            const current = rateOn(book, worker, today);
+            if (current !== worker.base_rate) await supabase.from('workers').update({ base_rate: current }).eq('id', worker.id);
+        }
+    }
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'wage_rates',
+        record_id: data.id,
+        action: 'RATE_CHANGE',
+        old_values: change.workerId ? { base_rate: workers?.[0]?.base_rate ?? null } : null,
+        new_values: { worker_id: change.workerId || null, category: change.category || null, rate: change.rate, effective_from: change.effectiveFrom },
+        changed_by: changedBy,
+    });
+}
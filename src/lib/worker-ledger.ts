@@ -0,0 +1,187 @@
+/**
+ * Worker advances ledger for LaborOS
+ * Advances, loans and fines are debits against a worker; recoveries pay them down.
+ * Each debit can set an instalment, so payouts recover it over several pay periods.
+ */
+
+import { supabase } from './supabase';
+
+export type LedgerEntryType = 'advance' | 'loan' | 'fine' | 'recovery';
+export type DebitType = Exclude<LedgerEntryType, 'recovery'>;
+
+export interface LedgerEntry {
+    id: string;
+    worker_id: string;
+    date: string;
+    entry_type: LedgerEntryType;
+    amount: number; // Always positive; the type decides the direction
+    instalment: number | null; // Per payout; null = recover in full at the next payout
+    recover_from: string | null; // First payout date the debit is recovered in
+    debit_id: string | null; // Recoveries: the debit they pay down
+    payment_batch_id: string | null;
+    expense_id: string | null;
+    note: string | null;
+    created_at: string;
+}
+
+export interface OpenDebit extends LedgerEntry {
+    outstanding: number;
+}
+
+// A recovery to be taken from one payout
+export interface Instalment {
+    workerId: string;
+    debitId: string;
+    entryType: DebitType;
+    amount: number;
+}
+
+export interface NewLedgerEntry {
+    workerId: string;
+    entryType: DebitType;
+    amount: number;
+    date: string;
+    instalment?: number | null;
+    recoverFrom?: string | null;
+    expenseId?: string | null;
+    note?: string | null;
+}
+
+export const LEDGER_LABELS: Record<LedgerEntryType, { label: string; icon: string }> = {
+    advance: { label: 'Advance', icon: '💵' },
+    loan: { label: 'Loan', icon: '🏦' },
+    fine: { label: 'Fine', icon: '⚠️' },
+    recovery: { label: 'Recovery', icon: '↩️' },
+};
+
+const ENTRY_COLUMNS = 'id, worker_id, date, entry_type, amount, instalment, recover_from, debit_id, payment_batch_id, expense_id, note, created_at';
+
+async function loadEntries(workerIds?: string[]): Promise<LedgerEntry[]> {
+    let query = supabase.from('worker_ledger').select(ENTRY_COLUMNS).order('date').order('created_at');
+    if (workerIds) query = query.in('worker_id', workerIds);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading worker ledger:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Debits with an outstanding amount, oldest first
+ */
+export async function loadOpenDebits(workerIds?: string[]): Promise<OpenDebit[]> {
+    const entries = await loadEntries(workerIds);
+    const recovered: Record<string, number> = {};
+    entries.filter(e => e.entry_type === 'recovery' && e.debit_id).forEach(e => {
+        recovered[e.debit_id!] = (recovered[e.debit_id!] || 0) + e.amount;
+    });
+    return entries
+        .filter(e => e.entry_type !== 'recovery')
+        .map(e => ({ ...e, outstanding: e.amount - (recovered[e.id] || 0) }))
+        .filter(e => e.outstanding > 0);
+}
+
+/**
+ * Amount a worker owes across open debits
+ */
+export function outstandingFor(debits: OpenDebit[], workerId: string): number {
+    return debits.filter(d => d.worker_id === workerId).reduce((sum, d) => sum + d.outstanding, 0);
+}
+
+/**
+ * Instalments due from one payout, oldest debit first, never more than `limit` (the worker's pay)
+ */
+export function dueInstalments(debits: OpenDebit[], workerId: string, asOf: string, limit: number): Instalment[] {
+    const instalments: Instalment[] = [];
+    let left = Math.max(0, Math.floor(limit));
+    for (const debit of debits) {
+        if (left <= 0) break;
+        if (debit.worker_id !== workerId || (debit.recover_from || debit.date) > asOf) continue;
+        const amount = Math.min(debit.instalment || debit.outstanding, debit.outstanding, left);
+        instalments.push({ workerId, debitId: debit.id, entryType: debit.entry_type as DebitType, amount });
+        left -= amount;
+    }
+    return instalments;
+}
+
+/**
+ * A worker's ledger, oldest first, with the running balance they owe
+ */
+export async function loadWorkerLedger(workerId: string): Promise<(LedgerEntry & { balance: number })[]> {
+    let balance = 0;
+    return (await loadEntries([workerId])).map(entry => {
+        balance += entry.entry_type === 'recovery' ? -entry.amount : entry.amount;
+        return { ...entry, balance };
+    });
+}
+
+export async function addLedgerEntry(entry: NewLedgerEntry, createdBy: string | null): Promise<void> {
+    const { data, error } = await supabase.from('worker_ledger').insert({
+        worker_id: entry.workerId,
+        date: entry.date,
+        entry_type: entry.entryType,
+        amount: Math.round(entry.amount),
+        instalment: entry.instalment ? Math.round(entry.instalment) : null,
+        recover_from: entry.recoverFrom || entry.date,
+        expense_id: entry.expenseId || null,
+        note: entry.note?.trim() || null,
+        created_by: createdBy,
+    }).select('id').single();
+    if (error) throw error;
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'worker_ledger',
+        record_id: data.id,
+        action: `ADD_${entry.entryType.toUpperCase()}`,
+        old_values: null,
+        new_values: { worker_id: entry.workerId, amount: entry.amount, instalment: entry.instalment || null },
+        changed_by: createdBy,
+    });
+}
+
+/**
+ * Write recovery entries; batchId ties them to the payout that took them
+ */
+export async function recordRecoveries(instalments: Instalment[], date: string, batchId: string | null, createdBy: string | null): Promise<void> {
+    const rows = instalments.filter(i => i.amount > 0).map(i => ({
+        worker_id: i.workerId,
+        date,
+        entry_type: 'recovery',
+        amount: Math.round(i.amount),
+        debit_id: i.debitId,
+        payment_batch_id: batchId,
+        created_by: createdBy,
+    }));
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('worker_ledger').insert(rows);
+    if (error) throw error;
+}
+
+/**
+ * Cash repaid by a worker outside a payout, applied to the oldest debits first
+ */
+export async function recordRepayment(workerId: string, amount: number, date: string, createdBy: string | null): Promise<void> {
+    const debits = await loadOpenDebits([workerId]);
+    const owed = outstandingFor(debits, workerId);
+    if (amount > owed) throw new Error(`Worker only owes ₹${owed}`);
+
+    let left = Math.round(amount);
+    const instalments: Instalment[] = [];
+    for (const debit of debits) {
+        if (left <= 0) break;
+        const part = Math.min(debit.outstanding, left);
+        instalments.push({ workerId, debitId: debit.id, entryType: debit.entry_type as DebitType, amount: part });
+        left -= part;
+    }
+    await recordRecoveries(instalments, date, null, createdBy);
+
+    await supabase.from('audit_logs').insert({
+        table_name: 'worker_ledger',
+        record_id: null,
+        action: 'RECORD_REPAYMENT',
+        old_values: { outstanding: owed },
+        new_values: { worker_id: workerId, amount, outstanding: owed - amount },
+        changed_by: createdBy,
+    });
+}
@@ -275,3 +275,788 @@ CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
 CREATE INDEX IF NOT EXISTS idx_expenses_batch ON expenses(payment_batch_id);
 CREATE INDEX IF NOT EXISTS idx_payment_batches_status ON payment_batches(status);
 CREATE INDEX IF NOT EXISTS idx_attendance_batch ON attendance_logs(payment_batch_id);
+
+-- =============================================
+-- 10. LIVENESS CHECK (Per-site anti-spoofing)
+-- =============================================
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'liveness_enabled') THEN
+    ALTER TABLE sites ADD COLUMN liveness_enabled BOOLEAN DEFAULT false;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'liveness_timeout_seconds') THEN
+    ALTER TABLE sites ADD COLUMN liveness_timeout_seconds INTEGER DEFAULT 8;
+  END IF;
+  -- NULL = challenge not required / not run
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'liveness_passed') THEN
+    ALTER TABLE attendance_logs ADD COLUMN liveness_passed BOOLEAN;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'liveness_out_passed') THEN
+    ALTER TABLE attendance_logs ADD COLUMN liveness_out_passed BOOLEAN;
+  END IF;
+END $$;
+
+-- =============================================
+-- 11. GPS VERDICT ON ATTENDANCE (Spoof detection)
+-- =============================================
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'gps_out_lat') THEN
+    ALTER TABLE attendance_logs ADD COLUMN gps_out_lat DECIMAL(10, 8);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'gps_out_long') THEN
+    ALTER TABLE attendance_logs ADD COLUMN gps_out_long DECIMAL(11, 8);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'gps_out_accuracy') THEN
+    ALTER TABLE attendance_logs ADD COLUMN gps_out_accuracy FLOAT;
+  END IF;
+  -- Strongest spoof verdict of the day (0-1)
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'spoof_confidence') THEN
+    ALTER TABLE attendance_logs ADD COLUMN spoof_confidence FLOAT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'spoof_reason') THEN
+    ALTER TABLE attendance_logs ADD COLUMN spoof_reason TEXT;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_flagged ON attendance_logs(is_flagged) WHERE is_flagged = true;
+
+-- =============================================
+-- 12. FACE TEMPLATE GALLERY (Multiple templates per worker)
+-- =============================================
+CREATE TABLE IF NOT EXISTS face_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE NOT NULL,
+  descriptor FLOAT8[] NOT NULL,
+  pose TEXT CHECK (pose IN ('center', 'left', 'right')),
+  quality FLOAT, -- 0-1 image quality score at capture
+  photo_url TEXT,
+  captured_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by UUID REFERENCES auth.users(id)
+);
+
+ALTER TABLE face_templates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow face template access" ON face_templates;
+CREATE POLICY "Allow face template access" ON face_templates FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_face_templates_worker ON face_templates(worker_id);
+
+-- =============================================
+-- 13. FACE MATCH CANDIDATES (Ambiguous-match investigation)
+-- =============================================
+-- Ranked [{worker_id, name, distance}] from findBestMatch, best first
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'match_candidates') THEN
+    ALTER TABLE attendance_logs ADD COLUMN match_candidates JSONB;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'match_out_candidates') THEN
+    ALTER TABLE attendance_logs ADD COLUMN match_out_candidates JSONB;
+  END IF;
+END $$;
+
+-- =============================================
+-- 14. MATCH REVIEW QUEUE (Low-confidence / manual attendance)
+-- =============================================
+DO $$ 
+BEGIN
+  -- NULL = no review needed
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'review_status') THEN
+    ALTER TABLE attendance_logs ADD COLUMN review_status TEXT CHECK (review_status IN ('pending', 'confirmed', 'reassigned', 'voided'));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'review_reason') THEN
+    ALTER TABLE attendance_logs ADD COLUMN review_reason TEXT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'reviewed_by') THEN
+    ALTER TABLE attendance_logs ADD COLUMN reviewed_by UUID REFERENCES auth.users(id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'reviewed_at') THEN
+    ALTER TABLE attendance_logs ADD COLUMN reviewed_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_review_pending ON attendance_logs(review_status) WHERE review_status = 'pending';
+
+-- =============================================
+-- 15. SERVER-SIDE FACE MATCHING (pgvector)
+-- =============================================
+CREATE EXTENSION IF NOT EXISTS vector;
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'face_embedding') THEN
+    ALTER TABLE workers ADD COLUMN face_embedding vector(128);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'face_templates' AND column_name = 'embedding') THEN
+    ALTER TABLE face_templates ADD COLUMN embedding vector(128);
+  END IF;
+END $$;
+
+-- Keep vector columns in sync with the FLOAT8[] descriptors the app writes
+CREATE OR REPLACE FUNCTION public.sync_worker_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.face_embedding := CASE WHEN array_length(NEW.face_descriptor, 1) = 128 THEN NEW.face_descriptor::vector(128) END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.sync_template_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.embedding := CASE WHEN array_length(NEW.descriptor, 1) = 128 THEN NEW.descriptor::vector(128) END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS workers_face_embedding ON workers;
+CREATE TRIGGER workers_face_embedding
+  BEFORE INSERT OR UPDATE OF face_descriptor ON workers
+  FOR EACH ROW EXECUTE FUNCTION public.sync_worker_embedding();
+
+DROP TRIGGER IF EXISTS face_templates_embedding ON face_templates;
+CREATE TRIGGER face_templates_embedding
+  BEFORE INSERT OR UPDATE OF descriptor ON face_templates
+  FOR EACH ROW EXECUTE FUNCTION public.sync_template_embedding();
+
+-- Backfill existing descriptors
+UPDATE workers SET face_embedding = face_descriptor::vector(128)
+  WHERE face_embedding IS NULL AND array_length(face_descriptor, 1) = 128;
+UPDATE face_templates SET embedding = descriptor::vector(128)
+  WHERE embedding IS NULL AND array_length(descriptor, 1) = 128;
+
+-- Euclidean (L2) distance, same metric as face-api
+CREATE INDEX IF NOT EXISTS idx_workers_face_embedding ON workers USING hnsw (face_embedding vector_l2_ops);
+CREATE INDEX IF NOT EXISTS idx_face_templates_embedding ON face_templates USING hnsw (embedding vector_l2_ops);
+
+-- Nearest workers to a probe descriptor (closest of legacy vector + gallery templates).
+-- Managers only see their assigned site; admins/owners (or all_sites = true, used for
+-- the duplicate-enrollment check) see every site. Only names and distances are returned.
+CREATE OR REPLACE FUNCTION public.match_face(probe vector(128), match_count INT DEFAULT 3, all_sites BOOLEAN DEFAULT false)
+RETURNS TABLE (worker_id UUID, name TEXT, worker_number TEXT, distance FLOAT8) AS $$
+DECLARE
+  caller_site UUID;
+  caller_role TEXT;
+BEGIN
+  SELECT p.assigned_site_id, p.role INTO caller_site, caller_role FROM profiles p WHERE p.id = auth.uid();
+  IF caller_role IS NULL THEN
+    RETURN; -- Not a known user
+  END IF;
+  IF all_sites OR caller_role IN ('admin', 'owner') THEN
+    caller_site := NULL;
+  END IF;
+
+  RETURN QUERY
+  WITH nearest AS (
+    (SELECT w.id AS wid, w.face_embedding <-> probe AS dist
+      FROM workers w
+      WHERE w.is_active AND w.face_embedding IS NOT NULL
+        AND (caller_site IS NULL OR w.site_id = caller_site)
+      ORDER BY w.face_embedding <-> probe
+      LIMIT match_count * 10)
+    UNION ALL
+    (SELECT t.worker_id AS wid, t.embedding <-> probe AS dist
+      FROM face_templates t JOIN workers w ON w.id = t.worker_id
+      WHERE w.is_active AND t.embedding IS NOT NULL
+        AND (caller_site IS NULL OR w.site_id = caller_site)
+      ORDER BY t.embedding <-> probe
+      LIMIT match_count * 10)
+  )
+  SELECT w.id, w.name, w.worker_number, MIN(n.dist)::FLOAT8
+  FROM nearest n JOIN workers w ON w.id = n.wid
+  GROUP BY w.id, w.name, w.worker_number
+  ORDER BY MIN(n.dist)
+  LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.match_face(vector, INT, BOOLEAN) TO authenticated;
+
+-- =============================================
+-- 16. ATTENDANCE PUNCHES (Multiple IN/OUT sessions per day)
+-- =============================================
+-- attendance_logs stays the one-row-per-day summary:
+-- check_in_time = first IN, check_out_time = last OUT (NULL while inside)
+CREATE TABLE IF NOT EXISTS attendance_punches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendance_id UUID REFERENCES attendance_logs(id) ON DELETE CASCADE NOT NULL,
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE NOT NULL,
+  date DATE NOT NULL,
+  punch_type TEXT CHECK (punch_type IN ('IN', 'OUT')) NOT NULL,
+  punch_time TIMESTAMPTZ NOT NULL,
+  source TEXT CHECK (source IN ('scan', 'manual', 'offline')) DEFAULT 'scan',
+  marked_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE attendance_punches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow attendance punch access" ON attendance_punches;
+CREATE POLICY "Allow attendance punch access" ON attendance_punches FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_punches_worker_date ON attendance_punches(worker_id, date, punch_time);
+CREATE INDEX IF NOT EXISTS idx_attendance_punches_attendance ON attendance_punches(attendance_id);
+
+-- Totals derived from paired punches
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'worked_minutes') THEN
+    ALTER TABLE attendance_logs ADD COLUMN worked_minutes INT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'break_minutes') THEN
+    ALTER TABLE attendance_logs ADD COLUMN break_minutes INT DEFAULT 0;
+  END IF;
+END $$;
+
+-- Backfill punches for days recorded before punches existed
+INSERT INTO attendance_punches (attendance_id, worker_id, date, punch_type, punch_time, marked_by)
+SELECT a.id, a.worker_id, a.date, 'IN', a.check_in_time, a.marked_by
+FROM attendance_logs a
+WHERE a.check_in_time IS NOT NULL AND a.worker_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM attendance_punches p WHERE p.attendance_id = a.id);
+
+INSERT INTO attendance_punches (attendance_id, worker_id, date, punch_type, punch_time, marked_by)
+SELECT a.id, a.worker_id, a.date, 'OUT', a.check_out_time, a.marked_by
+FROM attendance_logs a
+WHERE a.check_out_time IS NOT NULL AND a.worker_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM attendance_punches p WHERE p.attendance_id = a.id AND p.punch_type = 'OUT');
+
+UPDATE attendance_logs
+SET worked_minutes = GREATEST(0, ROUND(EXTRACT(EPOCH FROM (check_out_time - check_in_time)) / 60))::INT
+WHERE worked_minutes IS NULL AND check_in_time IS NOT NULL AND check_out_time IS NOT NULL;
+
+-- =============================================
+-- 17. SITE TIMEZONE & SHIFTS (Business day)
+-- =============================================
+-- Attendance dates are local calendar days at the site; overnight shifts keep their start date
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'timezone') THEN
+    ALTER TABLE sites ADD COLUMN timezone TEXT DEFAULT 'Asia/Kolkata';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS shifts (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,   -- Earlier than start_time for overnight shifts
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow shift access" ON shifts;
+CREATE POLICY "Allow shift access" ON shifts FOR ALL TO authenticated USING (true);
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'shift_id') THEN
+    ALTER TABLE workers ADD COLUMN shift_id INT REFERENCES shifts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- =============================================
+-- 18. SHIFT METRICS (Late / early leave / overtime)
+-- =============================================
+DO $$ 
+BEGIN
+  -- Grace periods per shift
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'shifts' AND column_name = 'late_grace_minutes') THEN
+    ALTER TABLE shifts ADD COLUMN late_grace_minutes INT DEFAULT 10;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'shifts' AND column_name = 'early_grace_minutes') THEN
+    ALTER TABLE shifts ADD COLUMN early_grace_minutes INT DEFAULT 10;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'shifts' AND column_name = 'overtime_after_minutes') THEN
+    ALTER TABLE shifts ADD COLUMN overtime_after_minutes INT DEFAULT 30;
+  END IF;
+
+  -- Computed against the worker's shift on every punch
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'late_minutes') THEN
+    ALTER TABLE attendance_logs ADD COLUMN late_minutes INT DEFAULT 0;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'early_leave_minutes') THEN
+    ALTER TABLE attendance_logs ADD COLUMN early_leave_minutes INT DEFAULT 0;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'overtime_hours') THEN
+    ALTER TABLE attendance_logs ADD COLUMN overtime_hours DECIMAL(5, 2) DEFAULT 0;
+  END IF;
+END $$;
+
+-- =============================================
+-- 19. CHECKOUT POLICY (Per shift)
+-- =============================================
+DO $$ 
+BEGIN
+  -- Checkout refused below this many worked minutes
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'shifts' AND column_name = 'min_checkout_minutes') THEN
+    ALTER TABLE shifts ADD COLUMN min_checkout_minutes INT DEFAULT 60;
+  END IF;
+  -- Below this, a second scan is needed to confirm the checkout
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'shifts' AND column_name = 'confirm_checkout_minutes') THEN
+    ALTER TABLE shifts ADD COLUMN confirm_checkout_minutes INT DEFAULT 240;
+  END IF;
+  -- Days checked out below this are marked half-day
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'shifts' AND column_name = 'half_day_minutes') THEN
+    ALTER TABLE shifts ADD COLUMN half_day_minutes INT DEFAULT 240;
+  END IF;
+END $$;
+
+-- =============================================
+-- 20. MISSING CHECKOUTS (End-of-day routine per site)
+-- =============================================
+DO $$ 
+BEGIN
+  -- auto_close = system closes open sessions at shift end; review = manager resolves before closing
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'missing_checkout_mode') THEN
+    ALTER TABLE sites ADD COLUMN missing_checkout_mode TEXT CHECK (missing_checkout_mode IN ('auto_close', 'review')) DEFAULT 'review';
+  END IF;
+  -- Cutoff for workers without a shift
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'day_end_time') THEN
+    ALTER TABLE sites ADD COLUMN day_end_time TIME DEFAULT '20:00';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'auto_closed') THEN
+    ALTER TABLE attendance_logs ADD COLUMN auto_closed BOOLEAN DEFAULT false;
+  END IF;
+END $$;
+
+-- System-closed sessions get an OUT punch with source 'system'
+ALTER TABLE attendance_punches DROP CONSTRAINT IF EXISTS attendance_punches_source_check;
+ALTER TABLE attendance_punches ADD CONSTRAINT attendance_punches_source_check CHECK (source IN ('scan', 'manual', 'offline', 'system'));
+
+CREATE INDEX IF NOT EXISTS idx_attendance_logs_open ON attendance_logs(date) WHERE check_out_time IS NULL;
+
+-- =============================================
+-- 21. SHIFT ROSTER (Per-day assignments & rotations)
+-- =============================================
+-- A roster entry overrides workers.shift_id for that date; NULL shift_id = day off
+CREATE TABLE IF NOT EXISTS shift_roster (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  shift_id INT REFERENCES shifts(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(worker_id, date)
+);
+
+ALTER TABLE shift_roster ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow roster access" ON shift_roster;
+CREATE POLICY "Allow roster access" ON shift_roster FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_shift_roster_date ON shift_roster(date);
+
+-- Rotation pattern: [{ "shift_id": 1, "days": 7 }, { "shift_id": 2, "days": 7 }] repeats from the start date
+CREATE TABLE IF NOT EXISTS roster_templates (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  pattern JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE roster_templates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow roster template access" ON roster_templates;
+CREATE POLICY "Allow roster template access" ON roster_templates FOR ALL TO authenticated USING (true);
+
+-- Gang incharge (bulk roster assignment is by category or incharge)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'incharge_id') THEN
+    ALTER TABLE workers ADD COLUMN incharge_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- =============================================
+-- 22. HOLIDAYS & WEEKLY OFFS
+-- =============================================
+-- NULL site_id = holiday at every site; paid holidays earn a day's wage without attendance
+CREATE TABLE IF NOT EXISTS site_holidays (
+  id SERIAL PRIMARY KEY,
+  site_id UUID REFERENCES sites(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  is_paid BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(site_id, date)
+);
+
+ALTER TABLE site_holidays ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow holiday access" ON site_holidays;
+CREATE POLICY "Allow holiday access" ON site_holidays FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_site_holidays_date ON site_holidays(date);
+
+DO $$ 
+BEGIN
+  -- Weekdays off (0 = Sunday)
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'weekly_off_days') THEN
+    ALTER TABLE sites ADD COLUMN weekly_off_days INT[] DEFAULT '{0}';
+  END IF;
+END $$;
+
+-- =============================================
+-- 23. LEAVE (Types, balances & requests)
+-- =============================================
+-- NULL yearly_allowance = no limit
+CREATE TABLE IF NOT EXISTS leave_types (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  code TEXT UNIQUE NOT NULL,
+  yearly_allowance NUMERIC,
+  is_paid BOOLEAN DEFAULT true,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO leave_types (name, code, yearly_allowance, is_paid) VALUES
+  ('Casual Leave', 'CL', 7, true),
+  ('Sick Leave', 'SL', 7, true),
+  ('Unpaid Leave', 'UL', NULL, false)
+ON CONFLICT (code) DO NOTHING;
+
+-- Per-worker allowance overrides for a year
+CREATE TABLE IF NOT EXISTS leave_balances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE,
+  leave_type_id INT REFERENCES leave_types(id) ON DELETE CASCADE,
+  year INT NOT NULL,
+  allowance NUMERIC NOT NULL,
+  UNIQUE(worker_id, leave_type_id, year)
+);
+
+-- Entered by a manager on the worker's behalf, approved by an owner
+CREATE TABLE IF NOT EXISTS leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE,
+  leave_type_id INT REFERENCES leave_types(id),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  days NUMERIC NOT NULL,
+  reason TEXT,
+  status TEXT CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')) DEFAULT 'pending',
+  requested_by UUID REFERENCES profiles(id),
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE leave_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leave_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leave_requests ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow leave type access" ON leave_types;
+DROP POLICY IF EXISTS "Allow leave balance access" ON leave_balances;
+DROP POLICY IF EXISTS "Allow leave request access" ON leave_requests;
+CREATE POLICY "Allow leave type access" ON leave_types FOR ALL TO authenticated USING (true);
+CREATE POLICY "Allow leave balance access" ON leave_balances FOR ALL TO authenticated USING (true);
+CREATE POLICY "Allow leave request access" ON leave_requests FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_worker ON leave_requests(worker_id, start_date);
+
+-- Approved leave days are attendance rows with status 'leave'
+ALTER TABLE attendance_logs DROP CONSTRAINT IF EXISTS attendance_logs_status_check;
+ALTER TABLE attendance_logs ADD CONSTRAINT attendance_logs_status_check CHECK (status IN ('present', 'absent', 'half-day', 'leave'));
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'attendance_logs' AND column_name = 'leave_request_id') THEN
+    ALTER TABLE attendance_logs ADD COLUMN leave_request_id UUID REFERENCES leave_requests(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- =============================================
+-- 24. MAISTRY COMMISSION
+-- =============================================
+
+-- A maistry's gang is the workers whose incharge_id is the maistry's profile
+CREATE TABLE IF NOT EXISTS maistries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  phone TEXT,
+  incharge_id UUID UNIQUE REFERENCES profiles(id) ON DELETE SET NULL,
+  commission_type TEXT CHECK (commission_type IN ('percent', 'per_head_day', 'slab')) DEFAULT 'percent',
+  commission_rate NUMERIC DEFAULT 0,
+  slabs JSONB, -- [{ "upto": 500, "per_head_day": 10 }, { "upto": null, "per_head_day": 8 }]
+  deduct_from_wages BOOLEAN DEFAULT FALSE,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE maistries ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow maistry access" ON maistries;
+CREATE POLICY "Allow maistry access" ON maistries FOR ALL TO authenticated USING (true);
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'payment_batches' AND column_name = 'total_commission') THEN
+    ALTER TABLE payment_batches ADD COLUMN total_commission INTEGER DEFAULT 0;
+  END IF;
+END $$;
+
+-- =============================================
+-- 25. WORKER ADVANCES LEDGER (Advances, loans, fines & recoveries)
+-- =============================================
+
+-- Debits (advance/loan/fine) and the recoveries that pay them down
+CREATE TABLE IF NOT EXISTS worker_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  entry_type TEXT CHECK (entry_type IN ('advance', 'loan', 'fine', 'recovery')) NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  instalment INTEGER, -- Per payout; NULL = recover in full
+  recover_from DATE,
+  debit_id UUID REFERENCES worker_ledger(id) ON DELETE CASCADE,
+  payment_batch_id UUID REFERENCES payment_batches(id) ON DELETE CASCADE,
+  expense_id UUID REFERENCES expenses(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE worker_ledger ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow worker ledger access" ON worker_ledger;
+CREATE POLICY "Allow worker ledger access" ON worker_ledger FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_worker_ledger_worker ON worker_ledger(worker_id, date);
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'expenses' AND column_name = 'worker_id') THEN
+    ALTER TABLE expenses ADD COLUMN worker_id UUID REFERENCES workers(id) ON DELETE SET NULL;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'payment_batches' AND column_name = 'total_deductions') THEN
+    ALTER TABLE payment_batches ADD COLUMN total_deductions INTEGER DEFAULT 0;
+  END IF;
+END $$;
+
+-- =============================================
+-- 26. WAGE RATE HISTORY (Effective-dated rates)
+-- =============================================
+
+-- Per worker (worker_id) or per category; workers.base_rate mirrors today's rate
+CREATE TABLE IF NOT EXISTS wage_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES workers(id) ON DELETE CASCADE,
+  category TEXT,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  effective_from DATE, -- NULL = worker's starting rate
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (worker_id IS NOT NULL OR category IS NOT NULL)
+);
+
+ALTER TABLE wage_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow wage rate access" ON wage_rates;
+CREATE POLICY "Allow wage rate access" ON wage_rates FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_wage_rates_worker ON wage_rates(worker_id, effective_from);
+
+-- =============================================
+-- 27. PAYSLIP ARCHIVE (Serial-numbered snapshots)
+-- =============================================
+
+CREATE SEQUENCE IF NOT EXISTS payslip_serial_seq;
+
+-- Figures as issued; reprints render the snapshot, not today's data
+CREATE TABLE IF NOT EXISTS payslips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  serial_no TEXT UNIQUE NOT NULL DEFAULT ('PS-' || LPAD(nextval('payslip_serial_seq')::TEXT, 6, '0')),
+  payment_batch_id UUID REFERENCES payment_batches(id) ON DELETE CASCADE, -- NULL = ad hoc payslip
+  worker_id UUID REFERENCES workers(id) ON DELETE SET NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  net_amount INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (payment_batch_id, worker_id)
+);
+
+ALTER TABLE payslips ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow payslip access" ON payslips;
+CREATE POLICY "Allow payslip access" ON payslips FOR ALL TO authenticated USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_payslips_worker ON payslips(worker_id, period_end);
+
+-- =============================================
+-- 28. BANK / UPI BULK PAYMENTS (Payment lines per batch)
+-- =============================================
+
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'bank_account_number') THEN
+    ALTER TABLE workers ADD COLUMN bank_account_number TEXT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'bank_ifsc') THEN
+    ALTER TABLE workers ADD COLUMN bank_ifsc TEXT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'bank_account_name') THEN
+    ALTER TABLE workers ADD COLUMN bank_account_name TEXT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'upi_id') THEN
+    ALTER TABLE workers ADD COLUMN upi_id TEXT;
+  END IF;
+END $$;
+
+-- One transfer per worker per batch; details are copied so the file matches what was sent
+CREATE TABLE IF NOT EXISTS payment_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_batch_id UUID REFERENCES payment_batches(id) ON DELETE CASCADE,
+  worker_id UUID REFERENCES workers(id) ON DELETE SET NULL,
+  worker_name TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  mode TEXT CHECK (mode IN ('neft', 'rtgs', 'upi', 'cash')) NOT NULL,
+  account_number TEXT,
+  ifsc TEXT,
+  account_name TEXT,
+  upi_id TEXT,
+  reference TEXT UNIQUE NOT NULL,
+  status TEXT CHECK (status IN ('pending', 'sent', 'failed')) DEFAULT 'pending',
+  utr TEXT,
+  failure_reason TEXT,
+  exported_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (payment_batch_id, worker_id)
+);
+
+ALTER TABLE payment_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow payment line access" ON payment_lines;
+CREATE POLICY "Allow payment line access" ON payment_lines FOR ALL TO authenticated USING (true);
+
+-- =============================================
+-- 29. BIOMETRIC ACCESS (Server-decided match scope, no descriptor reads)
+-- =============================================
+DO $$ 
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'worker_number') THEN
+    ALTER TABLE workers ADD COLUMN worker_number TEXT;
+  END IF;
+  -- Readable stand-in for "has a face descriptor"
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'workers' AND column_name = 'face_enrolled') THEN
+    ALTER TABLE workers ADD COLUMN face_enrolled BOOLEAN GENERATED ALWAYS AS (face_descriptor IS NOT NULL) STORED;
+  END IF;
+  -- Site opts in to keeping its own gallery on scanner devices for offline matching
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'sites' AND column_name = 'offline_matching_enabled') THEN
+    ALTER TABLE sites ADD COLUMN offline_matching_enabled BOOLEAN DEFAULT false;
+  END IF;
+END $$;
+
+-- Descriptors and embeddings can be written but never read back through the API.
+-- New workers/face_templates columns must be added to these grants to be readable.
+REVOKE SELECT ON workers FROM anon, authenticated;
+GRANT SELECT (id, name, worker_number, photo_url, base_rate, category, site_id, phone, is_active, consent_date, created_at,
+  shift_id, incharge_id, bank_account_number, bank_ifsc, bank_account_name, upi_id, face_enrolled) ON workers TO authenticated;
+REVOKE SELECT ON face_templates FROM anon, authenticated;
+GRANT SELECT (id, worker_id, pose, quality, photo_url, captured_at, created_by) ON face_templates TO authenticated;
+
+-- Nearest workers to a probe; site NULL = every site. Internal: callers go through the RPCs below.
+CREATE OR REPLACE FUNCTION public.nearest_faces(probe vector(128), match_count INT, site UUID)
+RETURNS TABLE (worker_id UUID, name TEXT, worker_number TEXT, distance FLOAT8) AS $$
+  WITH nearest AS (
+    (SELECT w.id AS wid, w.face_embedding <-> probe AS dist
+      FROM workers w
+      WHERE w.is_active AND w.face_embedding IS NOT NULL
+        AND (site IS NULL OR w.site_id = site)
+      ORDER BY w.face_embedding <-> probe
+      LIMIT match_count * 10)
+    UNION ALL
+    (SELECT t.worker_id AS wid, t.embedding <-> probe AS dist
+      FROM face_templates t JOIN workers w ON w.id = t.worker_id
+      WHERE w.is_active AND t.embedding IS NOT NULL
+        AND (site IS NULL OR w.site_id = site)
+      ORDER BY t.embedding <-> probe
+      LIMIT match_count * 10)
+  )
+  SELECT w.id, w.name, w.worker_number, MIN(n.dist)::FLOAT8
+  FROM nearest n JOIN workers w ON w.id = n.wid
+  GROUP BY w.id, w.name, w.worker_number
+  ORDER BY MIN(n.dist)
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.nearest_faces(vector, INT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Scan matching: the scope comes from the caller's profile only.
+-- Admins/owners search every site; everyone else only their assigned site (none assigned = no match).
+DROP FUNCTION IF EXISTS public.match_face(vector, INT, BOOLEAN);
+CREATE OR REPLACE FUNCTION public.match_face(probe vector(128), match_count INT DEFAULT 3)
+RETURNS TABLE (worker_id UUID, name TEXT, worker_number TEXT, distance FLOAT8) AS $$
+DECLARE
+  caller_site UUID;
+  caller_role TEXT;
+BEGIN
+  SELECT p.assigned_site_id, p.role INTO caller_site, caller_role FROM profiles p WHERE p.id = auth.uid();
+  IF caller_role IN ('admin', 'owner') THEN
+    RETURN QUERY SELECT * FROM nearest_faces(probe, match_count, NULL);
+  ELSIF caller_site IS NOT NULL THEN
+    RETURN QUERY SELECT * FROM nearest_faces(probe, match_count, caller_site);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.match_face(vector, INT) TO authenticated;
+
+-- Cross-site duplicate-enrollment check (ghost workers), admins/owners only
+CREATE OR REPLACE FUNCTION public.find_duplicate_face(probe vector(128), match_count INT DEFAULT 1)
+RETURNS TABLE (worker_id UUID, name TEXT, worker_number TEXT, distance FLOAT8) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles p WHERE p.id = auth.uid() AND p.role IN ('admin', 'owner')) THEN
+    RAISE EXCEPTION 'Only admins can search every site' USING ERRCODE = '42501';
+  END IF;
+  RETURN QUERY SELECT * FROM nearest_faces(probe, match_count, NULL);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_face(vector, INT) TO authenticated;
+
+-- Offline gallery for the caller's own site, only when the site has opted in
+CREATE OR REPLACE FUNCTION public.site_face_gallery()
+RETURNS TABLE (worker_id UUID, descriptor FLOAT8[]) AS $$
+  SELECT w.id, w.face_descriptor
+    FROM profiles p JOIN sites s ON s.id = p.assigned_site_id JOIN workers w ON w.site_id = s.id
+    WHERE p.id = auth.uid() AND s.offline_matching_enabled AND w.is_active AND w.face_descriptor IS NOT NULL
+  UNION ALL
+  SELECT t.worker_id, t.descriptor
+    FROM profiles p JOIN sites s ON s.id = p.assigned_site_id JOIN workers w ON w.site_id = s.id JOIN face_templates t ON t.worker_id = w.id
+    WHERE p.id = auth.uid() AND s.offline_matching_enabled AND w.is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.site_face_gallery() TO authenticated;
+
+-- =============================================
+-- 30. PAYOUT WAGE SHEETS (Figures as settled)
+-- =============================================
+
+-- Each worker's wage sheet as the payout priced it; payslips and payment lines read these
+-- instead of repricing with rates and rules changed since
+CREATE TABLE IF NOT EXISTS payment_batch_sheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_batch_id UUID REFERENCES payment_batches(id) ON DELETE CASCADE,
+  worker_id UUID REFERENCES workers(id) ON DELETE SET NULL,
+  sheet JSONB NOT NULL,
+  ledger_balance NUMERIC DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (payment_batch_id, worker_id)
+);
+
+ALTER TABLE payment_batch_sheets ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow payment batch sheet access" ON payment_batch_sheets;
+CREATE POLICY "Allow payment batch sheet access" ON payment_batch_sheets FOR ALL TO authenticated USING (true);
+
+-- =============================================
+-- 31. ENROLLMENT DUPLICATE CHECK (Every site, any enroller)
+-- =============================================
+
+-- Ghost-worker check when anyone enrolls a face: searches every site but only answers
+-- with the closest worker inside the duplicate threshold, so it can't be used to browse faces
+CREATE OR REPLACE FUNCTION public.enrollment_duplicate_face(probe vector(128))
+RETURNS TABLE (worker_id UUID, name TEXT, worker_number TEXT, distance FLOAT8) AS $$
+  SELECT * FROM nearest_faces(probe, 1, NULL) n WHERE n.distance <= 0.5;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enrollment_duplicate_face(vector) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enrollment_duplicate_face(vector) TO authenticated;